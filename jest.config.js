@@ -0,0 +1,10 @@
+/** @type {import('ts-jest').JestConfigWithTsJest} */
+module.exports = {
+  preset: "ts-jest",
+  testEnvironment: "node",
+  roots: ["<rootDir>/tests"],
+  moduleNameMapper: {
+    "^@/config/(.*)$": "<rootDir>/src/core/config/$1",
+    "^@/(.*)$": "<rootDir>/src/$1",
+  },
+};
@@ -11,8 +11,9 @@ const app: Application = express();
 // Security & core middleware
 registerMiddleware(app);
 
-app.use(errorHandler);
-
 app.use("/api", initiControllersRoutes());
 
+// Must be registered after the routes so that route errors reach it
+app.use(errorHandler);
+
 void startServer(app);
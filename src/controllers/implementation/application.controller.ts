@@ -9,10 +9,19 @@ import { controller } from "@/core/decorators/controller.decorator";
 import { authenticate } from "@/middleware/implementation/auth";
 import { initializeCaller } from "@/middleware/implementation/callerInit";
 import { Request, Response } from "express";
-import { Post } from "@/core/decorators/route.decorator";
+import { Get, Post } from "@/core/decorators/route.decorator";
 import { Public } from "@/core/decorators/public.decorator";
+import { RequirePermission } from "@/core/decorators/authorize.decorator";
+import { Permission } from "@/data/enums/permission";
+import { StageTransitionVm } from "@/data/models/StageTransitionVm";
+import { ApplicationStageHistoryResult } from "@/data/results/application_stage_history_result";
+import { FormTemplateSnapshotResult } from "@/data/results/form_template_version_result";
+import { ApplicationSearchFilter } from "@/data/filters/application_search_filter";
+import { ApplicationSearchResult } from "@/data/results/application_search_result";
+import { ApplicationEventResult } from "@/data/results/application_event_result";
 
 @injectable()
+@RequirePermission(Permission.ApplicationRead)
 @controller("/application", [initializeCaller, authenticate])
 export class ApplicationController extends BaseController<
   Application,
@@ -20,10 +29,15 @@ export class ApplicationController extends BaseController<
   Filter,
   Result<Application>
 > {
+  //#region Service Initialization
+  private readonly _applicationService: ApplicationService;
+  //#endregion
+
   constructor(
     @inject(TYPES.ApplicationService) applicationService: ApplicationService,
   ) {
     super(applicationService);
+    this._applicationService = applicationService;
   }
 
   /**
@@ -53,4 +67,135 @@ export class ApplicationController extends BaseController<
       ),
     );
   }
+
+  /**
+   * Moves an application to another pipeline stage
+   * @param req Express request object containing the application ID and target stage
+   * @param res Express response object
+   * @returns ApiResponse containing the updated application
+   */
+  @RequirePermission(Permission.ApplicationStageChange)
+  @Post("/:id/transition")
+  async transitionStage(
+    req: Request<{ id: string }, any, StageTransitionVm, any>,
+    res: Response<ApiResponse<Result<Application>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Stage updated successfully",
+        await this._applicationService.transitionStageAsync(
+          req.params.id,
+          req.body,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Get the stage transitions of an application
+   * @param req Express request object containing the application ID
+   * @param res Express response object
+   * @returns ApiResponse containing the stage history, oldest first
+   */
+  @Get("/:id/stage-history")
+  async getStageHistory(
+    req: Request<{ id: string }>,
+    res: Response<ApiResponse<Result<ApplicationStageHistoryResult[]>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._applicationService.getStageHistoryAsync(req.params.id),
+      ),
+    );
+  }
+
+  /**
+   * Get the timeline of an application
+   * @param req Express request object containing the application ID
+   * @param res Express response object
+   * @returns ApiResponse containing creation, edits, stage changes and emails in chronological order
+   */
+  @Get("/:id/timeline")
+  async getTimeline(
+    req: Request<{ id: string }>,
+    res: Response<ApiResponse<Result<ApplicationEventResult[]>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._applicationService.getTimelineAsync(req.params.id),
+      ),
+    );
+  }
+
+  /**
+   * Get the form version an application was submitted against
+   * @param req Express request object containing the application ID
+   * @param res Express response object
+   * @returns ApiResponse containing the sections, fields and options used to interpret MetaData
+   */
+  @Get("/:id/form")
+  async getSubmittedForm(
+    req: Request<{ id: string }>,
+    res: Response<ApiResponse<Result<FormTemplateSnapshotResult | null>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._applicationService.getSubmittedFormAsync(req.params.id),
+      ),
+    );
+  }
+
+  /**
+   * Full-text search over name, email, experience and resume text
+   * @param req Express request object containing the query, optional PositionId/StageId and paging
+   * @param res Express response object
+   * @returns ApiResponse containing the ranked, paginated matches
+   */
+  @Post("/search")
+  async search(
+    req: Request<any, any, ApplicationSearchFilter>,
+    res: Response<ApiResponse<Result<ApplicationSearchResult>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._applicationService.searchAsync(req.body),
+      ),
+    );
+  }
+
+  /**
+   * Extracts the text of the uploaded resume again
+   * @param req Express request object containing the application ID
+   * @param res Express response object
+   * @returns ApiResponse containing the application with its resume text
+   */
+  @RequirePermission(Permission.ApplicationWrite)
+  @Post("/:id/extract-resume")
+  async extractResume(
+    req: Request<{ id: string }>,
+    res: Response<ApiResponse<Result<Application>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._applicationService.extractResumeTextAsync(req.params.id),
+      ),
+    );
+  }
 }
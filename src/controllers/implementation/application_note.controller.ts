@@ -0,0 +1,81 @@
+import { ApplicationNote } from "@/data/entities/application_note";
+import { BaseController } from "../base/base.controller";
+import { Filter } from "@/data/filters/filter";
+import { Result, Response as ApiResponse } from "@/data/response/response";
+import { inject, injectable } from "inversify";
+import { controller } from "@/core/decorators/controller.decorator";
+import { authenticate } from "@/middleware/implementation/auth";
+import { initializeCaller } from "@/middleware/implementation/callerInit";
+import { TYPES } from "@/core/container/types";
+import { ApplicationNoteService } from "@/service/implementation/application_note.service";
+import { Get } from "@/core/decorators/route.decorator";
+import { ApplicationNoteResult } from "@/data/results/application_note_result";
+import { Request, Response } from "express";
+import { RequirePermission } from "@/core/decorators/authorize.decorator";
+import { Permission } from "@/data/enums/permission";
+
+@injectable()
+@RequirePermission(Permission.ApplicationRead)
+@controller("/applicationNote", [initializeCaller, authenticate])
+export class ApplicationNoteController extends BaseController<
+  ApplicationNote,
+  ApplicationNote,
+  Filter,
+  Result<ApplicationNote>
+> {
+  //#region Service Initialization
+  private readonly _applicationNoteService: ApplicationNoteService;
+  //#endregion
+
+  constructor(
+    @inject(TYPES.ApplicationNoteService)
+    applicationNoteService: ApplicationNoteService,
+  ) {
+    super(applicationNoteService);
+    this._applicationNoteService = applicationNoteService;
+  }
+
+  /**
+   * Get the note threads of an application visible to the caller
+   * @param req
+   * @param res
+   * @returns ApiResponse containing the threads, newest first, with their replies
+   */
+  @Get("/application/:applicationId")
+  async getThreads(
+    req: Request<{ applicationId: string }>,
+    res: Response<ApiResponse<Result<ApplicationNoteResult[]>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._applicationNoteService.getThreadsAsync(
+          req.params.applicationId,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Get the team notes that mention the caller
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Get("/mentions/me")
+  async getMyMentions(
+    req: Request,
+    res: Response<ApiResponse<Result<ApplicationNote[]>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._applicationNoteService.getMyMentionsAsync(),
+      ),
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { ApplicationRating } from "@/data/entities/application_rating";
+import { BaseController } from "../base/base.controller";
+import { Filter } from "@/data/filters/filter";
+import { Result, Response as ApiResponse } from "@/data/response/response";
+import { inject, injectable } from "inversify";
+import { controller } from "@/core/decorators/controller.decorator";
+import { authenticate } from "@/middleware/implementation/auth";
+import { initializeCaller } from "@/middleware/implementation/callerInit";
+import { TYPES } from "@/core/container/types";
+import { ApplicationRatingService } from "@/service/implementation/application_rating.service";
+import { Delete, Get, Post } from "@/core/decorators/route.decorator";
+import { ApplicationRatingVm } from "@/data/models/ApplicationRatingVm";
+import { ApplicationRatingSummaryResult } from "@/data/results/application_rating_result";
+import { Request, Response } from "express";
+import { RequirePermission } from "@/core/decorators/authorize.decorator";
+import { Permission } from "@/data/enums/permission";
+
+@injectable()
+@RequirePermission(Permission.ApplicationRead)
+@controller("/applicationRating", [initializeCaller, authenticate])
+export class ApplicationRatingController extends BaseController<
+  ApplicationRating,
+  ApplicationRating,
+  Filter,
+  Result<ApplicationRating>
+> {
+  //#region Service Initialization
+  private readonly _applicationRatingService: ApplicationRatingService;
+  //#endregion
+
+  constructor(
+    @inject(TYPES.ApplicationRatingService)
+    applicationRatingService: ApplicationRatingService,
+  ) {
+    super(applicationRatingService);
+    this._applicationRatingService = applicationRatingService;
+  }
+
+  /**
+   * Rate an application (1-5), replacing the caller's earlier rating
+   * @param req
+   * @param res
+   * @returns ApiResponse containing the caller's rating
+   */
+  @RequirePermission(Permission.ApplicationWrite)
+  @Post("/application/:applicationId")
+  async rate(
+    req: Request<{ applicationId: string }, any, ApplicationRatingVm>,
+    res: Response<ApiResponse<Result<ApplicationRating>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Rating saved successfully",
+        await this._applicationRatingService.rateAsync(
+          req.params.applicationId,
+          req.body,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Get the ratings of an application with the average
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Get("/application/:applicationId")
+  async getSummary(
+    req: Request<{ applicationId: string }>,
+    res: Response<ApiResponse<Result<ApplicationRatingSummaryResult>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._applicationRatingService.getSummaryAsync(
+          req.params.applicationId,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Withdraw the caller's rating of an application
+   * @param req
+   * @param res
+   * @returns
+   */
+  @RequirePermission(Permission.ApplicationWrite)
+  @Delete("/application/:applicationId")
+  async removeRating(
+    req: Request<{ applicationId: string }>,
+    res: Response<ApiResponse<boolean>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._applicationRatingService.removeRatingAsync(
+          req.params.applicationId,
+        ),
+      ),
+    );
+  }
+}
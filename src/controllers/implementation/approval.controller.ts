@@ -0,0 +1,150 @@
+import { ApprovalChain } from "@/data/entities/approval_chain";
+import { BaseController } from "../base/base.controller";
+import { Filter } from "@/data/filters/filter";
+import { Result, Response as ApiResponse } from "@/data/response/response";
+import { inject, injectable } from "inversify";
+import { controller } from "@/core/decorators/controller.decorator";
+import { authenticate } from "@/middleware/implementation/auth";
+import { initializeCaller } from "@/middleware/implementation/callerInit";
+import { AuthorizeRoutes } from "@/core/decorators/authorize.decorator";
+import { Role } from "@/data/enums/role";
+import { TYPES } from "@/core/container/types";
+import { ApprovalService } from "@/service/implementation/approval.service";
+import { Get, Post } from "@/core/decorators/route.decorator";
+import { ApprovalChainVm, ApprovalDecisionVm } from "@/data/models/ApprovalVm";
+import { ApprovalRequestResult } from "@/data/results/approval_result";
+import { ApprovalEntityType } from "@/data/enums/approval_entity_type";
+import { Request, Response } from "express";
+
+@injectable()
+@AuthorizeRoutes({
+  create: [Role.Admin],
+  update: [Role.Admin],
+  delete: [Role.Admin],
+})
+@controller("/approval", [initializeCaller, authenticate])
+export class ApprovalController extends BaseController<
+  ApprovalChainVm,
+  ApprovalChain,
+  Filter,
+  Result<ApprovalChain>
+> {
+  //#region Service Initialization
+  private readonly _approvalService: ApprovalService;
+  //#endregion
+
+  constructor(
+    @inject(TYPES.ApprovalService) approvalService: ApprovalService,
+  ) {
+    super(approvalService);
+    this._approvalService = approvalService;
+  }
+
+  /**
+   * Get the approval requests awaiting the caller's decision
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Get("/request/pending")
+  async getPending(
+    req: Request,
+    res: Response<ApiResponse<Result<ApprovalRequestResult[]>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._approvalService.getPendingAsync(),
+      ),
+    );
+  }
+
+  /**
+   * Get an approval request with its steps
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Get("/request/:id")
+  async getRequest(
+    req: Request<{ id: string }>,
+    res: Response<ApiResponse<Result<ApprovalRequestResult>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._approvalService.getRequestAsync(req.params.id),
+      ),
+    );
+  }
+
+  /**
+   * Get the approval requests of a record
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Get("/entity/:entityType/:entityId")
+  async getByEntity(
+    req: Request<{ entityType: ApprovalEntityType; entityId: string }>,
+    res: Response<ApiResponse<Result<ApprovalRequestResult[]>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._approvalService.getByEntityAsync(
+          req.params.entityType,
+          req.params.entityId,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Approves a request as the caller
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Post("/request/:id/approve")
+  async approve(
+    req: Request<{ id: string }, any, ApprovalDecisionVm>,
+    res: Response<ApiResponse<Result<ApprovalRequestResult>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Request approved",
+        await this._approvalService.approveAsync(req.params.id, req.body),
+      ),
+    );
+  }
+
+  /**
+   * Rejects a request as the caller
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Post("/request/:id/reject")
+  async reject(
+    req: Request<{ id: string }, any, ApprovalDecisionVm>,
+    res: Response<ApiResponse<Result<ApprovalRequestResult>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Request rejected",
+        await this._approvalService.rejectAsync(req.params.id, req.body),
+      ),
+    );
+  }
+}
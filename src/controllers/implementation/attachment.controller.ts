@@ -0,0 +1,170 @@
+import { Attachment } from "@/data/entities/attachment";
+import { BaseController } from "../base/base.controller";
+import { Filter } from "@/data/filters/filter";
+import { Result, Response as ApiResponse } from "@/data/response/response";
+import { inject, injectable } from "inversify";
+import { controller } from "@/core/decorators/controller.decorator";
+import { authenticate } from "@/middleware/implementation/auth";
+import { initializeCaller } from "@/middleware/implementation/callerInit";
+import { uploadFile } from "@/middleware/implementation/upload";
+import { TYPES } from "@/core/container/types";
+import { AttachmentService } from "@/service/implementation/attachment.service";
+import { Get, Post } from "@/core/decorators/route.decorator";
+import { Public } from "@/core/decorators/public.decorator";
+import { AttachmentUrlResult } from "@/data/results/attachment_result";
+import { UploadedFileVm } from "@/data/models/UploadedFileVm";
+import { Request, Response } from "express";
+import { RequirePermission } from "@/core/decorators/authorize.decorator";
+import { Permission } from "@/data/enums/permission";
+
+@injectable()
+@RequirePermission(Permission.ApplicationRead)
+@controller("/attachment", [initializeCaller, authenticate])
+export class AttachmentController extends BaseController<
+  Attachment,
+  Attachment,
+  Filter,
+  Result<Attachment>
+> {
+  //#region Service Initialization
+  private readonly _attachmentService: AttachmentService;
+  //#endregion
+
+  constructor(
+    @inject(TYPES.AttachmentService) attachmentService: AttachmentService,
+  ) {
+    super(attachmentService);
+    this._attachmentService = attachmentService;
+  }
+
+  /**
+   * Uploads a file (multipart field "file") for the organization
+   * @param req
+   * @param res
+   * @returns ApiResponse containing the stored attachment
+   */
+  @RequirePermission(Permission.ApplicationWrite)
+  @Post("/upload", [uploadFile()])
+  async upload(req: Request, res: Response<ApiResponse<Result<Attachment>>>) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "File uploaded successfully",
+        await this._attachmentService.uploadAsync(this.toUploadedFile(req)),
+      ),
+    );
+  }
+
+  /**
+   * Uploads a file (multipart field "file") for a candidate applying to an open position
+   * The returned Uid is submitted as Application.ResumeId or as the answer of a File field
+   * @param req
+   * @param res
+   * @returns ApiResponse containing the stored attachment
+   */
+  @Public()
+  @Post("/public/:orgId/position/:positionId/upload", [
+    initializeCaller,
+    uploadFile(),
+  ])
+  async uploadForPublic(
+    req: Request<{ orgId: string; positionId: string }>,
+    res: Response<ApiResponse<Result<Attachment>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "File uploaded successfully",
+        await this._attachmentService.uploadForPositionAsync(
+          this.toUploadedFile(req),
+          req.params.orgId,
+          req.params.positionId,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Get the files uploaded with an application
+   * @param req
+   * @param res
+   * @returns ApiResponse containing the attachments of the application
+   */
+  @Get("/application/:applicationId")
+  async getByApplication(
+    req: Request<{ applicationId: string }>,
+    res: Response<ApiResponse<Result<Attachment[]>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._attachmentService.getByApplicationAsync(
+          req.params.applicationId,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Creates a signed, expiring download URL for an attachment
+   * @param req
+   * @param res
+   * @returns ApiResponse containing the URL and when it expires
+   */
+  @Get("/:id/url")
+  async getDownloadUrl(
+    req: Request<{ id: string }>,
+    res: Response<ApiResponse<Result<AttachmentUrlResult>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._attachmentService.getDownloadUrlAsync(req.params.id),
+      ),
+    );
+  }
+
+  /**
+   * Downloads an attachment through a signed URL created by /:id/url
+   * @param req
+   * @param res
+   * @returns The file content
+   */
+  @Public()
+  @Get("/download/:id")
+  async download(
+    req: Request<
+      { id: string },
+      any,
+      any,
+      { orgId: string; expires: string; signature: string }
+    >,
+    res: Response,
+  ) {
+    const { Attachment, Content } = await this._attachmentService.downloadAsync(
+      req.params.id,
+      req.query.orgId,
+      req.query.expires,
+      req.query.signature,
+    );
+
+    res.attachment(Attachment.FileName);
+    res.type(Attachment.ContentType);
+    res.setHeader("Cache-Control", "private, no-store");
+    return res.send(Content);
+  }
+
+  private toUploadedFile(req: Request<any>): UploadedFileVm {
+    return {
+      FileName: req.file!.originalname,
+      ContentType: req.file!.mimetype,
+      Content: req.file!.buffer,
+    };
+  }
+}
@@ -7,8 +7,13 @@ import { TYPES } from "@/core/container/types";
 import { Public } from "@/core/decorators/public.decorator";
 import { LoginRequest } from "@/data/models/loginRequest";
 import { AuthResult } from "@/data/models/authResult";
+import {
+  ForgotPasswordRequest,
+  ResetPasswordRequest,
+} from "@/data/models/passwordResetRequest";
 import { AuthService } from "@/service/implementation/auth.service";
 import { initializeCaller } from "@/middleware/implementation/callerInit";
+import { authenticate } from "@/middleware/implementation/auth";
 
 @injectable()
 @controller("/auth", [initializeCaller])
@@ -57,4 +62,76 @@ export class AuthController {
       ),
     );
   }
+
+  /**
+   * Ends the session of a refresh token
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Public()
+  @Post("/logout")
+  async logout(
+    req: Request<any, any, { RefreshToken: string }, any>,
+    res: Response<ApiResponse<null>>,
+  ) {
+    await this._authService.logout(req.body?.RefreshToken);
+    return res.send(new ApiResponse(true, 200, "Logged out", null));
+  }
+
+  /**
+   * Ends every session of the caller
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Post("/logout-all", [authenticate])
+  async logoutAll(req: Request, res: Response<ApiResponse<null>>) {
+    await this._authService.logoutAll();
+    return res.send(
+      new ApiResponse(true, 200, "Logged out of all sessions", null),
+    );
+  }
+
+  /**
+   * Emails a password reset link
+   * The response is the same whether or not an account uses the email
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Public()
+  @Post("/forgot-password")
+  async forgotPassword(
+    req: Request<any, any, ForgotPasswordRequest, any>,
+    res: Response<ApiResponse<null>>,
+  ) {
+    await this._authService.forgotPassword(req.body);
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "If an account exists for this email, a password reset link has been sent",
+        null,
+      ),
+    );
+  }
+
+  /**
+   * Sets a new password with the token from a password reset link
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Public()
+  @Post("/reset-password")
+  async resetPassword(
+    req: Request<any, any, ResetPasswordRequest, any>,
+    res: Response<ApiResponse<null>>,
+  ) {
+    await this._authService.resetPassword(req.body);
+    return res.send(
+      new ApiResponse(true, 200, "Password has been reset", null),
+    );
+  }
 }
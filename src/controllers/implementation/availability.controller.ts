@@ -0,0 +1,193 @@
+import { UserAvailability } from "@/data/entities/user_availability";
+import { UserBlackout } from "@/data/entities/user_blackout";
+import { BaseController } from "../base/base.controller";
+import { Filter } from "@/data/filters/filter";
+import { Result, Response as ApiResponse } from "@/data/response/response";
+import { inject, injectable } from "inversify";
+import { controller } from "@/core/decorators/controller.decorator";
+import { authenticate } from "@/middleware/implementation/auth";
+import { initializeCaller } from "@/middleware/implementation/callerInit";
+import { TYPES } from "@/core/container/types";
+import { AvailabilityService } from "@/service/implementation/availability.service";
+import { Delete, Get, Post, Put } from "@/core/decorators/route.decorator";
+import {
+  BlackoutVm,
+  SlotSearchVm,
+  WeeklyAvailabilityVm,
+} from "@/data/models/AvailabilityVm";
+import {
+  TimeSlotResult,
+  WeeklyAvailabilityResult,
+} from "@/data/results/availability_result";
+import { Request, Response } from "express";
+import { Authorize, AuthorizeRoutes } from "@/core/decorators/authorize.decorator";
+import { Role } from "@/data/enums/role";
+
+@injectable()
+@Authorize()
+@AuthorizeRoutes({ delete: [Role.Admin] })
+@controller("/availability", [initializeCaller, authenticate])
+export class AvailabilityController extends BaseController<
+  UserAvailability,
+  UserAvailability,
+  Filter,
+  Result<UserAvailability>
+> {
+  //#region Service Initialization
+  private readonly _availabilityService: AvailabilityService;
+  //#endregion
+
+  constructor(
+    @inject(TYPES.AvailabilityService) availabilityService: AvailabilityService,
+  ) {
+    super(availabilityService);
+    this._availabilityService = availabilityService;
+  }
+
+  /**
+   * Get the weekly availability of a user
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Get("/user/:userId/weekly")
+  async getWeekly(
+    req: Request<{ userId: string }>,
+    res: Response<ApiResponse<Result<WeeklyAvailabilityResult>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._availabilityService.getWeeklyAsync(req.params.userId),
+      ),
+    );
+  }
+
+  /**
+   * Get the caller's weekly availability
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Get("/me/weekly")
+  async getMyWeekly(
+    req: Request,
+    res: Response<ApiResponse<Result<WeeklyAvailabilityResult>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._availabilityService.getMyWeeklyAsync(),
+      ),
+    );
+  }
+
+  /**
+   * Publish the caller's weekly availability
+   * @param req
+   * @param res
+   * @returns ApiResponse containing the saved availability
+   */
+  @Put("/me/weekly")
+  async setWeekly(
+    req: Request<any, any, WeeklyAvailabilityVm>,
+    res: Response<ApiResponse<Result<WeeklyAvailabilityResult>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Availability saved successfully",
+        await this._availabilityService.setWeeklyAsync(req.body),
+      ),
+    );
+  }
+
+  /**
+   * Get the caller's current and upcoming blackout periods
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Get("/me/blackouts")
+  async getBlackouts(
+    req: Request,
+    res: Response<ApiResponse<Result<UserBlackout[]>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._availabilityService.getBlackoutsAsync(),
+      ),
+    );
+  }
+
+  /**
+   * Add a period the caller is unavailable
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Post("/me/blackouts")
+  async addBlackout(
+    req: Request<any, any, BlackoutVm>,
+    res: Response<ApiResponse<Result<UserBlackout>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._availabilityService.addBlackoutAsync(req.body),
+      ),
+    );
+  }
+
+  /**
+   * Remove one of the caller's blackout periods
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Delete("/me/blackouts/:id")
+  async removeBlackout(
+    req: Request<{ id: string }>,
+    res: Response<ApiResponse<boolean>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._availabilityService.removeBlackoutAsync(req.params.id),
+      ),
+    );
+  }
+
+  /**
+   * Find times when all the given interviewers are free
+   * @param req
+   * @param res
+   * @returns ApiResponse containing the slots in chronological order
+   */
+  @Post("/slots/search")
+  async findSlots(
+    req: Request<any, any, SlotSearchVm>,
+    res: Response<ApiResponse<Result<TimeSlotResult[]>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._availabilityService.findSlotsAsync(req.body),
+      ),
+    );
+  }
+}
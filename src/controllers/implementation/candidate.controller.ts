@@ -0,0 +1,108 @@
+import { Candidate } from "@/data/entities/candidate";
+import { Application } from "@/data/entities/application";
+import { BaseController } from "../base/base.controller";
+import { Filter } from "@/data/filters/filter";
+import { Result, Response as ApiResponse } from "@/data/response/response";
+import { inject, injectable } from "inversify";
+import { controller } from "@/core/decorators/controller.decorator";
+import { authenticate } from "@/middleware/implementation/auth";
+import { initializeCaller } from "@/middleware/implementation/callerInit";
+import { TYPES } from "@/core/container/types";
+import { CandidateService } from "@/service/implementation/candidate.service";
+import { Get, Post } from "@/core/decorators/route.decorator";
+import { CandidateDuplicateResult } from "@/data/results/candidate_result";
+import { CandidateMergeVm } from "@/data/models/CandidateMergeVm";
+import { Request, Response } from "express";
+import { AuthorizeRoutes, RequirePermission } from "@/core/decorators/authorize.decorator";
+import { Role } from "@/data/enums/role";
+import { Permission } from "@/data/enums/permission";
+
+@injectable()
+@AuthorizeRoutes({
+  create: [Role.Admin],
+  update: [Role.Admin],
+  delete: [Role.Admin],
+})
+@RequirePermission(Permission.ApplicationRead)
+@controller("/candidate", [initializeCaller, authenticate])
+export class CandidateController extends BaseController<
+  Candidate,
+  Candidate,
+  Filter,
+  Result<Candidate>
+> {
+  //#region Service Initialization
+  private readonly _candidateService: CandidateService;
+  //#endregion
+
+  constructor(
+    @inject(TYPES.CandidateService) candidateService: CandidateService,
+  ) {
+    super(candidateService);
+    this._candidateService = candidateService;
+  }
+
+  /**
+   * Get the candidates that are likely the same person, best match first
+   * @param req
+   * @param res
+   * @returns ApiResponse containing the suggestions with their scores and reasons
+   */
+  @Get("/:id/duplicates")
+  async getDuplicates(
+    req: Request<{ id: string }>,
+    res: Response<ApiResponse<Result<CandidateDuplicateResult[]>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._candidateService.getDuplicatesAsync(req.params.id),
+      ),
+    );
+  }
+
+  /**
+   * Merge other candidates into a candidate, moving their applications
+   * @param req
+   * @param res
+   * @returns ApiResponse containing the merged candidate
+   */
+  @RequirePermission(Permission.ApplicationWrite)
+  @Post("/:id/merge")
+  async merge(
+    req: Request<{ id: string }, any, CandidateMergeVm>,
+    res: Response<ApiResponse<Result<Candidate>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Candidates merged successfully",
+        await this._candidateService.mergeAsync(req.params.id, req.body),
+      ),
+    );
+  }
+
+  /**
+   * Get the applications of a candidate, newest first
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Get("/:id/applications")
+  async getApplications(
+    req: Request<{ id: string }>,
+    res: Response<ApiResponse<Result<Application[]>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._candidateService.getApplicationsAsync(req.params.id),
+      ),
+    );
+  }
+}
@@ -11,8 +11,15 @@ import { FormFieldService } from "@/service/implementation/form_field.service";
 import { Post } from "@/core/decorators/route.decorator";
 import { Request, Response } from "express";
 import { Response as ApiResponse } from "@/data/response/response";
+import { Authorize, AuthorizeRoutes } from "@/core/decorators/authorize.decorator";
+import { Role } from "@/data/enums/role";
 
 @injectable()
+@AuthorizeRoutes({
+  create: [Role.Admin],
+  update: [Role.Admin],
+  delete: [Role.Admin],
+})
 @controller("/formField", [initializeCaller, authenticate])
 export class FormFieldController extends BaseController<
   FormField,
@@ -35,6 +42,7 @@ export class FormFieldController extends BaseController<
    * @param res
    * @returns
    */
+  @Authorize(Role.Admin)
   @Post("/upsert")
   async upsertFormFields(
     req: Request<any, any, FormField[], any>,
@@ -10,8 +10,15 @@ import { TYPES } from "@/core/container/types";
 import { FormTemplateService } from "@/service/implementation/form_template.service";
 import { FormSection } from "@/data/entities/form_section";
 import { FormSectionService } from "@/service/implementation/form_section.service";
+import { AuthorizeRoutes } from "@/core/decorators/authorize.decorator";
+import { Role } from "@/data/enums/role";
 
 @injectable()
+@AuthorizeRoutes({
+  create: [Role.Admin],
+  update: [Role.Admin],
+  delete: [Role.Admin],
+})
 @controller("/formSection", [initializeCaller, authenticate])
 export class FormSectionController extends BaseController<
   FormSection,
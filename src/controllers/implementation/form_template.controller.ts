@@ -10,10 +10,28 @@ import { TYPES } from "@/core/container/types";
 import { FormTemplateService } from "@/service/implementation/form_template.service";
 import { FormTemplateResult } from "@/data/results/form_template_result";
 import { Request, Response } from "express";
-import { Get } from "@/core/decorators/route.decorator";
+import { Get, Post } from "@/core/decorators/route.decorator";
 import { Public } from "@/core/decorators/public.decorator";
+import { FormTemplateVersionService } from "@/service/implementation/form_template_version.service";
+import { FormTemplateVersion } from "@/data/entities/form_template_version";
+import {
+  FormTemplateDiffResult,
+  FormTemplateSnapshotResult,
+} from "@/data/results/form_template_version_result";
+import { PublishFormTemplateVm } from "@/data/models/PublishFormTemplateVm";
+import {
+  CloneFormTemplateVm,
+  FormTemplateDocument,
+} from "@/data/models/FormTemplateDocument";
+import { Authorize, AuthorizeRoutes } from "@/core/decorators/authorize.decorator";
+import { Role } from "@/data/enums/role";
 
 @injectable()
+@AuthorizeRoutes({
+  create: [Role.Admin],
+  update: [Role.Admin],
+  delete: [Role.Admin],
+})
 @controller("/formTemplate", [initializeCaller, authenticate])
 export class FormTemplateController extends BaseController<
   FormTemplate,
@@ -23,17 +41,22 @@ export class FormTemplateController extends BaseController<
 > {
   //#region Service Initialization
   private readonly _formTemplateService: FormTemplateService;
+  private readonly _formTemplateVersionService: FormTemplateVersionService;
   //#endregion
 
   constructor(
     @inject(TYPES.FormTemplateService) formTemplateService: FormTemplateService,
+    @inject(TYPES.FormTemplateVersionService)
+    formTemplateVersionService: FormTemplateVersionService,
   ) {
     super(formTemplateService);
     this._formTemplateService = formTemplateService;
+    this._formTemplateVersionService = formTemplateVersionService;
   }
 
   /**
-   * Get form template by id for public access
+   * Get the form candidates fill in for public access
+   * Returns the latest published version, or the draft if it was never published
    * @param req
    * @param res
    * @returns
@@ -42,18 +65,179 @@ export class FormTemplateController extends BaseController<
   @Get("/public/:orgId/:templateId")
   async getFormTemplateByIdForPublic(
     req: Request<{ orgId: string; templateId: string }>,
-    res: Response<ApiResponse<Result<FormTemplateResult>>>,
+    res: Response<ApiResponse<Result<FormTemplateSnapshotResult | null>>>,
   ) {
     return res.send(
       new ApiResponse(
         true,
         200,
         "Success",
-        await this._formTemplateService.getFormTemplateByIdForPublic(
+        await this._formTemplateVersionService.getPublishedFormAsync(
           req.params.templateId,
           req.params.orgId,
         ),
       ),
     );
   }
+
+  /**
+   * Publishes the current draft of a template as a new immutable version
+   * @param req Express request object containing the template ID and optional notes
+   * @param res Express response object
+   * @returns ApiResponse containing the new version
+   */
+  @Authorize(Role.Admin)
+  @Post("/:id/publish")
+  async publish(
+    req: Request<{ id: string }, any, PublishFormTemplateVm>,
+    res: Response<ApiResponse<Result<FormTemplateVersion>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Form published successfully",
+        await this._formTemplateVersionService.publishAsync(
+          req.params.id,
+          req.body,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Get the published versions of a template, newest first
+   * @param req Express request object containing the template ID
+   * @param res Express response object
+   * @returns ApiResponse containing the versions without their snapshots
+   */
+  @Get("/:id/versions")
+  async getVersions(
+    req: Request<{ id: string }>,
+    res: Response<ApiResponse<Result<FormTemplateVersion[]>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._formTemplateVersionService.getVersionsAsync(req.params.id),
+      ),
+    );
+  }
+
+  /**
+   * Get a published version of a template, or the draft
+   * @param req Express request object containing the template ID and version number or "draft"
+   * @param res Express response object
+   * @returns ApiResponse containing the sections, fields and options of the version
+   */
+  @Get("/:id/versions/:version")
+  async getVersion(
+    req: Request<{ id: string; version: string }>,
+    res: Response<ApiResponse<Result<FormTemplateSnapshotResult>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._formTemplateVersionService.getVersionAsync(
+          req.params.id,
+          req.params.version,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Compares two versions of a template
+   * @param req Express request object containing the template ID and the from/to versions
+   * (version numbers or "draft")
+   * @param res Express response object
+   * @returns ApiResponse containing the template, section and field changes
+   */
+  @Get("/:id/diff/:from/:to")
+  async diff(
+    req: Request<{ id: string; from: string; to: string }>,
+    res: Response<ApiResponse<Result<FormTemplateDiffResult>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._formTemplateVersionService.diffAsync(
+          req.params.id,
+          req.params.from,
+          req.params.to,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Deep-copies a template with its sections, fields and option groups
+   * @param req Express request object containing the template ID and optional new name
+   * @param res Express response object
+   * @returns ApiResponse containing the new template
+   */
+  @Authorize(Role.Admin)
+  @Post("/:id/clone")
+  async clone(
+    req: Request<{ id: string }, any, CloneFormTemplateVm>,
+    res: Response<ApiResponse<Result<FormTemplateResult | null>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Form cloned successfully",
+        await this._formTemplateService.cloneAsync(req.params.id, req.body),
+      ),
+    );
+  }
+
+  /**
+   * Exports a template as a portable JSON document
+   * @param req Express request object containing the template ID
+   * @param res Express response object
+   * @returns ApiResponse containing the template document
+   */
+  @Get("/:id/export")
+  async export(
+    req: Request<{ id: string }>,
+    res: Response<ApiResponse<Result<FormTemplateDocument>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._formTemplateService.exportAsync(req.params.id),
+      ),
+    );
+  }
+
+  /**
+   * Creates a template from an exported JSON document
+   * @param req Express request object containing the template document
+   * @param res Express response object
+   * @returns ApiResponse containing the new template
+   */
+  @Authorize(Role.Admin)
+  @Post("/import")
+  async import(
+    req: Request<any, any, FormTemplateDocument>,
+    res: Response<ApiResponse<Result<FormTemplateResult | null>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Form imported successfully",
+        await this._formTemplateService.importAsync(req.body),
+      ),
+    );
+  }
 }
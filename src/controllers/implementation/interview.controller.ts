@@ -0,0 +1,130 @@
+import { Interview } from "@/data/entities/interview";
+import { BaseController } from "../base/base.controller";
+import { Filter } from "@/data/filters/filter";
+import { Result, Response as ApiResponse } from "@/data/response/response";
+import { inject, injectable } from "inversify";
+import { controller } from "@/core/decorators/controller.decorator";
+import { authenticate } from "@/middleware/implementation/auth";
+import { initializeCaller } from "@/middleware/implementation/callerInit";
+import { TYPES } from "@/core/container/types";
+import { InterviewService } from "@/service/implementation/interview.service";
+import { Get, Post } from "@/core/decorators/route.decorator";
+import {
+  CancelInterviewVm,
+  InterviewVm,
+  RescheduleInterviewVm,
+} from "@/data/models/InterviewVm";
+import { InterviewResult } from "@/data/results/interview_result";
+import { Request, Response } from "express";
+import { RequirePermission } from "@/core/decorators/authorize.decorator";
+import { Permission } from "@/data/enums/permission";
+
+@injectable()
+@RequirePermission(Permission.ApplicationRead)
+@controller("/interview", [initializeCaller, authenticate])
+export class InterviewController extends BaseController<
+  InterviewVm,
+  Interview,
+  Filter,
+  Result<Interview>
+> {
+  //#region Service Initialization
+  private readonly _interviewService: InterviewService;
+  //#endregion
+
+  constructor(
+    @inject(TYPES.InterviewService) interviewService: InterviewService,
+  ) {
+    super(interviewService);
+    this._interviewService = interviewService;
+  }
+
+  /**
+   * Get the interviews of an application with their panels
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Get("/application/:applicationId")
+  async getByApplication(
+    req: Request<{ applicationId: string }>,
+    res: Response<ApiResponse<Result<InterviewResult[]>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._interviewService.getByApplicationAsync(
+          req.params.applicationId,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Move an interview to another time or place and send the updated invitation
+   * @param req
+   * @param res
+   * @returns ApiResponse containing the rescheduled interview
+   */
+  @RequirePermission(Permission.ApplicationWrite)
+  @Post("/:id/reschedule")
+  async reschedule(
+    req: Request<{ id: string }, any, RescheduleInterviewVm>,
+    res: Response<ApiResponse<Result<Interview>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Interview rescheduled successfully",
+        await this._interviewService.rescheduleAsync(req.params.id, req.body),
+      ),
+    );
+  }
+
+  /**
+   * Cancel an interview and send the cancellation
+   * @param req
+   * @param res
+   * @returns ApiResponse containing the cancelled interview
+   */
+  @RequirePermission(Permission.ApplicationWrite)
+  @Post("/:id/cancel")
+  async cancel(
+    req: Request<{ id: string }, any, CancelInterviewVm>,
+    res: Response<ApiResponse<Result<Interview>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Interview cancelled successfully",
+        await this._interviewService.cancelAsync(req.params.id, req.body),
+      ),
+    );
+  }
+
+  /**
+   * Mark an interview as completed
+   * @param req
+   * @param res
+   * @returns
+   */
+  @RequirePermission(Permission.ApplicationWrite)
+  @Post("/:id/complete")
+  async complete(
+    req: Request<{ id: string }>,
+    res: Response<ApiResponse<Result<Interview>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._interviewService.completeAsync(req.params.id),
+      ),
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { InterviewFeedback } from "@/data/entities/interview_feedback";
+import { BaseController } from "../base/base.controller";
+import { Filter } from "@/data/filters/filter";
+import { Result, Response as ApiResponse } from "@/data/response/response";
+import { inject, injectable } from "inversify";
+import { controller } from "@/core/decorators/controller.decorator";
+import { authenticate } from "@/middleware/implementation/auth";
+import { initializeCaller } from "@/middleware/implementation/callerInit";
+import { TYPES } from "@/core/container/types";
+import { InterviewFeedbackService } from "@/service/implementation/interview_feedback.service";
+import { Get } from "@/core/decorators/route.decorator";
+import { InterviewFeedbackVm } from "@/data/models/InterviewFeedbackVm";
+import { FeedbackSummaryResult } from "@/data/results/interview_feedback_result";
+import { FormTemplateSnapshotResult } from "@/data/results/form_template_version_result";
+import { Request, Response } from "express";
+import { RequirePermission } from "@/core/decorators/authorize.decorator";
+import { Permission } from "@/data/enums/permission";
+
+@injectable()
+@RequirePermission(Permission.ApplicationRead)
+@controller("/interviewFeedback", [initializeCaller, authenticate])
+export class InterviewFeedbackController extends BaseController<
+  InterviewFeedbackVm,
+  InterviewFeedback,
+  Filter,
+  Result<InterviewFeedback>
+> {
+  //#region Service Initialization
+  private readonly _interviewFeedbackService: InterviewFeedbackService;
+  //#endregion
+
+  constructor(
+    @inject(TYPES.InterviewFeedbackService)
+    interviewFeedbackService: InterviewFeedbackService,
+  ) {
+    super(interviewFeedbackService);
+    this._interviewFeedbackService = interviewFeedbackService;
+  }
+
+  /**
+   * Get the feedback form interviewers fill in for an application
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Get("/application/:applicationId/form")
+  async getForm(
+    req: Request<{ applicationId: string }>,
+    res: Response<ApiResponse<Result<FormTemplateSnapshotResult>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._interviewFeedbackService.getFormAsync(
+          req.params.applicationId,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Get the feedback of an application with per-question averages and
+   * the hire/no-hire tally, optionally for one round
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Get("/application/:applicationId/summary")
+  async getSummary(
+    req: Request<{ applicationId: string }, any, any, { round?: string }>,
+    res: Response<ApiResponse<Result<FeedbackSummaryResult>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._interviewFeedbackService.getSummaryAsync(
+          req.params.applicationId,
+          req.query.round,
+        ),
+      ),
+    );
+  }
+}
@@ -0,0 +1,207 @@
+import { Offer } from "@/data/entities/offer";
+import { BaseController } from "../base/base.controller";
+import { Filter } from "@/data/filters/filter";
+import { Result, Response as ApiResponse } from "@/data/response/response";
+import { inject, injectable } from "inversify";
+import { controller } from "@/core/decorators/controller.decorator";
+import { authenticate } from "@/middleware/implementation/auth";
+import { initializeCaller } from "@/middleware/implementation/callerInit";
+import { TYPES } from "@/core/container/types";
+import { OfferService } from "@/service/implementation/offer.service";
+import { Get, Post } from "@/core/decorators/route.decorator";
+import { Public } from "@/core/decorators/public.decorator";
+import { OfferDecisionVm, OfferVm } from "@/data/models/OfferVm";
+import {
+  OfferLetterResult,
+  OfferResult,
+  PublicOfferResult,
+} from "@/data/results/offer_result";
+import { Request, Response } from "express";
+import { RequirePermission } from "@/core/decorators/authorize.decorator";
+import { Permission } from "@/data/enums/permission";
+
+@injectable()
+@RequirePermission(Permission.ApplicationRead)
+@controller("/offer", [initializeCaller, authenticate])
+export class OfferController extends BaseController<
+  OfferVm,
+  Offer,
+  Filter,
+  Result<Offer>
+> {
+  //#region Service Initialization
+  private readonly _offerService: OfferService;
+  //#endregion
+
+  constructor(@inject(TYPES.OfferService) offerService: OfferService) {
+    super(offerService);
+    this._offerService = offerService;
+  }
+
+  /**
+   * Get the offers of an application
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Get("/application/:applicationId")
+  async getByApplication(
+    req: Request<{ applicationId: string }>,
+    res: Response<ApiResponse<Result<OfferResult[]>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._offerService.getByApplicationAsync(req.params.applicationId),
+      ),
+    );
+  }
+
+  /**
+   * Downloads the offer letter as PDF
+   * @param req
+   * @param res
+   * @returns The PDF content
+   */
+  @Get("/:id/letter")
+  async getLetter(req: Request<{ id: string }>, res: Response) {
+    return this.sendLetter(
+      res,
+      await this._offerService.getLetterAsync(req.params.id),
+    );
+  }
+
+  /**
+   * Submits an offer for approval
+   * @param req
+   * @param res
+   * @returns
+   */
+  @RequirePermission(Permission.ApplicationWrite)
+  @Post("/:id/submit")
+  async submit(
+    req: Request<{ id: string }>,
+    res: Response<ApiResponse<Result<OfferResult>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Offer submitted for approval",
+        await this._offerService.submitAsync(req.params.id),
+      ),
+    );
+  }
+
+  /**
+   * Sends an approved offer to the candidate
+   * @param req
+   * @param res
+   * @returns
+   */
+  @RequirePermission(Permission.ApplicationWrite)
+  @Post("/:id/send")
+  async sendOffer(
+    req: Request<{ id: string }>,
+    res: Response<ApiResponse<Result<OfferResult>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Offer sent successfully",
+        await this._offerService.sendAsync(req.params.id),
+      ),
+    );
+  }
+
+  /**
+   * Get an offer for the candidate
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Public()
+  @Get("/public/:token")
+  async getForPublic(
+    req: Request<{ token: string }>,
+    res: Response<ApiResponse<Result<PublicOfferResult>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._offerService.getPublicAsync(req.params.token),
+      ),
+    );
+  }
+
+  /**
+   * Downloads the offer letter as PDF for the candidate
+   * @param req
+   * @param res
+   * @returns The PDF content
+   */
+  @Public()
+  @Get("/public/:token/letter")
+  async getPublicLetter(req: Request<{ token: string }>, res: Response) {
+    return this.sendLetter(
+      res,
+      await this._offerService.getPublicLetterAsync(req.params.token),
+    );
+  }
+
+  /**
+   * Accepts an offer
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Public()
+  @Post("/public/:token/accept")
+  async accept(
+    req: Request<{ token: string }>,
+    res: Response<ApiResponse<Result<PublicOfferResult>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Offer accepted",
+        await this._offerService.acceptAsync(req.params.token),
+      ),
+    );
+  }
+
+  /**
+   * Declines an offer
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Public()
+  @Post("/public/:token/decline")
+  async decline(
+    req: Request<{ token: string }, any, OfferDecisionVm>,
+    res: Response<ApiResponse<Result<PublicOfferResult>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Offer declined",
+        await this._offerService.declineAsync(req.params.token, req.body),
+      ),
+    );
+  }
+
+  private sendLetter(res: Response, letter: OfferLetterResult) {
+    res.attachment(letter.FileName);
+    res.type("application/pdf");
+    res.setHeader("Cache-Control", "private, no-store");
+    return res.send(letter.Content);
+  }
+}
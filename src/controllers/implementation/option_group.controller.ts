@@ -9,8 +9,15 @@ import { controller } from '@/core/decorators/controller.decorator';
 import { authenticate } from '@/middleware/implementation/auth';
 import { initializeCaller } from '@/middleware/implementation/callerInit';
 import { OptionGroupVm } from '@/data/models/OptionGroupVm';
+import { AuthorizeRoutes } from '@/core/decorators/authorize.decorator';
+import { Role } from '@/data/enums/role';
 
 @injectable()
+@AuthorizeRoutes({
+  create: [Role.Admin],
+  update: [Role.Admin],
+  delete: [Role.Admin],
+})
 @controller('/option-group', [initializeCaller, authenticate])
 export class OptionGroupController extends BaseController<
   OptionGroupVm,
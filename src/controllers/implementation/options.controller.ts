@@ -8,8 +8,15 @@ import { Filter } from '@/data/filters/filter';
 import { controller } from '@/core/decorators/controller.decorator';
 import { authenticate } from '@/middleware/implementation/auth';
 import { initializeCaller } from '@/middleware/implementation/callerInit';
+import { AuthorizeRoutes } from '@/core/decorators/authorize.decorator';
+import { Role } from '@/data/enums/role';
 
 @injectable()
+@AuthorizeRoutes({
+  create: [Role.Admin],
+  update: [Role.Admin],
+  delete: [Role.Admin],
+})
 @controller('/options', [initializeCaller, authenticate])
 export class OptionsController extends BaseController<
   Options,
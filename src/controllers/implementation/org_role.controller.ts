@@ -0,0 +1,137 @@
+import { OrgRole } from "@/data/entities/org_role";
+import { BaseController } from "../base/base.controller";
+import { Filter } from "@/data/filters/filter";
+import { Result, Response as ApiResponse } from "@/data/response/response";
+import { inject, injectable } from "inversify";
+import { controller } from "@/core/decorators/controller.decorator";
+import { authenticate } from "@/middleware/implementation/auth";
+import { initializeCaller } from "@/middleware/implementation/callerInit";
+import { TYPES } from "@/core/container/types";
+import { OrgRoleService } from "@/service/implementation/org_role.service";
+import { Delete, Get, Post } from "@/core/decorators/route.decorator";
+import { Authorize } from "@/core/decorators/authorize.decorator";
+import { Role } from "@/data/enums/role";
+import { Permission } from "@/data/enums/permission";
+import { OrgRoleAssignmentVm, OrgRoleVm } from "@/data/models/OrgRoleVm";
+import {
+  CallerPermissionResult,
+  OrgRoleAssignmentResult,
+} from "@/data/results/org_role_result";
+import { Request, Response } from "express";
+
+@injectable()
+@Authorize(Role.Admin)
+@controller("/role", [initializeCaller, authenticate])
+export class OrgRoleController extends BaseController<
+  OrgRoleVm,
+  OrgRole,
+  Filter,
+  Result<OrgRole>
+> {
+  //#region Service Initialization
+  private readonly _orgRoleService: OrgRoleService;
+  //#endregion
+
+  constructor(@inject(TYPES.OrgRoleService) orgRoleService: OrgRoleService) {
+    super(orgRoleService);
+    this._orgRoleService = orgRoleService;
+  }
+
+  /**
+   * Get the permissions a role can grant
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Get("/permissions/all")
+  async getPermissions(req: Request, res: Response<ApiResponse<Permission[]>>) {
+    return res.send(
+      new ApiResponse(true, 200, "Success", Object.values(Permission)),
+    );
+  }
+
+  /**
+   * Get the caller's permissions and where they apply
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Authorize()
+  @Get("/me/permissions")
+  async getMyPermissions(
+    req: Request,
+    res: Response<ApiResponse<Result<CallerPermissionResult[]>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._orgRoleService.getCallerPermissionsAsync(),
+      ),
+    );
+  }
+
+  /**
+   * Get the users a role is given to
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Get("/:id/assignments")
+  async getAssignments(
+    req: Request<{ id: string }>,
+    res: Response<ApiResponse<Result<OrgRoleAssignmentResult[]>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._orgRoleService.getAssignmentsAsync(req.params.id),
+      ),
+    );
+  }
+
+  /**
+   * Gives a role to a user, optionally scoped to a department or a position
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Post("/:id/assign")
+  async assign(
+    req: Request<{ id: string }, any, OrgRoleAssignmentVm>,
+    res: Response<ApiResponse<Result<OrgRoleAssignmentResult>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Role assigned",
+        await this._orgRoleService.assignAsync(req.params.id, req.body),
+      ),
+    );
+  }
+
+  /**
+   * Takes a role back from a user
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Delete("/assignment/:assignmentId")
+  async unassign(
+    req: Request<{ assignmentId: string }>,
+    res: Response<ApiResponse<boolean>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Role unassigned",
+        await this._orgRoleService.unassignAsync(req.params.assignmentId),
+      ),
+    );
+  }
+}
@@ -8,8 +8,15 @@ import { OrganizationService } from "@/service/implementation/organization.servi
 import { controller } from "@/core/decorators/controller.decorator";
 import { authenticate } from "@/middleware/implementation/auth";
 import { initializeCaller } from "@/middleware/implementation/callerInit";
+import { AuthorizeRoutes } from "@/core/decorators/authorize.decorator";
+import { Role } from "@/data/enums/role";
 
 @injectable()
+@AuthorizeRoutes({
+  create: [Role.MasterAdmin],
+  update: [Role.Admin],
+  delete: [Role.MasterAdmin],
+})
 @controller("/organization", [initializeCaller, authenticate])
 export class OrganizationController extends BaseController<
   Organization,
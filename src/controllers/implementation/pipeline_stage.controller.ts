@@ -0,0 +1,61 @@
+import { PipelineStage } from "@/data/entities/pipeline_stage";
+import { BaseController } from "../base/base.controller";
+import { Filter } from "@/data/filters/filter";
+import { Result, Response as ApiResponse } from "@/data/response/response";
+import { inject, injectable } from "inversify";
+import { controller } from "@/core/decorators/controller.decorator";
+import { authenticate } from "@/middleware/implementation/auth";
+import { initializeCaller } from "@/middleware/implementation/callerInit";
+import { TYPES } from "@/core/container/types";
+import { PipelineStageService } from "@/service/implementation/pipeline_stage.service";
+import { Get } from "@/core/decorators/route.decorator";
+import { Request, Response } from "express";
+import { AuthorizeRoutes } from "@/core/decorators/authorize.decorator";
+import { Role } from "@/data/enums/role";
+
+@injectable()
+@AuthorizeRoutes({
+  create: [Role.Admin],
+  update: [Role.Admin],
+  delete: [Role.Admin],
+})
+@controller("/pipelineStage", [initializeCaller, authenticate])
+export class PipelineStageController extends BaseController<
+  PipelineStage,
+  PipelineStage,
+  Filter,
+  Result<PipelineStage>
+> {
+  //#region Service Initialization
+  private readonly _pipelineStageService: PipelineStageService;
+  //#endregion
+
+  constructor(
+    @inject(TYPES.PipelineStageService)
+    pipelineStageService: PipelineStageService,
+  ) {
+    super(pipelineStageService);
+    this._pipelineStageService = pipelineStageService;
+  }
+
+  /**
+   * Get the ordered hiring pipeline of the organization
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Get("/pipeline/all")
+  async getPipeline(
+    req: Request,
+    res: Response<ApiResponse<Result<PipelineStage[]>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._pipelineStageService.getPipelineAsync(),
+      ),
+    );
+  }
+}
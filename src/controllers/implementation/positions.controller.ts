@@ -9,11 +9,26 @@ import { controller } from "@/core/decorators/controller.decorator";
 import { authenticate } from "@/middleware/implementation/auth";
 import { initializeCaller } from "@/middleware/implementation/callerInit";
 import { PositionsResult } from "@/data/results/position.result";
-import { Get } from "@/core/decorators/route.decorator";
+import { Get, Post } from "@/core/decorators/route.decorator";
 import { Request, Response } from "express";
 import { Public } from "@/core/decorators/public.decorator";
+import {
+  AuthorizeRoutes,
+  RequirePermission,
+} from "@/core/decorators/authorize.decorator";
+import { Role } from "@/data/enums/role";
+import { Permission } from "@/data/enums/permission";
+import { PositionStatus } from "@/data/enums/position_status";
+import { JobBoardFilter } from "@/data/filters/job_board_filter";
+import {
+  JobBoardResult,
+  JobFeedResult,
+  PublicPositionResult,
+} from "@/data/results/job_board_result";
 
 @injectable()
+@AuthorizeRoutes({ create: [Role.Admin], delete: [Role.Admin] })
+@RequirePermission(Permission.PositionRead)
 @controller("/position", [initializeCaller, authenticate])
 export class PositionsController extends BaseController<
   Positions,
@@ -52,4 +67,196 @@ export class PositionsController extends BaseController<
       ),
     );
   }
+
+  /**
+   * Searches the open positions of an organization for its job board
+   * @param req Express request object with the query, DepartmentId, Location,
+   * EmploymentType and paging in the query string
+   * @param res Express response object
+   * @returns ApiResponse containing a page of positions and the facet counts
+   */
+  @Public()
+  @Get("/public/:orgId/search")
+  async searchAsPublic(
+    req: Request<{ orgId: string }, unknown, unknown, JobBoardFilter>,
+    res: Response<ApiResponse<Result<JobBoardResult>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._positionsService.searchPublicAsync(
+          req.params.orgId,
+          req.query,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Get an open position of the job board
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Public()
+  @Get("/public/:orgId/job/:id")
+  async getAsPublic(
+    req: Request<{ orgId: string; id: string }>,
+    res: Response<ApiResponse<Result<PublicPositionResult>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._positionsService.getPublicPositionAsync(
+          req.params.orgId,
+          req.params.id,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Get the job aggregator XML feed of an organization
+   * @param req
+   * @param res
+   * @returns The XML feed, or 304 when the client's copy is current
+   */
+  @Public()
+  @Get("/public/:orgId/feed/xml")
+  async getXmlFeed(req: Request<{ orgId: string }>, res: Response) {
+    return this.sendFeed(
+      req,
+      res,
+      await this._positionsService.getXmlFeedAsync(req.params.orgId),
+    );
+  }
+
+  /**
+   * Get the RSS 2.0 feed of an organization
+   * @param req
+   * @param res
+   * @returns The RSS feed, or 304 when the client's copy is current
+   */
+  @Public()
+  @Get("/public/:orgId/feed/rss")
+  async getRssFeed(req: Request<{ orgId: string }>, res: Response) {
+    return this.sendFeed(
+      req,
+      res,
+      await this._positionsService.getRssFeedAsync(req.params.orgId),
+    );
+  }
+
+  /**
+   * Get the schema.org JobPosting JSON-LD of a posting page
+   * @param req
+   * @param res
+   * @returns The JSON-LD document, or 304 when the client's copy is current
+   */
+  @Public()
+  @Get("/public/:orgId/job/:id/jsonld")
+  async getJobPosting(
+    req: Request<{ orgId: string; id: string }>,
+    res: Response,
+  ) {
+    return this.sendFeed(
+      req,
+      res,
+      await this._positionsService.getJobPostingAsync(
+        req.params.orgId,
+        req.params.id,
+      ),
+    );
+  }
+
+  /**
+   * Opens a draft, paused or closed position
+   * @param req
+   * @param res
+   * @returns
+   */
+  @RequirePermission(Permission.PositionPublish)
+  @Post("/:id/open")
+  async open(
+    req: Request<{ id: string }>,
+    res: Response<ApiResponse<Result<Positions>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Position opened",
+        await this._positionsService.changeStatusAsync(
+          req.params.id,
+          PositionStatus.Open,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Pauses an open position
+   * @param req
+   * @param res
+   * @returns
+   */
+  @RequirePermission(Permission.PositionPublish)
+  @Post("/:id/pause")
+  async pause(
+    req: Request<{ id: string }>,
+    res: Response<ApiResponse<Result<Positions>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Position paused",
+        await this._positionsService.changeStatusAsync(
+          req.params.id,
+          PositionStatus.Paused,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Closes a position
+   * @param req
+   * @param res
+   * @returns
+   */
+  @RequirePermission(Permission.PositionPublish)
+  @Post("/:id/close")
+  async close(
+    req: Request<{ id: string }>,
+    res: Response<ApiResponse<Result<Positions>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Position closed",
+        await this._positionsService.changeStatusAsync(
+          req.params.id,
+          PositionStatus.Closed,
+        ),
+      ),
+    );
+  }
+
+  private sendFeed(req: Request<any>, res: Response, feed: JobFeedResult) {
+    res.type(feed.ContentType);
+    res.setHeader("Cache-Control", "public, max-age=300");
+    res.setHeader("ETag", feed.ETag);
+    res.setHeader("Last-Modified", feed.LastModified.toUTCString());
+    // Compares the validators above with If-None-Match/If-Modified-Since
+    if (req.fresh) {
+      return res.status(304).end();
+    }
+    return res.send(feed.Content);
+  }
 }
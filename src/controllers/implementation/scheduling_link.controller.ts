@@ -0,0 +1,110 @@
+import { SchedulingLink } from "@/data/entities/scheduling_link";
+import { BaseController } from "../base/base.controller";
+import { Filter } from "@/data/filters/filter";
+import { Result, Response as ApiResponse } from "@/data/response/response";
+import { inject, injectable } from "inversify";
+import { controller } from "@/core/decorators/controller.decorator";
+import { authenticate } from "@/middleware/implementation/auth";
+import { initializeCaller } from "@/middleware/implementation/callerInit";
+import { TYPES } from "@/core/container/types";
+import { SchedulingLinkService } from "@/service/implementation/scheduling_link.service";
+import { Get, Post } from "@/core/decorators/route.decorator";
+import { Public } from "@/core/decorators/public.decorator";
+import { BookSlotVm, SchedulingLinkVm } from "@/data/models/SchedulingLinkVm";
+import {
+  PublicSchedulingLinkResult,
+  SchedulingBookingResult,
+  SchedulingLinkResult,
+} from "@/data/results/scheduling_link_result";
+import { Request, Response } from "express";
+import { RequirePermission } from "@/core/decorators/authorize.decorator";
+import { Permission } from "@/data/enums/permission";
+
+@injectable()
+@RequirePermission(Permission.ApplicationRead)
+@controller("/schedulingLink", [initializeCaller, authenticate])
+export class SchedulingLinkController extends BaseController<
+  SchedulingLinkVm,
+  SchedulingLink,
+  Filter,
+  Result<SchedulingLink>
+> {
+  //#region Service Initialization
+  private readonly _schedulingLinkService: SchedulingLinkService;
+  //#endregion
+
+  constructor(
+    @inject(TYPES.SchedulingLinkService)
+    schedulingLinkService: SchedulingLinkService,
+  ) {
+    super(schedulingLinkService);
+    this._schedulingLinkService = schedulingLinkService;
+  }
+
+  /**
+   * Get the scheduling links sent for an application
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Get("/application/:applicationId")
+  async getByApplication(
+    req: Request<{ applicationId: string }>,
+    res: Response<ApiResponse<Result<SchedulingLinkResult[]>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._schedulingLinkService.getByApplicationAsync(
+          req.params.applicationId,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Get a scheduling link for the candidate with the times still available
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Public()
+  @Get("/public/:token")
+  async getForPublic(
+    req: Request<{ token: string }>,
+    res: Response<ApiResponse<Result<PublicSchedulingLinkResult>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._schedulingLinkService.getPublicAsync(req.params.token),
+      ),
+    );
+  }
+
+  /**
+   * Books one of the times offered on a scheduling link
+   * @param req
+   * @param res
+   * @returns ApiResponse containing the booked interview
+   */
+  @Public()
+  @Post("/public/:token/book")
+  async book(
+    req: Request<{ token: string }, any, BookSlotVm>,
+    res: Response<ApiResponse<Result<SchedulingBookingResult>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Interview booked successfully",
+        await this._schedulingLinkService.bookAsync(req.params.token, req.body),
+      ),
+    );
+  }
+}
@@ -8,8 +8,15 @@ import { authenticate } from "@/middleware/implementation/auth";
 import { initializeCaller } from "@/middleware/implementation/callerInit";
 import { TYPES } from "@/core/container/types";
 import { TaskService } from "@/service/implementation/task.service";
+import { AuthorizeRoutes } from "@/core/decorators/authorize.decorator";
+import { Role } from "@/data/enums/role";
 
 @injectable()
+@AuthorizeRoutes({
+  create: [Role.Admin],
+  update: [Role.Admin],
+  delete: [Role.Admin],
+})
 @controller("/task", [initializeCaller, authenticate])
 export class TaskController extends BaseController<
   Task,
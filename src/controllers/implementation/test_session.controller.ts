@@ -0,0 +1,131 @@
+import { TestSession } from "@/data/entities/test_session";
+import { BaseController } from "../base/base.controller";
+import { Filter } from "@/data/filters/filter";
+import { Result, Response as ApiResponse } from "@/data/response/response";
+import { inject, injectable } from "inversify";
+import { controller } from "@/core/decorators/controller.decorator";
+import { authenticate } from "@/middleware/implementation/auth";
+import { initializeCaller } from "@/middleware/implementation/callerInit";
+import { TYPES } from "@/core/container/types";
+import { TestSessionService } from "@/service/implementation/test_session.service";
+import { Get, Post } from "@/core/decorators/route.decorator";
+import { Public } from "@/core/decorators/public.decorator";
+import { SubmitTestVm, TestSessionVm } from "@/data/models/TestSessionVm";
+import {
+  PublicTestSessionResult,
+  TestSessionResult,
+  TestSubmissionResult,
+} from "@/data/results/test_session_result";
+import { Request, Response } from "express";
+import { RequirePermission } from "@/core/decorators/authorize.decorator";
+import { Permission } from "@/data/enums/permission";
+
+@injectable()
+@RequirePermission(Permission.ApplicationRead)
+@controller("/testSession", [initializeCaller, authenticate])
+export class TestSessionController extends BaseController<
+  TestSessionVm,
+  TestSession,
+  Filter,
+  Result<TestSession>
+> {
+  //#region Service Initialization
+  private readonly _testSessionService: TestSessionService;
+  //#endregion
+
+  constructor(
+    @inject(TYPES.TestSessionService) testSessionService: TestSessionService,
+  ) {
+    super(testSessionService);
+    this._testSessionService = testSessionService;
+  }
+
+  /**
+   * Get the tests sent for an application with their results
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Get("/application/:applicationId")
+  async getByApplication(
+    req: Request<{ applicationId: string }>,
+    res: Response<ApiResponse<Result<TestSessionResult[]>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._testSessionService.getByApplicationAsync(
+          req.params.applicationId,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Get a test for the candidate
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Public()
+  @Get("/public/:token")
+  async getForPublic(
+    req: Request<{ token: string }>,
+    res: Response<ApiResponse<Result<PublicTestSessionResult>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._testSessionService.getPublicAsync(req.params.token),
+      ),
+    );
+  }
+
+  /**
+   * Starts the timer of a test and returns its questions
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Public()
+  @Post("/public/:token/start")
+  async start(
+    req: Request<{ token: string }>,
+    res: Response<ApiResponse<Result<PublicTestSessionResult>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._testSessionService.startAsync(req.params.token),
+      ),
+    );
+  }
+
+  /**
+   * Submits the answers of a test
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Public()
+  @Post("/public/:token/submit")
+  async submit(
+    req: Request<{ token: string }, any, SubmitTestVm>,
+    res: Response<ApiResponse<Result<TestSubmissionResult>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Test submitted successfully",
+        await this._testSessionService.submitAsync(req.params.token, req.body),
+      ),
+    );
+  }
+}
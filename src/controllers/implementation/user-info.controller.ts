@@ -11,8 +11,15 @@ import { UserInfoService } from "@/service/implementation/user-info.service";
 import { Get } from "@/core/decorators/route.decorator";
 import { Request, Response } from "express";
 import { Response as ApiResponse } from "@/data/response/response";
+import { AuthorizeRoutes } from "@/core/decorators/authorize.decorator";
+import { Role } from "@/data/enums/role";
 
 @injectable()
+@AuthorizeRoutes({
+  create: [Role.Admin],
+  update: [Role.Admin],
+  delete: [Role.Admin],
+})
 @controller("/userinfo", [initializeCaller, authenticate])
 export class UserInfoController extends BaseController<
   UserInfo,
@@ -0,0 +1,113 @@
+import { UserInvitation } from "@/data/entities/user_invitation";
+import { BaseController } from "../base/base.controller";
+import { Filter } from "@/data/filters/filter";
+import { Result, Response as ApiResponse } from "@/data/response/response";
+import { inject, injectable } from "inversify";
+import { controller } from "@/core/decorators/controller.decorator";
+import { authenticate } from "@/middleware/implementation/auth";
+import { initializeCaller } from "@/middleware/implementation/callerInit";
+import { TYPES } from "@/core/container/types";
+import { UserInvitationService } from "@/service/implementation/user_invitation.service";
+import { Get, Post } from "@/core/decorators/route.decorator";
+import { Public } from "@/core/decorators/public.decorator";
+import { Authorize } from "@/core/decorators/authorize.decorator";
+import { Role } from "@/data/enums/role";
+import {
+  AcceptInvitationVm,
+  UserInvitationVm,
+} from "@/data/models/UserInvitationVm";
+import {
+  PublicInvitationResult,
+  UserInvitationResult,
+} from "@/data/results/user_invitation_result";
+import { Request, Response } from "express";
+
+@injectable()
+@Authorize(Role.Admin)
+@controller("/invitation", [initializeCaller, authenticate])
+export class UserInvitationController extends BaseController<
+  UserInvitationVm,
+  UserInvitation,
+  Filter,
+  Result<UserInvitation>
+> {
+  //#region Service Initialization
+  private readonly _userInvitationService: UserInvitationService;
+  //#endregion
+
+  constructor(
+    @inject(TYPES.UserInvitationService)
+    userInvitationService: UserInvitationService,
+  ) {
+    super(userInvitationService);
+    this._userInvitationService = userInvitationService;
+  }
+
+  /**
+   * Sends an invitation again with a new link
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Post("/:id/resend")
+  async resend(
+    req: Request<{ id: string }>,
+    res: Response<ApiResponse<Result<UserInvitationResult>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Invitation sent",
+        await this._userInvitationService.resendAsync(req.params.id),
+      ),
+    );
+  }
+
+  /**
+   * Get an invitation for the invitee
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Public()
+  @Get("/public/:token")
+  async getForPublic(
+    req: Request<{ token: string }>,
+    res: Response<ApiResponse<Result<PublicInvitationResult>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Success",
+        await this._userInvitationService.getPublicAsync(req.params.token),
+      ),
+    );
+  }
+
+  /**
+   * Accepts an invitation and creates the invitee's account
+   * @param req
+   * @param res
+   * @returns
+   */
+  @Public()
+  @Post("/public/:token/accept")
+  async accept(
+    req: Request<{ token: string }, any, AcceptInvitationVm>,
+    res: Response<ApiResponse<Result<PublicInvitationResult>>>,
+  ) {
+    return res.send(
+      new ApiResponse(
+        true,
+        200,
+        "Invitation accepted",
+        await this._userInvitationService.acceptAsync(
+          req.params.token,
+          req.body,
+        ),
+      ),
+    );
+  }
+}
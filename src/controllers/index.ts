@@ -15,6 +15,20 @@ import { ApplicationController } from "./implementation/application.controller";
 import { OptionGroupController } from "./implementation/option_group.controller";
 import { OptionsController } from "./implementation/options.controller";
 import { EmailTemplateController } from "./implementation/email_template.controller";
+import { PipelineStageController } from "./implementation/pipeline_stage.controller";
+import { AttachmentController } from "./implementation/attachment.controller";
+import { CandidateController } from "./implementation/candidate.controller";
+import { ApplicationNoteController } from "./implementation/application_note.controller";
+import { ApplicationRatingController } from "./implementation/application_rating.controller";
+import { InterviewController } from "./implementation/interview.controller";
+import { AvailabilityController } from "./implementation/availability.controller";
+import { SchedulingLinkController } from "./implementation/scheduling_link.controller";
+import { InterviewFeedbackController } from "./implementation/interview_feedback.controller";
+import { TestSessionController } from "./implementation/test_session.controller";
+import { OfferController } from "./implementation/offer.controller";
+import { ApprovalController } from "./implementation/approval.controller";
+import { UserInvitationController } from "./implementation/user_invitation.controller";
+import { OrgRoleController } from "./implementation/org_role.controller";
 
 export function initiControllersRoutes() {
   const router = Router();
@@ -34,7 +48,21 @@ export function initiControllersRoutes() {
       ApplicationController,
       OptionGroupController,
       OptionsController,
-      EmailTemplateController
+      EmailTemplateController,
+      PipelineStageController,
+      AttachmentController,
+      CandidateController,
+      ApplicationNoteController,
+      ApplicationRatingController,
+      InterviewController,
+      AvailabilityController,
+      SchedulingLinkController,
+      InterviewFeedbackController,
+      TestSessionController,
+      OfferController,
+      ApprovalController,
+      UserInvitationController,
+      OrgRoleController,
     ],
     container
   );
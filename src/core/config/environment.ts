@@ -45,10 +45,28 @@ interface EnvironmentConfig {
 
   MAX_FILE_SIZE: number;
   ALLOWED_FILE_TYPES: string[];
+  STORAGE_PROVIDER: string;
+  STORAGE_LOCAL_PATH: string;
+  FILE_URL_EXPIRES_IN: number;
+  WORKDAY_START: string;
+  WORKDAY_END: string;
+  SCHEDULING_LINK_EXPIRES_IN: number;
+  TEST_LINK_EXPIRES_IN: number;
+  PASSWORD_RESET_EXPIRES_IN: number;
+  INVITATION_EXPIRES_IN: number;
+  APP_URL: string;
   CORS_ORIGINS: string[];
 
   RATE_LIMIT_WINDOW_MS: number;
   RATE_LIMIT_MAX_REQUESTS: number;
+
+  SMTP_HOST?: string;
+  SMTP_PORT: number;
+  SMTP_SECURE: boolean;
+  SMTP_USER?: string;
+  SMTP_PASSWORD?: string;
+  MAIL_FROM?: string;
+  MAIL_FROM_NAME: string;
 }
 
 const requiredEnvVars: (keyof Partial<EnvironmentConfig>)[] = [
@@ -101,8 +119,46 @@ export const config: EnvironmentConfig = {
     "image/png",
     "image/webp",
     "video/mp4",
+    "application/pdf",
+    "application/msword",
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    "text/plain",
   ],
 
+  // File Storage Configuration
+  STORAGE_PROVIDER: process.env.STORAGE_PROVIDER || "local",
+  STORAGE_LOCAL_PATH: process.env.STORAGE_LOCAL_PATH || "uploads",
+  FILE_URL_EXPIRES_IN: parseInt(process.env.FILE_URL_EXPIRES_IN || "900", 10), // 15 minutes
+
+  // Scheduling - working hours of users who have not published availability
+  WORKDAY_START: process.env.WORKDAY_START || "09:00",
+  WORKDAY_END: process.env.WORKDAY_END || "17:00",
+  SCHEDULING_LINK_EXPIRES_IN: parseInt(
+    process.env.SCHEDULING_LINK_EXPIRES_IN || "604800",
+    10,
+  ), // 7 days
+
+  // Online tests - time candidates have to start a test they were sent
+  TEST_LINK_EXPIRES_IN: parseInt(
+    process.env.TEST_LINK_EXPIRES_IN || "604800",
+    10,
+  ), // 7 days
+
+  // Password reset - lifetime of the link sent by forgot-password
+  PASSWORD_RESET_EXPIRES_IN: parseInt(
+    process.env.PASSWORD_RESET_EXPIRES_IN || "3600",
+    10,
+  ), // 1 hour
+
+  // User invitations - time invitees have to accept
+  INVITATION_EXPIRES_IN: parseInt(
+    process.env.INVITATION_EXPIRES_IN || "604800",
+    10,
+  ), // 7 days
+
+  // Web app - base URL of links sent by email
+  APP_URL: process.env.APP_URL || "http://localhost:5173",
+
   // CORS Configuration
   CORS_ORIGINS: process.env.CORS_ORIGINS?.split(",") || [
     "http://localhost:3000",
@@ -117,6 +173,15 @@ export const config: EnvironmentConfig = {
     process.env.RATE_LIMIT_MAX_REQUESTS || "100",
     10,
   ),
+
+  // Outgoing Mail (SMTP)
+  SMTP_HOST: process.env.SMTP_HOST,
+  SMTP_PORT: parseInt(process.env.SMTP_PORT || "587", 10),
+  SMTP_SECURE: process.env.SMTP_SECURE === "true",
+  SMTP_USER: process.env.SMTP_USER,
+  SMTP_PASSWORD: process.env.SMTP_PASSWORD,
+  MAIL_FROM: process.env.MAIL_FROM || process.env.SMTP_USER,
+  MAIL_FROM_NAME: process.env.MAIL_FROM_NAME || "Recruitment System",
 };
 
 export const isDevelopment = config.NODE_ENV === "development";
@@ -34,7 +34,41 @@ import { OptionGroupController } from "@/controllers/implementation/option_group
 import { OptionGroupService } from "@/service/implementation/option_group.service";
 import { OptionsController } from "@/controllers/implementation/options.controller";
 import { OptionsService } from "@/service/implementation/options.service";
+import { PipelineStageController } from "@/controllers/implementation/pipeline_stage.controller";
+import { PipelineStageService } from "@/service/implementation/pipeline_stage.service";
+import { ApplicationEventService } from "@/service/implementation/application_event.service";
+import { MailService } from "@/service/implementation/mail.service";
+import { FormTemplateVersionService } from "@/service/implementation/form_template_version.service";
+import { AttachmentController } from "@/controllers/implementation/attachment.controller";
+import { AttachmentService } from "@/service/implementation/attachment.service";
+import { CandidateController } from "@/controllers/implementation/candidate.controller";
+import { CandidateService } from "@/service/implementation/candidate.service";
+import { ApplicationNoteController } from "@/controllers/implementation/application_note.controller";
+import { ApplicationNoteService } from "@/service/implementation/application_note.service";
+import { ApplicationRatingController } from "@/controllers/implementation/application_rating.controller";
+import { ApplicationRatingService } from "@/service/implementation/application_rating.service";
+import { InterviewController } from "@/controllers/implementation/interview.controller";
+import { InterviewService } from "@/service/implementation/interview.service";
+import { AvailabilityController } from "@/controllers/implementation/availability.controller";
+import { AvailabilityService } from "@/service/implementation/availability.service";
+import { SchedulingLinkController } from "@/controllers/implementation/scheduling_link.controller";
+import { SchedulingLinkService } from "@/service/implementation/scheduling_link.service";
+import { InterviewFeedbackController } from "@/controllers/implementation/interview_feedback.controller";
+import { InterviewFeedbackService } from "@/service/implementation/interview_feedback.service";
+import { TestSessionController } from "@/controllers/implementation/test_session.controller";
+import { TestSessionService } from "@/service/implementation/test_session.service";
+import { OfferController } from "@/controllers/implementation/offer.controller";
+import { OfferService } from "@/service/implementation/offer.service";
+import { ApprovalController } from "@/controllers/implementation/approval.controller";
+import { ApprovalService } from "@/service/implementation/approval.service";
+import { UserInvitationController } from "@/controllers/implementation/user_invitation.controller";
+import { UserInvitationService } from "@/service/implementation/user_invitation.service";
+import { OrgRoleController } from "@/controllers/implementation/org_role.controller";
+import { OrgRoleService } from "@/service/implementation/org_role.service";
+import { PermissionService } from "@/service/permission/permission.service";
 import { IUnitOfWork } from "@/repository";
+import { IStorageProvider, StorageProviderFactory } from "@/storage";
+import { config } from "@/core/config/environment";
 
 const container = new Container({ defaultScope: "Singleton" });
 
@@ -50,6 +84,16 @@ container.bind<Repository>(TYPES.Repository).to(Repository).inSingletonScope();
 // Unit of Work (new Knex-based pattern)
 container.bind<IUnitOfWork>(TYPES.UnitOfWork).to(UnitOfWork).inRequestScope();
 
+//#region Storage
+container
+  .bind<IStorageProvider>(TYPES.StorageProvider)
+  .toDynamicValue(() =>
+    StorageProviderFactory.createProvider(config.STORAGE_PROVIDER, {
+      LocalPath: config.STORAGE_LOCAL_PATH,
+    }),
+  )
+  .inSingletonScope();
+
 //#region Services
 container.bind<UserService>(TYPES.UserService).to(UserService).inRequestScope();
 container
@@ -98,11 +142,80 @@ container
   .bind<OptionsService>(TYPES.OptionsService)
   .to(OptionsService)
   .inRequestScope();
+container
+  .bind<PipelineStageService>(TYPES.PipelineStageService)
+  .to(PipelineStageService)
+  .inRequestScope();
+container
+  .bind<ApplicationEventService>(TYPES.ApplicationEventService)
+  .to(ApplicationEventService)
+  .inRequestScope();
+container.bind<MailService>(TYPES.MailService).to(MailService).inRequestScope();
+container
+  .bind<FormTemplateVersionService>(TYPES.FormTemplateVersionService)
+  .to(FormTemplateVersionService)
+  .inRequestScope();
+container
+  .bind<AttachmentService>(TYPES.AttachmentService)
+  .to(AttachmentService)
+  .inRequestScope();
+container
+  .bind<CandidateService>(TYPES.CandidateService)
+  .to(CandidateService)
+  .inRequestScope();
+container
+  .bind<ApplicationNoteService>(TYPES.ApplicationNoteService)
+  .to(ApplicationNoteService)
+  .inRequestScope();
+container
+  .bind<ApplicationRatingService>(TYPES.ApplicationRatingService)
+  .to(ApplicationRatingService)
+  .inRequestScope();
+container
+  .bind<InterviewService>(TYPES.InterviewService)
+  .to(InterviewService)
+  .inRequestScope();
+container
+  .bind<AvailabilityService>(TYPES.AvailabilityService)
+  .to(AvailabilityService)
+  .inRequestScope();
+container
+  .bind<SchedulingLinkService>(TYPES.SchedulingLinkService)
+  .to(SchedulingLinkService)
+  .inRequestScope();
+container
+  .bind<InterviewFeedbackService>(TYPES.InterviewFeedbackService)
+  .to(InterviewFeedbackService)
+  .inRequestScope();
+container
+  .bind<TestSessionService>(TYPES.TestSessionService)
+  .to(TestSessionService)
+  .inRequestScope();
+container
+  .bind<OfferService>(TYPES.OfferService)
+  .to(OfferService)
+  .inRequestScope();
+container
+  .bind<ApprovalService>(TYPES.ApprovalService)
+  .to(ApprovalService)
+  .inRequestScope();
+container
+  .bind<UserInvitationService>(TYPES.UserInvitationService)
+  .to(UserInvitationService)
+  .inRequestScope();
+container
+  .bind<OrgRoleService>(TYPES.OrgRoleService)
+  .to(OrgRoleService)
+  .inRequestScope();
 
 container
   .bind<CallerService>(TYPES.Caller)
   .to(CallerService)
   .inSingletonScope();
+container
+  .bind<PermissionService>(TYPES.PermissionService)
+  .to(PermissionService)
+  .inRequestScope();
 
 //#region Controllers
 // Bind controllers by class only (RouteLoader resolves by class)
@@ -162,5 +275,61 @@ container
   .bind<OptionsController>(OptionsController)
   .to(OptionsController)
   .inRequestScope();
+container
+  .bind<PipelineStageController>(PipelineStageController)
+  .to(PipelineStageController)
+  .inRequestScope();
+container
+  .bind<AttachmentController>(AttachmentController)
+  .to(AttachmentController)
+  .inRequestScope();
+container
+  .bind<CandidateController>(CandidateController)
+  .to(CandidateController)
+  .inRequestScope();
+container
+  .bind<ApplicationNoteController>(ApplicationNoteController)
+  .to(ApplicationNoteController)
+  .inRequestScope();
+container
+  .bind<ApplicationRatingController>(ApplicationRatingController)
+  .to(ApplicationRatingController)
+  .inRequestScope();
+container
+  .bind<InterviewController>(InterviewController)
+  .to(InterviewController)
+  .inRequestScope();
+container
+  .bind<AvailabilityController>(AvailabilityController)
+  .to(AvailabilityController)
+  .inRequestScope();
+container
+  .bind<SchedulingLinkController>(SchedulingLinkController)
+  .to(SchedulingLinkController)
+  .inRequestScope();
+container
+  .bind<InterviewFeedbackController>(InterviewFeedbackController)
+  .to(InterviewFeedbackController)
+  .inRequestScope();
+container
+  .bind<TestSessionController>(TestSessionController)
+  .to(TestSessionController)
+  .inRequestScope();
+container
+  .bind<OfferController>(OfferController)
+  .to(OfferController)
+  .inRequestScope();
+container
+  .bind<ApprovalController>(ApprovalController)
+  .to(ApprovalController)
+  .inRequestScope();
+container
+  .bind<UserInvitationController>(UserInvitationController)
+  .to(UserInvitationController)
+  .inRequestScope();
+container
+  .bind<OrgRoleController>(OrgRoleController)
+  .to(OrgRoleController)
+  .inRequestScope();
 
 export { container };
@@ -18,12 +18,33 @@ export const TYPES = {
   EmailTemplateService: Symbol.for("EmailTemplateService"),
   OptionGroupService: Symbol.for("OptionGroupService"),
   OptionsService: Symbol.for("OptionsService"),
+  PipelineStageService: Symbol.for("PipelineStageService"),
+  ApplicationEventService: Symbol.for("ApplicationEventService"),
+  MailService: Symbol.for("MailService"),
+  FormTemplateVersionService: Symbol.for("FormTemplateVersionService"),
+  AttachmentService: Symbol.for("AttachmentService"),
+  CandidateService: Symbol.for("CandidateService"),
+  ApplicationNoteService: Symbol.for("ApplicationNoteService"),
+  ApplicationRatingService: Symbol.for("ApplicationRatingService"),
+  InterviewService: Symbol.for("InterviewService"),
+  AvailabilityService: Symbol.for("AvailabilityService"),
+  SchedulingLinkService: Symbol.for("SchedulingLinkService"),
+  InterviewFeedbackService: Symbol.for("InterviewFeedbackService"),
+  TestSessionService: Symbol.for("TestSessionService"),
+  OfferService: Symbol.for("OfferService"),
+  ApprovalService: Symbol.for("ApprovalService"),
+  UserInvitationService: Symbol.for("UserInvitationService"),
+  OrgRoleService: Symbol.for("OrgRoleService"),
 
   // Repository
   Repository: Symbol.for("Repository"),
 
+  // Storage
+  StorageProvider: Symbol.for("StorageProvider"),
+
   // Others
   Caller: Symbol.for("CallerService"),
+  PermissionService: Symbol.for("PermissionService"),
   Logger: Symbol.for("Logger"),
   ErrorHandler: Symbol.for("ErrorHandler"),
 };
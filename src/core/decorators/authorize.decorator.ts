@@ -0,0 +1,137 @@
+import "reflect-metadata";
+import { Role } from "@/data/enums/role";
+import { Permission } from "@/data/enums/permission";
+
+export const AUTHORIZE_ROLES = Symbol("authorize_roles");
+export const AUTHORIZE_ROUTES = Symbol("authorize_routes");
+export const REQUIRED_PERMISSIONS = Symbol("required_permissions");
+
+/**
+ * Decorator to restrict routes to the given roles
+ *
+ * @remarks
+ * - On a controller class it sets the default policy of all its routes
+ * - On a route method it overrides the controller policy
+ * - Without roles, any authenticated caller is allowed
+ * - Master admins are allowed on every route
+ * - Public routes skip the controller policy and cannot be authorized
+ *
+ * @example
+ * ```typescript
+ * @Authorize(Role.Admin)
+ * @controller("/user", [initializeCaller, authenticate])
+ * export class UserController { ... }
+ * ```
+ */
+export function Authorize(...roles: Role[]) {
+  return function (
+    target: any,
+    propertyKey?: string,
+    descriptor?: PropertyDescriptor
+  ): any {
+    if (propertyKey) {
+      Reflect.defineMetadata(AUTHORIZE_ROLES, roles, target, propertyKey);
+      return descriptor;
+    }
+    Reflect.defineMetadata(AUTHORIZE_ROLES, roles, target);
+    return target;
+  };
+}
+
+/**
+ * Decorator to restrict routes inherited from a base controller
+ * Keys are the handler method names, e.g. `create`, `update`, `delete`
+ *
+ * @example
+ * ```typescript
+ * @AuthorizeRoutes({ delete: [Role.Admin] })
+ * @controller("/user", [initializeCaller, authenticate])
+ * export class UserController extends BaseController<...> { ... }
+ * ```
+ */
+export function AuthorizeRoutes(routes: Record<string, Role[]>) {
+  return function <T extends { new (...args: any[]): {} }>(constructor: T) {
+    Reflect.defineMetadata(AUTHORIZE_ROUTES, routes, constructor);
+    return constructor;
+  };
+}
+
+/**
+ * Decorator to require organization role permissions on routes
+ *
+ * @remarks
+ * - On a controller class it sets the default permissions of all its routes
+ * - On a route method it overrides the controller permissions
+ * - The caller needs every permission somewhere in the organization; services
+ *   check the department or position scope of the records
+ *
+ * @example
+ * ```typescript
+ * @RequirePermission(Permission.ApplicationStageChange)
+ * @Post("/:id/transition")
+ * async transitionStage(req: Request, res: Response) { ... }
+ * ```
+ */
+export function RequirePermission(...permissions: Permission[]) {
+  return function (
+    target: any,
+    propertyKey?: string,
+    descriptor?: PropertyDescriptor
+  ): any {
+    if (propertyKey) {
+      Reflect.defineMetadata(REQUIRED_PERMISSIONS, permissions, target, propertyKey);
+      return descriptor;
+    }
+    Reflect.defineMetadata(REQUIRED_PERMISSIONS, permissions, target);
+    return target;
+  };
+}
+
+/**
+ * Check if a method is restricted with its own policy or permissions
+ */
+export function hasRoutePolicy(target: any, methodName: string): boolean {
+  return (
+    Reflect.hasMetadata(AUTHORIZE_ROLES, target, methodName) ||
+    Reflect.hasMetadata(REQUIRED_PERMISSIONS, target, methodName)
+  );
+}
+
+/**
+ * Get the roles allowed on a route
+ * The route's own policy wins over the controller's route and default policies
+ * @param controllerClass Controller constructor
+ * @param target Controller instance
+ * @param methodName Route handler name
+ * @returns Allowed roles, or undefined when the route has no policy
+ */
+export function getAuthorizedRoles(
+  controllerClass: any,
+  target: any,
+  methodName: string
+): Role[] | undefined {
+  return (
+    Reflect.getMetadata(AUTHORIZE_ROLES, target, methodName) ??
+    Reflect.getMetadata(AUTHORIZE_ROUTES, controllerClass)?.[methodName] ??
+    Reflect.getMetadata(AUTHORIZE_ROLES, controllerClass)
+  );
+}
+
+/**
+ * Get the permissions required on a route
+ * The route's own permissions win over the controller's
+ * @param controllerClass Controller constructor
+ * @param target Controller instance
+ * @param methodName Route handler name
+ * @returns Required permissions, or undefined when the route requires none
+ */
+export function getRequiredPermissions(
+  controllerClass: any,
+  target: any,
+  methodName: string
+): Permission[] | undefined {
+  return (
+    Reflect.getMetadata(REQUIRED_PERMISSIONS, target, methodName) ??
+    Reflect.getMetadata(REQUIRED_PERMISSIONS, controllerClass)
+  );
+}
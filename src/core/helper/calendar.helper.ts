@@ -0,0 +1,140 @@
+/**
+ * Calendar method of an iCalendar object (RFC 5546)
+ */
+export type CalendarMethod = "REQUEST" | "CANCEL";
+
+export interface CalendarAttendee {
+  Email: string;
+  Name?: string | null;
+}
+
+export interface CalendarEvent {
+  /**
+   * Stable identifier - updates and cancellations must reuse it
+   */
+  Uid: string;
+  /**
+   * Incremented on every change so calendars replace the earlier version
+   */
+  Sequence: number;
+  Start: Date;
+  End: Date;
+  Summary: string;
+  Description?: string | null;
+  Location?: string | null;
+  Url?: string | null;
+  Organizer: CalendarAttendee;
+  Attendees: CalendarAttendee[];
+}
+
+/**
+ * Calendar Helper Class
+ * Builds RFC 5545 iCalendar (.ics) invitations
+ *
+ * @remarks
+ * Times are written in UTC, which every calendar client converts to the
+ * recipient's own timezone. Lines are CRLF-terminated and folded at 75 octets.
+ */
+export class CalendarHelper {
+  private static readonly PRODUCT_ID = "-//Recruitment System//Interviews//EN";
+  private static readonly MAX_LINE_OCTETS = 75;
+
+  /**
+   * Builds an iCalendar object for an event
+   * @param event Event details
+   * @param method REQUEST for new or updated events, CANCEL for cancelled ones
+   * @returns iCalendar text
+   */
+  static createEvent(event: CalendarEvent, method: CalendarMethod): string {
+    const lines = [
+      "BEGIN:VCALENDAR",
+      `PRODID:${this.PRODUCT_ID}`,
+      "VERSION:2.0",
+      "CALSCALE:GREGORIAN",
+      `METHOD:${method}`,
+      "BEGIN:VEVENT",
+      `UID:${event.Uid}`,
+      `SEQUENCE:${event.Sequence}`,
+      `DTSTAMP:${this.formatDate(new Date())}`,
+      `DTSTART:${this.formatDate(event.Start)}`,
+      `DTEND:${this.formatDate(event.End)}`,
+      `SUMMARY:${this.escapeText(event.Summary)}`,
+      `STATUS:${method === "CANCEL" ? "CANCELLED" : "CONFIRMED"}`,
+      `ORGANIZER${this.toCommonName(event.Organizer)}:mailto:${event.Organizer.Email}`,
+      ...event.Attendees.map(
+        (attendee) =>
+          `ATTENDEE${this.toCommonName(attendee)};ROLE=REQ-PARTICIPANT;` +
+          `PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:${attendee.Email}`
+      ),
+    ];
+
+    if (event.Description) {
+      lines.push(`DESCRIPTION:${this.escapeText(event.Description)}`);
+    }
+    if (event.Location) {
+      lines.push(`LOCATION:${this.escapeText(event.Location)}`);
+    }
+    if (event.Url) {
+      lines.push(`URL:${event.Url}`);
+    }
+
+    lines.push("END:VEVENT", "END:VCALENDAR");
+
+    return lines.map((line) => this.foldLine(line)).join("\r\n") + "\r\n";
+  }
+
+  /**
+   * Formats a date as an iCalendar UTC date-time (e.g. 20261019T093000Z)
+   */
+  static formatDate(date: Date): string {
+    return date
+      .toISOString()
+      .replace(/[-:]/g, "")
+      .replace(/\.\d{3}/, "");
+  }
+
+  /**
+   * Escapes TEXT values (RFC 5545 section 3.3.11)
+   */
+  static escapeText(value: string): string {
+    return value
+      .replace(/\\/g, "\\\\")
+      .replace(/;/g, "\\;")
+      .replace(/,/g, "\\,")
+      .replace(/\r\n|\r|\n/g, "\\n");
+  }
+
+  private static toCommonName(attendee: CalendarAttendee): string {
+    return attendee.Name
+      ? `;CN="${attendee.Name.replace(/["\r\n]/g, "")}"`
+      : "";
+  }
+
+  /**
+   * Folds a content line into 75-octet chunks (RFC 5545 section 3.1)
+   * Multi-byte characters are never split
+   */
+  private static foldLine(line: string): string {
+    const chunks: string[] = [];
+    let current = "";
+    let octets = 0;
+
+    for (const char of line) {
+      const size = Buffer.byteLength(char, "utf8");
+      // Continuation lines start with a space, which counts towards the limit
+      const limit = chunks.length ? this.MAX_LINE_OCTETS - 1 : this.MAX_LINE_OCTETS;
+
+      if (octets + size > limit) {
+        chunks.push(current);
+        current = "";
+        octets = 0;
+      }
+
+      current += char;
+      octets += size;
+    }
+
+    chunks.push(current);
+    return chunks.join("\r\n ");
+  }
+}
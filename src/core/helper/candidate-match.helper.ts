@@ -0,0 +1,161 @@
+/**
+ * Contact details compared when looking for duplicate candidates
+ */
+export interface CandidateContact {
+  FullName: string | null;
+  Email: string | null;
+  Phone: string | null;
+}
+
+/**
+ * Result of comparing two candidates
+ */
+export interface CandidateMatch {
+  Score: number;
+  Reasons: string[];
+}
+
+/**
+ * Candidate matching helper used to group applications and suggest duplicates
+ * @remarks
+ * Scores range from 0 to 100:
+ * same normalized email 60, same email name at another domain 25,
+ * same normalized phone 30 and similar names up to 20.
+ */
+export class CandidateMatchHelper {
+  /**
+   * Minimum score for a candidate to be suggested as a duplicate
+   */
+  static readonly DUPLICATE_THRESHOLD = 40;
+
+  private static readonly DOT_INSENSITIVE_DOMAINS = ["gmail.com", "googlemail.com"];
+
+  //#region Public Static Methods
+
+  /**
+   * Normalizes an email address so that variants of the same mailbox compare equal
+   * @remarks
+   * Lowercases, removes "+tag" suffixes and, for Gmail, the dots in the local part
+   * @example
+   * ```typescript
+   * CandidateMatchHelper.normalizeEmail(" John.Doe+jobs@GMail.com "); // "johndoe@gmail.com"
+   * ```
+   */
+  static normalizeEmail(email: string | null | undefined): string | null {
+    const value = email?.trim().toLowerCase();
+    if (!value || !value.includes("@")) return null;
+
+    const at = value.lastIndexOf("@");
+    let local = value.substring(0, at).split("+")[0];
+    let domain = value.substring(at + 1);
+
+    if (this.DOT_INSENSITIVE_DOMAINS.includes(domain)) {
+      local = local.replace(/\./g, "");
+      domain = "gmail.com";
+    }
+
+    return local.length ? `${local}@${domain}` : null;
+  }
+
+  /**
+   * Normalizes a phone number to its last 10 digits, ignoring formatting and country code
+   * @returns The digits, or null when there are fewer than 7
+   * @example
+   * ```typescript
+   * CandidateMatchHelper.normalizePhone("+91 (987) 654-3210"); // "9876543210"
+   * ```
+   */
+  static normalizePhone(phone: string | null | undefined): string | null {
+    const digits = (phone ?? "").replace(/\D/g, "");
+    if (digits.length < 7) return null;
+    return digits.length > 10 ? digits.substring(digits.length - 10) : digits;
+  }
+
+  /**
+   * Normalizes a name for comparison: lowercase, without accents or punctuation,
+   * with its words sorted so that "Doe John" equals "John Doe"
+   */
+  static normalizeName(name: string | null | undefined): string {
+    return (name ?? "")
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, " ")
+      .split(/\s+/)
+      .filter((word) => word.length)
+      .sort()
+      .join(" ");
+  }
+
+  /**
+   * Similarity of two strings between 0 and 1, based on the edit distance
+   */
+  static similarity(a: string, b: string): number {
+    if (!a.length && !b.length) return 1;
+    if (!a.length || !b.length) return 0;
+    return 1 - this.editDistance(a, b) / Math.max(a.length, b.length);
+  }
+
+  /**
+   * Scores how likely two candidates are the same person
+   */
+  static score(a: CandidateContact, b: CandidateContact): CandidateMatch {
+    const reasons: string[] = [];
+    let score = 0;
+
+    const emailA = this.normalizeEmail(a.Email);
+    const emailB = this.normalizeEmail(b.Email);
+    if (emailA && emailA === emailB) {
+      score += 60;
+      reasons.push("Same email");
+    } else if (emailA && emailB) {
+      const localA = emailA.split("@")[0];
+      if (localA.length >= 4 && localA === emailB.split("@")[0]) {
+        score += 25;
+        reasons.push("Same email name at another domain");
+      }
+    }
+
+    const phoneA = this.normalizePhone(a.Phone);
+    if (phoneA && phoneA === this.normalizePhone(b.Phone)) {
+      score += 30;
+      reasons.push("Same phone");
+    }
+
+    const nameA = this.normalizeName(a.FullName);
+    const nameB = this.normalizeName(b.FullName);
+    if (nameA.length && nameB.length) {
+      const similarity = this.similarity(nameA, nameB);
+      if (similarity >= 0.7) {
+        score += Math.round(20 * similarity);
+        reasons.push(similarity === 1 ? "Same name" : "Similar name");
+      }
+    }
+
+    return { Score: Math.min(100, score), Reasons: reasons };
+  }
+
+  //#endregion
+
+  //#region Private Static Methods
+
+  private static editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+        );
+      }
+      previous = current;
+    }
+
+    return previous[b.length];
+  }
+
+  //#endregion
+}
@@ -0,0 +1,685 @@
+import { FieldType } from "@/data/enums/field_type";
+import {
+  FormFieldResult,
+  FormSectionResult,
+  FormTemplateResult,
+} from "@/data/results/form_template_result";
+import { Validator } from "@/core/utils/validator.utils";
+import { DateHelper } from "@/core/utils/date.utils";
+import { Options } from "@/data/entities/options";
+import { ConditionMatch, ConditionOperator } from "@/data/enums/condition";
+import {
+  VisibilityCondition,
+  VisibilityRule,
+} from "@/data/models/VisibilityCondition";
+
+/**
+ * Per-field error messages keyed by FormField.Name
+ */
+export type FormErrors = Record<string, string[]>;
+
+/**
+ * Form validation helper for submissions made against a FormTemplate
+ * @remarks
+ * Answers are a JSON object keyed by FormField.Name.
+ * For Number, Price and Range fields MinLength/MaxLength bound the value,
+ * for MultiSelect and Checkbox fields they bound the number of selections,
+ * and for every other field they bound the text length.
+ * Fields and sections with Conditions are only validated while their
+ * conditions match, so hidden required fields are not enforced.
+ */
+export class FormValidationHelper {
+  private static readonly NUMERIC_TYPES = [
+    FieldType.Number,
+    FieldType.Price,
+    FieldType.Range,
+  ];
+
+  private static readonly MULTI_VALUE_TYPES = [
+    FieldType.MultiSelect,
+    FieldType.Checkbox,
+  ];
+
+  private static readonly TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+  private static readonly MAX_PATTERN_LENGTH = 200;
+
+  /**
+   * Longest answer a Pattern is run against - answers come from public forms
+   */
+  private static readonly MAX_PATTERN_INPUT_LENGTH = 1000;
+
+  //#region Public Static Methods
+
+  /**
+   * Validates answers against every visible field of a template
+   * @param template Nested form template (sections, fields and options)
+   * @param answers Submitted answers keyed by field name
+   * @returns Errors keyed by field name - empty when the submission is valid
+   * @example
+   * ```typescript
+   * const errors = FormValidationHelper.validate(template, { email: "x" });
+   * // { email: ["Email must be a valid email address"] }
+   * ```
+   */
+  static validate(
+    template: FormTemplateResult,
+    answers: Record<string, unknown>,
+  ): FormErrors {
+    const errors: FormErrors = {};
+
+    for (const field of this.getVisibleFields(template, answers)) {
+      const fieldErrors = this.validateField(field, answers?.[field.Name]);
+      if (fieldErrors.length) {
+        errors[field.Name] = fieldErrors;
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validates a single answer against its field definition
+   * @param field Field definition including its options
+   * @param value Submitted value
+   * @returns Error messages for the field
+   */
+  static validateField(field: FormFieldResult, value: unknown): string[] {
+    const label = field.Label || field.Name;
+    const type = Number(field.Type) as FieldType;
+
+    if (this.isEmpty(value)) {
+      return this.toBoolean(field.IsRequired, false)
+        ? [`${label} is required`]
+        : [];
+    }
+
+    if (this.MULTI_VALUE_TYPES.includes(type)) {
+      return this.validateMultiValue(field, label, type, value);
+    }
+
+    if (typeof value === "object") {
+      return [`${label} must be a single value`];
+    }
+
+    if (this.NUMERIC_TYPES.includes(type)) {
+      return this.validateNumber(field, label, type, value);
+    }
+
+    const text = String(value);
+    const errors: string[] = [];
+
+    switch (type) {
+      case FieldType.Email:
+        if (!Validator.isValidEmail(text)) {
+          errors.push(`${label} must be a valid email address`);
+        }
+        break;
+      case FieldType.Phone:
+        if (!Validator.isValidPhone(text)) {
+          errors.push(`${label} must be a valid phone number`);
+        }
+        break;
+      case FieldType.Date:
+        if (DateHelper.parse(text) == null) {
+          errors.push(`${label} must be a valid date`);
+        }
+        break;
+      case FieldType.Time:
+        if (!this.TIME_PATTERN.test(text)) {
+          errors.push(`${label} must be a valid time (HH:mm)`);
+        }
+        break;
+      case FieldType.Select:
+      case FieldType.Radio:
+        if (!this.getOptionValues(field).includes(text)) {
+          errors.push(`${label} must be one of the listed options`);
+        }
+        break;
+    }
+
+    if (field.MinLength != null && text.length < Number(field.MinLength)) {
+      errors.push(`${label} must be at least ${field.MinLength} characters`);
+    }
+    if (field.MaxLength != null && text.length > Number(field.MaxLength)) {
+      errors.push(`${label} must be at most ${field.MaxLength} characters`);
+    }
+
+    const pattern = this.toRegExp(field.Pattern);
+    if (pattern && text.length > this.MAX_PATTERN_INPUT_LENGTH) {
+      errors.push(
+        `${label} must be at most ${this.MAX_PATTERN_INPUT_LENGTH} characters`,
+      );
+    } else if (pattern && !pattern.test(text)) {
+      errors.push(`${label} is not in the expected format`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Flattens the sections of a template into its fields
+   * @remarks
+   * Handles the nested JSON columns being returned either parsed or as strings,
+   * and JSON_ARRAYAGG returning null for empty lists
+   */
+  static getFields(template: FormTemplateResult): FormFieldResult[] {
+    return this.getSections(template).flatMap((section) =>
+      this.toArray<FormFieldResult>(section.Fields).map((field) => ({
+        ...field,
+        Options: this.toArray(field.Options),
+      })),
+    );
+  }
+
+  /**
+   * Gets the sections of a template as an array
+   */
+  static getSections(template: FormTemplateResult): FormSectionResult[] {
+    return this.toArray<FormSectionResult>(template?.Sections);
+  }
+
+  /**
+   * Copies a template with its sections, fields and options as arrays
+   * ordered by SortOrder, so that snapshots can be stored and compared
+   */
+  static normalize(template: FormTemplateResult): FormTemplateResult {
+    const bySortOrder = (a: { SortOrder: number }, b: { SortOrder: number }) =>
+      Number(a.SortOrder) - Number(b.SortOrder);
+
+    return {
+      ...template,
+      Sections: this.getSections(template)
+        .map((section) => ({
+          ...section,
+          Fields: this.toArray<FormFieldResult>(section.Fields)
+            .map((field) => ({
+              ...field,
+              Options: this.toArray<Options>(field.Options).sort(bySortOrder),
+            }))
+            .sort(bySortOrder),
+        }))
+        .sort(bySortOrder),
+    };
+  }
+
+  /**
+   * Gets the fields shown for the given answers
+   * @remarks
+   * A field is shown when its IsVisible flag is set and both its own and its
+   * section's conditions match. Answers of hidden fields are treated as empty
+   * when evaluating the conditions of other fields.
+   */
+  static getVisibleFields(
+    template: FormTemplateResult,
+    answers: Record<string, unknown>,
+  ): FormFieldResult[] {
+    const entries = this.getSections(template).flatMap((section) =>
+      this.toArray<FormFieldResult>(section.Fields).map((field) => ({
+        section,
+        field: { ...field, Options: this.toArray<Options>(field.Options) },
+      })),
+    );
+    const byName = new Map(entries.map((e) => [e.field.Name, e]));
+    const resolved = new Map<string, boolean>();
+
+    const isVisible = (name: string, visiting: Set<string>): boolean => {
+      if (resolved.has(name)) return resolved.get(name)!;
+
+      const entry = byName.get(name);
+      if (!entry || visiting.has(name)) return false;
+      visiting.add(name);
+
+      const answerOf = (fieldName: string) =>
+        byName.has(fieldName) && !isVisible(fieldName, visiting)
+          ? undefined
+          : answers?.[fieldName];
+
+      const visible =
+        this.toBoolean(entry.field.IsVisible, true) &&
+        this.matchesCondition(entry.section.Conditions, answerOf) &&
+        this.matchesCondition(entry.field.Conditions, answerOf);
+
+      visiting.delete(name);
+      resolved.set(name, visible);
+      return visible;
+    };
+
+    return entries
+      .filter((e) => isVisible(e.field.Name, new Set()))
+      .map((e) => e.field);
+  }
+
+  /**
+   * Parses stored conditions, accepting either a JSON string or an object
+   * @returns The condition, or null when none is set or it cannot be parsed
+   */
+  static parseConditions(value: unknown): VisibilityCondition | null {
+    if (value === undefined || value === null || value === "") return null;
+
+    let condition: unknown = value;
+    if (typeof value === "string") {
+      try {
+        condition = JSON.parse(value);
+      } catch {
+        return null;
+      }
+    }
+
+    if (
+      condition == null ||
+      typeof condition !== "object" ||
+      !Array.isArray((condition as VisibilityCondition).Rules)
+    ) {
+      return null;
+    }
+
+    return condition as VisibilityCondition;
+  }
+
+  /**
+   * Validates a field Pattern before it is stored
+   * @remarks
+   * Patterns run on public form answers, so patterns that can backtrack
+   * catastrophically - a repeated group that itself repeats, a repeated group
+   * whose alternatives can start with the same character, or a backreference -
+   * are rejected.
+   * @param pattern Pattern of a field
+   * @returns Error messages - empty when the pattern is valid or not set
+   */
+  static getPatternErrors(pattern: string | null | undefined): string[] {
+    if (pattern === undefined || pattern === null || pattern === "") {
+      return [];
+    }
+    if (pattern.length > this.MAX_PATTERN_LENGTH) {
+      return [`Pattern must be at most ${this.MAX_PATTERN_LENGTH} characters`];
+    }
+    try {
+      new RegExp(pattern);
+    } catch {
+      return ["Pattern is not a valid regular expression"];
+    }
+    if (/\\[1-9]|\\k</.test(pattern)) {
+      return ["Pattern cannot use backreferences"];
+    }
+    if (this.hasNestedQuantifier(pattern)) {
+      return ["Pattern cannot repeat a group that itself repeats"];
+    }
+    if (this.hasOverlappingAlternation(pattern)) {
+      return [
+        "Pattern cannot repeat a group whose alternatives can match the same text",
+      ];
+    }
+    return [];
+  }
+
+  /**
+   * Validates the shape of conditions before they are stored
+   * @param conditions Conditions JSON of a field or section
+   * @returns Error messages - empty when the conditions are valid or not set
+   */
+  static getConditionErrors(conditions: string | null | undefined): string[] {
+    if (conditions === undefined || conditions === null || conditions === "") {
+      return [];
+    }
+
+    const condition = this.parseConditions(conditions);
+    if (!condition) {
+      return ["Conditions must be a JSON object with a Rules array"];
+    }
+
+    const errors: string[] = [];
+
+    if (
+      condition.Match != null &&
+      !Object.values(ConditionMatch).includes(condition.Match)
+    ) {
+      errors.push(`Conditions.Match must be one of: ${Object.values(ConditionMatch).join(", ")}`);
+    }
+
+    condition.Rules.forEach((rule, index) => {
+      if (!rule?.Field?.length) {
+        errors.push(`Conditions.Rules[${index}].Field is required`);
+      }
+      if (!Object.values(ConditionOperator).includes(rule?.Operator)) {
+        errors.push(
+          `Conditions.Rules[${index}].Operator must be one of: ${Object.values(ConditionOperator).join(", ")}`,
+        );
+      }
+      if (
+        [ConditionOperator.In, ConditionOperator.NotIn].includes(rule?.Operator) &&
+        !Array.isArray(rule.Value)
+      ) {
+        errors.push(`Conditions.Rules[${index}].Value must be an array`);
+      }
+    });
+
+    return errors;
+  }
+
+  //#endregion
+
+  //#region Private Static Methods
+
+  private static validateNumber(
+    field: FormFieldResult,
+    label: string,
+    type: FieldType,
+    value: unknown,
+  ): string[] {
+    const number = typeof value === "number" ? value : Number(value);
+
+    if (typeof value === "boolean" || isNaN(number) || String(value).trim() === "") {
+      return [`${label} must be a number`];
+    }
+
+    const errors: string[] = [];
+
+    if (type === FieldType.Price && number < 0) {
+      errors.push(`${label} cannot be negative`);
+    }
+    if (field.MinLength != null && number < Number(field.MinLength)) {
+      errors.push(`${label} must be at least ${field.MinLength}`);
+    }
+    if (field.MaxLength != null && number > Number(field.MaxLength)) {
+      errors.push(`${label} must be at most ${field.MaxLength}`);
+    }
+
+    return errors;
+  }
+
+  private static validateMultiValue(
+    field: FormFieldResult,
+    label: string,
+    type: FieldType,
+    value: unknown,
+  ): string[] {
+    const optionValues = this.getOptionValues(field);
+
+    // A checkbox without options is a single yes/no answer
+    if (type === FieldType.Checkbox && !optionValues.length) {
+      return typeof value === "boolean" || value === "true" || value === "false"
+        ? []
+        : [`${label} must be true or false`];
+    }
+
+    if (!Array.isArray(value)) {
+      return [`${label} must be a list of options`];
+    }
+
+    const errors: string[] = [];
+    const invalid = value.filter((v) => !optionValues.includes(String(v)));
+
+    if (invalid.length) {
+      errors.push(`${label} contains invalid options: ${invalid.join(", ")}`);
+    }
+    if (field.MinLength != null && value.length < Number(field.MinLength)) {
+      errors.push(`${label} requires at least ${field.MinLength} selections`);
+    }
+    if (field.MaxLength != null && value.length > Number(field.MaxLength)) {
+      errors.push(`${label} allows at most ${field.MaxLength} selections`);
+    }
+
+    return errors;
+  }
+
+  private static matchesCondition(
+    conditions: unknown,
+    answerOf: (fieldName: string) => unknown,
+  ): boolean {
+    const condition = this.parseConditions(conditions);
+    if (!condition || !condition.Rules.length) return true;
+
+    const results = condition.Rules.map((rule) =>
+      this.matchesRule(rule, answerOf(rule.Field)),
+    );
+
+    return condition.Match === ConditionMatch.Any
+      ? results.some(Boolean)
+      : results.every(Boolean);
+  }
+
+  private static matchesRule(rule: VisibilityRule, answer: unknown): boolean {
+    const answers = (Array.isArray(answer) ? answer : [answer])
+      .filter((a) => a !== undefined && a !== null)
+      .map(String);
+    const expected = (Array.isArray(rule.Value) ? rule.Value : [rule.Value]).map(
+      String,
+    );
+
+    switch (rule.Operator) {
+      case ConditionOperator.Equals:
+        return answers.some((a) => a === expected[0]);
+      case ConditionOperator.NotEquals:
+        return !answers.some((a) => a === expected[0]);
+      case ConditionOperator.In:
+        return answers.some((a) => expected.includes(a));
+      case ConditionOperator.NotIn:
+        return !answers.some((a) => expected.includes(a));
+      case ConditionOperator.Contains:
+        return Array.isArray(answer)
+          ? answers.includes(expected[0])
+          : answers.some((a) => a.includes(expected[0]));
+      case ConditionOperator.GreaterThan:
+        return answers.some((a) => Number(a) > Number(expected[0]));
+      case ConditionOperator.LessThan:
+        return answers.some((a) => Number(a) < Number(expected[0]));
+      case ConditionOperator.IsEmpty:
+        return this.isEmpty(answer);
+      case ConditionOperator.IsNotEmpty:
+        return !this.isEmpty(answer);
+      default:
+        return true;
+    }
+  }
+
+  private static getOptionValues(field: FormFieldResult): string[] {
+    return this.toArray<{ Value: string }>(field.Options).map((o) =>
+      String(o.Value),
+    );
+  }
+
+  /**
+   * Patterns that fail validation, e.g. stored before it existed, are ignored
+   */
+  private static toRegExp(pattern: string | null): RegExp | null {
+    if (!pattern?.length || this.getPatternErrors(pattern).length) return null;
+    try {
+      return new RegExp(pattern);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Whether a group containing a quantifier is itself quantified, e.g. (a+)+
+   */
+  private static hasNestedQuantifier(pattern: string): boolean {
+    // Whether each open group contains a quantifier
+    const groups: boolean[] = [];
+    // Whether the group that just closed contains a quantifier
+    let repeating = false;
+
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+
+      if (char === "\\") {
+        i++;
+        repeating = false;
+      } else if (char === "[") {
+        for (i++; i < pattern.length && pattern[i] !== "]"; i++) {
+          if (pattern[i] === "\\") i++;
+        }
+        repeating = false;
+      } else if (char === "(") {
+        groups.push(false);
+        repeating = false;
+      } else if (char === ")") {
+        repeating = groups.pop() ?? false;
+        if (repeating && groups.length) groups[groups.length - 1] = true;
+      } else if (
+        char === "*" ||
+        char === "+" ||
+        (char === "{" && /^\{\d+(,\d*)?\}/.test(pattern.slice(i)))
+      ) {
+        if (repeating) return true;
+        if (groups.length) groups[groups.length - 1] = true;
+      } else if (char !== "?") {
+        repeating = false;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Whether a quantified group holds alternatives that can start with the same
+   * character, e.g. (a|a)* or (\w|\d)+ - each repetition can then be matched
+   * more than one way
+   */
+  private static hasOverlappingAlternation(pattern: string): boolean {
+    // Start index of each open group
+    const groups: number[] = [];
+    // Body of the group that just closed
+    let closed: string | null = null;
+
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+
+      if (char === "\\") {
+        i++;
+        closed = null;
+      } else if (char === "[") {
+        for (i++; i < pattern.length && pattern[i] !== "]"; i++) {
+          if (pattern[i] === "\\") i++;
+        }
+        closed = null;
+      } else if (char === "(") {
+        groups.push(i);
+        closed = null;
+      } else if (char === ")") {
+        closed = pattern.slice((groups.pop() ?? -1) + 1, i);
+      } else if (
+        char === "*" ||
+        char === "+" ||
+        (char === "{" && /^\{\d+(,\d*)?\}/.test(pattern.slice(i)))
+      ) {
+        if (closed !== null && this.alternativesOverlap(closed, pattern)) return true;
+        closed = null;
+      } else {
+        closed = null;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Whether any alternation in a group body, including nested groups, has two
+   * alternatives that can start with the same character
+   * @param pattern Whole pattern - its characters are also sampled
+   */
+  private static alternativesOverlap(body: string, pattern: string): boolean {
+    // Drop the group prefix, e.g. ?: or ?<name>
+    const content = body.replace(/^\?(:|=|!|<=|<!|<[A-Za-z_$][\w$]*>)/, "");
+
+    const alternatives: string[] = [];
+    const nested: string[] = [];
+    let depth = 0;
+    let start = 0;
+    let groupStart = 0;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (char === "\\") {
+        i++;
+      } else if (char === "[") {
+        for (i++; i < content.length && content[i] !== "]"; i++) {
+          if (content[i] === "\\") i++;
+        }
+      } else if (char === "(") {
+        if (depth++ === 0) groupStart = i + 1;
+      } else if (char === ")") {
+        if (--depth === 0) nested.push(content.slice(groupStart, i));
+      } else if (char === "|" && depth === 0) {
+        alternatives.push(content.slice(start, i));
+        start = i + 1;
+      }
+    }
+    alternatives.push(content.slice(start));
+
+    // ASCII, the pattern's own literals and range bounds, and a few non-ASCII letters and spaces
+    const samples = [
+      ...Array.from({ length: 128 }, (_, code) => String.fromCharCode(code)),
+      ...pattern,
+      "\u00a0",
+      "\u00e9",
+      "\u0436",
+      "\u2028",
+      "\u4e2d",
+    ];
+    const firsts = alternatives.map((alternative) => this.toFirstCharacter(alternative));
+    for (let a = 0; a < firsts.length; a++) {
+      for (let b = a + 1; b < firsts.length; b++) {
+        const first = firsts[a];
+        const second = firsts[b];
+        if (first === null || second === null) return true;
+        if (samples.some((sample) => first.test(sample) && second.test(sample))) {
+          return true;
+        }
+      }
+    }
+
+    return nested.some((group) => this.alternativesOverlap(group, pattern));
+  }
+
+  /**
+   * Matcher for the first character of an alternative
+   * @returns null when the first character cannot be told, e.g. the alternative
+   * is empty, starts with a group or an anchor, or its first atom is optional
+   */
+  private static toFirstCharacter(alternative: string): RegExp | null {
+    const atom =
+      /^(\\(u[\da-fA-F]{4}|x[\da-fA-F]{2}|c[A-Za-z]|[^bBu\dxck])|\[(\\.|[^\]\\])*\]|[^\\[\]()^$|*+?{])/.exec(
+        alternative
+      )?.[0];
+    if (!atom) return null;
+
+    const next = alternative.slice(atom.length);
+    if (/^(\*|\?|\{0[,}])/.test(next)) return null;
+
+    try {
+      return new RegExp(`^${atom}$`);
+    } catch {
+      return null;
+    }
+  }
+
+  private static isEmpty(value: unknown): boolean {
+    if (value === undefined || value === null) return true;
+    if (typeof value === "string") return value.trim().length === 0;
+    if (Array.isArray(value)) return value.length === 0;
+    return false;
+  }
+
+  private static toBoolean(value: unknown, defaultValue: boolean): boolean {
+    if (value === undefined || value === null) return defaultValue;
+    return value === true || value === 1 || value === "1" || value === "true";
+  }
+
+  private static toArray<T>(value: unknown): T[] {
+    if (Array.isArray(value)) return value as T[];
+    if (typeof value === "string" && value.length) {
+      try {
+        const parsed = JSON.parse(value);
+        return Array.isArray(parsed) ? parsed : [];
+      } catch {
+        return [];
+      }
+    }
+    return [];
+  }
+
+  //#endregion
+}
@@ -0,0 +1,264 @@
+import { EmploymentType } from "@/data/enums/employment_type";
+import { RemoteType } from "@/data/enums/remote_type";
+
+export interface JobFeedOrganization {
+  Uid: string;
+  Name: string;
+  OrgSite?: string | null;
+  LogoUrl?: string | null;
+  /**
+   * Careers page of the organization
+   */
+  Url: string;
+}
+
+export interface JobFeedPosting {
+  Uid: string;
+  Name: string;
+  Description: string;
+  Department?: string | null;
+  Location?: string | null;
+  RemoteType: RemoteType;
+  EmploymentType: EmploymentType;
+  SalaryMin?: number | null;
+  SalaryMax?: number | null;
+  SalaryCurrency?: string | null;
+  PostedOn: Date;
+  CloseOn?: Date | null;
+  /**
+   * Posting page of the position
+   */
+  Url: string;
+}
+
+/**
+ * Job Feed Helper Class
+ * Builds the feeds job aggregators read the open positions from
+ *
+ * @remarks
+ * The XML feed follows the `<source>/<job>` format most aggregators accept;
+ * text is wrapped in CDATA sections. Salary ranges are published as annual
+ * amounts. Dates are written as RFC 1123 (XML, RSS) or ISO 8601 (JSON-LD).
+ */
+export class JobFeedHelper {
+  private static readonly JOB_TYPES: Record<EmploymentType, string> = {
+    [EmploymentType.FullTime]: "fulltime",
+    [EmploymentType.PartTime]: "parttime",
+    [EmploymentType.Contract]: "contract",
+    [EmploymentType.Temporary]: "temporary",
+    [EmploymentType.Internship]: "internship",
+  };
+
+  /**
+   * schema.org JobPosting employmentType values
+   */
+  private static readonly SCHEMA_EMPLOYMENT_TYPES: Record<EmploymentType, string> = {
+    [EmploymentType.FullTime]: "FULL_TIME",
+    [EmploymentType.PartTime]: "PART_TIME",
+    [EmploymentType.Contract]: "CONTRACTOR",
+    [EmploymentType.Temporary]: "TEMPORARY",
+    [EmploymentType.Internship]: "INTERN",
+  };
+
+  //#region Public Static Methods
+
+  /**
+   * Builds the aggregator XML feed of an organization
+   * @param organization Publishing organization
+   * @param postings Open positions
+   * @param lastModified Time of the last change to the feed
+   * @returns XML document
+   */
+  static toXml(
+    organization: JobFeedOrganization,
+    postings: JobFeedPosting[],
+    lastModified: Date
+  ): string {
+    const jobs = postings.map((posting) => {
+      const fields: [string, string | null | undefined][] = [
+        ["title", posting.Name],
+        ["date", posting.PostedOn.toUTCString()],
+        ["referencenumber", posting.Uid],
+        ["url", posting.Url],
+        ["company", organization.Name],
+        ["city", posting.Location],
+        ["description", posting.Description],
+        ["salary", this.formatSalary(posting)],
+        ["jobtype", this.JOB_TYPES[posting.EmploymentType]],
+        ["category", posting.Department],
+        ["remotetype", this.formatRemoteType(posting.RemoteType)],
+        ["expirationdate", posting.CloseOn?.toUTCString()],
+      ];
+
+      return [
+        "  <job>",
+        ...fields
+          .filter(([, value]) => value != null && value !== "")
+          .map(([name, value]) => `    <${name}>${this.cdata(value!)}</${name}>`),
+        "  </job>",
+      ].join("\n");
+    });
+
+    return [
+      '<?xml version="1.0" encoding="utf-8"?>',
+      "<source>",
+      `  <publisher>${this.escapeXml(organization.Name)}</publisher>`,
+      `  <publisherurl>${this.escapeXml(organization.OrgSite || organization.Url)}</publisherurl>`,
+      `  <lastBuildDate>${lastModified.toUTCString()}</lastBuildDate>`,
+      ...jobs,
+      "</source>",
+      "",
+    ].join("\n");
+  }
+
+  /**
+   * Builds the RSS 2.0 feed of an organization
+   * @param organization Publishing organization
+   * @param postings Open positions
+   * @param lastModified Time of the last change to the feed
+   * @returns RSS document
+   */
+  static toRss(
+    organization: JobFeedOrganization,
+    postings: JobFeedPosting[],
+    lastModified: Date
+  ): string {
+    const items = postings.map((posting) =>
+      [
+        "    <item>",
+        `      <title>${this.escapeXml(posting.Name)}</title>`,
+        `      <link>${this.escapeXml(posting.Url)}</link>`,
+        `      <guid isPermaLink="false">${this.escapeXml(posting.Uid)}</guid>`,
+        `      <pubDate>${posting.PostedOn.toUTCString()}</pubDate>`,
+        ...(posting.Department
+          ? [`      <category>${this.escapeXml(posting.Department)}</category>`]
+          : []),
+        `      <description>${this.escapeXml(posting.Description)}</description>`,
+        "    </item>",
+      ].join("\n")
+    );
+
+    return [
+      '<?xml version="1.0" encoding="utf-8"?>',
+      '<rss version="2.0">',
+      "  <channel>",
+      `    <title>${this.escapeXml(`${organization.Name} - Jobs`)}</title>`,
+      `    <link>${this.escapeXml(organization.Url)}</link>`,
+      `    <description>${this.escapeXml(`Open positions at ${organization.Name}`)}</description>`,
+      `    <lastBuildDate>${lastModified.toUTCString()}</lastBuildDate>`,
+      ...items,
+      "  </channel>",
+      "</rss>",
+      "",
+    ].join("\n");
+  }
+
+  /**
+   * Builds the schema.org JobPosting structured data of a posting page
+   * @param organization Hiring organization
+   * @param posting Open position
+   * @returns JSON-LD object
+   */
+  static toJobPosting(
+    organization: JobFeedOrganization,
+    posting: JobFeedPosting
+  ): Record<string, unknown> {
+    const jobPosting: Record<string, unknown> = {
+      "@context": "https://schema.org/",
+      "@type": "JobPosting",
+      title: posting.Name,
+      description: posting.Description,
+      identifier: {
+        "@type": "PropertyValue",
+        name: organization.Name,
+        value: posting.Uid,
+      },
+      datePosted: posting.PostedOn.toISOString(),
+      employmentType: this.SCHEMA_EMPLOYMENT_TYPES[posting.EmploymentType],
+      hiringOrganization: {
+        "@type": "Organization",
+        name: organization.Name,
+        ...(organization.OrgSite ? { sameAs: organization.OrgSite } : {}),
+        ...(organization.LogoUrl ? { logo: organization.LogoUrl } : {}),
+      },
+      directApply: true,
+      url: posting.Url,
+    };
+
+    if (posting.CloseOn) {
+      jobPosting.validThrough = posting.CloseOn.toISOString();
+    }
+    if (posting.Department) {
+      jobPosting.occupationalCategory = posting.Department;
+    }
+    if (posting.RemoteType === RemoteType.Remote) {
+      jobPosting.jobLocationType = "TELECOMMUTE";
+    }
+    if (posting.Location) {
+      jobPosting.jobLocation = {
+        "@type": "Place",
+        address: { "@type": "PostalAddress", addressLocality: posting.Location },
+      };
+    }
+    if (posting.SalaryCurrency && (posting.SalaryMin != null || posting.SalaryMax != null)) {
+      jobPosting.baseSalary = {
+        "@type": "MonetaryAmount",
+        currency: posting.SalaryCurrency,
+        value: {
+          "@type": "QuantitativeValue",
+          ...(posting.SalaryMin != null ? { minValue: Number(posting.SalaryMin) } : {}),
+          ...(posting.SalaryMax != null ? { maxValue: Number(posting.SalaryMax) } : {}),
+          unitText: "YEAR",
+        },
+      };
+    }
+
+    return jobPosting;
+  }
+
+  //#endregion
+
+  //#region Formatting
+
+  private static formatSalary(posting: JobFeedPosting): string | null {
+    const range = [posting.SalaryMin, posting.SalaryMax]
+      .filter((value) => value != null)
+      .map((value) => Number(value).toLocaleString("en-US"));
+    if (!range.length || !posting.SalaryCurrency) return null;
+
+    return `${posting.SalaryCurrency} ${[...new Set(range)].join(" - ")} per year`;
+  }
+
+  private static formatRemoteType(remoteType: RemoteType): string | null {
+    switch (remoteType) {
+      case RemoteType.Remote:
+        return "Fully remote";
+      case RemoteType.Hybrid:
+        return "Hybrid remote";
+      default:
+        return null;
+    }
+  }
+
+  //#endregion
+
+  //#region Escaping
+
+  private static escapeXml(text: string): string {
+    return (text ?? "")
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&apos;");
+  }
+
+  /**
+   * Wraps text in a CDATA section; "]]>" is split across two sections
+   */
+  private static cdata(text: string): string {
+    return `<![CDATA[${text.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+  }
+
+  //#endregion
+}
@@ -0,0 +1,212 @@
+/**
+ * PDF Helper Class
+ * Renders documents to PDF without external dependencies
+ *
+ * @remarks
+ * Produces a plain-text PDF (A4, Helvetica) from HTML: markup is reduced to
+ * paragraphs, headings are set in bold and list items get a bullet. Characters
+ * outside the Windows-1252 character set are replaced with "?".
+ */
+export class PdfHelper {
+  private static readonly PAGE_WIDTH = 595;
+  private static readonly PAGE_HEIGHT = 842;
+  private static readonly MARGIN = 56;
+  private static readonly FONT_SIZE = 11;
+  private static readonly HEADING_SIZE = 14;
+  private static readonly LINE_HEIGHT = 1.45;
+
+  /**
+   * Approximate character width as a share of the font size, used for wrapping
+   */
+  private static readonly AVERAGE_CHAR_WIDTH = 0.5;
+
+  /**
+   * Windows-1252 code points of characters outside Latin-1
+   */
+  private static readonly WIN_ANSI: Record<string, number> = {
+    "€": 0x80, "‚": 0x82, "„": 0x84, "…": 0x85, "‘": 0x91, "’": 0x92,
+    "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "™": 0x99,
+  };
+
+  //#region Public Static Methods
+
+  /**
+   * Renders HTML to a PDF document
+   * @param html Document HTML
+   * @param title Document title stored in the PDF metadata
+   * @returns PDF file content
+   * @example
+   * ```typescript
+   * const pdf = PdfHelper.fromHtml("<h1>Offer</h1><p>Dear Jane,</p>", "Offer letter");
+   * ```
+   */
+  static fromHtml(html: string, title: string = ""): Buffer {
+    return this.render(this.toBlocks(html), title);
+  }
+
+  //#endregion
+
+  //#region Layout
+
+  /**
+   * Reduces HTML to text blocks
+   */
+  private static toBlocks(html: string): { text: string; heading: boolean }[] {
+    const marked = (html ?? "")
+      .replace(/<(head|style|script|title)[^>]*>[\s\S]*?<\/\1>/gi, "")
+      .replace(/<!--[\s\S]*?-->/g, "")
+      // Source line breaks are whitespace, as in a browser
+      .replace(/\s+/g, " ")
+      .replace(/<h[1-6][^>]*>/gi, "\n\u0001")
+      .replace(/<\/h[1-6]>/gi, "\n")
+      .replace(/<li[^>]*>/gi, "\n• ")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(p|div|li|tr|table|ul|ol|section|header|footer)>/gi, "\n\n")
+      .replace(/<\/t[dh]>/gi, "  ")
+      .replace(/<[^>]+>/g, "");
+
+    return this.decodeEntities(marked)
+      .split(/\n/)
+      .map((line) => line.replace(/[ \t\r\f\v ]+/g, " ").trim())
+      .reduce<{ text: string; heading: boolean }[]>((blocks, line) => {
+        const heading = line.startsWith("\u0001");
+        const text = line.replace(/\u0001/g, "").trim();
+        // Keep single blank lines between paragraphs
+        if (text || (blocks.length && blocks[blocks.length - 1].text)) {
+          blocks.push({ text, heading });
+        }
+        return blocks;
+      }, []);
+  }
+
+  private static decodeEntities(text: string): string {
+    const named: Record<string, string> = {
+      amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ",
+      euro: "€", pound: "£", copy: "©", mdash: "—", ndash: "–", hellip: "…",
+    };
+
+    return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (match, entity: string) => {
+      if (entity[0] === "#") {
+        const code =
+          entity[1].toLowerCase() === "x"
+            ? parseInt(entity.slice(2), 16)
+            : parseInt(entity.slice(1), 10);
+        return isNaN(code) ? match : String.fromCodePoint(code);
+      }
+      return named[entity.toLowerCase()] ?? match;
+    });
+  }
+
+  /**
+   * Splits a paragraph into lines that fit the page width
+   */
+  private static wrap(text: string, fontSize: number): string[] {
+    const maxChars = Math.floor(
+      (this.PAGE_WIDTH - 2 * this.MARGIN) / (fontSize * this.AVERAGE_CHAR_WIDTH),
+    );
+    const lines: string[] = [];
+    let line = "";
+
+    for (const word of text.split(" ")) {
+      for (let rest = word; rest.length; ) {
+        const candidate = line ? `${line} ${rest}` : rest;
+        if (candidate.length <= maxChars) {
+          line = candidate;
+          rest = "";
+        } else if (line) {
+          lines.push(line);
+          line = "";
+        } else {
+          // A single word longer than a line is broken
+          lines.push(rest.slice(0, maxChars));
+          rest = rest.slice(maxChars);
+        }
+      }
+    }
+
+    lines.push(line);
+    return lines;
+  }
+
+  //#endregion
+
+  //#region Serialization
+
+  private static render(
+    blocks: { text: string; heading: boolean }[],
+    title: string,
+  ): Buffer {
+    const pages: string[][] = [[]];
+    let y = this.PAGE_HEIGHT - this.MARGIN;
+
+    for (const block of blocks) {
+      const size = block.heading ? this.HEADING_SIZE : this.FONT_SIZE;
+      const font = block.heading ? "F2" : "F1";
+      const leading = size * this.LINE_HEIGHT;
+
+      for (const line of this.wrap(block.text, size)) {
+        if (y - leading < this.MARGIN) {
+          pages.push([]);
+          y = this.PAGE_HEIGHT - this.MARGIN;
+        }
+        y -= leading;
+        if (line) {
+          pages[pages.length - 1].push(
+            `BT /${font} ${size} Tf ${this.MARGIN} ${y.toFixed(2)} Td (${this.encode(line)}) Tj ET`,
+          );
+        }
+      }
+    }
+
+    // Objects 1-4 are the catalog, page tree and fonts; each page adds a page and its content
+    const objects: string[] = [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      `<< /Type /Pages /Kids [${pages.map((_, i) => `${5 + i * 2} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    ];
+    pages.forEach((commands, i) => {
+      const content = commands.join("\n");
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.PAGE_WIDTH} ${this.PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`,
+        `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`,
+      );
+    });
+    objects.push(`<< /Title (${this.encode(title)}) /Producer (Recruitment API) >>`);
+
+    let pdf = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    objects.forEach((object, i) => {
+      offsets.push(Buffer.byteLength(pdf, "latin1"));
+      pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    const xref = Buffer.byteLength(pdf, "latin1");
+    pdf +=
+      `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+      offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("") +
+      `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\n` +
+      `startxref\n${xref}\n%%EOF\n`;
+
+    return Buffer.from(pdf, "latin1");
+  }
+
+  /**
+   * Encodes text as a PDF string literal body in Windows-1252
+   */
+  private static encode(text: string): string {
+    return Array.from(text ?? "")
+      .map((char) => {
+        const code = this.WIN_ANSI[char] ?? char.codePointAt(0)!;
+        if (code > 0xff || (code < 0x20 && code !== 0x09)) return "?";
+        const encoded = String.fromCharCode(code);
+        return encoded === "\\" || encoded === "(" || encoded === ")"
+          ? `\\${encoded}`
+          : encoded;
+      })
+      .join("");
+  }
+
+  //#endregion
+}
@@ -3,6 +3,17 @@ import { getControllerMetadata } from "@/core/decorators/controller.decorator";
 import { getRouteMetadata } from "@/core/decorators/route.decorator";
 import { Container } from "inversify";
 import { isPublicRoute } from "../decorators/public.decorator";
+import {
+  getAuthorizedRoles,
+  getRequiredPermissions,
+  hasRoutePolicy,
+} from "../decorators/authorize.decorator";
+import {
+  authorize,
+  requirePermission,
+} from "@/middleware/implementation/authorize";
+import { Role } from "@/data/enums/role";
+import { Permission } from "@/data/enums/permission";
 import { logger } from "../utils/logger.utils";
 
 interface RouteInfo {
@@ -10,6 +21,8 @@ interface RouteInfo {
   path: string;
   handler: string;
   isPublic: boolean;
+  roles?: Role[];
+  permissions?: Permission[];
   controllerName: string;
 }
 
@@ -42,14 +55,30 @@ export class RouteLoader {
       // Check if route is marked as public
       const isPublic = isPublicRoute(controllerInstance, route.methodName);
 
+      if (isPublic && hasRoutePolicy(controllerInstance, route.methodName)) {
+        throw new Error(
+          `Route ${controllerName}.${route.methodName} cannot be both public and authorized`
+        );
+      }
+
       // Apply controller middlewares only if route is NOT public
       const controllerMiddlewares = isPublic
         ? []
         : controllerMetadata.middlewares;
 
-      // Combine controller middlewares (if not public) + route-specific middlewares
+      // Role policy and permissions of the route - public routes are open to everyone
+      const roles = isPublic
+        ? undefined
+        : getAuthorizedRoles(controllerClass, controllerInstance, route.methodName);
+      const permissions = isPublic
+        ? undefined
+        : getRequiredPermissions(controllerClass, controllerInstance, route.methodName);
+
+      // Combine controller middlewares (if not public) + access checks + route-specific middlewares
       const middlewares: RequestHandler[] = [
         ...controllerMiddlewares,
+        ...(roles ? [authorize(roles)] : []),
+        ...(permissions?.length ? [requirePermission(permissions)] : []),
         ...route.middlewares,
       ];
 
@@ -76,6 +105,8 @@ export class RouteLoader {
           path: fullPath,
           handler: route.methodName,
           isPublic,
+          roles,
+          permissions,
           controllerName,
         });
       }
@@ -144,7 +175,12 @@ export class RouteLoader {
 
       sortedRoutes.forEach((route) => {
         const methodColor = this.getMethodColor(route.method);
-        const accessBadge = route.isPublic ? "🔓 PUBLIC" : "🔒 PROTECTED";
+        const policy = [...(route.roles ?? []), ...(route.permissions ?? [])];
+        const accessBadge = route.isPublic
+          ? "🔓 PUBLIC"
+          : policy.length
+          ? `🔒 PROTECTED ${policy.join(",")}`
+          : "🔒 PROTECTED";
         const methodPadded = route.method.padEnd(6);
 
         logger.info(
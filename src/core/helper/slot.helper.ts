@@ -0,0 +1,133 @@
+export interface TimeInterval {
+  Start: Date;
+  End: Date;
+}
+
+/**
+ * Slot Helper Class
+ * Interval arithmetic used to find free time for interviews
+ *
+ * @remarks
+ * Intervals are half-open ([Start, End)), so back-to-back intervals do not overlap.
+ * Every method returns a new sorted list of non-overlapping intervals.
+ */
+export class SlotHelper {
+  //#region Public Static Methods
+
+  /**
+   * Sorts intervals and merges the ones that overlap or touch
+   */
+  static merge(intervals: TimeInterval[]): TimeInterval[] {
+    const sorted = intervals
+      .filter((i) => i.End > i.Start)
+      .map((i) => ({ Start: new Date(i.Start), End: new Date(i.End) }))
+      .sort((a, b) => a.Start.getTime() - b.Start.getTime());
+
+    const merged: TimeInterval[] = [];
+    for (const interval of sorted) {
+      const last = merged[merged.length - 1];
+      if (last && interval.Start <= last.End) {
+        if (interval.End > last.End) last.End = interval.End;
+      } else {
+        merged.push(interval);
+      }
+    }
+
+    return merged;
+  }
+
+  /**
+   * Removes the busy intervals from the free intervals
+   */
+  static subtract(free: TimeInterval[], busy: TimeInterval[]): TimeInterval[] {
+    const blocked = this.merge(busy);
+    const result: TimeInterval[] = [];
+
+    for (const interval of this.merge(free)) {
+      let start = interval.Start;
+
+      for (const block of blocked) {
+        if (block.End <= start || block.Start >= interval.End) continue;
+        if (block.Start > start) {
+          result.push({ Start: start, End: block.Start });
+        }
+        if (block.End > start) start = block.End;
+      }
+
+      if (start < interval.End) {
+        result.push({ Start: start, End: interval.End });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Keeps only the time covered by both lists
+   */
+  static intersect(a: TimeInterval[], b: TimeInterval[]): TimeInterval[] {
+    const left = this.merge(a);
+    const right = this.merge(b);
+    const result: TimeInterval[] = [];
+    let i = 0;
+    let j = 0;
+
+    while (i < left.length && j < right.length) {
+      const start = left[i].Start > right[j].Start ? left[i].Start : right[j].Start;
+      const end = left[i].End < right[j].End ? left[i].End : right[j].End;
+
+      if (start < end) result.push({ Start: start, End: end });
+
+      if (left[i].End < right[j].End) i++;
+      else j++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Cuts free intervals into slots of a fixed length
+   * @param durationMinutes Length of each slot
+   * @param stepMinutes Slots start on multiples of the step (from midnight UTC)
+   * @param notBefore Slots starting before this moment are skipped
+   * @param limit Maximum number of slots returned
+   */
+  static toSlots(
+    free: TimeInterval[],
+    durationMinutes: number,
+    stepMinutes: number,
+    notBefore: Date,
+    limit: number
+  ): TimeInterval[] {
+    const duration = durationMinutes * 60000;
+    const step = stepMinutes * 60000;
+    const slots: TimeInterval[] = [];
+
+    for (const interval of this.merge(free)) {
+      const earliest = Math.max(interval.Start.getTime(), notBefore.getTime());
+      let start = Math.ceil(earliest / step) * step;
+
+      while (start + duration <= interval.End.getTime()) {
+        slots.push({ Start: new Date(start), End: new Date(start + duration) });
+        if (slots.length >= limit) return slots;
+        start += step;
+      }
+    }
+
+    return slots;
+  }
+
+  /**
+   * Parses a "HH:mm" time of day into minutes since midnight
+   * "24:00" is accepted as the end of the day
+   * @returns Minutes, or null when the value is not a valid time
+   */
+  static parseTimeOfDay(value: string): number | null {
+    if (value === "24:00") return 24 * 60;
+
+    const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value ?? "");
+    return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+  }
+
+  //#endregion
+}
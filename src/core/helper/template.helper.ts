@@ -452,5 +452,205 @@ export class TemplateHelper {
     });
   }
 
+  /**
+   * Loads and processes the interview update template
+   * Used for panel invitations, reschedules and cancellations
+   * @param data Interview data - all values except the date and time are escaped
+   * @returns Processed HTML template
+   */
+  static getInterviewUpdateTemplate(data: {
+    userName: string;
+    heading: string;
+    message: string;
+    candidateName: string;
+    positionTitle: string;
+    interviewDate: string;
+    interviewTime: string;
+    duration: string;
+    location: string;
+    year?: string;
+  }): string {
+    return this.loadAndReplaceTemplate("interview-update", {
+      userName: this.escapeHtml(data.userName),
+      heading: this.escapeHtml(data.heading),
+      message: this.escapeHtml(data.message),
+      candidateName: this.escapeHtml(data.candidateName),
+      positionTitle: this.escapeHtml(data.positionTitle),
+      interviewDate: data.interviewDate,
+      interviewTime: data.interviewTime,
+      duration: data.duration,
+      location: this.escapeHtml(data.location),
+      year: data.year || new Date().getFullYear().toString(),
+    });
+  }
+
+  /**
+   * Loads and processes the note mention template
+   * @param data Note data - the note body is escaped
+   * @returns Processed HTML template
+   */
+  static getNoteMentionTemplate(data: {
+    userName: string;
+    authorName: string;
+    applicantName: string;
+    positionTitle: string;
+    noteBody: string;
+    applicationId: string;
+    year?: string;
+  }): string {
+    return this.loadAndReplaceTemplate("note-mention", {
+      userName: this.escapeHtml(data.userName),
+      authorName: this.escapeHtml(data.authorName),
+      applicantName: this.escapeHtml(data.applicantName),
+      positionTitle: this.escapeHtml(data.positionTitle),
+      noteBody: this.escapeHtml(data.noteBody),
+      applicationId: data.applicationId,
+      year: data.year || new Date().getFullYear().toString(),
+    });
+  }
+
+  /**
+   * Loads and processes the interview scheduling link template
+   * @param data Scheduling data - all values except the URL and dates are escaped
+   * @returns Processed HTML template
+   */
+  static getInterviewSchedulingTemplate(data: {
+    candidateName: string;
+    positionTitle: string;
+    interviewTitle: string;
+    slotCount: string;
+    location: string;
+    scheduleUrl: string;
+    expiryDate: string;
+    year?: string;
+  }): string {
+    return this.loadAndReplaceTemplate("interview-scheduling", {
+      candidateName: this.escapeHtml(data.candidateName),
+      positionTitle: this.escapeHtml(data.positionTitle),
+      interviewTitle: this.escapeHtml(data.interviewTitle),
+      slotCount: data.slotCount,
+      location: this.escapeHtml(data.location),
+      scheduleUrl: data.scheduleUrl,
+      expiryDate: data.expiryDate,
+      year: data.year || new Date().getFullYear().toString(),
+    });
+  }
+
+  /**
+   * Loads and processes the online assessment invitation template
+   * @param data Assessment data - all values except the URL and dates are escaped
+   * @returns Processed HTML template
+   */
+  static getAssessmentInvitationTemplate(data: {
+    candidateName: string;
+    positionTitle: string;
+    testName: string;
+    timeLimit: string;
+    testUrl: string;
+    expiryDate: string;
+    year?: string;
+  }): string {
+    return this.loadAndReplaceTemplate("assessment-invitation", {
+      candidateName: this.escapeHtml(data.candidateName),
+      positionTitle: this.escapeHtml(data.positionTitle),
+      testName: this.escapeHtml(data.testName),
+      timeLimit: data.timeLimit,
+      testUrl: data.testUrl,
+      expiryDate: data.expiryDate,
+      year: data.year || new Date().getFullYear().toString(),
+    });
+  }
+
+  /**
+   * Loads and processes the job offer email template
+   * @param data Offer data - all values except the URL and dates are escaped
+   * @returns Processed HTML template
+   */
+  static getOfferSentTemplate(data: {
+    candidateName: string;
+    organizationName: string;
+    positionTitle: string;
+    startDate: string;
+    expiryDate: string;
+    offerUrl: string;
+    year?: string;
+  }): string {
+    return this.loadAndReplaceTemplate("offer-sent", {
+      candidateName: this.escapeHtml(data.candidateName),
+      organizationName: this.escapeHtml(data.organizationName),
+      positionTitle: this.escapeHtml(data.positionTitle),
+      startDate: data.startDate,
+      expiryDate: data.expiryDate,
+      offerUrl: data.offerUrl,
+      year: data.year || new Date().getFullYear().toString(),
+    });
+  }
+
+  /**
+   * Loads and processes the approval request template
+   * @param data Request data - all values except the URL are escaped
+   * @returns Processed HTML template
+   */
+  static getApprovalRequestTemplate(data: {
+    approverName: string;
+    requestedBy: string;
+    summary: string;
+    step: string;
+    approvalUrl: string;
+    year?: string;
+  }): string {
+    return this.loadAndReplaceTemplate("approval-request", {
+      approverName: this.escapeHtml(data.approverName),
+      requestedBy: this.escapeHtml(data.requestedBy),
+      summary: this.escapeHtml(data.summary),
+      step: this.escapeHtml(data.step),
+      approvalUrl: data.approvalUrl,
+      year: data.year || new Date().getFullYear().toString(),
+    });
+  }
+
+  /**
+   * Loads and processes the approval decision template
+   * @param data Decision data - all values except the URL are escaped
+   * @returns Processed HTML template
+   */
+  static getApprovalDecisionTemplate(data: {
+    requesterName: string;
+    outcome: string;
+    summary: string;
+    decidedBy: string;
+    comment: string;
+    approvalUrl: string;
+    year?: string;
+  }): string {
+    return this.loadAndReplaceTemplate("approval-decision", {
+      requesterName: this.escapeHtml(data.requesterName),
+      outcome: this.escapeHtml(data.outcome),
+      summary: this.escapeHtml(data.summary),
+      decidedBy: this.escapeHtml(data.decidedBy),
+      comment: this.escapeHtml(data.comment),
+      approvalUrl: data.approvalUrl,
+      year: data.year || new Date().getFullYear().toString(),
+    });
+  }
+
+  //#endregion
+
+  //#region Escaping
+
+  /**
+   * Escapes user-provided text for use inside HTML templates
+   * @param value Text to escape
+   * @returns Text with HTML special characters encoded
+   */
+  static escapeHtml(value: string): string {
+    return (value ?? "")
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&#39;");
+  }
+
   //#endregion
 }
@@ -0,0 +1,157 @@
+import { FieldType } from "@/data/enums/field_type";
+import {
+  FormFieldResult,
+  FormTemplateResult,
+} from "@/data/results/form_template_result";
+import { FormValidationHelper } from "./form-validation.helper";
+
+export interface QuestionGrade {
+  Name: string;
+  Points: number;
+  Awarded: number;
+  /**
+   * Null when the question has no answer key and must be reviewed manually
+   */
+  IsCorrect: boolean | null;
+}
+
+export interface TestGrade {
+  /**
+   * Points awarded for the auto-graded questions
+   */
+  Score: number;
+  /**
+   * Points available in the auto-graded questions
+   */
+  MaxScore: number;
+  /**
+   * Whether some questions have no answer key and need manual review
+   */
+  RequiresReview: boolean;
+  Questions: QuestionGrade[];
+}
+
+/**
+ * Test Grading Helper Class
+ * Auto-grades answers to Test form templates
+ *
+ * @remarks
+ * Only visible fields with Points are graded. Choice questions are correct when the
+ * selected options are exactly the ones marked IsCorrect; other questions are correct
+ * when the answer matches CorrectAnswer (numerically for numeric fields, otherwise
+ * ignoring case and surrounding whitespace). Questions without an answer key are
+ * left for manual review and are not part of MaxScore.
+ */
+export class TestGradingHelper {
+  private static readonly SINGLE_CHOICE_TYPES = [FieldType.Select, FieldType.Radio];
+
+  private static readonly MULTI_CHOICE_TYPES = [
+    FieldType.MultiSelect,
+    FieldType.Checkbox,
+  ];
+
+  private static readonly NUMERIC_TYPES = [
+    FieldType.Number,
+    FieldType.Price,
+    FieldType.Range,
+  ];
+
+  //#region Public Static Methods
+
+  /**
+   * Grades answers against the answer key of a template
+   * @param template Test template including its answer key
+   * @param answers Submitted answers keyed by field name
+   */
+  static grade(
+    template: FormTemplateResult,
+    answers: Record<string, unknown>,
+  ): TestGrade {
+    const questions: QuestionGrade[] = [];
+
+    for (const field of FormValidationHelper.getVisibleFields(template, answers)) {
+      const points = Number(field.Points ?? 0);
+      if (!(points > 0)) continue;
+
+      const isCorrect = this.isCorrect(field, answers?.[field.Name]);
+      questions.push({
+        Name: field.Name,
+        Points: points,
+        Awarded: isCorrect ? points : 0,
+        IsCorrect: isCorrect,
+      });
+    }
+
+    const graded = questions.filter((q) => q.IsCorrect !== null);
+
+    return {
+      Score: graded.reduce((sum, q) => sum + q.Awarded, 0),
+      MaxScore: graded.reduce((sum, q) => sum + q.Points, 0),
+      RequiresReview: graded.length < questions.length,
+      Questions: questions,
+    };
+  }
+
+  /**
+   * Copies a template without its answer key, for showing it to candidates
+   */
+  static withoutAnswers<T extends FormTemplateResult>(template: T): T {
+    const normalized = FormValidationHelper.normalize(template);
+
+    return {
+      ...template,
+      Sections: normalized.Sections.map((section) => ({
+        ...section,
+        Fields: section.Fields.map(({ CorrectAnswer, ...field }) => ({
+          ...field,
+          Options: field.Options.map(({ IsCorrect, ...option }) => option),
+        })) as FormFieldResult[],
+      })),
+    };
+  }
+
+  //#endregion
+
+  //#region Private Static Methods
+
+  /**
+   * @returns Whether the answer is correct, or null when the question has no answer key
+   */
+  private static isCorrect(field: FormFieldResult, value: unknown): boolean | null {
+    const type = Number(field.Type) as FieldType;
+
+    if (
+      this.SINGLE_CHOICE_TYPES.includes(type) ||
+      this.MULTI_CHOICE_TYPES.includes(type)
+    ) {
+      const correct = (field.Options ?? [])
+        .filter((o) => o.IsCorrect === true || Number(o.IsCorrect) === 1)
+        .map((o) => String(o.Value));
+      if (!correct.length) return null;
+
+      const selected = (Array.isArray(value) ? value : value == null ? [] : [value]).map(
+        String,
+      );
+
+      return this.SINGLE_CHOICE_TYPES.includes(type)
+        ? selected.length === 1 && correct.includes(selected[0])
+        : selected.length === correct.length &&
+            correct.every((c) => selected.includes(c));
+    }
+
+    if (field.CorrectAnswer == null || field.CorrectAnswer === "") return null;
+    if (value == null || typeof value === "object") return false;
+
+    if (this.NUMERIC_TYPES.includes(type)) {
+      const answer = Number(value);
+      return !isNaN(answer) && answer === Number(field.CorrectAnswer);
+    }
+
+    return (
+      String(value).trim().toLowerCase() ===
+      field.CorrectAnswer.trim().toLowerCase()
+    );
+  }
+
+  //#endregion
+}
@@ -0,0 +1,98 @@
+import pdf from "pdf-parse";
+import mammoth from "mammoth";
+import { FileHelper } from "@/core/utils/file.utils";
+
+/**
+ * Plain-text extraction from resume documents (PDF, DOCX and TXT)
+ * @remarks
+ * The text is collapsed to single spaces and capped at MAX_LENGTH characters
+ * so that it can be indexed for full-text search
+ */
+export class TextExtractionHelper {
+  private static readonly MAX_LENGTH = 100000;
+
+  private static readonly EXTRACTORS: Record<
+    string,
+    (content: Buffer) => Promise<string>
+  > = {
+    ".pdf": async (content) => (await pdf(content)).text,
+    ".docx": async (content) =>
+      (await mammoth.extractRawText({ buffer: content })).value,
+    ".txt": async (content) => content.toString("utf-8"),
+  };
+
+  //#region Public Static Methods
+
+  /**
+   * Whether text can be extracted from a file
+   * @param fileName File name - the extension decides the format
+   */
+  static isSupported(fileName: string): boolean {
+    return (
+      FileHelper.isValidDocumentType(fileName) &&
+      FileHelper.getExtension(fileName) in this.EXTRACTORS
+    );
+  }
+
+  /**
+   * Extracts the plain text of a document
+   * @param content File content
+   * @param fileName File name - the extension decides the format
+   * @returns The text, or null when the format is not supported
+   * @throws {Error} When the document cannot be read
+   * @example
+   * ```typescript
+   * const text = await TextExtractionHelper.extract(buffer, "resume.pdf");
+   * ```
+   */
+  static async extract(
+    content: Buffer,
+    fileName: string,
+  ): Promise<string | null> {
+    if (!this.isSupported(fileName)) return null;
+
+    const text = await this.EXTRACTORS[FileHelper.getExtension(fileName)](
+      content,
+    );
+
+    return text
+      .replace(/\u0000/g, "")
+      .replace(/\s+/g, " ")
+      .trim()
+      .substring(0, this.MAX_LENGTH);
+  }
+
+  /**
+   * Gets a short excerpt of a text around the first matching search term
+   * @param text Full text
+   * @param query Search query
+   * @param length Approximate length of the excerpt
+   */
+  static getSnippet(
+    text: string | null,
+    query: string,
+    length: number = 200,
+  ): string | null {
+    if (!text?.length) return null;
+
+    const lower = text.toLowerCase();
+    const index = query
+      .toLowerCase()
+      .split(/\s+/)
+      .filter((term) => term.length > 1)
+      .map((term) => lower.indexOf(term))
+      .filter((i) => i >= 0)
+      .sort((a, b) => a - b)[0];
+
+    if (index === undefined) return null;
+
+    const start = Math.max(0, index - Math.floor(length / 2));
+    const end = Math.min(text.length, start + length);
+
+    return `${start > 0 ? "…" : ""}${text.substring(start, end).trim()}${
+      end < text.length ? "…" : ""
+    }`;
+  }
+
+  //#endregion
+}
@@ -536,6 +536,41 @@ export class DateHelper {
     return new Date(date.toLocaleString("en-US", { timeZone: timezone }));
   }
 
+  /**
+   * Convert a wall-clock date in a timezone back to the actual moment
+   * (the inverse of toTimezone)
+   * @param date Date whose local fields hold the wall-clock time in the timezone
+   * @param timezone Timezone of the wall-clock time
+   * @returns The moment that wall-clock time happens in the timezone
+   */
+  static fromTimezone(date: Date, timezone: string): Date {
+    const wallTime = Date.UTC(
+      date.getFullYear(),
+      date.getMonth(),
+      date.getDate(),
+      date.getHours(),
+      date.getMinutes(),
+      date.getSeconds()
+    );
+    const offsetAt = (time: number): number => {
+      const zoned = this.toTimezone(new Date(time), timezone);
+      return (
+        Date.UTC(
+          zoned.getFullYear(),
+          zoned.getMonth(),
+          zoned.getDate(),
+          zoned.getHours(),
+          zoned.getMinutes(),
+          zoned.getSeconds()
+        ) - time
+      );
+    };
+
+    // Second pass corrects the offset around daylight saving transitions
+    const guess = wallTime - offsetAt(wallTime);
+    return new Date(wallTime - offsetAt(guess));
+  }
+
   /**
    * Get relative time string (e.g., "2 hours ago", "in 3 days")
    * @param date Date to compare
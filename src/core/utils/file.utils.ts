@@ -77,4 +77,39 @@ export class FileHelper {
     const i = Math.floor(Math.log(bytes) / Math.log(1024));
     return Math.round((bytes / Math.pow(1024, i)) * 100) / 100 + " " + sizes[i];
   }
+
+  /**
+   * Checks that file content matches its declared MIME type using the file signature
+   * @remarks
+   * Types without a known signature (e.g. text/plain) are accepted
+   */
+  static matchesMimeType(content: Buffer, mimeType: string): boolean {
+    const startsWith = (bytes: number[], offset = 0) =>
+      content.length >= offset + bytes.length &&
+      bytes.every((b, i) => content[offset + i] === b);
+
+    switch (mimeType) {
+      case "application/pdf":
+        return startsWith([0x25, 0x50, 0x44, 0x46]); // %PDF
+      case "image/png":
+        return startsWith([0x89, 0x50, 0x4e, 0x47]);
+      case "image/jpeg":
+        return startsWith([0xff, 0xd8, 0xff]);
+      case "image/gif":
+        return startsWith([0x47, 0x49, 0x46, 0x38]);
+      case "image/webp":
+        return (
+          startsWith([0x52, 0x49, 0x46, 0x46]) &&
+          startsWith([0x57, 0x45, 0x42, 0x50], 8)
+        );
+      case "video/mp4":
+        return startsWith([0x66, 0x74, 0x79, 0x70], 4); // ftyp
+      case "application/msword":
+        return startsWith([0xd0, 0xcf, 0x11, 0xe0]);
+      case "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+        return startsWith([0x50, 0x4b, 0x03, 0x04]); // zip
+      default:
+        return true;
+    }
+  }
 }
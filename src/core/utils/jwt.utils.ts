@@ -1,6 +1,8 @@
 import * as jwt from "jsonwebtoken";
+import { randomUUID } from "crypto";
 import { config } from "../config/environment";
 import { Role } from "@/data/enums/role";
+import { TokenType } from "@/data/enums/token_type";
 
 interface JWTPayload {
   UserId: string;
@@ -8,6 +10,23 @@ interface JWTPayload {
   Role: Role;
   TenantId: string;
   InfoId: string;
+  /**
+   * Set by the token pair - access tokens are not accepted as refresh tokens
+   * and the other way round
+   */
+  TokenType?: TokenType;
+  /**
+   * Unique id of a refresh token, so tokens issued in the same second differ
+   */
+  TokenId?: string;
+  /**
+   * Issued at (seconds since epoch), set when the token is signed
+   */
+  iat?: number;
+  /**
+   * Expires at (seconds since epoch), set when the token is signed
+   */
+  exp?: number;
 }
 
 interface JWTOptions {
@@ -48,10 +67,19 @@ export class JWT {
     }
   }
 
-  static decode(token: string): JWTDecodeResult {
+  /**
+   * Verifies a token
+   * @param token JWT
+   * @param tokenType When given, tokens of another type are invalid
+   */
+  static decode(token: string, tokenType?: TokenType): JWTDecodeResult {
     try {
       const payload = jwt.verify(token, this.DEFAULT_SECRET) as JWTPayload;
 
+      if (tokenType && payload.TokenType !== tokenType) {
+        return { Valid: false, Expired: false, Error: "Unexpected token type" };
+      }
+
       return { Valid: true, Payload: payload };
     } catch (error) {
       if (error.name === "TokenExpiredError") {
@@ -83,15 +111,18 @@ export class JWT {
     payload: JWTPayload,
     options?: JWTOptions
   ): string {
-    return this.encode(payload, {
-      ...options,
-      ExpiresIn: this.REFRESH_EXPIRES_IN,
-    });
+    return this.encode(
+      { ...payload, TokenType: TokenType.Refresh, TokenId: randomUUID() },
+      {
+        ...options,
+        ExpiresIn: this.REFRESH_EXPIRES_IN,
+      }
+    );
   }
 
   static generateTokenPair(payload: JWTPayload, options?: JWTOptions) {
     return {
-      AccessToken: this.encode(payload, options),
+      AccessToken: this.encode({ ...payload, TokenType: TokenType.Access }, options),
       RefreshToken: this.generateRefreshToken(payload, options),
     };
   }
@@ -74,4 +74,46 @@ export class Security {
       throw new Error(`Decryption failed: ${error.message}`);
     }
   }
+
+  /**
+   * Creates an HMAC-SHA256 signature of a value (base64url)
+   */
+  static sign(value: string, secretKey: string = config.JWT_SECRET): string {
+    return crypto
+      .createHmac("sha256", secretKey)
+      .update(value)
+      .digest("base64url");
+  }
+
+  /**
+   * Verifies a signature created by sign() in constant time
+   */
+  static verifySignature(
+    value: string,
+    signature: string,
+    secretKey: string = config.JWT_SECRET
+  ): boolean {
+    const expected = Buffer.from(this.sign(value, secretKey));
+    const actual = Buffer.from(signature ?? "");
+    return (
+      expected.length === actual.length &&
+      crypto.timingSafeEqual(expected, actual)
+    );
+  }
+
+  /**
+   * Creates a random URL-safe token for links sent by email
+   * @param bytes Number of random bytes (the token is longer once encoded)
+   */
+  static generateToken(bytes: number = 32): string {
+    return crypto.randomBytes(bytes).toString("base64url");
+  }
+
+  /**
+   * Hashes a token for storage (SHA-256, hex)
+   * Tokens are random, so an unsalted hash is enough to make a leaked table useless
+   */
+  static hashToken(token: string): string {
+    return crypto.createHash("sha256").update(token ?? "").digest("hex");
+  }
 }
@@ -6,9 +6,15 @@ export class Application extends BaseEntities {
   Phone: string = "";
   Experience: string = "";
   PositionId: string = "";
+  CandidateId: string | null = null;
   ResumeUrl: string | null = null;
+  ResumeId: string | null = null;
+  ResumeText: string | null = null;
   CurrentSalary: number | null = null;
   ExpectedSalary: number | null = null;
   NoticePeriod: number | null = null;
   MetaData: string | null = null;
+  StageId: string | null = null;
+  Status: string = "";
+  FormTemplateVersionId: string | null = null;
 }
@@ -0,0 +1,9 @@
+import { ApplicationEventType } from "../enums/application_event";
+import { BaseEntities } from "./base-entities";
+
+export class ApplicationEvent extends BaseEntities {
+  ApplicationId: string = "";
+  EventType: ApplicationEventType = ApplicationEventType.Created;
+  Summary: string = "";
+  Data: string | null = null;
+}
@@ -0,0 +1,9 @@
+import { NoteVisibility } from "../enums/note_visibility";
+import { BaseEntities } from "./base-entities";
+
+export class ApplicationNote extends BaseEntities {
+  ApplicationId: string = "";
+  ParentId: string | null = null;
+  Body: string = "";
+  Visibility: NoteVisibility = NoteVisibility.Team;
+}
@@ -0,0 +1,7 @@
+import { BaseEntities } from "./base-entities";
+
+export class ApplicationNoteMention extends BaseEntities {
+  NoteId: string = "";
+  ApplicationId: string = "";
+  UserId: string = "";
+}
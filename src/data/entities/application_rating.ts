@@ -0,0 +1,7 @@
+import { BaseEntities } from "./base-entities";
+
+export class ApplicationRating extends BaseEntities {
+  ApplicationId: string = "";
+  Rating: number = 0;
+  Comment: string | null = null;
+}
@@ -0,0 +1,8 @@
+import { BaseEntities } from "./base-entities";
+
+export class ApplicationStageHistory extends BaseEntities {
+  ApplicationId: string = "";
+  FromStageId: string | null = null;
+  ToStageId: string = "";
+  Comment: string | null = null;
+}
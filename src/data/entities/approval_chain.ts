@@ -0,0 +1,13 @@
+import { ApprovalEntityType } from "../enums/approval_entity_type";
+import { ApprovalMode } from "../enums/approval_mode";
+import { BaseEntities } from "./base-entities";
+
+export class ApprovalChain extends BaseEntities {
+  Name: string = "";
+  EntityType: ApprovalEntityType = ApprovalEntityType.Offer;
+  Mode: ApprovalMode = ApprovalMode.Sequential;
+  /**
+   * JSON array of approver user ids, in order
+   */
+  ApproverIds: string = "[]";
+}
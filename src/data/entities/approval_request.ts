@@ -0,0 +1,24 @@
+import { ApprovalEntityType } from "../enums/approval_entity_type";
+import { ApprovalMode } from "../enums/approval_mode";
+import { ApprovalStatus } from "../enums/approval_status";
+import { BaseEntities } from "./base-entities";
+
+export class ApprovalRequest extends BaseEntities {
+  ChainId: string = "";
+  EntityType: ApprovalEntityType = ApprovalEntityType.Offer;
+  EntityId: string = "";
+  /**
+   * Guarded action, such as Create, Reopen or Send
+   */
+  Action: string = "";
+  /**
+   * Short description shown to approvers
+   */
+  Summary: string = "";
+  /**
+   * Mode of the chain when the request was made
+   */
+  Mode: ApprovalMode = ApprovalMode.Sequential;
+  Status: ApprovalStatus = ApprovalStatus.Pending;
+  CompletedOn: Date | null = null;
+}
@@ -0,0 +1,15 @@
+import { ApprovalStatus } from "../enums/approval_status";
+import { BaseEntities } from "./base-entities";
+
+export class ApprovalStep extends BaseEntities {
+  RequestId: string = "";
+  UserId: string = "";
+  /**
+   * Steps with the lowest pending order are awaiting a decision - all steps of
+   * a parallel request share order 1
+   */
+  StepOrder: number = 1;
+  Status: ApprovalStatus = ApprovalStatus.Pending;
+  Comment: string | null = null;
+  DecidedOn: Date | null = null;
+}
@@ -0,0 +1,10 @@
+import { BaseEntities } from "./base-entities";
+
+export class Attachment extends BaseEntities {
+  ApplicationId: string | null = null;
+  FileName: string = "";
+  ContentType: string = "";
+  Size: number = 0;
+  StorageProvider: string = "";
+  StorageKey: string = "";
+}
@@ -0,0 +1,10 @@
+import { BaseEntities } from "./base-entities";
+
+export class Candidate extends BaseEntities {
+  FullName: string = "";
+  Email: string = "";
+  Phone: string = "";
+  NormalizedEmail: string | null = null;
+  NormalizedPhone: string | null = null;
+  MergedIntoId: string | null = null;
+}
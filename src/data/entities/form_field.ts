@@ -17,4 +17,14 @@ export class FormField extends BaseEntities {
   SortOrder: number = 0;
   IsVisible: boolean = true;
   Width: number = 100;
+  Conditions: string | null = null;
+  /**
+   * Points awarded for a correct answer in Test templates
+   */
+  Points: number | null = null;
+  /**
+   * Expected answer of non-choice questions in Test templates
+   * Choice questions are graded with Options.IsCorrect instead
+   */
+  CorrectAnswer: string | null = null;
 }
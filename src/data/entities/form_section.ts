@@ -6,4 +6,5 @@ export class FormSection extends BaseEntities {
   Description: string | null = null;
   ShowTitle: boolean = true;
   SortOrder: number = 0;
+  Conditions: string | null = null;
 }
@@ -5,4 +5,9 @@ export class FormTemplate extends BaseEntities {
   Name: string = "";
   Description: string | null = null;
   TemplateType: FormTemplateType = FormTemplateType.Application;
+  PublishedVersion: number | null = null;
+  /**
+   * Default time limit of Test templates
+   */
+  TimeLimitMinutes: number | null = null;
 }
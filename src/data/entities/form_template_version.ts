@@ -0,0 +1,8 @@
+import { BaseEntities } from "./base-entities";
+
+export class FormTemplateVersion extends BaseEntities {
+  FormTemplateId: string = "";
+  Version: number = 0;
+  Snapshot: string = "";
+  Notes: string | null = null;
+}
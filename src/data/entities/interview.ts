@@ -0,0 +1,15 @@
+import { InterviewStatus } from "../enums/interview_status";
+import { BaseEntities } from "./base-entities";
+
+export class Interview extends BaseEntities {
+  ApplicationId: string = "";
+  Title: string = "";
+  StartTime: Date = new Date();
+  EndTime: Date = new Date();
+  Timezone: string = "UTC";
+  Location: string | null = null;
+  MeetingLink: string | null = null;
+  Notes: string | null = null;
+  Status: InterviewStatus = InterviewStatus.Scheduled;
+  Sequence: number = 0;
+}
@@ -0,0 +1,21 @@
+import { FeedbackRecommendation } from "../enums/feedback_recommendation";
+import { BaseEntities } from "./base-entities";
+
+export class InterviewFeedback extends BaseEntities {
+  ApplicationId: string = "";
+  InterviewId: string | null = null;
+  /**
+   * Name of the interview round, e.g. "Technical"
+   */
+  Round: string = "";
+  /**
+   * Published version of the position's feedback template the answers were given against
+   */
+  FormTemplateVersionId: string | null = null;
+  /**
+   * JSON object of answers keyed by FormField.Name
+   */
+  Answers: string = "{}";
+  Recommendation: FeedbackRecommendation = FeedbackRecommendation.Hire;
+  Comment: string | null = null;
+}
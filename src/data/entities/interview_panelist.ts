@@ -0,0 +1,6 @@
+import { BaseEntities } from "./base-entities";
+
+export class InterviewPanelist extends BaseEntities {
+  InterviewId: string = "";
+  UserId: string = "";
+}
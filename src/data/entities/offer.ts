@@ -0,0 +1,37 @@
+import { OfferStatus } from "../enums/offer_status";
+import { BaseEntities } from "./base-entities";
+
+export class Offer extends BaseEntities {
+  ApplicationId: string = "";
+  /**
+   * EmailTemplate of type OfferLetter - the default letter is used when null
+   */
+  TemplateId: string | null = null;
+  Salary: number = 0;
+  /**
+   * ISO 4217 currency code
+   */
+  Currency: string = "";
+  StartDate: Date = new Date();
+  /**
+   * Deadline for the candidate to respond
+   */
+  ExpiresOn: Date = new Date();
+  /**
+   * Additional terms, available to the letter as {{notes}}
+   */
+  Notes: string | null = null;
+  Status: OfferStatus = OfferStatus.Draft;
+  SubmittedOn: Date | null = null;
+  ApprovedOn: Date | null = null;
+  SentOn: Date | null = null;
+  RespondedOn: Date | null = null;
+  /**
+   * Candidate's reason for declining
+   */
+  DeclineReason: string | null = null;
+  /**
+   * SHA-256 of the token sent to the candidate - the token itself is never stored
+   */
+  TokenHash: string | null = null;
+}
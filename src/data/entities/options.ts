@@ -5,4 +5,8 @@ export class Options extends BaseEntities {
   Name: string = "";
   Value: string = "";
   SortOrder: number = 0;
+  /**
+   * Marks the correct choices of questions in Test templates
+   */
+  IsCorrect: boolean = false;
 }
@@ -0,0 +1,13 @@
+import { BaseEntities } from "./base-entities";
+
+/**
+ * Role defined by an organization, made up of permissions
+ */
+export class OrgRole extends BaseEntities {
+  Name: string = "";
+  Description: string | null = null;
+  /**
+   * JSON array of the granted permissions
+   */
+  Permissions: string = "[]";
+}
@@ -0,0 +1,14 @@
+import { BaseEntities } from "./base-entities";
+
+/**
+ * Organization role given to a user
+ * @remarks
+ * An assignment is scoped to a department or a position; without either its
+ * permissions apply to the whole organization.
+ */
+export class OrgRoleAssignment extends BaseEntities {
+  OrgRoleId: string = "";
+  UserId: string = "";
+  DepartmentId: string | null = null;
+  PositionId: string | null = null;
+}
@@ -0,0 +1,11 @@
+import { BaseEntities } from "./base-entities";
+
+export class PasswordReset extends BaseEntities {
+  UserId: string = "";
+  /**
+   * SHA-256 of the token sent to the user - the token itself is never stored
+   */
+  TokenHash: string = "";
+  ExpiresOn: Date = new Date();
+  UsedOn: Date | null = null;
+}
@@ -0,0 +1,10 @@
+import { BaseEntities } from "./base-entities";
+
+export class PipelineStage extends BaseEntities {
+  Name: string = "";
+  Description: string | null = null;
+  SortOrder: number = 0;
+  IsInitial: boolean = false;
+  IsTerminal: boolean = false;
+  AllowedTransitions: string | null = null;
+}
@@ -1,3 +1,6 @@
+import { EmploymentType } from "../enums/employment_type";
+import { PositionStatus } from "../enums/position_status";
+import { RemoteType } from "../enums/remote_type";
 import { BaseEntities } from "./base-entities";
 
 export class Positions extends BaseEntities {
@@ -5,4 +8,22 @@ export class Positions extends BaseEntities {
   Description: string = "";
   DepartmentId: string = "";
   ApplicationTemplateId: string = "";
+  FeedbackTemplateId: string | null = null;
+  Status: PositionStatus = PositionStatus.Draft;
+  /**
+   * Open positions are listed publicly from PublishOn until CloseOn
+   */
+  PublishOn: Date | null = null;
+  CloseOn: Date | null = null;
+  Location: string | null = null;
+  RemoteType: RemoteType = RemoteType.OnSite;
+  EmploymentType: EmploymentType = EmploymentType.FullTime;
+  SalaryMin: number | null = null;
+  SalaryMax: number | null = null;
+  /**
+   * ISO 4217 currency code of the salary range
+   */
+  SalaryCurrency: string | null = null;
+  Headcount: number = 1;
+  HiringManagerId: string | null = null;
 }
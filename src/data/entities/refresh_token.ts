@@ -0,0 +1,24 @@
+import { BaseEntities } from "./base-entities";
+
+/**
+ * Server-side record of an issued refresh token
+ * @remarks
+ * Every refresh replaces the token with a new one of the same family (one
+ * login session). A token used twice means it was copied, so the whole family
+ * is revoked.
+ */
+export class RefreshToken extends BaseEntities {
+  UserId: string = "";
+  FamilyId: string = "";
+  /**
+   * SHA-256 of the refresh token - the token itself is never stored
+   */
+  TokenHash: string = "";
+  ExpiresOn: Date = new Date();
+  /**
+   * When the token was exchanged for its replacement
+   */
+  UsedOn: Date | null = null;
+  ReplacedById: string | null = null;
+  RevokedOn: Date | null = null;
+}
@@ -0,0 +1,21 @@
+import { BaseEntities } from "./base-entities";
+
+export class SchedulingLink extends BaseEntities {
+  ApplicationId: string = "";
+  /**
+   * SHA-256 of the token sent to the candidate - the token itself is never stored
+   */
+  TokenHash: string = "";
+  Title: string = "";
+  Timezone: string = "UTC";
+  Location: string | null = null;
+  MeetingLink: string | null = null;
+  Notes: string | null = null;
+  /**
+   * JSON array of the user ids on the panel
+   */
+  PanelistIds: string = "[]";
+  ExpiresOn: Date = new Date();
+  UsedOn: Date | null = null;
+  InterviewId: string | null = null;
+}
@@ -0,0 +1,7 @@
+import { BaseEntities } from "./base-entities";
+
+export class SchedulingLinkSlot extends BaseEntities {
+  LinkId: string = "";
+  StartTime: Date = new Date();
+  EndTime: Date = new Date();
+}
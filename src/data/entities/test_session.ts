@@ -0,0 +1,36 @@
+import { TestSessionStatus } from "../enums/test_session_status";
+import { BaseEntities } from "./base-entities";
+
+export class TestSession extends BaseEntities {
+  ApplicationId: string = "";
+  FormTemplateId: string = "";
+  FormTemplateVersionId: string = "";
+  /**
+   * SHA-256 of the token sent to the candidate - the token itself is never stored
+   */
+  TokenHash: string = "";
+  TimeLimitMinutes: number = 0;
+  /**
+   * Deadline for starting the test
+   */
+  ExpiresOn: Date = new Date();
+  StartedOn: Date | null = null;
+  /**
+   * StartedOn plus the time limit
+   */
+  DueOn: Date | null = null;
+  SubmittedOn: Date | null = null;
+  TimeUsedSeconds: number | null = null;
+  Status: TestSessionStatus = TestSessionStatus.Pending;
+  /**
+   * JSON object of answers keyed by FormField.Name
+   */
+  Answers: string | null = null;
+  Score: number | null = null;
+  MaxScore: number | null = null;
+  RequiresReview: boolean = false;
+  /**
+   * JSON array of the per-question grades
+   */
+  Grading: string | null = null;
+}
@@ -5,4 +5,8 @@ export class User extends BaseEntities {
   Role: Role = Role.Unknwon;
   Password: string = "";
   Email: string = "";
+  /**
+   * Refresh tokens issued before this time are rejected, e.g. after a password reset
+   */
+  TokensValidAfter: Date | null = null;
 }
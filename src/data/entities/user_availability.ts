@@ -0,0 +1,9 @@
+import { BaseEntities } from "./base-entities";
+
+export class UserAvailability extends BaseEntities {
+  UserId: string = "";
+  DayOfWeek: number = 1;
+  StartTime: string = "09:00";
+  EndTime: string = "17:00";
+  Timezone: string = "UTC";
+}
@@ -0,0 +1,8 @@
+import { BaseEntities } from "./base-entities";
+
+export class UserBlackout extends BaseEntities {
+  UserId: string = "";
+  StartTime: Date = new Date();
+  EndTime: Date = new Date();
+  Reason: string | null = null;
+}
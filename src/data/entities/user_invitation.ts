@@ -0,0 +1,19 @@
+import { Role } from "../enums/role";
+import { BaseEntities } from "./base-entities";
+
+export class UserInvitation extends BaseEntities {
+  Email: string = "";
+  Role: Role = Role.Employee;
+  FirstName: string = "";
+  LastName: string = "";
+  /**
+   * SHA-256 of the token sent to the invitee - the token itself is never stored
+   */
+  TokenHash: string = "";
+  ExpiresOn: Date = new Date();
+  AcceptedOn: Date | null = null;
+  /**
+   * User created when the invitation was accepted
+   */
+  UserId: string | null = null;
+}
@@ -0,0 +1,18 @@
+export enum ApplicationEventType {
+  Created = "Created",
+  Updated = "Updated",
+  StageChanged = "StageChanged",
+  EmailSent = "EmailSent",
+  EmailFailed = "EmailFailed",
+  CandidateMerged = "CandidateMerged",
+  NoteAdded = "NoteAdded",
+  Rated = "Rated",
+  InterviewScheduled = "InterviewScheduled",
+  InterviewRescheduled = "InterviewRescheduled",
+  InterviewCancelled = "InterviewCancelled",
+  TestSubmitted = "TestSubmitted",
+  TestSubmittedLate = "TestSubmittedLate",
+  OfferSent = "OfferSent",
+  OfferAccepted = "OfferAccepted",
+  OfferDeclined = "OfferDeclined",
+}
@@ -0,0 +1,7 @@
+/**
+ * Records whose actions can be guarded by an approval chain
+ */
+export enum ApprovalEntityType {
+  Offer = "Offer",
+  Position = "Position",
+}
@@ -0,0 +1,10 @@
+export enum ApprovalMode {
+  /**
+   * Approvers decide one after another, in the order of the chain
+   */
+  Sequential = "Sequential",
+  /**
+   * All approvers are asked at once
+   */
+  Parallel = "Parallel",
+}
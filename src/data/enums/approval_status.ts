@@ -0,0 +1,6 @@
+export enum ApprovalStatus {
+  Pending = "Pending",
+  Approved = "Approved",
+  Rejected = "Rejected",
+  Cancelled = "Cancelled",
+}
@@ -0,0 +1,5 @@
+export enum ChangeType {
+  Added = "Added",
+  Removed = "Removed",
+  Changed = "Changed",
+}
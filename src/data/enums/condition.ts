@@ -0,0 +1,16 @@
+export enum ConditionOperator {
+  Equals = "Equals",
+  NotEquals = "NotEquals",
+  In = "In",
+  NotIn = "NotIn",
+  Contains = "Contains",
+  GreaterThan = "GreaterThan",
+  LessThan = "LessThan",
+  IsEmpty = "IsEmpty",
+  IsNotEmpty = "IsNotEmpty",
+}
+
+export enum ConditionMatch {
+  All = "All",
+  Any = "Any",
+}
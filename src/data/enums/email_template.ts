@@ -2,4 +2,5 @@ export enum EmailTemplateType {
   Test = 0,
   Application = 1,
   Reminder = 2,
+  OfferLetter = 3,
 }
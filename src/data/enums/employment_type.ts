@@ -0,0 +1,7 @@
+export enum EmploymentType {
+  FullTime = "FullTime",
+  PartTime = "PartTime",
+  Contract = "Contract",
+  Temporary = "Temporary",
+  Internship = "Internship",
+}
@@ -0,0 +1,6 @@
+export enum FeedbackRecommendation {
+  StrongNoHire = "StrongNoHire",
+  NoHire = "NoHire",
+  Hire = "Hire",
+  StrongHire = "StrongHire",
+}
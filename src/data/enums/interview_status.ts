@@ -0,0 +1,5 @@
+export enum InterviewStatus {
+  Scheduled = "Scheduled",
+  Completed = "Completed",
+  Cancelled = "Cancelled",
+}
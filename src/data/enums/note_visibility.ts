@@ -0,0 +1,4 @@
+export enum NoteVisibility {
+  Private = "Private",
+  Team = "Team",
+}
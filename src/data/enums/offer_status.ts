@@ -0,0 +1,10 @@
+export enum OfferStatus {
+  Draft = "Draft",
+  PendingApproval = "PendingApproval",
+  Approved = "Approved",
+  Rejected = "Rejected",
+  Sent = "Sent",
+  Accepted = "Accepted",
+  Declined = "Declined",
+  Expired = "Expired",
+}
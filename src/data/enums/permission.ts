@@ -0,0 +1,11 @@
+/**
+ * Permissions an organization role can grant, written as area.action
+ */
+export enum Permission {
+  PositionRead = "position.read",
+  PositionWrite = "position.write",
+  PositionPublish = "position.publish",
+  ApplicationRead = "application.read",
+  ApplicationWrite = "application.write",
+  ApplicationStageChange = "application.stage.change",
+}
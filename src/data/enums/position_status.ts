@@ -0,0 +1,6 @@
+export enum PositionStatus {
+  Draft = "Draft",
+  Open = "Open",
+  Paused = "Paused",
+  Closed = "Closed",
+}
@@ -0,0 +1,5 @@
+export enum RemoteType {
+  OnSite = "OnSite",
+  Hybrid = "Hybrid",
+  Remote = "Remote",
+}
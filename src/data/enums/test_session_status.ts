@@ -0,0 +1,7 @@
+export enum TestSessionStatus {
+  Pending = "Pending",
+  InProgress = "InProgress",
+  Submitted = "Submitted",
+  Late = "Late",
+  Expired = "Expired",
+}
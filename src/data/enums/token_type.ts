@@ -0,0 +1,7 @@
+/**
+ * Kind of a JWT, stored in its TokenType claim
+ */
+export enum TokenType {
+  Access = "access",
+  Refresh = "refresh",
+}
@@ -0,0 +1,6 @@
+import { Filter } from "./filter";
+
+export class ApplicationSearchFilter extends Filter {
+  PositionId?: string;
+  StageId?: string;
+}
@@ -0,0 +1,8 @@
+import { EmploymentType } from "../enums/employment_type";
+import { Filter } from "./filter";
+
+export class JobBoardFilter extends Filter {
+  DepartmentId?: string;
+  Location?: string;
+  EmploymentType?: EmploymentType;
+}
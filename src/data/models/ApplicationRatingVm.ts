@@ -0,0 +1,7 @@
+/**
+ * View Model for rating an Application (1-5, one rating per reviewer)
+ */
+export class ApplicationRatingVm {
+  Rating: number = 0;
+  Comment?: string | null;
+}
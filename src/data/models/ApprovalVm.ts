@@ -0,0 +1,20 @@
+import { ApprovalEntityType } from '../enums/approval_entity_type';
+import { ApprovalMode } from '../enums/approval_mode';
+
+/**
+ * View Model for an approval chain
+ * An organization has at most one chain per entity type
+ */
+export class ApprovalChainVm {
+  Name: string = '';
+  EntityType: ApprovalEntityType = ApprovalEntityType.Offer;
+  Mode: ApprovalMode = ApprovalMode.Sequential;
+  ApproverIds: string[] = [];
+}
+
+/**
+ * View Model for an approver's decision
+ */
+export class ApprovalDecisionVm {
+  Comment?: string | null;
+}
@@ -0,0 +1,41 @@
+/**
+ * Recurring weekly window of availability
+ * DayOfWeek is 0 (Sunday) to 6 (Saturday); times are "HH:mm" in the schedule's timezone
+ */
+export class AvailabilityWindowVm {
+  DayOfWeek: number = 1;
+  StartTime: string = '09:00';
+  EndTime: string = '17:00';
+}
+
+/**
+ * View Model for publishing a user's weekly availability
+ */
+export class WeeklyAvailabilityVm {
+  Timezone: string = 'UTC';
+  Windows: AvailabilityWindowVm[] = [];
+}
+
+/**
+ * View Model for a period a user is unavailable (e.g. holidays)
+ */
+export class BlackoutVm {
+  StartTime: Date = new Date();
+  EndTime: Date = new Date();
+  Reason?: string | null;
+}
+
+/**
+ * View Model for finding times all the given interviewers are free
+ */
+export class SlotSearchVm {
+  UserIds: string[] = [];
+  From: Date = new Date();
+  To: Date = new Date();
+  DurationMinutes: number = 60;
+  StepMinutes?: number;
+  /**
+   * Timezone used for users who have not published availability
+   */
+  Timezone?: string;
+}
@@ -0,0 +1,6 @@
+/**
+ * Candidates to merge into the candidate of the route
+ */
+export class CandidateMergeVm {
+  SourceIds: string[] = [];
+}
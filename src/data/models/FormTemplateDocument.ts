@@ -0,0 +1,16 @@
+import { FormTemplateResult } from '../results/form_template_result';
+import { OptionGroupResult } from '../results/option_group_result';
+
+/**
+ * Portable JSON document of a form template
+ * The FormTemplateResult tree plus the option groups its fields use, so that
+ * it can be imported into another organization or environment
+ */
+export class FormTemplateDocument extends FormTemplateResult {
+  FormatVersion: number = 1;
+  OptionGroups: OptionGroupResult[] = [];
+}
+
+export class CloneFormTemplateVm {
+  Name?: string;
+}
@@ -0,0 +1,16 @@
+import { FeedbackRecommendation } from '../enums/feedback_recommendation';
+
+/**
+ * View Model for an interviewer's scorecard
+ * Answers are keyed by FormField.Name of the position's feedback template.
+ * Round defaults to the interview's title when InterviewId is given.
+ */
+export class InterviewFeedbackVm {
+  Uid?: string;
+  ApplicationId: string = '';
+  InterviewId: string | null = null;
+  Round: string = '';
+  Answers: Record<string, unknown> = {};
+  Recommendation: FeedbackRecommendation = FeedbackRecommendation.Hire;
+  Comment: string | null = null;
+}
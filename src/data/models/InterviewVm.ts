@@ -0,0 +1,37 @@
+/**
+ * View Model for scheduling an Interview with its panel
+ * Times are ISO date-times; Timezone is the IANA timezone used in emails
+ */
+export class InterviewVm {
+  Uid?: string;
+  ApplicationId: string = '';
+  Title: string = '';
+  StartTime: Date = new Date();
+  EndTime: Date = new Date();
+  Timezone: string = 'UTC';
+  Location: string | null = null;
+  MeetingLink: string | null = null;
+  Notes: string | null = null;
+  PanelistIds: string[] = [];
+}
+
+/**
+ * View Model for moving an Interview to another time or place
+ * Omitted values keep their current value
+ */
+export class RescheduleInterviewVm {
+  StartTime: Date = new Date();
+  EndTime: Date = new Date();
+  Timezone?: string;
+  Location?: string | null;
+  MeetingLink?: string | null;
+  PanelistIds?: string[];
+  Reason?: string | null;
+}
+
+/**
+ * View Model for cancelling an Interview
+ */
+export class CancelInterviewVm {
+  Reason?: string | null;
+}
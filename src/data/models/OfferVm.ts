@@ -0,0 +1,19 @@
+/**
+ * View Model for creating or editing an offer
+ */
+export class OfferVm {
+  ApplicationId: string = '';
+  TemplateId?: string | null;
+  Salary: number = 0;
+  Currency: string = '';
+  StartDate: Date = new Date();
+  ExpiresOn: Date = new Date();
+  Notes?: string | null;
+}
+
+/**
+ * View Model for a candidate's response
+ */
+export class OfferDecisionVm {
+  Comment?: string | null;
+}
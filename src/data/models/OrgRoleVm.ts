@@ -0,0 +1,20 @@
+import { Permission } from '../enums/permission';
+
+/**
+ * View Model for an organization role
+ */
+export class OrgRoleVm {
+  Name: string = '';
+  Description?: string | null;
+  Permissions: Permission[] = [];
+}
+
+/**
+ * View Model for giving an organization role to a user
+ * At most one of DepartmentId and PositionId scopes the role
+ */
+export class OrgRoleAssignmentVm {
+  UserId: string = '';
+  DepartmentId?: string | null;
+  PositionId?: string | null;
+}
@@ -0,0 +1,3 @@
+export class PublishFormTemplateVm {
+  Notes?: string | null;
+}
@@ -0,0 +1,30 @@
+/**
+ * View Model for a time offered on a scheduling link
+ */
+export class SchedulingSlotVm {
+  StartTime: Date = new Date();
+  EndTime: Date = new Date();
+}
+
+/**
+ * View Model for sending a candidate a link to pick an interview time
+ * ExpiresOn defaults to SCHEDULING_LINK_EXPIRES_IN from now
+ */
+export class SchedulingLinkVm {
+  ApplicationId: string = '';
+  Title: string = '';
+  Timezone: string = 'UTC';
+  Location: string | null = null;
+  MeetingLink: string | null = null;
+  Notes: string | null = null;
+  PanelistIds: string[] = [];
+  Slots: SchedulingSlotVm[] = [];
+  ExpiresOn?: Date | null;
+}
+
+/**
+ * View Model for a candidate picking one of the offered times
+ */
+export class BookSlotVm {
+  SlotId: string = '';
+}
@@ -0,0 +1,7 @@
+/**
+ * View Model for moving an Application to another pipeline stage
+ */
+export class StageTransitionVm {
+  StageId: string = '';
+  Comment?: string | null;
+}
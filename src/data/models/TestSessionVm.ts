@@ -0,0 +1,18 @@
+/**
+ * View Model for sending a candidate an online test
+ * TimeLimitMinutes defaults to the template's time limit and
+ * ExpiresOn (the deadline for starting) to TEST_LINK_EXPIRES_IN from now
+ */
+export class TestSessionVm {
+  ApplicationId: string = '';
+  FormTemplateId: string = '';
+  TimeLimitMinutes?: number | null;
+  ExpiresOn?: Date | null;
+}
+
+/**
+ * View Model for a candidate's answers, keyed by FormField.Name
+ */
+export class SubmitTestVm {
+  Answers: Record<string, unknown> = {};
+}
@@ -0,0 +1,8 @@
+/**
+ * A file received in an upload
+ */
+export class UploadedFileVm {
+  FileName: string = '';
+  ContentType: string = '';
+  Content: Buffer = Buffer.alloc(0);
+}
@@ -0,0 +1,22 @@
+import { Role } from '../enums/role';
+
+/**
+ * View Model for inviting a user to the organization
+ */
+export class UserInvitationVm {
+  Email: string = '';
+  Role: Role = Role.Employee;
+  FirstName?: string | null;
+  LastName?: string | null;
+}
+
+/**
+ * View Model for accepting an invitation
+ * The names default to the ones on the invitation
+ */
+export class AcceptInvitationVm {
+  Password: string = '';
+  FirstName?: string | null;
+  LastName?: string | null;
+  Phone?: string | null;
+}
@@ -0,0 +1,20 @@
+import { ConditionMatch, ConditionOperator } from '../enums/condition';
+
+/**
+ * A single rule comparing the answer of another field (by FormField.Name)
+ * In/NotIn take an array Value and match when any selected option is listed
+ */
+export class VisibilityRule {
+  Field: string = '';
+  Operator: ConditionOperator = ConditionOperator.Equals;
+  Value?: unknown;
+}
+
+/**
+ * Visibility condition stored as JSON in FormField.Conditions / FormSection.Conditions
+ * The field or section is shown only when the rules match
+ */
+export class VisibilityCondition {
+  Match: ConditionMatch = ConditionMatch.All;
+  Rules: VisibilityRule[] = [];
+}
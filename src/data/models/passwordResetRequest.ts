@@ -0,0 +1,8 @@
+export class ForgotPasswordRequest {
+  Email: string = "";
+}
+
+export class ResetPasswordRequest {
+  Token: string = "";
+  Password: string = "";
+}
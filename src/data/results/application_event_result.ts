@@ -0,0 +1,11 @@
+import { ApplicationEvent } from "../entities/application_event";
+
+export class ApplicationEventResult extends ApplicationEvent {
+  ActorEmail: string | null = null;
+}
+
+export class FieldChange {
+  Field: string = "";
+  From: unknown = null;
+  To: unknown = null;
+}
@@ -0,0 +1,6 @@
+import { Application } from "../entities/application";
+
+export class ApplicationListResult extends Application {
+  AverageRating: number | null = null;
+  RatingCount: number = 0;
+}
@@ -0,0 +1,14 @@
+import { ApplicationNote } from "../entities/application_note";
+
+export class NoteMentionResult {
+  UserId: string = "";
+  Email: string = "";
+  Name: string | null = null;
+}
+
+export class ApplicationNoteResult extends ApplicationNote {
+  AuthorEmail: string | null = null;
+  AuthorName: string | null = null;
+  Mentions: NoteMentionResult[] = [];
+  Replies: ApplicationNoteResult[] = [];
+}
@@ -0,0 +1,13 @@
+import { ApplicationRating } from "../entities/application_rating";
+
+export class ApplicationRatingResult extends ApplicationRating {
+  ReviewerEmail: string | null = null;
+  ReviewerName: string | null = null;
+}
+
+export class ApplicationRatingSummaryResult {
+  AverageRating: number | null = null;
+  RatingCount: number = 0;
+  MyRating: number | null = null;
+  Ratings: ApplicationRatingResult[] = [];
+}
@@ -0,0 +1,16 @@
+export class ApplicationSearchResult {
+  Uid: string = "";
+  FullName: string = "";
+  Email: string = "";
+  Phone: string = "";
+  Experience: string = "";
+  PositionId: string = "";
+  PositionName: string | null = null;
+  StageId: string | null = null;
+  Status: string = "";
+  CreatedOn: Date = new Date();
+  Score: number = 0;
+  Snippet: string | null = null;
+  AverageRating: number | null = null;
+  RatingCount: number = 0;
+}
@@ -0,0 +1,7 @@
+import { ApplicationStageHistory } from "../entities/application_stage_history";
+
+export class ApplicationStageHistoryResult extends ApplicationStageHistory {
+  FromStage: string | null = null;
+  ToStage: string = "";
+  ChangedByEmail: string | null = null;
+}
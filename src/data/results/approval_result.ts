@@ -0,0 +1,24 @@
+import { ApprovalChain } from "../entities/approval_chain";
+import { ApprovalRequest } from "../entities/approval_request";
+import { ApprovalStatus } from "../enums/approval_status";
+
+export class ApprovalApproverResult {
+  UserId: string = "";
+  Name: string | null = null;
+  Email: string = "";
+}
+
+export class ApprovalChainResult extends ApprovalChain {
+  Approvers: ApprovalApproverResult[] = [];
+}
+
+export class ApprovalStepResult extends ApprovalApproverResult {
+  StepOrder: number = 1;
+  Status: ApprovalStatus = ApprovalStatus.Pending;
+  Comment: string | null = null;
+  DecidedOn: Date | null = null;
+}
+
+export class ApprovalRequestResult extends ApprovalRequest {
+  Steps: ApprovalStepResult[] = [];
+}
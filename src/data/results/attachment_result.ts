@@ -0,0 +1,4 @@
+export class AttachmentUrlResult {
+  Url: string = "";
+  ExpiresOn: Date = new Date();
+}
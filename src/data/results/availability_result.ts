@@ -0,0 +1,16 @@
+import { AvailabilityWindowVm } from "../models/AvailabilityVm";
+
+export class WeeklyAvailabilityResult {
+  UserId: string = "";
+  Timezone: string = "UTC";
+  /**
+   * True when the user has not published availability and working hours apply
+   */
+  IsDefault: boolean = false;
+  Windows: AvailabilityWindowVm[] = [];
+}
+
+export class TimeSlotResult {
+  StartTime: Date = new Date();
+  EndTime: Date = new Date();
+}
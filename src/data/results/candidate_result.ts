@@ -0,0 +1,7 @@
+import { Candidate } from "../entities/candidate";
+
+export class CandidateDuplicateResult extends Candidate {
+  Score: number = 0;
+  Reasons: string[] = [];
+  ApplicationCount: number = 0;
+}
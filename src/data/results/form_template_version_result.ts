@@ -0,0 +1,26 @@
+import { ChangeType } from "../enums/change_type";
+import { FieldChange } from "./application_event_result";
+import { FormTemplateResult } from "./form_template_result";
+
+/**
+ * A form template as published in a version, or the draft when Version is null
+ */
+export class FormTemplateSnapshotResult extends FormTemplateResult {
+  Version: number | null = null;
+  FormTemplateVersionId: string | null = null;
+}
+
+export class FormItemChange {
+  Uid: string = "";
+  Name: string = "";
+  Change: ChangeType = ChangeType.Changed;
+  Changes: FieldChange[] = [];
+}
+
+export class FormTemplateDiffResult {
+  FromVersion: number | null = null;
+  ToVersion: number | null = null;
+  Template: FieldChange[] = [];
+  Sections: FormItemChange[] = [];
+  Fields: FormItemChange[] = [];
+}
@@ -0,0 +1,37 @@
+import { InterviewFeedback } from "../entities/interview_feedback";
+import { FieldType } from "../enums/field_type";
+
+export class InterviewFeedbackResult extends InterviewFeedback {
+  InterviewerEmail: string | null = null;
+  InterviewerName: string | null = null;
+}
+
+/**
+ * Aggregated answers to one question of the feedback template
+ * Average is set for numeric questions, Counts for choice questions
+ */
+export class FeedbackQuestionResult {
+  Name: string = "";
+  Label: string = "";
+  Type: FieldType = FieldType.Text;
+  ResponseCount: number = 0;
+  Average: number | null = null;
+  Counts: Record<string, number> | null = null;
+}
+
+export class FeedbackSummaryResult {
+  ApplicationId: string = "";
+  FeedbackCount: number = 0;
+  /**
+   * Hire and StrongHire recommendations
+   */
+  HireCount: number = 0;
+  /**
+   * NoHire and StrongNoHire recommendations
+   */
+  NoHireCount: number = 0;
+  Recommendations: Record<string, number> = {};
+  Rounds: string[] = [];
+  Questions: FeedbackQuestionResult[] = [];
+  Feedback: InterviewFeedbackResult[] = [];
+}
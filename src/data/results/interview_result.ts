@@ -0,0 +1,14 @@
+import { Interview } from "../entities/interview";
+
+export class InterviewPanelistResult {
+  UserId: string = "";
+  Email: string = "";
+  Name: string | null = null;
+}
+
+export class InterviewResult extends Interview {
+  CandidateName: string = "";
+  CandidateEmail: string = "";
+  PositionName: string | null = null;
+  Panelists: InterviewPanelistResult[] = [];
+}
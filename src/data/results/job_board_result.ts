@@ -0,0 +1,60 @@
+import { EmploymentType } from "../enums/employment_type";
+import { RemoteType } from "../enums/remote_type";
+import { PagedResult } from "../response/response";
+
+/**
+ * A position as shown on the public job board
+ */
+export class PublicPositionResult {
+  Uid: string = "";
+  OrgId: string = "";
+  Name: string = "";
+  Description: string = "";
+  DepartmentId: string = "";
+  Department: string | null = null;
+  ApplicationTemplateId: string = "";
+  Location: string | null = null;
+  RemoteType: RemoteType = RemoteType.OnSite;
+  EmploymentType: EmploymentType = EmploymentType.FullTime;
+  SalaryMin: number | null = null;
+  SalaryMax: number | null = null;
+  SalaryCurrency: string | null = null;
+  PublishOn: Date | null = null;
+  CloseOn: Date | null = null;
+}
+
+/**
+ * Number of matching positions for a filter value
+ */
+export class JobBoardFacetResult {
+  Value: string = "";
+  Label: string = "";
+  Count: number = 0;
+}
+
+export class JobBoardFacetsResult {
+  Departments: JobBoardFacetResult[] = [];
+  Locations: JobBoardFacetResult[] = [];
+  EmploymentTypes: JobBoardFacetResult[] = [];
+}
+
+/**
+ * A page of job board matches with the facet counts of the search
+ * @remarks
+ * Each facet counts the matches of the other filters, so a selected value
+ * still shows its alternatives.
+ */
+export class JobBoardResult {
+  Positions: PagedResult<PublicPositionResult> | null = null;
+  Facets: JobBoardFacetsResult = new JobBoardFacetsResult();
+}
+
+/**
+ * A rendered job feed with its cache validators
+ */
+export class JobFeedResult {
+  Content: string = "";
+  ContentType: string = "";
+  ETag: string = "";
+  LastModified: Date = new Date();
+}
@@ -0,0 +1,43 @@
+import { Offer } from "../entities/offer";
+import { OfferStatus } from "../enums/offer_status";
+import { ApprovalRequestResult } from "./approval_result";
+
+/**
+ * Offer as seen by recruiters
+ * Url is only returned when the offer is sent
+ */
+export class OfferResult extends Offer {
+  CandidateName: string = "";
+  PositionName: string = "";
+  /**
+   * Latest approval request of the offer
+   */
+  Approval: ApprovalRequestResult | null = null;
+  Url?: string;
+}
+
+/**
+ * Offer as seen by the candidate
+ */
+export class PublicOfferResult {
+  CandidateName: string = "";
+  PositionName: string = "";
+  OrganizationName: string = "";
+  Salary: number = 0;
+  Currency: string = "";
+  StartDate: Date = new Date();
+  ExpiresOn: Date = new Date();
+  Status: OfferStatus = OfferStatus.Sent;
+  /**
+   * Rendered offer letter (HTML)
+   */
+  Letter: string = "";
+}
+
+/**
+ * Rendered offer letter
+ */
+export class OfferLetterResult {
+  FileName: string = "";
+  Content: Buffer = Buffer.alloc(0);
+}
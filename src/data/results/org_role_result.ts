@@ -0,0 +1,24 @@
+import { OrgRole } from "../entities/org_role";
+import { OrgRoleAssignment } from "../entities/org_role_assignment";
+import { Permission } from "../enums/permission";
+
+export class OrgRoleAssignmentResult extends OrgRoleAssignment {
+  Email: string = "";
+  Department: string | null = null;
+  Position: string | null = null;
+}
+
+export class OrgRoleResult extends OrgRole {
+  Assignments: OrgRoleAssignmentResult[] = [];
+}
+
+/**
+ * A permission of the caller and where it applies
+ * All is set when the permission applies to the whole organization
+ */
+export class CallerPermissionResult {
+  Permission: Permission = Permission.PositionRead;
+  All: boolean = false;
+  DepartmentIds: string[] = [];
+  PositionIds: string[] = [];
+}
@@ -0,0 +1,46 @@
+import { SchedulingLink } from "../entities/scheduling_link";
+
+export type SchedulingLinkStatus = "Open" | "Booked" | "Expired";
+
+export class SchedulingSlotResult {
+  Uid: string = "";
+  StartTime: Date = new Date();
+  EndTime: Date = new Date();
+}
+
+/**
+ * Scheduling link as seen by recruiters
+ * Url is only returned when the link is created
+ */
+export class SchedulingLinkResult extends SchedulingLink {
+  Status: SchedulingLinkStatus = "Open";
+  Slots: SchedulingSlotResult[] = [];
+  Url?: string;
+}
+
+/**
+ * Scheduling link as seen by the candidate
+ * Only the times the panel is still free are listed
+ */
+export class PublicSchedulingLinkResult {
+  Title: string = "";
+  CandidateName: string = "";
+  PositionName: string | null = null;
+  OrganizationName: string | null = null;
+  Timezone: string = "UTC";
+  Location: string | null = null;
+  ExpiresOn: Date = new Date();
+  Slots: SchedulingSlotResult[] = [];
+}
+
+/**
+ * Interview booked through a scheduling link
+ */
+export class SchedulingBookingResult {
+  Title: string = "";
+  StartTime: Date = new Date();
+  EndTime: Date = new Date();
+  Timezone: string = "UTC";
+  Location: string | null = null;
+  MeetingLink: string | null = null;
+}
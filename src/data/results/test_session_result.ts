@@ -0,0 +1,38 @@
+import { TestSession } from "../entities/test_session";
+import { TestSessionStatus } from "../enums/test_session_status";
+import { FormTemplateSnapshotResult } from "./form_template_version_result";
+
+/**
+ * Test session as seen by recruiters
+ * Url is only returned when the session is created
+ */
+export class TestSessionResult extends TestSession {
+  TestName: string = "";
+  Url?: string;
+}
+
+/**
+ * Test session as seen by the candidate
+ * Form is only set once the test has started and never includes the answer key
+ */
+export class PublicTestSessionResult {
+  TestName: string = "";
+  CandidateName: string = "";
+  Status: TestSessionStatus = TestSessionStatus.Pending;
+  TimeLimitMinutes: number = 0;
+  ExpiresOn: Date = new Date();
+  StartedOn: Date | null = null;
+  DueOn: Date | null = null;
+  RemainingSeconds: number | null = null;
+  Form: FormTemplateSnapshotResult | null = null;
+}
+
+/**
+ * Outcome of a submitted test
+ * Scores are only shown to recruiters
+ */
+export class TestSubmissionResult {
+  Status: TestSessionStatus = TestSessionStatus.Submitted;
+  SubmittedOn: Date = new Date();
+  TimeUsedSeconds: number = 0;
+}
@@ -0,0 +1,26 @@
+import { UserInvitation } from "../entities/user_invitation";
+import { Role } from "../enums/role";
+
+export type UserInvitationStatus = "Pending" | "Accepted" | "Expired";
+
+/**
+ * Invitation as seen by admins
+ * Url is only returned when the invitation is sent
+ */
+export class UserInvitationResult extends UserInvitation {
+  Status: UserInvitationStatus = "Pending";
+  Url?: string;
+}
+
+/**
+ * Invitation as seen by the invitee on the accept page
+ */
+export class PublicInvitationResult {
+  Email: string = "";
+  Role: Role = Role.Employee;
+  FirstName: string = "";
+  LastName: string = "";
+  OrganizationName: string | null = null;
+  Status: UserInvitationStatus = "Pending";
+  ExpiresOn: Date = new Date();
+}
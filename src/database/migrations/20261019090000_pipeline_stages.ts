@@ -0,0 +1,100 @@
+import { Knex } from 'knex';
+
+/**
+ * PIPELINE STAGES MIGRATION
+ *
+ * Adds per-organization hiring pipeline stages, the current stage of each
+ * Application and an append-only history of stage transitions.
+ */
+export async function up(knex: Knex): Promise<void> {
+  console.log('📦 Running pipeline stages migration...\n');
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // PIPELINE STAGE
+  // ═══════════════════════════════════════════════════════════════════════════
+  if (!(await knex.schema.hasTable('PipelineStage'))) {
+    await knex.schema.createTable('PipelineStage', (table) => {
+      table.string('Uid', 36).primary();
+      table.string('OrgId', 36).notNullable().index();
+      table.string('Name', 100).notNullable();
+      table.text('Description').nullable();
+      table.integer('SortOrder').defaultTo(0);
+      table.boolean('IsInitial').defaultTo(false);
+      table.boolean('IsTerminal').defaultTo(false);
+      table.text('AllowedTransitions').nullable();
+      table.boolean('IsActive').defaultTo(true);
+      table.boolean('IsDeleted').defaultTo(false).index();
+      table.timestamp('CreatedOn').defaultTo(knex.fn.now());
+      table.string('CreatedBy', 36).nullable();
+      table.timestamp('UpdatedOn').nullable();
+      table.string('UpdatedBy', 36).nullable();
+      table.timestamp('DeletedOn').nullable();
+    });
+    console.log('  ✅ Created PipelineStage table');
+  } else {
+    console.log('  ⏭️  PipelineStage table already exists');
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // APPLICATION STAGE HISTORY
+  // ═══════════════════════════════════════════════════════════════════════════
+  if (!(await knex.schema.hasTable('ApplicationStageHistory'))) {
+    await knex.schema.createTable('ApplicationStageHistory', (table) => {
+      table.string('Uid', 36).primary();
+      table.string('OrgId', 36).notNullable().index();
+      table.string('ApplicationId', 36).notNullable().index();
+      table.string('FromStageId', 36).nullable();
+      table.string('ToStageId', 36).notNullable();
+      table.text('Comment').nullable();
+      table.boolean('IsActive').defaultTo(true);
+      table.boolean('IsDeleted').defaultTo(false).index();
+      table.timestamp('CreatedOn').defaultTo(knex.fn.now());
+      table.string('CreatedBy', 36).nullable();
+      table.timestamp('UpdatedOn').nullable();
+      table.string('UpdatedBy', 36).nullable();
+      table.timestamp('DeletedOn').nullable();
+    });
+    console.log('  ✅ Created ApplicationStageHistory table');
+  } else {
+    console.log('  ⏭️  ApplicationStageHistory table already exists');
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // APPLICATION - current stage
+  // ═══════════════════════════════════════════════════════════════════════════
+  if (!(await knex.schema.hasColumn('Application', 'StageId'))) {
+    await knex.schema.alterTable('Application', (table) => {
+      table.string('StageId', 36).nullable().index();
+    });
+    console.log('  ✅ Added Application.StageId column');
+  } else {
+    console.log('  ⏭️  Application.StageId column already exists');
+  }
+
+  console.log('\n✅ Pipeline stages migration complete!\n');
+}
+
+/**
+ * Rollback the pipeline stages migration
+ */
+export async function down(knex: Knex): Promise<void> {
+  console.log('📦 Rolling back pipeline stages migration...\n');
+
+  if (await knex.schema.hasColumn('Application', 'StageId')) {
+    await knex.schema.alterTable('Application', (table) => {
+      table.dropColumn('StageId');
+    });
+    console.log('  ✅ Dropped Application.StageId column');
+  }
+
+  for (const tableName of ['ApplicationStageHistory', 'PipelineStage']) {
+    if (await knex.schema.hasTable(tableName)) {
+      await knex.schema.dropTable(tableName);
+      console.log(`  ✅ Dropped ${tableName} table`);
+    } else {
+      console.log(`  ⏭️  ${tableName} table does not exist`);
+    }
+  }
+
+  console.log('\n✅ Rollback complete!\n');
+}
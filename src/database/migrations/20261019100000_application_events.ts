@@ -0,0 +1,50 @@
+import { Knex } from 'knex';
+
+/**
+ * APPLICATION EVENTS MIGRATION
+ *
+ * Adds the append-only event store behind the application timeline.
+ * CreatedOn keeps milliseconds so events written in the same second stay ordered.
+ */
+export async function up(knex: Knex): Promise<void> {
+  console.log('📦 Running application events migration...\n');
+
+  if (!(await knex.schema.hasTable('ApplicationEvent'))) {
+    await knex.schema.createTable('ApplicationEvent', (table) => {
+      table.string('Uid', 36).primary();
+      table.string('OrgId', 36).notNullable().index();
+      table.string('ApplicationId', 36).notNullable().index();
+      table.string('EventType', 50).notNullable();
+      table.string('Summary', 500).notNullable();
+      table.text('Data').nullable();
+      table.boolean('IsActive').defaultTo(true);
+      table.boolean('IsDeleted').defaultTo(false).index();
+      table.timestamp('CreatedOn', { precision: 3 }).defaultTo(knex.fn.now(3));
+      table.string('CreatedBy', 36).nullable();
+      table.timestamp('UpdatedOn').nullable();
+      table.string('UpdatedBy', 36).nullable();
+      table.timestamp('DeletedOn').nullable();
+    });
+    console.log('  ✅ Created ApplicationEvent table');
+  } else {
+    console.log('  ⏭️  ApplicationEvent table already exists');
+  }
+
+  console.log('\n✅ Application events migration complete!\n');
+}
+
+/**
+ * Rollback the application events migration
+ */
+export async function down(knex: Knex): Promise<void> {
+  console.log('📦 Rolling back application events migration...\n');
+
+  if (await knex.schema.hasTable('ApplicationEvent')) {
+    await knex.schema.dropTable('ApplicationEvent');
+    console.log('  ✅ Dropped ApplicationEvent table');
+  } else {
+    console.log('  ⏭️  ApplicationEvent table does not exist');
+  }
+
+  console.log('\n✅ Rollback complete!\n');
+}
@@ -0,0 +1,45 @@
+import { Knex } from 'knex';
+
+/**
+ * FORM CONDITIONS MIGRATION
+ *
+ * Adds the JSON visibility conditions to form fields and sections.
+ */
+const TABLES = ['FormField', 'FormSection'];
+
+export async function up(knex: Knex): Promise<void> {
+  console.log('📦 Running form conditions migration...\n');
+
+  for (const tableName of TABLES) {
+    if (!(await knex.schema.hasColumn(tableName, 'Conditions'))) {
+      await knex.schema.alterTable(tableName, (table) => {
+        table.text('Conditions').nullable();
+      });
+      console.log(`  ✅ Added ${tableName}.Conditions`);
+    } else {
+      console.log(`  ⏭️  ${tableName}.Conditions already exists`);
+    }
+  }
+
+  console.log('\n✅ Form conditions migration complete!\n');
+}
+
+/**
+ * Rollback the form conditions migration
+ */
+export async function down(knex: Knex): Promise<void> {
+  console.log('📦 Rolling back form conditions migration...\n');
+
+  for (const tableName of TABLES) {
+    if (await knex.schema.hasColumn(tableName, 'Conditions')) {
+      await knex.schema.alterTable(tableName, (table) => {
+        table.dropColumn('Conditions');
+      });
+      console.log(`  ✅ Dropped ${tableName}.Conditions`);
+    } else {
+      console.log(`  ⏭️  ${tableName}.Conditions does not exist`);
+    }
+  }
+
+  console.log('\n✅ Rollback complete!\n');
+}
@@ -0,0 +1,84 @@
+import { Knex } from 'knex';
+
+/**
+ * FORM TEMPLATE VERSIONS MIGRATION
+ *
+ * Adds immutable published snapshots of form templates and records the
+ * version each application was submitted against.
+ */
+export async function up(knex: Knex): Promise<void> {
+  console.log('📦 Running form template versions migration...\n');
+
+  if (!(await knex.schema.hasTable('FormTemplateVersion'))) {
+    await knex.schema.createTable('FormTemplateVersion', (table) => {
+      table.string('Uid', 36).primary();
+      table.string('OrgId', 36).notNullable().index();
+      table.string('FormTemplateId', 36).notNullable();
+      table.integer('Version').notNullable();
+      table.text('Snapshot', 'longtext').notNullable();
+      table.string('Notes', 500).nullable();
+      table.boolean('IsActive').defaultTo(true);
+      table.boolean('IsDeleted').defaultTo(false).index();
+      table.timestamp('CreatedOn').defaultTo(knex.fn.now());
+      table.string('CreatedBy', 36).nullable();
+      table.timestamp('UpdatedOn').nullable();
+      table.string('UpdatedBy', 36).nullable();
+      table.timestamp('DeletedOn').nullable();
+
+      table.unique(['FormTemplateId', 'Version']);
+    });
+    console.log('  ✅ Created FormTemplateVersion table');
+  } else {
+    console.log('  ⏭️  FormTemplateVersion table already exists');
+  }
+
+  if (!(await knex.schema.hasColumn('FormTemplate', 'PublishedVersion'))) {
+    await knex.schema.alterTable('FormTemplate', (table) => {
+      table.integer('PublishedVersion').nullable();
+    });
+    console.log('  ✅ Added FormTemplate.PublishedVersion');
+  } else {
+    console.log('  ⏭️  FormTemplate.PublishedVersion already exists');
+  }
+
+  if (!(await knex.schema.hasColumn('Application', 'FormTemplateVersionId'))) {
+    await knex.schema.alterTable('Application', (table) => {
+      table.string('FormTemplateVersionId', 36).nullable();
+    });
+    console.log('  ✅ Added Application.FormTemplateVersionId');
+  } else {
+    console.log('  ⏭️  Application.FormTemplateVersionId already exists');
+  }
+
+  console.log('\n✅ Form template versions migration complete!\n');
+}
+
+/**
+ * Rollback the form template versions migration
+ */
+export async function down(knex: Knex): Promise<void> {
+  console.log('📦 Rolling back form template versions migration...\n');
+
+  if (await knex.schema.hasColumn('Application', 'FormTemplateVersionId')) {
+    await knex.schema.alterTable('Application', (table) => {
+      table.dropColumn('FormTemplateVersionId');
+    });
+    console.log('  ✅ Dropped Application.FormTemplateVersionId');
+  }
+
+  if (await knex.schema.hasColumn('FormTemplate', 'PublishedVersion')) {
+    await knex.schema.alterTable('FormTemplate', (table) => {
+      table.dropColumn('PublishedVersion');
+    });
+    console.log('  ✅ Dropped FormTemplate.PublishedVersion');
+  }
+
+  if (await knex.schema.hasTable('FormTemplateVersion')) {
+    await knex.schema.dropTable('FormTemplateVersion');
+    console.log('  ✅ Dropped FormTemplateVersion table');
+  } else {
+    console.log('  ⏭️  FormTemplateVersion table does not exist');
+  }
+
+  console.log('\n✅ Rollback complete!\n');
+}
@@ -0,0 +1,68 @@
+import { Knex } from 'knex';
+
+/**
+ * ATTACHMENTS MIGRATION
+ *
+ * Adds uploaded files (resumes and File form field answers) and
+ * the uploaded resume of an application.
+ */
+export async function up(knex: Knex): Promise<void> {
+  console.log('📦 Running attachments migration...\n');
+
+  if (!(await knex.schema.hasTable('Attachment'))) {
+    await knex.schema.createTable('Attachment', (table) => {
+      table.string('Uid', 36).primary();
+      table.string('OrgId', 36).notNullable().index();
+      table.string('ApplicationId', 36).nullable().index();
+      table.string('FileName', 255).notNullable();
+      table.string('ContentType', 255).notNullable();
+      table.integer('Size').unsigned().notNullable();
+      table.string('StorageProvider', 50).notNullable();
+      table.string('StorageKey', 500).notNullable();
+      table.boolean('IsActive').defaultTo(true);
+      table.boolean('IsDeleted').defaultTo(false).index();
+      table.timestamp('CreatedOn').defaultTo(knex.fn.now());
+      table.string('CreatedBy', 36).nullable();
+      table.timestamp('UpdatedOn').nullable();
+      table.string('UpdatedBy', 36).nullable();
+      table.timestamp('DeletedOn').nullable();
+    });
+    console.log('  ✅ Created Attachment table');
+  } else {
+    console.log('  ⏭️  Attachment table already exists');
+  }
+
+  if (!(await knex.schema.hasColumn('Application', 'ResumeId'))) {
+    await knex.schema.alterTable('Application', (table) => {
+      table.string('ResumeId', 36).nullable();
+    });
+    console.log('  ✅ Added Application.ResumeId');
+  } else {
+    console.log('  ⏭️  Application.ResumeId already exists');
+  }
+
+  console.log('\n✅ Attachments migration complete!\n');
+}
+
+/**
+ * Rollback the attachments migration
+ */
+export async function down(knex: Knex): Promise<void> {
+  console.log('📦 Rolling back attachments migration...\n');
+
+  if (await knex.schema.hasColumn('Application', 'ResumeId')) {
+    await knex.schema.alterTable('Application', (table) => {
+      table.dropColumn('ResumeId');
+    });
+    console.log('  ✅ Dropped Application.ResumeId');
+  }
+
+  if (await knex.schema.hasTable('Attachment')) {
+    await knex.schema.dropTable('Attachment');
+    console.log('  ✅ Dropped Attachment table');
+  } else {
+    console.log('  ⏭️  Attachment table does not exist');
+  }
+
+  console.log('\n✅ Rollback complete!\n');
+}
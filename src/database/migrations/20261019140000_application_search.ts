@@ -0,0 +1,69 @@
+import { Knex } from 'knex';
+
+/**
+ * APPLICATION SEARCH MIGRATION
+ *
+ * Adds the text extracted from resumes and a FULLTEXT index over the
+ * searchable application columns. The searched columns are added first
+ * on databases that do not have them yet, since the index needs all of them.
+ */
+const SEARCH_INDEX = 'ft_application_search';
+
+export async function up(knex: Knex): Promise<void> {
+  console.log('📦 Running application search migration...\n');
+
+  const columns: [string, (table: Knex.AlterTableBuilder) => void][] = [
+    ['FullName', (table) => table.string('FullName', 255).notNullable().defaultTo('')],
+    ['Email', (table) => table.string('Email', 255).notNullable().defaultTo('')],
+    ['Experience', (table) => table.text('Experience').nullable()],
+    ['ResumeText', (table) => table.text('ResumeText', 'longtext').nullable()],
+  ];
+
+  for (const [column, addColumn] of columns) {
+    if (!(await knex.schema.hasColumn('Application', column))) {
+      await knex.schema.alterTable('Application', addColumn);
+      console.log(`  ✅ Added Application.${column}`);
+    } else {
+      console.log(`  ⏭️  Application.${column} already exists`);
+    }
+  }
+
+  const [indexes] = await knex.raw('SHOW INDEX FROM Application WHERE Key_name = ?', [
+    SEARCH_INDEX,
+  ]);
+  if (!indexes.length) {
+    await knex.raw(
+      `ALTER TABLE Application ADD FULLTEXT INDEX ${SEARCH_INDEX} (FullName, Email, Experience, ResumeText)`
+    );
+    console.log(`  ✅ Created ${SEARCH_INDEX} index`);
+  } else {
+    console.log(`  ⏭️  ${SEARCH_INDEX} index already exists`);
+  }
+
+  console.log('\n✅ Application search migration complete!\n');
+}
+
+/**
+ * Rollback the application search migration
+ * The searched columns are kept, only the index and ResumeText are removed
+ */
+export async function down(knex: Knex): Promise<void> {
+  console.log('📦 Rolling back application search migration...\n');
+
+  const [indexes] = await knex.raw('SHOW INDEX FROM Application WHERE Key_name = ?', [
+    SEARCH_INDEX,
+  ]);
+  if (indexes.length) {
+    await knex.raw(`ALTER TABLE Application DROP INDEX ${SEARCH_INDEX}`);
+    console.log(`  ✅ Dropped ${SEARCH_INDEX} index`);
+  }
+
+  if (await knex.schema.hasColumn('Application', 'ResumeText')) {
+    await knex.schema.alterTable('Application', (table) => {
+      table.dropColumn('ResumeText');
+    });
+    console.log('  ✅ Dropped Application.ResumeText');
+  }
+
+  console.log('\n✅ Rollback complete!\n');
+}
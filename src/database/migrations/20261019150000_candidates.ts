@@ -0,0 +1,125 @@
+import { Knex } from 'knex';
+import { randomUUID } from 'crypto';
+import { CandidateMatchHelper } from '../../core/helper/candidate-match.helper';
+
+/**
+ * CANDIDATES MIGRATION
+ *
+ * Adds candidates, which group the applications of the same person,
+ * and assigns existing applications to candidates by email or phone.
+ */
+export async function up(knex: Knex): Promise<void> {
+  console.log('📦 Running candidates migration...\n');
+
+  if (!(await knex.schema.hasTable('Candidate'))) {
+    await knex.schema.createTable('Candidate', (table) => {
+      table.string('Uid', 36).primary();
+      table.string('OrgId', 36).notNullable().index();
+      table.string('FullName', 255).notNullable();
+      table.string('Email', 255).nullable();
+      table.string('Phone', 50).nullable();
+      table.string('NormalizedEmail', 255).nullable();
+      table.string('NormalizedPhone', 20).nullable();
+      table.string('MergedIntoId', 36).nullable().index();
+      table.boolean('IsActive').defaultTo(true);
+      table.boolean('IsDeleted').defaultTo(false).index();
+      table.timestamp('CreatedOn').defaultTo(knex.fn.now());
+      table.string('CreatedBy', 36).nullable();
+      table.timestamp('UpdatedOn').nullable();
+      table.string('UpdatedBy', 36).nullable();
+      table.timestamp('DeletedOn').nullable();
+
+      table.index(['OrgId', 'NormalizedEmail'], 'idx_candidate_email');
+      table.index(['OrgId', 'NormalizedPhone'], 'idx_candidate_phone');
+    });
+    console.log('  ✅ Created Candidate table');
+  } else {
+    console.log('  ⏭️  Candidate table already exists');
+  }
+
+  if (!(await knex.schema.hasColumn('Application', 'CandidateId'))) {
+    await knex.schema.alterTable('Application', (table) => {
+      table.string('CandidateId', 36).nullable().index();
+    });
+    console.log('  ✅ Added Application.CandidateId');
+  } else {
+    console.log('  ⏭️  Application.CandidateId already exists');
+  }
+
+  await assignCandidates(knex);
+
+  console.log('\n✅ Candidates migration complete!\n');
+}
+
+/**
+ * Groups existing applications into candidates, oldest first
+ */
+async function assignCandidates(knex: Knex): Promise<void> {
+  const applications = await knex('Application')
+    .select('Uid', 'OrgId', 'FullName', 'Email', 'Phone', 'CreatedBy')
+    .whereNull('CandidateId')
+    .andWhere({ IsDeleted: false })
+    .orderBy('CreatedOn', 'asc');
+
+  const known = new Map<string, string>();
+  let created = 0;
+
+  for (const application of applications) {
+    const email = CandidateMatchHelper.normalizeEmail(application.Email);
+    const phone = CandidateMatchHelper.normalizePhone(application.Phone);
+    const emailKey = email ? `${application.OrgId}:e:${email}` : null;
+    const phoneKey = phone ? `${application.OrgId}:p:${phone}` : null;
+
+    let candidateId =
+      (emailKey && known.get(emailKey)) || (phoneKey && known.get(phoneKey)) || null;
+
+    if (!candidateId) {
+      candidateId = randomUUID();
+      await knex('Candidate').insert({
+        Uid: candidateId,
+        OrgId: application.OrgId,
+        FullName: application.FullName ?? '',
+        Email: application.Email ?? null,
+        Phone: application.Phone ?? null,
+        NormalizedEmail: email,
+        NormalizedPhone: phone,
+        CreatedBy: application.CreatedBy ?? null,
+      });
+      created++;
+    }
+
+    if (emailKey && !known.has(emailKey)) known.set(emailKey, candidateId);
+    if (phoneKey && !known.has(phoneKey)) known.set(phoneKey, candidateId);
+
+    await knex('Application')
+      .where({ Uid: application.Uid })
+      .update({ CandidateId: candidateId });
+  }
+
+  console.log(
+    `  ✅ Assigned ${applications.length} applications to ${created} new candidates`
+  );
+}
+
+/**
+ * Rollback the candidates migration
+ */
+export async function down(knex: Knex): Promise<void> {
+  console.log('📦 Rolling back candidates migration...\n');
+
+  if (await knex.schema.hasColumn('Application', 'CandidateId')) {
+    await knex.schema.alterTable('Application', (table) => {
+      table.dropColumn('CandidateId');
+    });
+    console.log('  ✅ Dropped Application.CandidateId');
+  }
+
+  if (await knex.schema.hasTable('Candidate')) {
+    await knex.schema.dropTable('Candidate');
+    console.log('  ✅ Dropped Candidate table');
+  } else {
+    console.log('  ⏭️  Candidate table does not exist');
+  }
+
+  console.log('\n✅ Rollback complete!\n');
+}
@@ -0,0 +1,94 @@
+import { Knex } from 'knex';
+
+/**
+ * APPLICATION NOTES AND RATINGS MIGRATION
+ *
+ * Adds threaded recruiter notes with @mentions and
+ * one 1-5 rating per reviewer on applications.
+ */
+export async function up(knex: Knex): Promise<void> {
+  console.log('📦 Running application notes and ratings migration...\n');
+
+  if (!(await knex.schema.hasTable('ApplicationNote'))) {
+    await knex.schema.createTable('ApplicationNote', (table) => {
+      table.string('Uid', 36).primary();
+      table.string('OrgId', 36).notNullable().index();
+      table.string('ApplicationId', 36).notNullable().index();
+      table.string('ParentId', 36).nullable().index();
+      table.text('Body').notNullable();
+      table.string('Visibility', 20).notNullable().defaultTo('Team');
+      table.boolean('IsActive').defaultTo(true);
+      table.boolean('IsDeleted').defaultTo(false).index();
+      table.timestamp('CreatedOn').defaultTo(knex.fn.now());
+      table.string('CreatedBy', 36).nullable();
+      table.timestamp('UpdatedOn').nullable();
+      table.string('UpdatedBy', 36).nullable();
+      table.timestamp('DeletedOn').nullable();
+    });
+    console.log('  ✅ Created ApplicationNote table');
+  } else {
+    console.log('  ⏭️  ApplicationNote table already exists');
+  }
+
+  if (!(await knex.schema.hasTable('ApplicationNoteMention'))) {
+    await knex.schema.createTable('ApplicationNoteMention', (table) => {
+      table.string('Uid', 36).primary();
+      table.string('OrgId', 36).notNullable().index();
+      table.string('NoteId', 36).notNullable().index();
+      table.string('ApplicationId', 36).notNullable().index();
+      table.string('UserId', 36).notNullable().index();
+      table.boolean('IsActive').defaultTo(true);
+      table.boolean('IsDeleted').defaultTo(false).index();
+      table.timestamp('CreatedOn').defaultTo(knex.fn.now());
+      table.string('CreatedBy', 36).nullable();
+      table.timestamp('UpdatedOn').nullable();
+      table.string('UpdatedBy', 36).nullable();
+      table.timestamp('DeletedOn').nullable();
+    });
+    console.log('  ✅ Created ApplicationNoteMention table');
+  } else {
+    console.log('  ⏭️  ApplicationNoteMention table already exists');
+  }
+
+  if (!(await knex.schema.hasTable('ApplicationRating'))) {
+    await knex.schema.createTable('ApplicationRating', (table) => {
+      table.string('Uid', 36).primary();
+      table.string('OrgId', 36).notNullable().index();
+      table.string('ApplicationId', 36).notNullable().index();
+      table.tinyint('Rating').unsigned().notNullable();
+      table.string('Comment', 1000).nullable();
+      table.boolean('IsActive').defaultTo(true);
+      table.boolean('IsDeleted').defaultTo(false).index();
+      table.timestamp('CreatedOn').defaultTo(knex.fn.now());
+      table.string('CreatedBy', 36).nullable();
+      table.timestamp('UpdatedOn').nullable();
+      table.string('UpdatedBy', 36).nullable();
+      table.timestamp('DeletedOn').nullable();
+
+      table.unique(['ApplicationId', 'CreatedBy'], 'uq_application_rating_reviewer');
+    });
+    console.log('  ✅ Created ApplicationRating table');
+  } else {
+    console.log('  ⏭️  ApplicationRating table already exists');
+  }
+
+  console.log('\n✅ Application notes and ratings migration complete!\n');
+}
+
+/**
+ * Rollback the application notes and ratings migration
+ */
+export async function down(knex: Knex): Promise<void> {
+  console.log('📦 Rolling back application notes and ratings migration...\n');
+
+  for (const tableName of ['ApplicationRating', 'ApplicationNoteMention', 'ApplicationNote']) {
+    if (await knex.schema.hasTable(tableName)) {
+      await knex.schema.dropTable(tableName);
+      console.log(`  ✅ Dropped ${tableName} table`);
+    } else {
+      console.log(`  ⏭️  ${tableName} table does not exist`);
+    }
+  }
+
+  console.log('\n✅ Rollback complete!\n');
+}
@@ -0,0 +1,78 @@
+import { Knex } from 'knex';
+
+/**
+ * INTERVIEWS MIGRATION
+ *
+ * Adds interviews of applications and their panels.
+ */
+export async function up(knex: Knex): Promise<void> {
+  console.log('📦 Running interviews migration...\n');
+
+  if (!(await knex.schema.hasTable('Interview'))) {
+    await knex.schema.createTable('Interview', (table) => {
+      table.string('Uid', 36).primary();
+      table.string('OrgId', 36).notNullable().index();
+      table.string('ApplicationId', 36).notNullable().index();
+      table.string('Title', 255).notNullable();
+      table.dateTime('StartTime').notNullable();
+      table.dateTime('EndTime').notNullable();
+      table.string('Timezone', 64).notNullable().defaultTo('UTC');
+      table.string('Location', 500).nullable();
+      table.string('MeetingLink', 1000).nullable();
+      table.text('Notes').nullable();
+      table.string('Status', 20).notNullable().defaultTo('Scheduled');
+      table.integer('Sequence').notNullable().defaultTo(0);
+      table.boolean('IsActive').defaultTo(true);
+      table.boolean('IsDeleted').defaultTo(false).index();
+      table.timestamp('CreatedOn').defaultTo(knex.fn.now());
+      table.string('CreatedBy', 36).nullable();
+      table.timestamp('UpdatedOn').nullable();
+      table.string('UpdatedBy', 36).nullable();
+      table.timestamp('DeletedOn').nullable();
+
+      table.index(['OrgId', 'Status', 'StartTime'], 'idx_interview_schedule');
+    });
+    console.log('  ✅ Created Interview table');
+  } else {
+    console.log('  ⏭️  Interview table already exists');
+  }
+
+  if (!(await knex.schema.hasTable('InterviewPanelist'))) {
+    await knex.schema.createTable('InterviewPanelist', (table) => {
+      table.string('Uid', 36).primary();
+      table.string('OrgId', 36).notNullable().index();
+      table.string('InterviewId', 36).notNullable().index();
+      table.string('UserId', 36).notNullable().index();
+      table.boolean('IsActive').defaultTo(true);
+      table.boolean('IsDeleted').defaultTo(false).index();
+      table.timestamp('CreatedOn').defaultTo(knex.fn.now());
+      table.string('CreatedBy', 36).nullable();
+      table.timestamp('UpdatedOn').nullable();
+      table.string('UpdatedBy', 36).nullable();
+      table.timestamp('DeletedOn').nullable();
+    });
+    console.log('  ✅ Created InterviewPanelist table');
+  } else {
+    console.log('  ⏭️  InterviewPanelist table already exists');
+  }
+
+  console.log('\n✅ Interviews migration complete!\n');
+}
+
+/**
+ * Rollback the interviews migration
+ */
+export async function down(knex: Knex): Promise<void> {
+  console.log('📦 Rolling back interviews migration...\n');
+
+  for (const tableName of ['InterviewPanelist', 'Interview']) {
+    if (await knex.schema.hasTable(tableName)) {
+      await knex.schema.dropTable(tableName);
+      console.log(`  ✅ Dropped ${tableName} table`);
+    } else {
+      console.log(`  ⏭️  ${tableName} table does not exist`);
+    }
+  }
+
+  console.log('\n✅ Rollback complete!\n');
+}
@@ -0,0 +1,74 @@
+import { Knex } from 'knex';
+
+/**
+ * AVAILABILITY MIGRATION
+ *
+ * Adds the weekly availability and blackout periods of users,
+ * used to find common free slots for interview panels.
+ */
+export async function up(knex: Knex): Promise<void> {
+  console.log('📦 Running availability migration...\n');
+
+  if (!(await knex.schema.hasTable('UserAvailability'))) {
+    await knex.schema.createTable('UserAvailability', (table) => {
+      table.string('Uid', 36).primary();
+      table.string('OrgId', 36).notNullable().index();
+      table.string('UserId', 36).notNullable().index();
+      table.tinyint('DayOfWeek').unsigned().notNullable();
+      table.string('StartTime', 5).notNullable();
+      table.string('EndTime', 5).notNullable();
+      table.string('Timezone', 64).notNullable().defaultTo('UTC');
+      table.boolean('IsActive').defaultTo(true);
+      table.boolean('IsDeleted').defaultTo(false).index();
+      table.timestamp('CreatedOn').defaultTo(knex.fn.now());
+      table.string('CreatedBy', 36).nullable();
+      table.timestamp('UpdatedOn').nullable();
+      table.string('UpdatedBy', 36).nullable();
+      table.timestamp('DeletedOn').nullable();
+    });
+    console.log('  ✅ Created UserAvailability table');
+  } else {
+    console.log('  ⏭️  UserAvailability table already exists');
+  }
+
+  if (!(await knex.schema.hasTable('UserBlackout'))) {
+    await knex.schema.createTable('UserBlackout', (table) => {
+      table.string('Uid', 36).primary();
+      table.string('OrgId', 36).notNullable().index();
+      table.string('UserId', 36).notNullable().index();
+      table.dateTime('StartTime').notNullable();
+      table.dateTime('EndTime').notNullable();
+      table.string('Reason', 500).nullable();
+      table.boolean('IsActive').defaultTo(true);
+      table.boolean('IsDeleted').defaultTo(false).index();
+      table.timestamp('CreatedOn').defaultTo(knex.fn.now());
+      table.string('CreatedBy', 36).nullable();
+      table.timestamp('UpdatedOn').nullable();
+      table.string('UpdatedBy', 36).nullable();
+      table.timestamp('DeletedOn').nullable();
+    });
+    console.log('  ✅ Created UserBlackout table');
+  } else {
+    console.log('  ⏭️  UserBlackout table already exists');
+  }
+
+  console.log('\n✅ Availability migration complete!\n');
+}
+
+/**
+ * Rollback the availability migration
+ */
+export async function down(knex: Knex): Promise<void> {
+  console.log('📦 Rolling back availability migration...\n');
+
+  for (const tableName of ['UserBlackout', 'UserAvailability']) {
+    if (await knex.schema.hasTable(tableName)) {
+      await knex.schema.dropTable(tableName);
+      console.log(`  ✅ Dropped ${tableName} table`);
+    } else {
+      console.log(`  ⏭️  ${tableName} table does not exist`);
+    }
+  }
+
+  console.log('\n✅ Rollback complete!\n');
+}
@@ -0,0 +1,78 @@
+import { Knex } from 'knex';
+
+/**
+ * SCHEDULING LINKS MIGRATION
+ *
+ * Adds the links candidates use to pick an interview time, and the times offered.
+ */
+export async function up(knex: Knex): Promise<void> {
+  console.log('📦 Running scheduling links migration...\n');
+
+  if (!(await knex.schema.hasTable('SchedulingLink'))) {
+    await knex.schema.createTable('SchedulingLink', (table) => {
+      table.string('Uid', 36).primary();
+      table.string('OrgId', 36).notNullable().index();
+      table.string('ApplicationId', 36).notNullable().index();
+      table.string('TokenHash', 64).notNullable().unique();
+      table.string('Title', 255).notNullable();
+      table.string('Timezone', 64).notNullable().defaultTo('UTC');
+      table.string('Location', 500).nullable();
+      table.string('MeetingLink', 1000).nullable();
+      table.text('Notes').nullable();
+      table.text('PanelistIds').notNullable();
+      table.dateTime('ExpiresOn').notNullable();
+      table.dateTime('UsedOn').nullable();
+      table.string('InterviewId', 36).nullable();
+      table.boolean('IsActive').defaultTo(true);
+      table.boolean('IsDeleted').defaultTo(false).index();
+      table.timestamp('CreatedOn').defaultTo(knex.fn.now());
+      table.string('CreatedBy', 36).nullable();
+      table.timestamp('UpdatedOn').nullable();
+      table.string('UpdatedBy', 36).nullable();
+      table.timestamp('DeletedOn').nullable();
+    });
+    console.log('  ✅ Created SchedulingLink table');
+  } else {
+    console.log('  ⏭️  SchedulingLink table already exists');
+  }
+
+  if (!(await knex.schema.hasTable('SchedulingLinkSlot'))) {
+    await knex.schema.createTable('SchedulingLinkSlot', (table) => {
+      table.string('Uid', 36).primary();
+      table.string('OrgId', 36).notNullable().index();
+      table.string('LinkId', 36).notNullable().index();
+      table.dateTime('StartTime').notNullable();
+      table.dateTime('EndTime').notNullable();
+      table.boolean('IsActive').defaultTo(true);
+      table.boolean('IsDeleted').defaultTo(false).index();
+      table.timestamp('CreatedOn').defaultTo(knex.fn.now());
+      table.string('CreatedBy', 36).nullable();
+      table.timestamp('UpdatedOn').nullable();
+      table.string('UpdatedBy', 36).nullable();
+      table.timestamp('DeletedOn').nullable();
+    });
+    console.log('  ✅ Created SchedulingLinkSlot table');
+  } else {
+    console.log('  ⏭️  SchedulingLinkSlot table already exists');
+  }
+
+  console.log('\n✅ Scheduling links migration complete!\n');
+}
+
+/**
+ * Rollback the scheduling links migration
+ */
+export async function down(knex: Knex): Promise<void> {
+  console.log('📦 Rolling back scheduling links migration...\n');
+
+  for (const tableName of ['SchedulingLinkSlot', 'SchedulingLink']) {
+    if (await knex.schema.hasTable(tableName)) {
+      await knex.schema.dropTable(tableName);
+      console.log(`  ✅ Dropped ${tableName} table`);
+    } else {
+      console.log(`  ⏭️  ${tableName} table does not exist`);
+    }
+  }
+
+  console.log('\n✅ Rollback complete!\n');
+}
@@ -0,0 +1,71 @@
+import { Knex } from 'knex';
+
+/**
+ * INTERVIEW FEEDBACK MIGRATION
+ *
+ * Adds the feedback scorecard template of positions and the scorecards
+ * interviewers submit for applications.
+ */
+export async function up(knex: Knex): Promise<void> {
+  console.log('📦 Running interview feedback migration...\n');
+
+  if (!(await knex.schema.hasColumn('Positions', 'FeedbackTemplateId'))) {
+    await knex.schema.alterTable('Positions', (table) => {
+      table.string('FeedbackTemplateId', 36).nullable();
+    });
+    console.log('  ✅ Added Positions.FeedbackTemplateId');
+  } else {
+    console.log('  ⏭️  Positions.FeedbackTemplateId already exists');
+  }
+
+  if (!(await knex.schema.hasTable('InterviewFeedback'))) {
+    await knex.schema.createTable('InterviewFeedback', (table) => {
+      table.string('Uid', 36).primary();
+      table.string('OrgId', 36).notNullable().index();
+      table.string('ApplicationId', 36).notNullable().index();
+      table.string('InterviewId', 36).nullable().index();
+      table.string('Round', 255).notNullable();
+      table.string('FormTemplateVersionId', 36).nullable();
+      table.text('Answers').notNullable();
+      table.string('Recommendation', 20).notNullable();
+      table.text('Comment').nullable();
+      table.boolean('IsActive').defaultTo(true);
+      table.boolean('IsDeleted').defaultTo(false).index();
+      table.timestamp('CreatedOn').defaultTo(knex.fn.now());
+      table.string('CreatedBy', 36).nullable();
+      table.timestamp('UpdatedOn').nullable();
+      table.string('UpdatedBy', 36).nullable();
+      table.timestamp('DeletedOn').nullable();
+    });
+    console.log('  ✅ Created InterviewFeedback table');
+  } else {
+    console.log('  ⏭️  InterviewFeedback table already exists');
+  }
+
+  console.log('\n✅ Interview feedback migration complete!\n');
+}
+
+/**
+ * Rollback the interview feedback migration
+ */
+export async function down(knex: Knex): Promise<void> {
+  console.log('📦 Rolling back interview feedback migration...\n');
+
+  if (await knex.schema.hasTable('InterviewFeedback')) {
+    await knex.schema.dropTable('InterviewFeedback');
+    console.log('  ✅ Dropped InterviewFeedback table');
+  } else {
+    console.log('  ⏭️  InterviewFeedback table does not exist');
+  }
+
+  if (await knex.schema.hasColumn('Positions', 'FeedbackTemplateId')) {
+    await knex.schema.alterTable('Positions', (table) => {
+      table.dropColumn('FeedbackTemplateId');
+    });
+    console.log('  ✅ Dropped Positions.FeedbackTemplateId');
+  } else {
+    console.log('  ⏭️  Positions.FeedbackTemplateId does not exist');
+  }
+
+  console.log('\n✅ Rollback complete!\n');
+}
@@ -0,0 +1,96 @@
+import { Knex } from 'knex';
+
+/**
+ * TEST SESSIONS MIGRATION
+ *
+ * Adds the answer key and time limit of Test form templates, and the timed
+ * test sessions sent to candidates.
+ */
+export async function up(knex: Knex): Promise<void> {
+  console.log('📦 Running test sessions migration...\n');
+
+  const columns: [string, string, (table: Knex.AlterTableBuilder) => void][] = [
+    ['FormTemplate', 'TimeLimitMinutes', (t) => t.integer('TimeLimitMinutes').nullable()],
+    ['FormField', 'Points', (t) => t.decimal('Points', 8, 2).nullable()],
+    ['FormField', 'CorrectAnswer', (t) => t.string('CorrectAnswer', 1000).nullable()],
+    ['Options', 'IsCorrect', (t) => t.boolean('IsCorrect').notNullable().defaultTo(false)],
+  ];
+
+  for (const [tableName, columnName, add] of columns) {
+    if (!(await knex.schema.hasColumn(tableName, columnName))) {
+      await knex.schema.alterTable(tableName, add);
+      console.log(`  ✅ Added ${tableName}.${columnName}`);
+    } else {
+      console.log(`  ⏭️  ${tableName}.${columnName} already exists`);
+    }
+  }
+
+  if (!(await knex.schema.hasTable('TestSession'))) {
+    await knex.schema.createTable('TestSession', (table) => {
+      table.string('Uid', 36).primary();
+      table.string('OrgId', 36).notNullable().index();
+      table.string('ApplicationId', 36).notNullable().index();
+      table.string('FormTemplateId', 36).notNullable();
+      table.string('FormTemplateVersionId', 36).notNullable();
+      table.string('TokenHash', 64).notNullable().unique();
+      table.integer('TimeLimitMinutes').notNullable();
+      table.dateTime('ExpiresOn').notNullable();
+      table.dateTime('StartedOn').nullable();
+      table.dateTime('DueOn').nullable();
+      table.dateTime('SubmittedOn').nullable();
+      table.integer('TimeUsedSeconds').nullable();
+      table.string('Status', 20).notNullable().defaultTo('Pending');
+      table.text('Answers').nullable();
+      table.decimal('Score', 10, 2).nullable();
+      table.decimal('MaxScore', 10, 2).nullable();
+      table.boolean('RequiresReview').notNullable().defaultTo(false);
+      table.text('Grading').nullable();
+      table.boolean('IsActive').defaultTo(true);
+      table.boolean('IsDeleted').defaultTo(false).index();
+      table.timestamp('CreatedOn').defaultTo(knex.fn.now());
+      table.string('CreatedBy', 36).nullable();
+      table.timestamp('UpdatedOn').nullable();
+      table.string('UpdatedBy', 36).nullable();
+      table.timestamp('DeletedOn').nullable();
+    });
+    console.log('  ✅ Created TestSession table');
+  } else {
+    console.log('  ⏭️  TestSession table already exists');
+  }
+
+  console.log('\n✅ Test sessions migration complete!\n');
+}
+
+/**
+ * Rollback the test sessions migration
+ */
+export async function down(knex: Knex): Promise<void> {
+  console.log('📦 Rolling back test sessions migration...\n');
+
+  if (await knex.schema.hasTable('TestSession')) {
+    await knex.schema.dropTable('TestSession');
+    console.log('  ✅ Dropped TestSession table');
+  } else {
+    console.log('  ⏭️  TestSession table does not exist');
+  }
+
+  const columns: [string, string][] = [
+    ['FormTemplate', 'TimeLimitMinutes'],
+    ['FormField', 'Points'],
+    ['FormField', 'CorrectAnswer'],
+    ['Options', 'IsCorrect'],
+  ];
+
+  for (const [tableName, columnName] of columns) {
+    if (await knex.schema.hasColumn(tableName, columnName)) {
+      await knex.schema.alterTable(tableName, (table) => {
+        table.dropColumn(columnName);
+      });
+      console.log(`  ✅ Dropped ${tableName}.${columnName}`);
+    } else {
+      console.log(`  ⏭️  ${tableName}.${columnName} does not exist`);
+    }
+  }
+
+  console.log('\n✅ Rollback complete!\n');
+}
@@ -0,0 +1,84 @@
+import { Knex } from 'knex';
+
+/**
+ * OFFERS MIGRATION
+ *
+ * Creates the job offers of applications and their approvers.
+ */
+export async function up(knex: Knex): Promise<void> {
+  console.log('📦 Running offers migration...\n');
+
+  if (!(await knex.schema.hasTable('Offer'))) {
+    await knex.schema.createTable('Offer', (table) => {
+      table.string('Uid', 36).primary();
+      table.string('OrgId', 36).notNullable().index();
+      table.string('ApplicationId', 36).notNullable().index();
+      table.string('TemplateId', 36).nullable();
+      table.decimal('Salary', 12, 2).notNullable();
+      table.string('Currency', 3).notNullable();
+      table.date('StartDate').notNullable();
+      table.dateTime('ExpiresOn').notNullable();
+      table.text('Notes').nullable();
+      table.string('Status', 20).notNullable().defaultTo('Draft');
+      table.dateTime('SubmittedOn').nullable();
+      table.dateTime('ApprovedOn').nullable();
+      table.dateTime('SentOn').nullable();
+      table.dateTime('RespondedOn').nullable();
+      table.string('DeclineReason', 1000).nullable();
+      table.string('TokenHash', 64).nullable().unique();
+      table.boolean('IsActive').defaultTo(true);
+      table.boolean('IsDeleted').defaultTo(false).index();
+      table.timestamp('CreatedOn').defaultTo(knex.fn.now());
+      table.string('CreatedBy', 36).nullable();
+      table.timestamp('UpdatedOn').nullable();
+      table.string('UpdatedBy', 36).nullable();
+      table.timestamp('DeletedOn').nullable();
+    });
+    console.log('  ✅ Created Offer table');
+  } else {
+    console.log('  ⏭️  Offer table already exists');
+  }
+
+  if (!(await knex.schema.hasTable('OfferApproval'))) {
+    await knex.schema.createTable('OfferApproval', (table) => {
+      table.string('Uid', 36).primary();
+      table.string('OrgId', 36).notNullable().index();
+      table.string('OfferId', 36).notNullable().index();
+      table.string('UserId', 36).notNullable().index();
+      table.string('Status', 20).notNullable().defaultTo('Pending');
+      table.string('Comment', 1000).nullable();
+      table.dateTime('DecidedOn').nullable();
+      table.boolean('IsActive').defaultTo(true);
+      table.boolean('IsDeleted').defaultTo(false).index();
+      table.timestamp('CreatedOn').defaultTo(knex.fn.now());
+      table.string('CreatedBy', 36).nullable();
+      table.timestamp('UpdatedOn').nullable();
+      table.string('UpdatedBy', 36).nullable();
+      table.timestamp('DeletedOn').nullable();
+      table.unique(['OfferId', 'UserId']);
+    });
+    console.log('  ✅ Created OfferApproval table');
+  } else {
+    console.log('  ⏭️  OfferApproval table already exists');
+  }
+
+  console.log('\n✅ Offers migration complete!\n');
+}
+
+/**
+ * Rollback the offers migration
+ */
+export async function down(knex: Knex): Promise<void> {
+  console.log('📦 Rolling back offers migration...\n');
+
+  for (const tableName of ['OfferApproval', 'Offer']) {
+    if (await knex.schema.hasTable(tableName)) {
+      await knex.schema.dropTable(tableName);
+      console.log(`  ✅ Dropped ${tableName} table`);
+    } else {
+      console.log(`  ⏭️  ${tableName} table does not exist`);
+    }
+  }
+
+  console.log('\n✅ Rollback complete!\n');
+}
@@ -0,0 +1,224 @@
+import { Knex } from 'knex';
+import { randomUUID } from 'crypto';
+
+/**
+ * APPROVALS MIGRATION
+ *
+ * Creates approval chains and the approval requests of guarded actions. Offers
+ * are approved through the chains, replacing the per-offer approvers; offers
+ * awaiting approval keep their approvers and decisions as approval requests.
+ */
+export async function up(knex: Knex): Promise<void> {
+  console.log('📦 Running approvals migration...\n');
+
+  const auditColumns = (table: Knex.CreateTableBuilder) => {
+    table.boolean('IsActive').defaultTo(true);
+    table.boolean('IsDeleted').defaultTo(false).index();
+    table.timestamp('CreatedOn').defaultTo(knex.fn.now());
+    table.string('CreatedBy', 36).nullable();
+    table.timestamp('UpdatedOn').nullable();
+    table.string('UpdatedBy', 36).nullable();
+    table.timestamp('DeletedOn').nullable();
+  };
+
+  if (!(await knex.schema.hasTable('ApprovalChain'))) {
+    await knex.schema.createTable('ApprovalChain', (table) => {
+      table.string('Uid', 36).primary();
+      table.string('OrgId', 36).notNullable().index();
+      table.string('Name', 255).notNullable();
+      table.string('EntityType', 50).notNullable();
+      table.string('Mode', 20).notNullable().defaultTo('Sequential');
+      table.text('ApproverIds').notNullable();
+      auditColumns(table);
+      table.index(['OrgId', 'EntityType']);
+    });
+    console.log('  ✅ Created ApprovalChain table');
+  } else {
+    console.log('  ⏭️  ApprovalChain table already exists');
+  }
+
+  if (!(await knex.schema.hasTable('ApprovalRequest'))) {
+    await knex.schema.createTable('ApprovalRequest', (table) => {
+      table.string('Uid', 36).primary();
+      table.string('OrgId', 36).notNullable().index();
+      table.string('ChainId', 36).notNullable();
+      table.string('EntityType', 50).notNullable();
+      table.string('EntityId', 36).notNullable();
+      table.string('Action', 50).notNullable();
+      table.string('Summary', 500).notNullable();
+      table.string('Mode', 20).notNullable();
+      table.string('Status', 20).notNullable().defaultTo('Pending');
+      table.dateTime('CompletedOn').nullable();
+      auditColumns(table);
+      table.index(['EntityType', 'EntityId']);
+    });
+    console.log('  ✅ Created ApprovalRequest table');
+  } else {
+    console.log('  ⏭️  ApprovalRequest table already exists');
+  }
+
+  if (!(await knex.schema.hasTable('ApprovalStep'))) {
+    await knex.schema.createTable('ApprovalStep', (table) => {
+      table.string('Uid', 36).primary();
+      table.string('OrgId', 36).notNullable().index();
+      table.string('RequestId', 36).notNullable().index();
+      table.string('UserId', 36).notNullable().index();
+      table.integer('StepOrder').notNullable().defaultTo(1);
+      table.string('Status', 20).notNullable().defaultTo('Pending');
+      table.string('Comment', 1000).nullable();
+      table.dateTime('DecidedOn').nullable();
+      auditColumns(table);
+    });
+    console.log('  ✅ Created ApprovalStep table');
+  } else {
+    console.log('  ⏭️  ApprovalStep table already exists');
+  }
+
+  if (await knex.schema.hasTable('OfferApproval')) {
+    await migrateOfferApprovals(knex);
+    await knex.schema.dropTable('OfferApproval');
+    console.log('  ✅ Dropped OfferApproval table');
+  }
+
+  console.log('\n✅ Approvals migration complete!\n');
+}
+
+/**
+ * Turns the approvers of offers awaiting approval into approval requests
+ * @remarks
+ * Every approver had to approve, in any order, so requests are parallel. The
+ * chain they reference is created deleted: it keeps the approvers of the old
+ * offers without guarding new ones until the organization sets up its chain.
+ * Offers awaiting approval without approvers go back to Draft.
+ */
+async function migrateOfferApprovals(knex: Knex): Promise<void> {
+  const approvals = await knex('OfferApproval as a')
+    .join('Offer as o', 'o.Uid', 'a.OfferId')
+    .join('Application as ap', 'ap.Uid', 'o.ApplicationId')
+    .leftJoin('Position as p', 'p.Uid', 'ap.PositionId')
+    .select(
+      'a.OrgId',
+      'a.OfferId',
+      'a.UserId',
+      'a.Status',
+      'a.Comment',
+      'a.DecidedOn',
+      'a.CreatedOn',
+      'a.CreatedBy',
+      'o.SubmittedOn',
+      'ap.FullName',
+      'p.Name as PositionName'
+    )
+    .where({ 'o.Status': 'PendingApproval', 'o.IsDeleted': false, 'a.IsDeleted': false })
+    .orderBy('a.CreatedOn', 'asc');
+
+  const offers = new Map<string, typeof approvals>();
+  for (const approval of approvals) {
+    offers.set(approval.OfferId, [...(offers.get(approval.OfferId) ?? []), approval]);
+  }
+
+  const chains = new Map<string, string>();
+  for (const [offerId, steps] of offers) {
+    const [first] = steps;
+
+    let chainId = chains.get(first.OrgId);
+    if (!chainId) {
+      chainId = randomUUID();
+      const approverIds = approvals
+        .filter((a) => a.OrgId === first.OrgId)
+        .map((a) => a.UserId);
+      await knex('ApprovalChain').insert({
+        Uid: chainId,
+        OrgId: first.OrgId,
+        Name: 'Offer approvers',
+        EntityType: 'Offer',
+        Mode: 'Parallel',
+        ApproverIds: JSON.stringify([...new Set(approverIds)]),
+        IsDeleted: true,
+        DeletedOn: new Date(),
+      });
+      chains.set(first.OrgId, chainId);
+    }
+
+    const requestId = randomUUID();
+    await knex('ApprovalRequest').insert({
+      Uid: requestId,
+      OrgId: first.OrgId,
+      ChainId: chainId,
+      EntityType: 'Offer',
+      EntityId: offerId,
+      Action: 'Send',
+      Summary: (
+        `Offer to ${first.FullName ?? 'candidate'}` +
+        (first.PositionName ? ` for ${first.PositionName}` : '')
+      ).substring(0, 500),
+      Mode: 'Parallel',
+      Status: 'Pending',
+      CreatedOn: first.SubmittedOn ?? first.CreatedOn,
+      CreatedBy: first.CreatedBy ?? null,
+    });
+    await knex('ApprovalStep').insert(
+      steps.map((step) => ({
+        Uid: randomUUID(),
+        OrgId: step.OrgId,
+        RequestId: requestId,
+        UserId: step.UserId,
+        StepOrder: 1,
+        Status: step.Status,
+        Comment: step.Comment ?? null,
+        DecidedOn: step.DecidedOn ?? null,
+        CreatedOn: step.CreatedOn,
+        CreatedBy: step.CreatedBy ?? null,
+      }))
+    );
+  }
+
+  const reverted = await knex('Offer')
+    .where({ Status: 'PendingApproval', IsDeleted: false })
+    .whereNotIn('Uid', [...offers.keys()])
+    .update({ Status: 'Draft', SubmittedOn: null, UpdatedOn: new Date() });
+
+  console.log(
+    `  ✅ Moved the approvers of ${offers.size} offers to approval requests` +
+      (reverted ? `, ${reverted} offers without approvers back to Draft` : '')
+  );
+}
+
+/**
+ * Rollback the approvals migration
+ */
+export async function down(knex: Knex): Promise<void> {
+  console.log('📦 Rolling back approvals migration...\n');
+
+  for (const tableName of ['ApprovalStep', 'ApprovalRequest', 'ApprovalChain']) {
+    if (await knex.schema.hasTable(tableName)) {
+      await knex.schema.dropTable(tableName);
+      console.log(`  ✅ Dropped ${tableName} table`);
+    } else {
+      console.log(`  ⏭️  ${tableName} table does not exist`);
+    }
+  }
+
+  if (!(await knex.schema.hasTable('OfferApproval'))) {
+    await knex.schema.createTable('OfferApproval', (table) => {
+      table.string('Uid', 36).primary();
+      table.string('OrgId', 36).notNullable().index();
+      table.string('OfferId', 36).notNullable().index();
+      table.string('UserId', 36).notNullable().index();
+      table.string('Status', 20).notNullable().defaultTo('Pending');
+      table.string('Comment', 1000).nullable();
+      table.dateTime('DecidedOn').nullable();
+      table.boolean('IsActive').defaultTo(true);
+      table.boolean('IsDeleted').defaultTo(false).index();
+      table.timestamp('CreatedOn').defaultTo(knex.fn.now());
+      table.string('CreatedBy', 36).nullable();
+      table.timestamp('UpdatedOn').nullable();
+      table.string('UpdatedBy', 36).nullable();
+      table.timestamp('DeletedOn').nullable();
+      table.unique(['OfferId', 'UserId']);
+    });
+    console.log('  ✅ Recreated OfferApproval table');
+  }
+
+  console.log('\n✅ Rollback complete!\n');
+}
@@ -0,0 +1,82 @@
+import { Knex } from 'knex';
+
+/**
+ * POSITION LIFECYCLE MIGRATION
+ *
+ * Adds the posting status, publish window and posting details of positions.
+ * Existing active positions become Open and inactive ones Draft.
+ */
+export async function up(knex: Knex): Promise<void> {
+  console.log('📦 Running position lifecycle migration...\n');
+
+  const columns: [string, (table: Knex.AlterTableBuilder) => void][] = [
+    ['Status', (t) => t.string('Status', 20).notNullable().defaultTo('Draft').index()],
+    ['PublishOn', (t) => t.dateTime('PublishOn').nullable()],
+    ['CloseOn', (t) => t.dateTime('CloseOn').nullable()],
+    ['Location', (t) => t.string('Location', 255).nullable()],
+    ['RemoteType', (t) => t.string('RemoteType', 20).notNullable().defaultTo('OnSite')],
+    ['EmploymentType', (t) => t.string('EmploymentType', 20).notNullable().defaultTo('FullTime')],
+    ['SalaryMin', (t) => t.decimal('SalaryMin', 12, 2).nullable()],
+    ['SalaryMax', (t) => t.decimal('SalaryMax', 12, 2).nullable()],
+    ['SalaryCurrency', (t) => t.string('SalaryCurrency', 3).nullable()],
+    ['Headcount', (t) => t.integer('Headcount').notNullable().defaultTo(1)],
+    ['HiringManagerId', (t) => t.string('HiringManagerId', 36).nullable()],
+  ];
+
+  for (const [columnName, add] of columns) {
+    if (!(await knex.schema.hasColumn('Positions', columnName))) {
+      await knex.schema.alterTable('Positions', add);
+      console.log(`  ✅ Added Positions.${columnName}`);
+
+      if (columnName === 'Status') {
+        // Inactive positions were hidden from candidates; they now start as drafts
+        await knex.raw("UPDATE Positions SET Status = 'Open' WHERE IsActive = 1");
+        await knex.raw('UPDATE Positions SET IsActive = 1 WHERE IsActive = 0');
+        console.log('  ✅ Set the status of existing positions');
+      }
+    } else {
+      console.log(`  ⏭️  Positions.${columnName} already exists`);
+    }
+  }
+
+  console.log('\n✅ Position lifecycle migration complete!\n');
+}
+
+/**
+ * Rollback the position lifecycle migration
+ */
+export async function down(knex: Knex): Promise<void> {
+  console.log('📦 Rolling back position lifecycle migration...\n');
+
+  if (await knex.schema.hasColumn('Positions', 'Status')) {
+    await knex.raw("UPDATE Positions SET IsActive = 0 WHERE Status <> 'Open'");
+    console.log('  ✅ Deactivated positions that are not open');
+  }
+
+  const columns = [
+    'Status',
+    'PublishOn',
+    'CloseOn',
+    'Location',
+    'RemoteType',
+    'EmploymentType',
+    'SalaryMin',
+    'SalaryMax',
+    'SalaryCurrency',
+    'Headcount',
+    'HiringManagerId',
+  ];
+
+  for (const columnName of columns) {
+    if (await knex.schema.hasColumn('Positions', columnName)) {
+      await knex.schema.alterTable('Positions', (table) => {
+        table.dropColumn(columnName);
+      });
+      console.log(`  ✅ Dropped Positions.${columnName}`);
+    } else {
+      console.log(`  ⏭️  Positions.${columnName} does not exist`);
+    }
+  }
+
+  console.log('\n✅ Rollback complete!\n');
+}
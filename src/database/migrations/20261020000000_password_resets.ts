@@ -0,0 +1,68 @@
+import { Knex } from 'knex';
+
+/**
+ * PASSWORD RESETS MIGRATION
+ *
+ * Creates the single-use password reset tokens and the time before which a
+ * user's refresh tokens are rejected.
+ */
+export async function up(knex: Knex): Promise<void> {
+  console.log('📦 Running password resets migration...\n');
+
+  if (!(await knex.schema.hasColumn('Users', 'TokensValidAfter'))) {
+    await knex.schema.alterTable('Users', (table) => {
+      table.dateTime('TokensValidAfter').nullable();
+    });
+    console.log('  ✅ Added Users.TokensValidAfter');
+  } else {
+    console.log('  ⏭️  Users.TokensValidAfter already exists');
+  }
+
+  if (!(await knex.schema.hasTable('PasswordReset'))) {
+    await knex.schema.createTable('PasswordReset', (table) => {
+      table.string('Uid', 36).primary();
+      table.string('OrgId', 36).notNullable().index();
+      table.string('UserId', 36).notNullable().index();
+      table.string('TokenHash', 64).notNullable().unique();
+      table.dateTime('ExpiresOn').notNullable();
+      table.dateTime('UsedOn').nullable();
+      table.boolean('IsActive').defaultTo(true);
+      table.boolean('IsDeleted').defaultTo(false).index();
+      table.timestamp('CreatedOn').defaultTo(knex.fn.now());
+      table.string('CreatedBy', 36).nullable();
+      table.timestamp('UpdatedOn').nullable();
+      table.string('UpdatedBy', 36).nullable();
+      table.timestamp('DeletedOn').nullable();
+    });
+    console.log('  ✅ Created PasswordReset table');
+  } else {
+    console.log('  ⏭️  PasswordReset table already exists');
+  }
+
+  console.log('\n✅ Password resets migration complete!\n');
+}
+
+/**
+ * Rollback the password resets migration
+ */
+export async function down(knex: Knex): Promise<void> {
+  console.log('📦 Rolling back password resets migration...\n');
+
+  if (await knex.schema.hasTable('PasswordReset')) {
+    await knex.schema.dropTable('PasswordReset');
+    console.log('  ✅ Dropped PasswordReset table');
+  } else {
+    console.log('  ⏭️  PasswordReset table does not exist');
+  }
+
+  if (await knex.schema.hasColumn('Users', 'TokensValidAfter')) {
+    await knex.schema.alterTable('Users', (table) => {
+      table.dropColumn('TokensValidAfter');
+    });
+    console.log('  ✅ Dropped Users.TokensValidAfter');
+  } else {
+    console.log('  ⏭️  Users.TokensValidAfter does not exist');
+  }
+
+  console.log('\n✅ Rollback complete!\n');
+}
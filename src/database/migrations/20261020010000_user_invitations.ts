@@ -0,0 +1,72 @@
+import { Knex } from 'knex';
+
+/**
+ * USER INVITATIONS MIGRATION
+ *
+ * Creates user invitations and adds the UserInfo columns filled in when an
+ * invitation is accepted, which the baseline table did not have.
+ */
+export async function up(knex: Knex): Promise<void> {
+  console.log('📦 Running user invitations migration...\n');
+
+  const columns: [string, (table: Knex.AlterTableBuilder) => void][] = [
+    ['Email', (t) => t.string('Email', 255).nullable().index()],
+    ['JoiningDate', (t) => t.dateTime('JoiningDate').nullable()],
+    ['DateOfBirth', (t) => t.date('DateOfBirth').nullable()],
+    ['Gender', (t) => t.string('Gender', 20).nullable()],
+    ['ProfileUrl', (t) => t.string('ProfileUrl', 500).nullable()],
+  ];
+
+  for (const [columnName, add] of columns) {
+    if (!(await knex.schema.hasColumn('UserInfo', columnName))) {
+      await knex.schema.alterTable('UserInfo', add);
+      console.log(`  ✅ Added UserInfo.${columnName}`);
+    } else {
+      console.log(`  ⏭️  UserInfo.${columnName} already exists`);
+    }
+  }
+
+  if (!(await knex.schema.hasTable('UserInvitation'))) {
+    await knex.schema.createTable('UserInvitation', (table) => {
+      table.string('Uid', 36).primary();
+      table.string('OrgId', 36).notNullable().index();
+      table.string('Email', 255).notNullable().index();
+      table.string('Role', 10).notNullable();
+      table.string('FirstName', 100).nullable();
+      table.string('LastName', 100).nullable();
+      table.string('TokenHash', 64).notNullable().unique();
+      table.dateTime('ExpiresOn').notNullable();
+      table.dateTime('AcceptedOn').nullable();
+      table.string('UserId', 36).nullable();
+      table.boolean('IsActive').defaultTo(true);
+      table.boolean('IsDeleted').defaultTo(false).index();
+      table.timestamp('CreatedOn').defaultTo(knex.fn.now());
+      table.string('CreatedBy', 36).nullable();
+      table.timestamp('UpdatedOn').nullable();
+      table.string('UpdatedBy', 36).nullable();
+      table.timestamp('DeletedOn').nullable();
+    });
+    console.log('  ✅ Created UserInvitation table');
+  } else {
+    console.log('  ⏭️  UserInvitation table already exists');
+  }
+
+  console.log('\n✅ User invitations migration complete!\n');
+}
+
+/**
+ * Rollback the user invitations migration
+ * The UserInfo columns are kept - profiles may have been filled in since
+ */
+export async function down(knex: Knex): Promise<void> {
+  console.log('📦 Rolling back user invitations migration...\n');
+
+  if (await knex.schema.hasTable('UserInvitation')) {
+    await knex.schema.dropTable('UserInvitation');
+    console.log('  ✅ Dropped UserInvitation table');
+  } else {
+    console.log('  ⏭️  UserInvitation table does not exist');
+  }
+
+  console.log('\n✅ Rollback complete!\n');
+}
@@ -0,0 +1,53 @@
+import { Knex } from 'knex';
+
+/**
+ * REFRESH TOKENS MIGRATION
+ *
+ * Creates the server-side records of refresh tokens, used to rotate them,
+ * detect reuse and revoke sessions.
+ */
+export async function up(knex: Knex): Promise<void> {
+  console.log('📦 Running refresh tokens migration...\n');
+
+  if (!(await knex.schema.hasTable('RefreshToken'))) {
+    await knex.schema.createTable('RefreshToken', (table) => {
+      table.string('Uid', 36).primary();
+      table.string('OrgId', 36).notNullable().index();
+      table.string('UserId', 36).notNullable().index();
+      table.string('FamilyId', 36).notNullable().index();
+      table.string('TokenHash', 64).notNullable().unique();
+      table.dateTime('ExpiresOn').notNullable();
+      table.dateTime('UsedOn').nullable();
+      table.string('ReplacedById', 36).nullable();
+      table.dateTime('RevokedOn').nullable();
+      table.boolean('IsActive').defaultTo(true);
+      table.boolean('IsDeleted').defaultTo(false).index();
+      table.timestamp('CreatedOn').defaultTo(knex.fn.now());
+      table.string('CreatedBy', 36).nullable();
+      table.timestamp('UpdatedOn').nullable();
+      table.string('UpdatedBy', 36).nullable();
+      table.timestamp('DeletedOn').nullable();
+    });
+    console.log('  ✅ Created RefreshToken table');
+  } else {
+    console.log('  ⏭️  RefreshToken table already exists');
+  }
+
+  console.log('\n✅ Refresh tokens migration complete!\n');
+}
+
+/**
+ * Rollback the refresh tokens migration
+ */
+export async function down(knex: Knex): Promise<void> {
+  console.log('📦 Rolling back refresh tokens migration...\n');
+
+  if (await knex.schema.hasTable('RefreshToken')) {
+    await knex.schema.dropTable('RefreshToken');
+    console.log('  ✅ Dropped RefreshToken table');
+  } else {
+    console.log('  ⏭️  RefreshToken table does not exist');
+  }
+
+  console.log('\n✅ Rollback complete!\n');
+}
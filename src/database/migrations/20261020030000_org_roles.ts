@@ -0,0 +1,72 @@
+import { Knex } from 'knex';
+
+/**
+ * ORGANIZATION ROLES MIGRATION
+ *
+ * Creates the roles organizations define from permissions, and their
+ * assignments to users with an optional department or position scope.
+ */
+export async function up(knex: Knex): Promise<void> {
+  console.log('📦 Running organization roles migration...\n');
+
+  if (!(await knex.schema.hasTable('OrgRole'))) {
+    await knex.schema.createTable('OrgRole', (table) => {
+      table.string('Uid', 36).primary();
+      table.string('OrgId', 36).notNullable().index();
+      table.string('Name', 100).notNullable();
+      table.string('Description', 500).nullable();
+      table.text('Permissions').notNullable();
+      table.boolean('IsActive').defaultTo(true);
+      table.boolean('IsDeleted').defaultTo(false).index();
+      table.timestamp('CreatedOn').defaultTo(knex.fn.now());
+      table.string('CreatedBy', 36).nullable();
+      table.timestamp('UpdatedOn').nullable();
+      table.string('UpdatedBy', 36).nullable();
+      table.timestamp('DeletedOn').nullable();
+    });
+    console.log('  ✅ Created OrgRole table');
+  } else {
+    console.log('  ⏭️  OrgRole table already exists');
+  }
+
+  if (!(await knex.schema.hasTable('OrgRoleAssignment'))) {
+    await knex.schema.createTable('OrgRoleAssignment', (table) => {
+      table.string('Uid', 36).primary();
+      table.string('OrgId', 36).notNullable().index();
+      table.string('OrgRoleId', 36).notNullable().index();
+      table.string('UserId', 36).notNullable().index();
+      table.string('DepartmentId', 36).nullable();
+      table.string('PositionId', 36).nullable();
+      table.boolean('IsActive').defaultTo(true);
+      table.boolean('IsDeleted').defaultTo(false).index();
+      table.timestamp('CreatedOn').defaultTo(knex.fn.now());
+      table.string('CreatedBy', 36).nullable();
+      table.timestamp('UpdatedOn').nullable();
+      table.string('UpdatedBy', 36).nullable();
+      table.timestamp('DeletedOn').nullable();
+    });
+    console.log('  ✅ Created OrgRoleAssignment table');
+  } else {
+    console.log('  ⏭️  OrgRoleAssignment table already exists');
+  }
+
+  console.log('\n✅ Organization roles migration complete!\n');
+}
+
+/**
+ * Rollback the organization roles migration
+ */
+export async function down(knex: Knex): Promise<void> {
+  console.log('📦 Rolling back organization roles migration...\n');
+
+  for (const tableName of ['OrgRoleAssignment', 'OrgRole']) {
+    if (await knex.schema.hasTable(tableName)) {
+      await knex.schema.dropTable(tableName);
+      console.log(`  ✅ Dropped ${tableName} table`);
+    } else {
+      console.log(`  ⏭️  ${tableName} table does not exist`);
+    }
+  }
+
+  console.log('\n✅ Rollback complete!\n');
+}
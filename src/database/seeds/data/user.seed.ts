@@ -26,6 +26,7 @@ export function createUserSeedData(hashedPassword: string): User[] {
       UpdatedOn: null,
       UpdatedBy: null,
       DeletedOn: null,
+      TokensValidAfter: null,
     },
   ];
 }
@@ -18,6 +18,32 @@ export const TableNames = {
   EmailTemplate: 'EmailTemplate',
   OptionGroup: 'OptionGroup',
   Options: 'Options',
+  PipelineStage: 'PipelineStage',
+  ApplicationStageHistory: 'ApplicationStageHistory',
+  ApplicationEvent: 'ApplicationEvent',
+  FormTemplateVersion: 'FormTemplateVersion',
+  Attachment: 'Attachment',
+  Candidate: 'Candidate',
+  ApplicationNote: 'ApplicationNote',
+  ApplicationNoteMention: 'ApplicationNoteMention',
+  ApplicationRating: 'ApplicationRating',
+  Interview: 'Interview',
+  InterviewPanelist: 'InterviewPanelist',
+  UserAvailability: 'UserAvailability',
+  UserBlackout: 'UserBlackout',
+  SchedulingLink: 'SchedulingLink',
+  SchedulingLinkSlot: 'SchedulingLinkSlot',
+  InterviewFeedback: 'InterviewFeedback',
+  TestSession: 'TestSession',
+  Offer: 'Offer',
+  ApprovalChain: 'ApprovalChain',
+  ApprovalRequest: 'ApprovalRequest',
+  ApprovalStep: 'ApprovalStep',
+  PasswordReset: 'PasswordReset',
+  UserInvitation: 'UserInvitation',
+  RefreshToken: 'RefreshToken',
+  OrgRole: 'OrgRole',
+  OrgRoleAssignment: 'OrgRoleAssignment',
 } as const;
 
 /**
@@ -15,5 +15,6 @@ export type {
   PaginationMeta,
   PaginatedResult,
   SelectColumns,
+  RawCondition,
   WhereCondition,
 } from './query.types';
@@ -70,6 +70,14 @@ export interface PaginatedResult<T> {
  */
 export type SelectColumns<T> = (keyof T)[] | '*';
 
+/**
+ * Raw SQL condition with its bindings, e.g. the permission scope of a query
+ */
+export interface RawCondition {
+  Sql: string;
+  Bindings: readonly unknown[];
+}
+
 /**
  * Where condition - either partial object or tuple [field, operator, value]
  */
@@ -0,0 +1,17 @@
+/**
+ * Represents a forbidden error with HTTP status code 403
+ * Used when the caller is authenticated but not allowed to perform the action
+ */
+export class ForbiddenError extends Error {
+  readonly StatusCode = 403;
+
+  /**
+   * Creates a new forbidden error
+   * @param message Optional custom error message
+   */
+  constructor(message?: string) {
+    super(message || "Forbidden error");
+    Object.setPrototypeOf(this, new.target.prototype);
+    Error.captureStackTrace(this);
+  }
+}
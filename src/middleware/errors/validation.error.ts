@@ -5,12 +5,19 @@
 export class ValidationError extends Error {
   readonly StatusCode: number = 404;
 
+  /**
+   * Per-field error messages keyed by field name, when available
+   */
+  readonly Errors: Record<string, string[]> | null;
+
   /**
    * Creates a new validation error
    * @param message Optional custom validation error message
+   * @param errors Optional per-field error messages keyed by field name
    */
-  constructor(message?: string) {
+  constructor(message?: string, errors?: Record<string, string[]>) {
     super(message || "Validation error occurred");
+    this.Errors = errors ?? null;
     Object.setPrototypeOf(this, new.target.prototype);
     Error.captureStackTrace(this);
   }
@@ -3,6 +3,7 @@ import { TYPES } from "@/core/container/types";
 import { CallerService } from "@/service/caller/caller.service";
 import { UnAuthorizedError } from "../errors/unauthorized.error.";
 import { JWT } from "@/core/utils/jwt.utils";
+import { TokenType } from "@/data/enums/token_type";
 import { RequestHandler } from "@/core/decorators/types";
 import { container } from "@/core/container/container";
 
@@ -32,8 +33,8 @@ export const authenticate: RequestHandler = async (
 
     const token = authHeader.substring(7); // Remove 'Bearer ' prefix
 
-    // decode token
-    const decodeResult = JWT.decode(token);
+    // decode token - refresh tokens cannot be used as access tokens
+    const decodeResult = JWT.decode(token, TokenType.Access);
 
     if (!decodeResult.Valid) {
       throw new UnAuthorizedError("Invalid Access token");
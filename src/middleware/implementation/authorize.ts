@@ -0,0 +1,84 @@
+import { Request, Response, NextFunction } from "express";
+import { TYPES } from "@/core/container/types";
+import { CallerService } from "@/service/caller/caller.service";
+import { RequestHandler } from "@/core/decorators/types";
+import { container } from "@/core/container/container";
+import { Role } from "@/data/enums/role";
+import { Permission } from "@/data/enums/permission";
+import { PermissionService } from "@/service/permission/permission.service";
+import { UnAuthorizedError } from "../errors/unauthorized.error.";
+import { ForbiddenError } from "../errors/forbidden.error";
+
+/**
+ * Creates the middleware that checks the caller's role against a route policy
+ * Added by RouteLoader after the controller middlewares of routes with a policy
+ * @param roles Allowed roles - empty allows any authenticated caller
+ * @returns Middleware handler
+ * @throws UnAuthorizedError if the caller is anonymous
+ * @throws ForbiddenError if the caller's role is not allowed
+ */
+export const authorize = (roles: Role[]): RequestHandler => {
+  return async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const _callerService = container.get<CallerService>(TYPES.Caller);
+
+      if (_callerService.isAnonymous) {
+        throw new UnAuthorizedError("Token is required");
+      }
+
+      const role = _callerService.role;
+      if (
+        role !== Role.MasterAdmin &&
+        roles.length &&
+        !roles.includes(role)
+      ) {
+        throw new ForbiddenError("You are not allowed to perform this action");
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+/**
+ * Creates the middleware that checks the caller has the permissions of a route
+ * Added by RouteLoader after the role check of routes with permissions
+ * @param permissions Required permissions
+ * @returns Middleware handler
+ * @throws UnAuthorizedError if the caller is anonymous
+ * @throws ForbiddenError if the caller does not have a permission
+ */
+export const requirePermission = (
+  permissions: Permission[]
+): RequestHandler => {
+  return async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const _callerService = container.get<CallerService>(TYPES.Caller);
+
+      if (_callerService.isAnonymous) {
+        throw new UnAuthorizedError("Token is required");
+      }
+
+      const _permissionService = container.get<PermissionService>(
+        TYPES.PermissionService
+      );
+      for (const permission of permissions) {
+        await _permissionService.assertPermission(permission);
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from "express";
 import { Response as AppResponse } from "@/data/response/response";
 import { InternalServerError } from "../errors/internalServer.error";
 import { UnAuthorizedError } from "../errors/unauthorized.error.";
+import { ForbiddenError } from "../errors/forbidden.error";
 import { ValidationError } from "../errors/validation.error";
 import { NotFoundError } from "../errors/notFound.error";
 import { UnknownError } from "../errors/unknown.error";
@@ -23,16 +24,21 @@ export const errorHandler = (
 ): void => {
   let status: number;
   let message: string;
+  let model: unknown = null;
 
   if (error instanceof ValidationError) {
     status = error.StatusCode;
     message = error.message;
+    model = error.Errors;
   } else if (error instanceof InternalServerError) {
     status = error.StatusCode;
     message = error.message;
   } else if (error instanceof UnAuthorizedError) {
     status = error.StatusCode;
     message = error.message;
+  } else if (error instanceof ForbiddenError) {
+    status = error.StatusCode;
+    message = error.message;
   } else if (error instanceof NotFoundError) {
     status = error.StatusCode;
     message = error.message;
@@ -44,5 +50,5 @@ export const errorHandler = (
     message = "Internal Server Error";
   }
 
-  res.status(status).json(new AppResponse(false, status, message, null));
+  res.status(status).json(new AppResponse(false, status, message, model));
 };
@@ -0,0 +1,44 @@
+import { Request, Response, NextFunction } from "express";
+import multer from "multer";
+import { config } from "@/core/config/environment";
+import { FileHelper } from "@/core/utils/file.utils";
+import { RequestHandler } from "@/core/decorators/types";
+import { ValidationError } from "../errors/validation.error";
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: config.MAX_FILE_SIZE, files: 1 },
+});
+
+/**
+ * Upload middleware that reads a single multipart file into memory as req.file
+ * @param fieldName Multipart field containing the file
+ * @throws ValidationError if the file is missing or larger than MAX_FILE_SIZE
+ * @remarks
+ * The upload is cut off as soon as it exceeds MAX_FILE_SIZE,
+ * the type of the file is validated by AttachmentService
+ */
+export const uploadFile = (fieldName: string = "file"): RequestHandler => {
+  const handler = upload.single(fieldName);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    handler(req, res, (error?: unknown) => {
+      if (error instanceof multer.MulterError) {
+        return next(
+          new ValidationError(
+            error.code === "LIMIT_FILE_SIZE"
+              ? `File must be at most ${FileHelper.formatFileSize(config.MAX_FILE_SIZE)}`
+              : error.message,
+          ),
+        );
+      }
+      if (error) {
+        return next(error);
+      }
+      if (!req.file) {
+        return next(new ValidationError(`A file is required in '${fieldName}'`));
+      }
+      next();
+    });
+  };
+};
@@ -4,6 +4,7 @@ import { IRepository } from '../interfaces/repository.interface';
 import {
   ListQueryOptions,
   PaginatedResult,
+  RawCondition,
   SelectColumns,
   WhereCondition,
 } from '@/database/types';
@@ -86,7 +87,8 @@ export class Repository<T extends BaseEntities> implements IRepository<T> {
   async findList(
     orgId: string,
     options: ListQueryOptions = {},
-    columns?: SelectColumns<T>
+    columns?: SelectColumns<T>,
+    condition?: RawCondition
   ): Promise<PaginatedResult<T>> {
     const {
       page = 1,
@@ -102,6 +104,10 @@ export class Repository<T extends BaseEntities> implements IRepository<T> {
     // Base query for data
     let dataQuery = this.queryActive().where('OrgId', orgId);
 
+    if (condition) {
+      dataQuery = dataQuery.whereRaw(condition.Sql, condition.Bindings as Knex.RawBinding[]);
+    }
+
     // Apply search if provided
     if (search && searchFields?.length) {
       dataQuery = dataQuery.where((builder) => {
@@ -3,6 +3,7 @@ import { BaseEntities } from '@/data/entities/base-entities';
 import {
   ListQueryOptions,
   PaginatedResult,
+  RawCondition,
   SelectColumns,
   WhereCondition,
 } from '@/database/types';
@@ -32,11 +33,13 @@ interface IRepository<T extends BaseEntities> {
    * @param orgId - Organization ID
    * @param options - Query options (pagination, sorting, search)
    * @param columns - Optional columns to select
+   * @param condition - Optional raw condition limiting the records
    */
   findList(
     orgId: string,
     options?: ListQueryOptions,
-    columns?: SelectColumns<T>
+    columns?: SelectColumns<T>,
+    condition?: RawCondition
   ): Promise<PaginatedResult<T>>;
 
   /**
@@ -7,6 +7,13 @@ import { CallerService } from '@/service/caller/caller.service';
 import { Result } from '@/data/response/response';
 import { Utility } from '@/core/utils/common.utils';
 import { ValidationError } from '@/middleware/errors/validation.error';
+import { Permission } from '@/data/enums/permission';
+import { PermissionService } from '@/service/permission/permission.service';
+import {
+  PermissionCondition,
+  PermissionTarget,
+  ServicePermissions,
+} from '@/service/permission/permission_scope';
 
 /**
  * Base Service Class (Knex.js version)
@@ -18,6 +25,7 @@ import { ValidationError } from '@/middleware/errors/validation.error';
  * - Pre/Post operation hooks
  * - CallerService integration for tenant/user context
  * - Transaction support via Unit of Work
+ * - Organization role permissions on the read and write paths
  * 
  * @template T - Entity type extending BaseEntities
  * @template TVm - View Model type (defaults to T)
@@ -48,6 +56,24 @@ export abstract class BaseService<T extends BaseEntities, TVm = T> {
   protected readonly tableName: TableName;
   protected readonly _callerService: CallerService;
   protected readonly entityType: new () => T;
+  protected readonly permissionService: PermissionService;
+
+  /**
+   * Permissions required to read and write the records, none by default
+   */
+  protected readonly permissions: ServicePermissions = {};
+
+  /**
+   * Column holding the position of a record, for permissions scoped to a
+   * department or position - without it scoped permissions give no access
+   */
+  protected readonly positionColumn?: keyof T & string;
+
+  /**
+   * Column holding the application of a record - the permissions are scoped
+   * to the position of the application
+   */
+  protected readonly applicationColumn?: keyof T & string;
 
   /**
    * Create a new service instance
@@ -67,6 +93,7 @@ export abstract class BaseService<T extends BaseEntities, TVm = T> {
     this.tableName = tableName;
     this.entityType = entityType;
     this.repository = unitOfWork.getRepository<T>(tableName);
+    this.permissionService = new PermissionService(unitOfWork, callerService);
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -77,6 +104,18 @@ export abstract class BaseService<T extends BaseEntities, TVm = T> {
    * Get all active records for the current organization
    */
   async getAllAsync(columns?: (keyof T)[]): Promise<Result<T>> {
+    if (this.permissions.Read) {
+      const condition = await this.getReadCondition();
+      const query = this.repository
+        .queryActive()
+        .where('OrgId', this._callerService.tenantId)
+        .whereRaw(condition.Sql, condition.Bindings);
+      if (columns) {
+        query.select(columns as string[]);
+      }
+      return Result.toPagedResult(1, 1, 1, await query) as Result<T>;
+    }
+
     const data = await this.repository.findAll(
       this._callerService.tenantId,
       columns
@@ -92,7 +131,9 @@ export abstract class BaseService<T extends BaseEntities, TVm = T> {
   ): Promise<PaginatedResult<T>> {
     return await this.repository.findList(
       this._callerService.tenantId,
-      options
+      options,
+      undefined,
+      this.permissions.Read ? await this.getReadCondition() : undefined
     );
   }
 
@@ -110,6 +151,8 @@ export abstract class BaseService<T extends BaseEntities, TVm = T> {
       throw new Error(`${this.entityType.name} not found`);
     }
 
+    await this.assertPermission(this.permissions.Read, entity);
+
     return this.toEntityResult(entity);
   }
 
@@ -139,6 +182,8 @@ export abstract class BaseService<T extends BaseEntities, TVm = T> {
 
     let entity = this.toEntity(model);
 
+    await this.assertPermission(this.permissions.Write, entity);
+
     await this.preAddOperation(model, entity);
 
     entity = await this.repository.create(entity);
@@ -192,8 +237,13 @@ export abstract class BaseService<T extends BaseEntities, TVm = T> {
       throw new Error(`${this.entityType.name} not found`);
     }
 
+    await this.assertPermission(this.permissions.Write, entity);
+
     this.mergeModelToEntity(model, entity);
 
+    // The record may have moved to a department or position out of scope
+    await this.assertPermission(this.permissions.Write, entity);
+
     await this.preUpdateOperation(model, entity);
 
     entity = await this.repository.update(id, entity);
@@ -236,6 +286,17 @@ export abstract class BaseService<T extends BaseEntities, TVm = T> {
    * Soft delete a record
    */
   async deleteAsync(id: string): Promise<boolean> {
+    if (this.permissions.Write) {
+      const entity = await this.repository.findById(
+        id,
+        this._callerService.tenantId
+      );
+      if (entity == null) {
+        throw new Error(`${this.entityType.name} not found`);
+      }
+      await this.assertPermission(this.permissions.Write, entity);
+    }
+
     return await this.repository.softDelete(id);
   }
 
@@ -243,6 +304,17 @@ export abstract class BaseService<T extends BaseEntities, TVm = T> {
    * Hard delete a record (use with caution)
    */
   async hardDeleteAsync(id: string): Promise<boolean> {
+    if (this.permissions.Write) {
+      const entity = await this.repository.findById(
+        id,
+        this._callerService.tenantId
+      );
+      if (entity == null) {
+        throw new Error(`${this.entityType.name} not found`);
+      }
+      await this.assertPermission(this.permissions.Write, entity);
+    }
+
     return await this.repository.hardDelete(id);
   }
 
@@ -304,6 +376,69 @@ export abstract class BaseService<T extends BaseEntities, TVm = T> {
     return entity as unknown as Result<T>;
   }
 
+  // ═══════════════════════════════════════════════════════════════════════════
+  // PERMISSIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Ensures the caller has a permission, on a record when given
+   * @throws ForbiddenError if the caller does not have the permission
+   */
+  protected async assertPermission(
+    permission: Permission | undefined,
+    entity?: T
+  ): Promise<void> {
+    if (!permission) return;
+
+    if (entity && this.applicationColumn) {
+      await this.permissionService.assertApplicationPermission(
+        permission,
+        (entity[this.applicationColumn] as unknown as string | null) ?? null
+      );
+      return;
+    }
+
+    await this.permissionService.assertPermission(
+      permission,
+      entity ? this.getPermissionTarget(entity) : undefined
+    );
+  }
+
+  /**
+   * Condition limiting a read query to the records in the caller's scope
+   * @param positionColumn Position column of the query, defaults to positionColumn
+   * @throws ForbiddenError if the caller does not have the read permission
+   */
+  protected async getReadCondition(
+    positionColumn: string | undefined = this.positionColumn
+  ): Promise<PermissionCondition> {
+    if (!this.permissions.Read) {
+      return { Sql: '1 = 1', Bindings: [] };
+    }
+    if (positionColumn == null && this.applicationColumn) {
+      return await this.permissionService.getApplicationCondition(
+        this.permissions.Read,
+        this.applicationColumn
+      );
+    }
+    return await this.permissionService.getCondition(
+      this.permissions.Read,
+      positionColumn
+    );
+  }
+
+  /**
+   * Department and position a record belongs to
+   * Override when the record has its own department
+   */
+  protected getPermissionTarget(entity: T): PermissionTarget {
+    return {
+      PositionId: this.positionColumn
+        ? ((entity[this.positionColumn] as unknown as string) ?? null)
+        : null,
+    };
+  }
+
   // ═══════════════════════════════════════════════════════════════════════════
   // HELPER METHODS
   // ═══════════════════════════════════════════════════════════════════════════
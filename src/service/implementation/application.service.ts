@@ -1,20 +1,120 @@
 import { inject, injectable } from 'inversify';
 import { TYPES } from '@/core/container/types';
 import { Application } from '@/data/entities/application';
+import { ApplicationStageHistory } from '@/data/entities/application_stage_history';
 import { TableNames } from '@/database/tables';
 import { IUnitOfWork } from '@/repository/interfaces';
 import { CallerService } from '../caller/caller.service';
 import { BaseService } from '../base/base.service';
 import { Utility } from '@/core/utils/common.utils';
 import { ValidationError } from '@/middleware/errors/validation.error';
+import { NotFoundError } from '@/middleware/errors/notFound.error';
+import { Result } from '@/data/response/response';
+import { StageTransitionVm } from '@/data/models/StageTransitionVm';
+import { ApplicationStageHistoryResult } from '@/data/results/application_stage_history_result';
+import { PipelineStageService } from './pipeline_stage.service';
+import { ApplicationEventService } from './application_event.service';
+import { MailService } from './mail.service';
+import { ApplicationEventType } from '@/data/enums/application_event';
+import { ApplicationEventResult } from '@/data/results/application_event_result';
+import { TemplateHelper } from '@/core/helper/template.helper';
+import { EmailOptions } from '@/email';
+import { logger } from '@/core/utils/logger.utils';
+import { FormTemplateVersionService } from './form_template_version.service';
+import { FormValidationHelper } from '@/core/helper/form-validation.helper';
+import { Positions } from '@/data/entities/positions';
+import { FormTemplateSnapshotResult } from '@/data/results/form_template_version_result';
+import { AttachmentService } from './attachment.service';
+import { FieldType } from '@/data/enums/field_type';
+import { TextExtractionHelper } from '@/core/helper/text-extraction.helper';
+import { ApplicationSearchFilter } from '@/data/filters/application_search_filter';
+import { ApplicationSearchResult } from '@/data/results/application_search_result';
+import { CandidateService } from './candidate.service';
+import { ApplicationListResult } from '@/data/results/application_list_result';
+import { PositionStatus } from '@/data/enums/position_status';
+import { Permission } from '@/data/enums/permission';
+
+/**
+ * Average reviewer rating per application of an organization (binds OrgId)
+ */
+const RATING_AGGREGATE_QUERY = `
+  SELECT ApplicationId, ROUND(AVG(Rating), 2) AS AverageRating, COUNT(*) AS RatingCount
+  FROM ${TableNames.ApplicationRating}
+  WHERE OrgId = ? AND IsDeleted = 0
+  GROUP BY ApplicationId
+`;
 
 @injectable()
 export class ApplicationService extends BaseService<Application> {
+  private readonly _pipelineStageService: PipelineStageService;
+  private readonly _applicationEventService: ApplicationEventService;
+  private readonly _mailService: MailService;
+  private readonly _formTemplateVersionService: FormTemplateVersionService;
+  private readonly _attachmentService: AttachmentService;
+  private readonly _candidateService: CandidateService;
+
+  protected override readonly permissions = {
+    Read: Permission.ApplicationRead,
+    Write: Permission.ApplicationWrite,
+  };
+  protected override readonly positionColumn = 'PositionId';
+
   constructor(
     @inject(TYPES.UnitOfWork) unitOfWork: IUnitOfWork,
-    @inject(TYPES.Caller) callerService: CallerService
+    @inject(TYPES.Caller) callerService: CallerService,
+    @inject(TYPES.PipelineStageService) pipelineStageService: PipelineStageService,
+    @inject(TYPES.ApplicationEventService)
+    applicationEventService: ApplicationEventService,
+    @inject(TYPES.MailService) mailService: MailService,
+    @inject(TYPES.FormTemplateVersionService)
+    formTemplateVersionService: FormTemplateVersionService,
+    @inject(TYPES.AttachmentService) attachmentService: AttachmentService,
+    @inject(TYPES.CandidateService) candidateService: CandidateService
   ) {
     super(unitOfWork, callerService, TableNames.Application, Application);
+    this._pipelineStageService = pipelineStageService;
+    this._applicationEventService = applicationEventService;
+    this._mailService = mailService;
+    this._formTemplateVersionService = formTemplateVersionService;
+    this._attachmentService = attachmentService;
+    this._candidateService = candidateService;
+  }
+
+  /**
+   * Submits an application
+   * The application, its initial stage placement and its Created event are saved
+   * in one transaction, so an application never exists without its history
+   */
+  override async createAsync(model: Application): Promise<Result<Application>> {
+    await this.validateAdd(model);
+
+    let entity = this.toEntity(model);
+    await this.assertPermission(this.permissions.Write, entity);
+    await this.preAddOperation(model, entity);
+
+    entity = await this.transaction(async (trx) => {
+      const created = await this.unitOfWork
+        .getTransactionalRepository<Application>(TableNames.Application, trx)
+        .create(entity);
+      await this.unitOfWork
+        .getTransactionalRepository<ApplicationStageHistory>(
+          TableNames.ApplicationStageHistory,
+          trx
+        )
+        .create(this.toStageHistory(created, null, created.StageId!, null));
+      await this._applicationEventService.record(
+        created,
+        ApplicationEventType.Created,
+        'Application submitted',
+        { Status: created.Status, PositionId: created.PositionId },
+        trx
+      );
+      return created;
+    });
+
+    await this.postAddOperation(model, entity);
+
+    return await this.toEntityResult(entity);
   }
 
   /**
@@ -33,10 +133,82 @@ export class ApplicationService extends BaseService<Application> {
     if (this._callerService.isAnonymous) {
       entity.CreatedBy = '00000000-0000-0000-0000-000000000000';
     }
+
+    // New applications always start in the initial stage of the pipeline
+    const initialStage = await this._pipelineStageService.getInitialStage(
+      entity.OrgId
+    );
+    entity.StageId = initialStage.Uid;
+    entity.Status = initialStage.Name;
+    entity.ResumeText = null;
+
+    // Record the form version the answers were submitted against
+    entity.FormTemplateVersionId =
+      (await this.getApplicationForm(entity.PositionId, entity.OrgId))
+        ?.FormTemplateVersionId ?? null;
+
+    // Group the application with earlier ones from the same person
+    entity.CandidateId = (
+      await this._candidateService.resolveForApplication(entity)
+    ).Uid;
+  }
+
+  /**
+   * Post add operation - links the uploaded files and sends the confirmation
+   * email to the candidate
+   */
+  override async postAddOperation(
+    model: Application,
+    entity: Application
+  ): Promise<void> {
+    await this._attachmentService.linkToApplication(
+      this.getAttachmentIds(
+        entity,
+        await this.getApplicationForm(entity.PositionId, entity.OrgId)
+      ),
+      entity
+    );
+
+    // Non-blocking - extraction and email failures shouldn't fail the submission
+    this.extractResumeText(entity).catch((error) => {
+      logger.error('Failed to extract resume text', {
+        ApplicationId: entity.Uid,
+        Error: error instanceof Error ? error.message : String(error),
+      });
+    });
+
+    this.sendApplicationReceivedEmail(entity).catch((error) => {
+      logger.error('Failed to send application received email', {
+        ApplicationId: entity.Uid,
+        Error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+
+  /**
+   * Update an application and record the field-level changes
+   */
+  override async updateAsync(
+    model: Application,
+    id: string
+  ): Promise<Result<Application>> {
+    const before = await this.repository.findById(id, this.tenantId);
+
+    const result = await super.updateAsync(model, id);
+
+    if (before) {
+      await this._applicationEventService.recordUpdate(
+        before,
+        result as unknown as Application
+      );
+    }
+
+    return result;
   }
 
   /**
    * Validates the entity before adding
+   * MetaData is validated against the application form of the position
    */
   override async validateAdd(entity: Application): Promise<void> {
     if (entity.MetaData != null && entity?.MetaData?.trim()?.length > 0) {
@@ -45,6 +217,8 @@ export class ApplicationService extends BaseService<Application> {
         throw new ValidationError('Invalid JSON in MetaData');
       }
     }
+
+    await this.validateSubmission(entity);
   }
 
   /**
@@ -58,4 +232,519 @@ export class ApplicationService extends BaseService<Application> {
       }
     }
   }
+
+  /**
+   * Stage fields can only be changed through transitionStageAsync,
+   * the form version and uploaded resume are fixed at submission and
+   * the candidate only changes through a merge
+   */
+  protected override mergeModelToEntity(
+    model: Application,
+    entity: Application
+  ): void {
+    const {
+      StageId,
+      Status,
+      FormTemplateVersionId,
+      ResumeId,
+      ResumeText,
+      CandidateId,
+    } = entity;
+    super.mergeModelToEntity(model, entity);
+    entity.CandidateId = CandidateId;
+    entity.StageId = StageId;
+    entity.Status = Status;
+    entity.FormTemplateVersionId = FormTemplateVersionId;
+    entity.ResumeId = ResumeId;
+    entity.ResumeText = ResumeText;
+  }
+
+  /**
+   * Get all applications of the organization with their average reviewer rating
+   */
+  override async getAllAsync(): Promise<Result<ApplicationListResult>> {
+    const condition = await this.getReadCondition('a.PositionId');
+    const rows = await this.unitOfWork.raw<ApplicationListResult[]>(
+      `
+      SELECT a.*, r.AverageRating, r.RatingCount
+      FROM ${TableNames.Application} a
+      LEFT JOIN (${RATING_AGGREGATE_QUERY}) r ON r.ApplicationId = a.Uid
+      WHERE a.OrgId = ? AND a.IsDeleted = 0 AND ${condition.Sql}
+      `,
+      [this.tenantId, this.tenantId, ...condition.Bindings]
+    );
+
+    return Result.toPagedResult(1, 1, 1, rows.map((row) => this.withRating(row)));
+  }
+
+  /**
+   * Get the form an application was submitted against, to interpret its MetaData
+   * Applications submitted before the form was first published get the current form
+   */
+  async getSubmittedFormAsync(
+    id: string
+  ): Promise<Result<FormTemplateSnapshotResult | null>> {
+    const application = await this.getApplication(id, Permission.ApplicationRead);
+
+    const form = application.FormTemplateVersionId
+      ? await this._formTemplateVersionService.getSnapshotById(
+          application.FormTemplateVersionId,
+          this.tenantId
+        )
+      : await this.getApplicationForm(application.PositionId, this.tenantId);
+
+    return Result.toEntityResult(form);
+  }
+
+  //#region Pipeline
+  /**
+   * Moves an application to another pipeline stage
+   * @throws NotFoundError if the application or stage does not exist
+   * @throws ValidationError if the pipeline does not allow the move
+   */
+  async transitionStageAsync(
+    id: string,
+    model: StageTransitionVm
+  ): Promise<Result<Application>> {
+    if (!model?.StageId?.length) {
+      throw new ValidationError('StageId is required');
+    }
+
+    const application = await this.getApplication(
+      id,
+      Permission.ApplicationStageChange
+    );
+
+    const stages = await this._pipelineStageService.getPipeline(this.tenantId);
+    const to = stages.find((s) => s.Uid === model.StageId);
+    if (!to) {
+      throw new NotFoundError('Stage not found');
+    }
+
+    const changes: Partial<Application> = {
+      StageId: to.Uid,
+      Status: to.Name,
+      UpdatedOn: new Date(),
+      UpdatedBy: this.userId,
+    };
+
+    // The row is locked so concurrent moves are checked against the stage the
+    // previous move left, not the one read before it
+    const from = await this.transaction(async (trx) => {
+      const current = (await trx(TableNames.Application)
+        .where('Uid', id)
+        .forUpdate()
+        .first()) as Application | undefined;
+      if (current == null) {
+        throw new NotFoundError('Application not found');
+      }
+
+      const from = stages.find((s) => s.Uid === current.StageId) ?? null;
+      this._pipelineStageService.assertTransition(stages, from, to);
+
+      await this.unitOfWork
+        .getTransactionalRepository<Application>(TableNames.Application, trx)
+        .update(id, changes);
+      await this.unitOfWork
+        .getTransactionalRepository<ApplicationStageHistory>(
+          TableNames.ApplicationStageHistory,
+          trx
+        )
+        .create(
+          this.toStageHistory(
+            application,
+            from?.Uid ?? null,
+            to.Uid,
+            model.Comment ?? null
+          )
+        );
+
+      return from;
+    });
+
+    await this._applicationEventService.record(
+      application,
+      ApplicationEventType.StageChanged,
+      from ? `Moved from ${from.Name} to ${to.Name}` : `Moved to ${to.Name}`,
+      {
+        FromStageId: from?.Uid ?? null,
+        FromStage: from?.Name ?? null,
+        ToStageId: to.Uid,
+        ToStage: to.Name,
+        Comment: model.Comment ?? null,
+      }
+    );
+
+    return Result.toEntityResult({ ...application, ...changes } as Application);
+  }
+
+  /**
+   * Get the stage transitions of an application, oldest first
+   */
+  async getStageHistoryAsync(
+    id: string
+  ): Promise<Result<ApplicationStageHistoryResult[]>> {
+    await this.getApplication(id, Permission.ApplicationRead);
+
+    const query = `
+      SELECT
+        h.*,
+        fs.Name AS FromStage,
+        ts.Name AS ToStage,
+        u.Email AS ChangedByEmail
+      FROM ${TableNames.ApplicationStageHistory} h
+      LEFT JOIN ${TableNames.PipelineStage} fs ON fs.Uid = h.FromStageId
+      LEFT JOIN ${TableNames.PipelineStage} ts ON ts.Uid = h.ToStageId
+      LEFT JOIN ${TableNames.User} u ON u.Uid = h.CreatedBy
+      WHERE h.ApplicationId = ? AND h.OrgId = ? AND h.IsDeleted = 0
+      ORDER BY h.CreatedOn ASC
+    `;
+
+    return Result.toEntityResult(
+      await this.unitOfWork.raw<ApplicationStageHistoryResult[]>(query, [
+        id,
+        this.tenantId,
+      ])
+    );
+  }
+
+  //#endregion
+
+  //#region Search
+  /**
+   * Full-text search over name, email, experience and resume text
+   * Results are ranked by relevance and can be filtered by position and stage
+   */
+  async searchAsync(
+    filter: ApplicationSearchFilter
+  ): Promise<Result<ApplicationSearchResult>> {
+    const query = filter?.Query?.trim() ?? '';
+    if (query.length < 2) {
+      throw new ValidationError('Search query must be at least 2 characters');
+    }
+
+    const pageIndex = Math.max(1, Number(filter.PageIndex) || 1);
+    const pageSize = Math.min(100, Math.max(1, Number(filter.PageSize) || 20));
+
+    const match =
+      'MATCH(a.FullName, a.Email, a.Experience, a.ResumeText) AGAINST (? IN NATURAL LANGUAGE MODE)';
+    const condition = await this.getReadCondition('a.PositionId');
+    const conditions = ['a.OrgId = ?', 'a.IsDeleted = 0', `${match} > 0`, condition.Sql];
+    const bindings: unknown[] = [this.tenantId, query, ...condition.Bindings];
+
+    if (filter.PositionId?.length) {
+      conditions.push('a.PositionId = ?');
+      bindings.push(filter.PositionId);
+    }
+    if (filter.StageId?.length) {
+      conditions.push('a.StageId = ?');
+      bindings.push(filter.StageId);
+    }
+
+    const where = conditions.join(' AND ');
+
+    const [count] = await this.unitOfWork.raw<{ total: number }[]>(
+      `SELECT COUNT(*) AS total FROM ${TableNames.Application} a WHERE ${where}`,
+      bindings
+    );
+
+    const rows = await this.unitOfWork.raw<
+      (ApplicationSearchResult & { ResumeText: string | null })[]
+    >(
+      `
+      SELECT
+        a.Uid, a.FullName, a.Email, a.Phone, a.Experience,
+        a.PositionId, p.Name AS PositionName,
+        a.StageId, a.Status, a.CreatedOn, a.ResumeText,
+        r.AverageRating, r.RatingCount,
+        ${match} AS Score
+      FROM ${TableNames.Application} a
+      LEFT JOIN ${TableNames.Position} p ON p.Uid = a.PositionId
+      LEFT JOIN (${RATING_AGGREGATE_QUERY}) r ON r.ApplicationId = a.Uid
+      WHERE ${where}
+      ORDER BY Score DESC, a.CreatedOn DESC
+      LIMIT ? OFFSET ?
+      `,
+      [query, this.tenantId, ...bindings, pageSize, (pageIndex - 1) * pageSize]
+    );
+
+    const results = rows.map(({ ResumeText, ...row }) => ({
+      ...this.withRating(row),
+      Score: Number(row.Score),
+      Snippet: TextExtractionHelper.getSnippet(ResumeText, query),
+    }));
+
+    return Result.toPagedResult(
+      pageIndex,
+      pageSize,
+      Number(count?.total ?? 0),
+      results
+    );
+  }
+
+  /**
+   * Extracts the text of the uploaded resume again, e.g. after a failed extraction
+   * @throws ValidationError if the application has no uploaded resume
+   */
+  async extractResumeTextAsync(id: string): Promise<Result<Application>> {
+    const application = await this.getApplication(id, Permission.ApplicationWrite);
+    if (!application.ResumeId?.length) {
+      throw new ValidationError('Application has no uploaded resume');
+    }
+
+    application.ResumeText = await this.extractResumeText(application);
+
+    return Result.toEntityResult(application);
+  }
+  //#endregion
+
+  //#region Timeline
+  /**
+   * Get the timeline of an application in chronological order
+   * Includes creation, edits, stage changes and emails sent about the application
+   */
+  async getTimelineAsync(
+    id: string
+  ): Promise<Result<ApplicationEventResult[]>> {
+    await this.getApplication(id, Permission.ApplicationRead);
+
+    return await this._applicationEventService.getTimelineAsync(id);
+  }
+
+  /**
+   * Sends an email about an application and records it on the timeline
+   */
+  async sendApplicationEmail(
+    application: Pick<Application, 'Uid' | 'OrgId'>,
+    options: EmailOptions
+  ): Promise<void> {
+    const result = await this._mailService.send(options);
+    await this._applicationEventService.recordEmail(
+      application,
+      options,
+      result
+    );
+  }
+  //#endregion
+
+  //#region Private Functions
+  private withRating<TRow extends { AverageRating: number | null; RatingCount: number }>(
+    row: TRow
+  ): TRow {
+    return {
+      ...row,
+      AverageRating: row.AverageRating == null ? null : Number(row.AverageRating),
+      RatingCount: Number(row.RatingCount ?? 0),
+    };
+  }
+
+  /**
+   * Validates the submitted answers against the position's application form
+   * and checks that the referenced uploads can be used
+   * @throws ValidationError with per-field messages keyed by FormField.Name
+   */
+  private async validateSubmission(model: Application): Promise<void> {
+    if (!model?.PositionId?.length) {
+      throw new ValidationError('PositionId is required');
+    }
+
+    const orgId = model.OrgId ?? this.tenantId;
+    const position = await this.getOtherRepository<Positions>(
+      TableNames.Position
+    ).findById(model.PositionId, orgId);
+
+    if (!position) {
+      throw new ValidationError('Position not found');
+    }
+
+    // Candidates can only apply to open positions within their publish window
+    const now = new Date();
+    if (
+      this._callerService.isAnonymous &&
+      (position.Status !== PositionStatus.Open ||
+        (position.PublishOn != null && new Date(position.PublishOn) > now) ||
+        (position.CloseOn != null && new Date(position.CloseOn) <= now))
+    ) {
+      throw new ValidationError('The position is not accepting applications');
+    }
+
+    const template = await this.getApplicationForm(model.PositionId, orgId);
+
+    if (template) {
+      this.validateAnswers(model, template);
+    }
+
+    await this._attachmentService.assertAvailable(
+      this.getAttachmentIds(model, template),
+      orgId
+    );
+  }
+
+  private validateAnswers(
+    model: Application,
+    template: FormTemplateSnapshotResult
+  ): void {
+    const answers = Utility.safeJsonParse<unknown>(
+      model.MetaData?.trim() || '{}',
+      null
+    );
+    if (answers == null || typeof answers !== 'object' || Array.isArray(answers)) {
+      throw new ValidationError('MetaData must be a JSON object');
+    }
+
+    const errors = FormValidationHelper.validate(
+      template,
+      answers as Record<string, unknown>
+    );
+
+    if (Object.keys(errors).length) {
+      throw new ValidationError('Application form is invalid', errors);
+    }
+  }
+
+  /**
+   * Stores the plain text of the uploaded resume for searching
+   * @returns The extracted text, or null when there is no resume or its format is not supported
+   */
+  private async extractResumeText(
+    application: Application
+  ): Promise<string | null> {
+    if (!application.ResumeId?.length) return null;
+
+    const resume = await this._attachmentService.getContent(
+      application.ResumeId,
+      application.OrgId
+    );
+    if (!resume) return null;
+
+    const text = await TextExtractionHelper.extract(
+      resume.Content,
+      resume.Attachment.FileName
+    );
+
+    await this.repository.update(application.Uid, { ResumeText: text });
+
+    return text;
+  }
+
+  /**
+   * Uploads referenced by an application: the resume and the answers of visible File fields
+   */
+  private getAttachmentIds(
+    application: Application,
+    form: FormTemplateSnapshotResult | null
+  ): string[] {
+    const ids = application.ResumeId?.length ? [application.ResumeId] : [];
+
+    if (form) {
+      const answers = Utility.safeJsonParse<Record<string, unknown> | null>(
+        application.MetaData?.trim() || '{}',
+        null
+      );
+      if (answers && typeof answers === 'object') {
+        for (const field of FormValidationHelper.getVisibleFields(form, answers)) {
+          const value = answers[field.Name];
+          if (Number(field.Type) === FieldType.File && typeof value === 'string' && value.length) {
+            ids.push(value);
+          }
+        }
+      }
+    }
+
+    return [...new Set(ids)];
+  }
+
+  /**
+   * Get an application the caller has a permission on
+   * @throws NotFoundError if the application does not exist
+   * @throws ForbiddenError if the permission does not cover the application
+   */
+  private async getApplication(
+    id: string,
+    permission: Permission
+  ): Promise<Application> {
+    const application = await this.repository.findById(id, this.tenantId);
+    if (application == null) {
+      throw new NotFoundError('Application not found');
+    }
+    await this.assertPermission(permission, application);
+    return application;
+  }
+
+  /**
+   * Get the published application form of a position
+   * @returns null when the position has no application form
+   */
+  private async getApplicationForm(
+    positionId: string,
+    orgId: string
+  ): Promise<FormTemplateSnapshotResult | null> {
+    const position = await this.getOtherRepository<Positions>(
+      TableNames.Position
+    ).findById(positionId, orgId);
+
+    if (!position?.ApplicationTemplateId?.length) return null;
+
+    return await this._formTemplateVersionService.getPublishedForm(
+      position.ApplicationTemplateId,
+      orgId
+    );
+  }
+
+  /**
+   * Sends the application received confirmation to the candidate
+   */
+  private async sendApplicationReceivedEmail(
+    application: Application
+  ): Promise<void> {
+    if (!application.Email?.length) return;
+
+    const [position] = await this.unitOfWork.raw<
+      { Name: string; Department: string | null }[]
+    >(
+      `
+      SELECT p.Name, d.Name AS Department
+      FROM ${TableNames.Position} p
+      LEFT JOIN ${TableNames.Department} d ON d.Uid = p.DepartmentId
+      WHERE p.Uid = ? AND p.OrgId = ?
+      `,
+      [application.PositionId, application.OrgId]
+    );
+
+    const positionTitle = position?.Name ?? 'the position';
+
+    await this.sendApplicationEmail(application, {
+      To: [{ Email: application.Email, Name: application.FullName }],
+      Subject: `Application received - ${positionTitle}`,
+      Html: TemplateHelper.getApplicationReceivedTemplate({
+        applicantName: application.FullName,
+        positionTitle,
+        department: position?.Department ?? '',
+        applicationId: application.Uid,
+        submissionDate: application.CreatedOn.toLocaleDateString('en-US', {
+          year: 'numeric',
+          month: 'long',
+          day: 'numeric',
+        }),
+      }),
+    });
+  }
+
+  private toStageHistory(
+    application: Application,
+    fromStageId: string | null,
+    toStageId: string,
+    comment: string | null
+  ): ApplicationStageHistory {
+    const history = new ApplicationStageHistory();
+    history.OrgId = application.OrgId;
+    history.ApplicationId = application.Uid;
+    history.FromStageId = fromStageId;
+    history.ToStageId = toStageId;
+    history.Comment = comment;
+    history.CreatedOn = new Date();
+    history.CreatedBy = this.userId;
+    return history;
+  }
+  //#endregion
 }
@@ -0,0 +1,198 @@
+import { inject, injectable } from 'inversify';
+import { Knex } from 'knex';
+import { TYPES } from '@/core/container/types';
+import { Application } from '@/data/entities/application';
+import { ApplicationEvent } from '@/data/entities/application_event';
+import { ApplicationEventType } from '@/data/enums/application_event';
+import {
+  ApplicationEventResult,
+  FieldChange,
+} from '@/data/results/application_event_result';
+import { TableNames } from '@/database/tables';
+import { IUnitOfWork } from '@/repository';
+import { CallerService } from '../caller/caller.service';
+import { BaseService } from '../base/base.service';
+import { Result } from '@/data/response/response';
+import { ValidationError } from '@/middleware/errors/validation.error';
+import { EmailOptions, EmailResult, extractEmailAddress } from '@/email';
+
+/**
+ * Application fields that are never reported as edits
+ */
+const UNTRACKED_FIELDS = [
+  'Uid',
+  'OrgId',
+  'CreatedOn',
+  'CreatedBy',
+  'UpdatedOn',
+  'UpdatedBy',
+  'DeletedOn',
+];
+
+/**
+ * Append-only store of everything that happens to an Application
+ */
+@injectable()
+export class ApplicationEventService extends BaseService<ApplicationEvent> {
+  constructor(
+    @inject(TYPES.UnitOfWork) unitOfWork: IUnitOfWork,
+    @inject(TYPES.Caller) callerService: CallerService
+  ) {
+    super(unitOfWork, callerService, TableNames.ApplicationEvent, ApplicationEvent);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // APPEND-ONLY GUARDS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  override async updateAsync(): Promise<Result<ApplicationEvent>> {
+    throw new ValidationError('Application events cannot be changed');
+  }
+
+  override async deleteAsync(): Promise<boolean> {
+    throw new ValidationError('Application events cannot be deleted');
+  }
+
+  override async hardDeleteAsync(): Promise<boolean> {
+    throw new ValidationError('Application events cannot be deleted');
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // RECORDING
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Appends an event to the timeline of an application
+   * @param trx Transaction the event is saved in, e.g. the one creating the application
+   */
+  async record(
+    application: Pick<Application, 'Uid' | 'OrgId'>,
+    eventType: ApplicationEventType,
+    summary: string,
+    data: Record<string, unknown> | null = null,
+    trx?: Knex.Transaction
+  ): Promise<ApplicationEvent> {
+    const event = new ApplicationEvent();
+    event.OrgId = application.OrgId;
+    event.ApplicationId = application.Uid;
+    event.EventType = eventType;
+    event.Summary = summary;
+    event.Data = data ? JSON.stringify(data) : null;
+    event.CreatedOn = new Date();
+    event.CreatedBy = this.userId;
+
+    const repository = trx
+      ? this.unitOfWork.getTransactionalRepository<ApplicationEvent>(
+          TableNames.ApplicationEvent,
+          trx
+        )
+      : this.repository;
+    return await repository.create(event);
+  }
+
+  /**
+   * Records the field-level changes between two versions of an application
+   * Nothing is recorded when no tracked field changed
+   */
+  async recordUpdate(before: Application, after: Application): Promise<void> {
+    const changes = this.diff(before, after);
+    if (!changes.length) return;
+
+    await this.record(
+      before,
+      ApplicationEventType.Updated,
+      `Updated ${changes.map((c) => c.Field).join(', ')}`,
+      { Changes: changes }
+    );
+  }
+
+  /**
+   * Records an email sent (or attempted) about an application
+   */
+  async recordEmail(
+    application: Pick<Application, 'Uid' | 'OrgId'>,
+    options: EmailOptions,
+    result: EmailResult
+  ): Promise<void> {
+    await this.record(
+      application,
+      result.Success
+        ? ApplicationEventType.EmailSent
+        : ApplicationEventType.EmailFailed,
+      `${result.Success ? 'Email sent' : 'Email failed'}: ${options.Subject}`,
+      {
+        To: (options.To ?? []).map((to) => extractEmailAddress(to)),
+        Subject: options.Subject,
+        MessageId: result.MessageId ?? null,
+        Error: result.Error ?? null,
+      }
+    );
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // READ OPERATIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get the timeline of an application in chronological order
+   */
+  async getTimelineAsync(
+    applicationId: string
+  ): Promise<Result<ApplicationEventResult[]>> {
+    const query = `
+      SELECT
+        e.*,
+        u.Email AS ActorEmail
+      FROM ${TableNames.ApplicationEvent} e
+      LEFT JOIN ${TableNames.User} u ON u.Uid = e.CreatedBy
+      WHERE e.ApplicationId = ? AND e.OrgId = ? AND e.IsDeleted = 0
+      ORDER BY e.CreatedOn ASC
+    `;
+
+    const events = await this.unitOfWork.raw<ApplicationEventResult[]>(query, [
+      applicationId,
+      this.tenantId,
+    ]);
+
+    return Result.toEntityResult(events);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Compares the tracked fields of two versions of an application
+   */
+  private diff(before: Application, after: Application): FieldChange[] {
+    const changes: FieldChange[] = [];
+
+    for (const field of Object.keys(new Application())) {
+      if (UNTRACKED_FIELDS.includes(field)) continue;
+
+      const from = this.normalize((before as unknown as Record<string, unknown>)[field]);
+      const to = this.normalize((after as unknown as Record<string, unknown>)[field]);
+
+      if (from !== to) {
+        changes.push({ Field: field, From: from, To: to });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Normalizes database and request values so that equal values compare equal
+   * (e.g. 1/true, "5000.00"/5000, Date/ISO string)
+   */
+  private normalize(value: unknown): string | number | null {
+    if (value === undefined || value === null) return null;
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (typeof value === 'number') return value;
+    if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+      return Number(value);
+    }
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  }
+}
@@ -0,0 +1,519 @@
+import { inject, injectable } from 'inversify';
+import { TYPES } from '@/core/container/types';
+import { ApplicationNote } from '@/data/entities/application_note';
+import { ApplicationNoteMention } from '@/data/entities/application_note_mention';
+import { Application } from '@/data/entities/application';
+import { TableNames } from '@/database/tables';
+import { IUnitOfWork } from '@/repository';
+import { CallerService } from '../caller/caller.service';
+import { BaseService } from '../base/base.service';
+import { Result } from '@/data/response/response';
+import { Utility } from '@/core/utils/common.utils';
+import { logger } from '@/core/utils/logger.utils';
+import { ValidationError } from '@/middleware/errors/validation.error';
+import { NotFoundError } from '@/middleware/errors/notFound.error';
+import { Permission } from '@/data/enums/permission';
+import { NoteVisibility } from '@/data/enums/note_visibility';
+import { ApplicationEventType } from '@/data/enums/application_event';
+import {
+  ApplicationNoteResult,
+  NoteMentionResult,
+} from '@/data/results/application_note_result';
+import { TemplateHelper } from '@/core/helper/template.helper';
+import { ApplicationEventService } from './application_event.service';
+import { MailService } from './mail.service';
+
+/**
+ * Longest note body that can be saved
+ */
+const MAX_BODY_LENGTH = 10000;
+
+/**
+ * Mentions are written as @ followed by the user's email, e.g. "@jane@acme.com"
+ */
+const MENTION_PATTERN = /@([A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+
+/**
+ * Recruiter notes on applications
+ * @remarks
+ * Notes are threaded one level deep: a reply belongs to a top-level note and shares
+ * its visibility. Private notes are only visible to their author, team notes to
+ * everyone in the organization. Only the author can edit or delete a note.
+ */
+@injectable()
+export class ApplicationNoteService extends BaseService<ApplicationNote> {
+  private readonly _applicationEventService: ApplicationEventService;
+  private readonly _mailService: MailService;
+
+  protected override readonly permissions = {
+    Read: Permission.ApplicationRead,
+    Write: Permission.ApplicationWrite,
+  };
+  protected override readonly applicationColumn = 'ApplicationId';
+
+  constructor(
+    @inject(TYPES.UnitOfWork) unitOfWork: IUnitOfWork,
+    @inject(TYPES.Caller) callerService: CallerService,
+    @inject(TYPES.ApplicationEventService)
+    applicationEventService: ApplicationEventService,
+    @inject(TYPES.MailService) mailService: MailService
+  ) {
+    super(unitOfWork, callerService, TableNames.ApplicationNote, ApplicationNote);
+    this._applicationEventService = applicationEventService;
+    this._mailService = mailService;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // VALIDATION
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  override async validateAdd(model: ApplicationNote): Promise<void> {
+    if (!model?.ApplicationId?.length) {
+      throw new ValidationError('ApplicationId is required');
+    }
+    this.validateNote(model);
+  }
+
+  override async validateUpdate(model: ApplicationNote): Promise<void> {
+    this.validateNote(model);
+  }
+
+  private validateNote(model: ApplicationNote): void {
+    if (!model?.Body?.trim()?.length) {
+      throw new ValidationError('Body is required');
+    }
+    if (model.Body.length > MAX_BODY_LENGTH) {
+      throw new ValidationError(`Body must be at most ${MAX_BODY_LENGTH} characters`);
+    }
+    if (
+      model.Visibility != null &&
+      !Object.values(NoteVisibility).includes(model.Visibility)
+    ) {
+      throw new ValidationError(
+        `Visibility must be one of: ${Object.values(NoteVisibility).join(', ')}`
+      );
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // CREATE
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  override async preAddOperation(
+    model: ApplicationNote,
+    entity: ApplicationNote
+  ): Promise<void> {
+    await super.preAddOperation(model, entity);
+    await this.getApplication(entity.ApplicationId, Permission.ApplicationWrite);
+
+    entity.Body = entity.Body.trim();
+    entity.Visibility = model.Visibility ?? NoteVisibility.Team;
+
+    if (entity.ParentId) {
+      const parent = await this.getVisibleNote(entity.ParentId);
+      if (parent.ApplicationId !== entity.ApplicationId) {
+        throw new ValidationError('Replies must be on the same application');
+      }
+      // Replies to replies join the thread of the top-level note
+      entity.ParentId = parent.ParentId ?? parent.Uid;
+      entity.Visibility = parent.Visibility;
+    }
+
+    const mentions = await this.resolveMentions(entity.Body);
+    if (mentions.length && entity.Visibility === NoteVisibility.Private) {
+      throw new ValidationError('Private notes cannot mention users');
+    }
+  }
+
+  /**
+   * Saves the mentions, adds team notes to the timeline and notifies mentioned users
+   */
+  override async postAddOperation(
+    model: ApplicationNote,
+    entity: ApplicationNote
+  ): Promise<void> {
+    const mentions = await this.saveMentions(entity);
+
+    if (entity.Visibility === NoteVisibility.Team) {
+      await this._applicationEventService.record(
+        { Uid: entity.ApplicationId, OrgId: entity.OrgId },
+        ApplicationEventType.NoteAdded,
+        entity.ParentId ? 'Replied to a note' : 'Added a note',
+        { NoteId: entity.Uid, ParentId: entity.ParentId }
+      );
+    }
+
+    this.notifyMentions(entity, mentions);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // UPDATE / DELETE
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  override async preUpdateOperation(
+    model: ApplicationNote,
+    entity: ApplicationNote
+  ): Promise<void> {
+    await super.preUpdateOperation(model, entity);
+    this.assertAuthor(entity);
+
+    entity.Body = entity.Body.trim();
+
+    const mentions = await this.resolveMentions(entity.Body);
+    if (mentions.length && entity.Visibility === NoteVisibility.Private) {
+      throw new ValidationError('Private notes cannot mention users');
+    }
+  }
+
+  /**
+   * Replaces the mentions and notifies only the newly mentioned users
+   */
+  override async postUpdateOperation(
+    model: ApplicationNote,
+    entity: ApplicationNote
+  ): Promise<void> {
+    const previous = await this.getOtherRepository<ApplicationNoteMention>(
+      TableNames.ApplicationNoteMention
+    ).findWhere({ NoteId: entity.Uid }, entity.OrgId);
+
+    const mentions = await this.saveMentions(entity);
+
+    this.notifyMentions(
+      entity,
+      mentions.filter((m) => !previous.some((p) => p.UserId === m.UserId))
+    );
+  }
+
+  /**
+   * The application, thread and visibility of a note are fixed when it is written
+   */
+  protected override mergeModelToEntity(
+    model: ApplicationNote,
+    entity: ApplicationNote
+  ): void {
+    const { ApplicationId, ParentId, Visibility } = entity;
+    super.mergeModelToEntity(model, entity);
+    entity.ApplicationId = ApplicationId;
+    entity.ParentId = ParentId;
+    entity.Visibility = Visibility;
+  }
+
+  /**
+   * Deletes a note written by the caller, with its replies
+   */
+  override async deleteAsync(id: string): Promise<boolean> {
+    const note = await this.getVisibleNote(id);
+    this.assertAuthor(note);
+    await this.assertPermission(this.permissions.Write, note);
+
+    await this.repository
+      .query()
+      .where({ OrgId: this.tenantId })
+      .andWhere((query) => query.where({ Uid: id }).orWhere({ ParentId: id }))
+      .update({ IsDeleted: true, DeletedOn: new Date(), UpdatedBy: this.userId });
+
+    return true;
+  }
+
+  override async hardDeleteAsync(): Promise<boolean> {
+    throw new ValidationError('Notes can only be deleted by their author');
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // READ OPERATIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get a note visible to the caller
+   */
+  override async getByIdAsync(id: string): Promise<Result<ApplicationNote>> {
+    const note = await this.getVisibleNote(id);
+    await this.assertPermission(this.permissions.Read, note);
+    return Result.toEntityResult(note);
+  }
+
+  /**
+   * Get all notes visible to the caller
+   */
+  override async getAllAsync(): Promise<Result<ApplicationNote>> {
+    const condition = await this.getReadCondition();
+    const notes = (await this.visibleNotes()
+      .whereRaw(condition.Sql, condition.Bindings)
+      .orderBy('CreatedOn', 'desc')) as ApplicationNote[];
+    return Result.toPagedResult(1, notes.length, notes.length, notes);
+  }
+
+  /**
+   * Get the note threads of an application visible to the caller
+   * Threads are newest first, replies oldest first
+   */
+  async getThreadsAsync(
+    applicationId: string
+  ): Promise<Result<ApplicationNoteResult[]>> {
+    await this.getApplication(applicationId, Permission.ApplicationRead);
+
+    const notes = await this.unitOfWork.raw<ApplicationNoteResult[]>(
+      `
+      SELECT
+        n.*,
+        u.Email AS AuthorEmail,
+        NULLIF(TRIM(CONCAT(COALESCE(ui.FirstName, ''), ' ', COALESCE(ui.LastName, ''))), '') AS AuthorName
+      FROM ${TableNames.ApplicationNote} n
+      LEFT JOIN ${TableNames.User} u ON u.Uid = n.CreatedBy
+      LEFT JOIN ${TableNames.UserInfo} ui ON ui.UserId = n.CreatedBy AND ui.IsDeleted = 0
+      WHERE n.ApplicationId = ? AND n.OrgId = ? AND n.IsDeleted = 0
+        AND (n.Visibility = ? OR n.CreatedBy = ?)
+      ORDER BY n.CreatedOn ASC
+      `,
+      [applicationId, this.tenantId, NoteVisibility.Team, this.userId]
+    );
+
+    const mentions = await this.unitOfWork.raw<
+      (NoteMentionResult & { NoteId: string })[]
+    >(
+      `
+      SELECT
+        m.NoteId, m.UserId, u.Email,
+        NULLIF(TRIM(CONCAT(COALESCE(ui.FirstName, ''), ' ', COALESCE(ui.LastName, ''))), '') AS Name
+      FROM ${TableNames.ApplicationNoteMention} m
+      INNER JOIN ${TableNames.User} u ON u.Uid = m.UserId
+      LEFT JOIN ${TableNames.UserInfo} ui ON ui.UserId = m.UserId AND ui.IsDeleted = 0
+      WHERE m.ApplicationId = ? AND m.OrgId = ? AND m.IsDeleted = 0
+      `,
+      [applicationId, this.tenantId]
+    );
+
+    const results = notes.map((note) => ({
+      ...note,
+      Mentions: mentions
+        .filter((m) => m.NoteId === note.Uid)
+        .map(({ NoteId, ...mention }) => mention),
+      Replies: [] as ApplicationNoteResult[],
+    }));
+
+    const threads = new Map(
+      results.filter((n) => n.ParentId == null).map((n) => [n.Uid, n])
+    );
+    for (const note of results) {
+      if (note.ParentId != null) {
+        threads.get(note.ParentId)?.Replies.push(note);
+      }
+    }
+
+    return Result.toEntityResult([...threads.values()].reverse());
+  }
+
+  /**
+   * Get the team notes that mention the caller, newest first
+   */
+  async getMyMentionsAsync(): Promise<Result<ApplicationNote[]>> {
+    const condition = await this.permissionService.getApplicationCondition(
+      Permission.ApplicationRead,
+      'n.ApplicationId'
+    );
+    const notes = await this.unitOfWork.raw<ApplicationNote[]>(
+      `
+      SELECT n.*
+      FROM ${TableNames.ApplicationNoteMention} m
+      INNER JOIN ${TableNames.ApplicationNote} n ON n.Uid = m.NoteId AND n.IsDeleted = 0
+      WHERE m.UserId = ? AND m.OrgId = ? AND m.IsDeleted = 0 AND ${condition.Sql}
+      ORDER BY n.CreatedOn DESC
+      LIMIT 100
+      `,
+      [this.userId, this.tenantId, ...condition.Bindings]
+    );
+
+    return Result.toEntityResult(notes);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // MENTIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Finds the users of the organization mentioned in a note
+   * @throws ValidationError listing mentions that are not users of the organization
+   */
+  private async resolveMentions(
+    body: string
+  ): Promise<NoteMentionResult[]> {
+    const emails = [
+      ...new Set([...body.matchAll(MENTION_PATTERN)].map((m) => m[1].toLowerCase())),
+    ];
+    if (!emails.length) return [];
+
+    const users = await this.unitOfWork.raw<NoteMentionResult[]>(
+      `
+      SELECT
+        u.Uid AS UserId, u.Email,
+        NULLIF(TRIM(CONCAT(COALESCE(ui.FirstName, ''), ' ', COALESCE(ui.LastName, ''))), '') AS Name
+      FROM ${TableNames.User} u
+      LEFT JOIN ${TableNames.UserInfo} ui ON ui.UserId = u.Uid AND ui.IsDeleted = 0
+      WHERE u.OrgId = ? AND u.IsDeleted = 0 AND LOWER(u.Email) IN (${emails.map(() => '?').join(', ')})
+      `,
+      [this.tenantId, ...emails]
+    );
+
+    const unknown = emails.filter(
+      (email) => !users.some((u) => u.Email.toLowerCase() === email)
+    );
+    if (unknown.length) {
+      throw new ValidationError(
+        `Mentioned users not found: ${unknown.join(', ')}`
+      );
+    }
+
+    return users;
+  }
+
+  /**
+   * Replaces the stored mentions of a note
+   */
+  private async saveMentions(
+    note: ApplicationNote
+  ): Promise<NoteMentionResult[]> {
+    const mentions = await this.resolveMentions(note.Body);
+
+    await this.transaction(async (trx) => {
+      await trx(TableNames.ApplicationNoteMention)
+        .where({ NoteId: note.Uid, OrgId: note.OrgId })
+        .delete();
+
+      if (mentions.length) {
+        await this.unitOfWork
+          .getTransactionalRepository<ApplicationNoteMention>(
+            TableNames.ApplicationNoteMention,
+            trx
+          )
+          .createMany(
+            mentions.map((mention) => {
+              const row = new ApplicationNoteMention();
+              row.Uid = Utility.generateUUID();
+              row.OrgId = note.OrgId;
+              row.NoteId = note.Uid;
+              row.ApplicationId = note.ApplicationId;
+              row.UserId = mention.UserId;
+              row.CreatedOn = new Date();
+              row.CreatedBy = this.userId;
+              return row;
+            })
+          );
+      }
+    });
+
+    return mentions;
+  }
+
+  /**
+   * Emails mentioned users (except the author) without blocking the request
+   */
+  private notifyMentions(
+    note: ApplicationNote,
+    mentions: NoteMentionResult[]
+  ): void {
+    const recipients = mentions.filter((m) => m.UserId !== note.CreatedBy);
+    if (!recipients.length) return;
+
+    this.sendMentionEmails(note, recipients).catch((error) => {
+      logger.error('Failed to send mention emails', {
+        NoteId: note.Uid,
+        Error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+
+  private async sendMentionEmails(
+    note: ApplicationNote,
+    recipients: NoteMentionResult[]
+  ): Promise<void> {
+    const [context] = await this.unitOfWork.raw<
+      { ApplicantName: string; PositionTitle: string | null; AuthorName: string | null }[]
+    >(
+      `
+      SELECT
+        a.FullName AS ApplicantName,
+        p.Name AS PositionTitle,
+        COALESCE(
+          NULLIF(TRIM(CONCAT(COALESCE(ui.FirstName, ''), ' ', COALESCE(ui.LastName, ''))), ''),
+          u.Email
+        ) AS AuthorName
+      FROM ${TableNames.Application} a
+      LEFT JOIN ${TableNames.Position} p ON p.Uid = a.PositionId
+      LEFT JOIN ${TableNames.User} u ON u.Uid = ?
+      LEFT JOIN ${TableNames.UserInfo} ui ON ui.UserId = u.Uid AND ui.IsDeleted = 0
+      WHERE a.Uid = ? AND a.OrgId = ?
+      `,
+      [note.CreatedBy, note.ApplicationId, note.OrgId]
+    );
+
+    for (const recipient of recipients) {
+      await this._mailService.send({
+        To: [{ Email: recipient.Email, Name: recipient.Name ?? undefined }],
+        Subject: `You were mentioned on ${context?.ApplicantName ?? 'an application'}`,
+        Html: TemplateHelper.getNoteMentionTemplate({
+          userName: recipient.Name ?? recipient.Email,
+          authorName: context?.AuthorName ?? 'A colleague',
+          applicantName: context?.ApplicantName ?? '',
+          positionTitle: context?.PositionTitle ?? 'the position',
+          noteBody: note.Body,
+          applicationId: note.ApplicationId,
+        }),
+      });
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get an application the caller has a permission on
+   */
+  private async getApplication(
+    id: string,
+    permission: Permission
+  ): Promise<Application> {
+    const application = await this.getOtherRepository<Application>(
+      TableNames.Application
+    ).findById(id, this.tenantId);
+
+    if (application == null) {
+      throw new NotFoundError('Application not found');
+    }
+    await this.permissionService.assertPermission(permission, application);
+
+    return application;
+  }
+
+  /**
+   * Get a note of the organization, hiding other users' private notes
+   */
+  private async getVisibleNote(id: string): Promise<ApplicationNote> {
+    const note = (await this.visibleNotes().where({ Uid: id }).first()) as
+      | ApplicationNote
+      | undefined;
+
+    if (note == null) {
+      throw new NotFoundError('Note not found');
+    }
+
+    return note;
+  }
+
+  private visibleNotes() {
+    return this.repository
+      .queryActive()
+      .where({ OrgId: this.tenantId })
+      .andWhere((query) =>
+        query
+          .where({ Visibility: NoteVisibility.Team })
+          .orWhere({ CreatedBy: this.userId })
+      );
+  }
+
+  private assertAuthor(note: ApplicationNote): void {
+    if (note.CreatedBy !== this.userId) {
+      throw new ValidationError('Only the author can change a note');
+    }
+  }
+}
@@ -0,0 +1,223 @@
+import { inject, injectable } from 'inversify';
+import { TYPES } from '@/core/container/types';
+import { ApplicationRating } from '@/data/entities/application_rating';
+import { Application } from '@/data/entities/application';
+import { TableNames } from '@/database/tables';
+import { IUnitOfWork } from '@/repository';
+import { CallerService } from '../caller/caller.service';
+import { BaseService } from '../base/base.service';
+import { Result } from '@/data/response/response';
+import { Utility } from '@/core/utils/common.utils';
+import { ValidationError } from '@/middleware/errors/validation.error';
+import { NotFoundError } from '@/middleware/errors/notFound.error';
+import { Permission } from '@/data/enums/permission';
+import { ApplicationEventType } from '@/data/enums/application_event';
+import { ApplicationRatingVm } from '@/data/models/ApplicationRatingVm';
+import {
+  ApplicationRatingResult,
+  ApplicationRatingSummaryResult,
+} from '@/data/results/application_rating_result';
+import { ApplicationEventService } from './application_event.service';
+
+/**
+ * Reviewer ratings (1-5) of applications
+ * @remarks
+ * Each reviewer has at most one rating per application, which they can change
+ * or withdraw. Ratings are only created through rateAsync.
+ */
+@injectable()
+export class ApplicationRatingService extends BaseService<ApplicationRating> {
+  private readonly _applicationEventService: ApplicationEventService;
+
+  protected override readonly permissions = {
+    Read: Permission.ApplicationRead,
+    Write: Permission.ApplicationWrite,
+  };
+  protected override readonly applicationColumn = 'ApplicationId';
+
+  constructor(
+    @inject(TYPES.UnitOfWork) unitOfWork: IUnitOfWork,
+    @inject(TYPES.Caller) callerService: CallerService,
+    @inject(TYPES.ApplicationEventService)
+    applicationEventService: ApplicationEventService
+  ) {
+    super(
+      unitOfWork,
+      callerService,
+      TableNames.ApplicationRating,
+      ApplicationRating
+    );
+    this._applicationEventService = applicationEventService;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // GUARDS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  override async createAsync(): Promise<Result<ApplicationRating>> {
+    throw new ValidationError('Applications must be rated through the rate endpoint');
+  }
+
+  override async updateAsync(): Promise<Result<ApplicationRating>> {
+    throw new ValidationError('Applications must be rated through the rate endpoint');
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // RATING
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Sets the caller's rating of an application, replacing an earlier one
+   * @throws NotFoundError if the application does not exist
+   * @throws ValidationError if the rating is not a whole number from 1 to 5
+   */
+  async rateAsync(
+    applicationId: string,
+    model: ApplicationRatingVm
+  ): Promise<Result<ApplicationRating>> {
+    const rating = Number(model?.Rating);
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+      throw new ValidationError('Rating must be a whole number from 1 to 5');
+    }
+
+    const application = await this.getApplication(
+      applicationId,
+      Permission.ApplicationWrite
+    );
+    const comment = model.Comment?.trim() || null;
+    const existing = await this.repository.findOneWhere(
+      { ApplicationId: applicationId, CreatedBy: this.userId },
+      this.tenantId
+    );
+
+    let saved: ApplicationRating;
+    if (existing) {
+      saved = await this.repository.update(existing.Uid, {
+        Rating: rating,
+        Comment: comment,
+        UpdatedOn: new Date(),
+        UpdatedBy: this.userId,
+      });
+    } else {
+      const entity = new ApplicationRating();
+      entity.Uid = Utility.generateUUID();
+      entity.OrgId = this.tenantId;
+      entity.ApplicationId = applicationId;
+      entity.Rating = rating;
+      entity.Comment = comment;
+      entity.CreatedOn = new Date();
+      entity.CreatedBy = this.userId;
+      saved = await this.repository.create(entity);
+    }
+
+    await this._applicationEventService.record(
+      application,
+      ApplicationEventType.Rated,
+      `Rated ${rating}/5`,
+      { Rating: rating, PreviousRating: existing?.Rating ?? null }
+    );
+
+    return Result.toEntityResult(saved);
+  }
+
+  /**
+   * Withdraws the caller's rating of an application
+   */
+  async removeRatingAsync(applicationId: string): Promise<boolean> {
+    const existing = await this.repository.findOneWhere(
+      { ApplicationId: applicationId, CreatedBy: this.userId },
+      this.tenantId
+    );
+
+    if (existing == null) {
+      throw new NotFoundError('Rating not found');
+    }
+    await this.assertPermission(this.permissions.Write, existing);
+
+    return await this.repository.hardDelete(existing.Uid);
+  }
+
+  /**
+   * Only a reviewer can withdraw their own rating
+   */
+  override async deleteAsync(id: string): Promise<boolean> {
+    const rating = await this.repository.findById(id, this.tenantId);
+    if (rating == null) {
+      throw new NotFoundError('Rating not found');
+    }
+    if (rating.CreatedBy !== this.userId) {
+      throw new ValidationError('Only the reviewer can remove a rating');
+    }
+    await this.assertPermission(this.permissions.Write, rating);
+
+    return await this.repository.hardDelete(id);
+  }
+
+  override async hardDeleteAsync(id: string): Promise<boolean> {
+    return await this.deleteAsync(id);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // READ OPERATIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get the ratings of an application with the average and the caller's rating
+   */
+  async getSummaryAsync(
+    applicationId: string
+  ): Promise<Result<ApplicationRatingSummaryResult>> {
+    await this.getApplication(applicationId, Permission.ApplicationRead);
+
+    const ratings = await this.unitOfWork.raw<ApplicationRatingResult[]>(
+      `
+      SELECT
+        r.*,
+        u.Email AS ReviewerEmail,
+        NULLIF(TRIM(CONCAT(COALESCE(ui.FirstName, ''), ' ', COALESCE(ui.LastName, ''))), '') AS ReviewerName
+      FROM ${TableNames.ApplicationRating} r
+      LEFT JOIN ${TableNames.User} u ON u.Uid = r.CreatedBy
+      LEFT JOIN ${TableNames.UserInfo} ui ON ui.UserId = r.CreatedBy AND ui.IsDeleted = 0
+      WHERE r.ApplicationId = ? AND r.OrgId = ? AND r.IsDeleted = 0
+      ORDER BY r.CreatedOn ASC
+      `,
+      [applicationId, this.tenantId]
+    );
+
+    const summary = new ApplicationRatingSummaryResult();
+    summary.Ratings = ratings;
+    summary.RatingCount = ratings.length;
+    summary.AverageRating = ratings.length
+      ? Math.round(
+          (ratings.reduce((sum, r) => sum + Number(r.Rating), 0) / ratings.length) * 100
+        ) / 100
+      : null;
+    summary.MyRating =
+      ratings.find((r) => r.CreatedBy === this.userId)?.Rating ?? null;
+
+    return Result.toEntityResult(summary);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get an application the caller has a permission on
+   */
+  private async getApplication(
+    id: string,
+    permission: Permission
+  ): Promise<Application> {
+    const application = await this.getOtherRepository<Application>(
+      TableNames.Application
+    ).findById(id, this.tenantId);
+
+    if (application == null) {
+      throw new NotFoundError('Application not found');
+    }
+    await this.permissionService.assertPermission(permission, application);
+
+    return application;
+  }
+}
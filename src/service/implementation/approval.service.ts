@@ -0,0 +1,622 @@
+import { inject, injectable } from 'inversify';
+import { Knex } from 'knex';
+import { TYPES } from '@/core/container/types';
+import { ApprovalChain } from '@/data/entities/approval_chain';
+import { ApprovalRequest } from '@/data/entities/approval_request';
+import { ApprovalStep } from '@/data/entities/approval_step';
+import { TableNames } from '@/database/tables';
+import { IUnitOfWork } from '@/repository';
+import { CallerService } from '../caller/caller.service';
+import { BaseService } from '../base/base.service';
+import { Result } from '@/data/response/response';
+import { config } from '@/core/config/environment';
+import { Utility } from '@/core/utils/common.utils';
+import { logger } from '@/core/utils/logger.utils';
+import { ValidationError } from '@/middleware/errors/validation.error';
+import { NotFoundError } from '@/middleware/errors/notFound.error';
+import { ApprovalEntityType } from '@/data/enums/approval_entity_type';
+import { ApprovalMode } from '@/data/enums/approval_mode';
+import { ApprovalStatus } from '@/data/enums/approval_status';
+import { OfferStatus } from '@/data/enums/offer_status';
+import { PositionStatus } from '@/data/enums/position_status';
+import { ApprovalChainVm, ApprovalDecisionVm } from '@/data/models/ApprovalVm';
+import {
+  ApprovalApproverResult,
+  ApprovalChainResult,
+  ApprovalRequestResult,
+  ApprovalStepResult,
+} from '@/data/results/approval_result';
+import { TemplateHelper } from '@/core/helper/template.helper';
+import { MailService } from './mail.service';
+
+/**
+ * Approval chains and the approval requests of guarded actions
+ * @remarks
+ * An organization has at most one chain per entity type. When a guarded action is
+ * requested, the chain's approvers are copied to the request, so later changes to
+ * the chain do not affect requests in flight. Approvers of a sequential chain decide
+ * one after another; those of a parallel chain are asked at once. A single rejection
+ * rejects the request. Approvers are emailed when it is their turn, and the requester
+ * when the request is decided. The outcome is applied to the guarded record in the
+ * same transaction as the last decision.
+ */
+@injectable()
+export class ApprovalService extends BaseService<ApprovalChain, ApprovalChainVm> {
+  private readonly _mailService: MailService;
+
+  constructor(
+    @inject(TYPES.UnitOfWork) unitOfWork: IUnitOfWork,
+    @inject(TYPES.Caller) callerService: CallerService,
+    @inject(TYPES.MailService) mailService: MailService
+  ) {
+    super(unitOfWork, callerService, TableNames.ApprovalChain, ApprovalChain);
+    this._mailService = mailService;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // CHAINS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  override async validateAdd(model: ApprovalChainVm): Promise<void> {
+    await this.validateChain(model);
+  }
+
+  override async validateUpdate(model: ApprovalChainVm): Promise<void> {
+    await this.validateChain(model);
+  }
+
+  override async preAddOperation(model: ApprovalChainVm, entity: ApprovalChain): Promise<void> {
+    await super.preAddOperation(model, entity);
+    await this.assertUniqueChain(entity.EntityType, entity.Uid);
+    entity.Name = model.Name.trim();
+    entity.ApproverIds = JSON.stringify([...new Set(model.ApproverIds)]);
+  }
+
+  override async preUpdateOperation(
+    model: ApprovalChainVm,
+    entity: ApprovalChain
+  ): Promise<void> {
+    await super.preUpdateOperation(model, entity);
+    await this.assertUniqueChain(entity.EntityType, entity.Uid);
+    entity.Name = model.Name.trim();
+    entity.ApproverIds = JSON.stringify([...new Set(model.ApproverIds)]);
+  }
+
+  override async getByIdAsync(id: string): Promise<Result<ApprovalChainResult>> {
+    const chain = await this.repository.findById(id, this.tenantId);
+    if (chain == null) {
+      throw new NotFoundError('Approval chain not found');
+    }
+
+    const result = Object.assign(new ApprovalChainResult(), chain);
+    result.Approvers = await this.getUsers(this.getApproverIds(chain));
+    return Result.toEntityResult(result);
+  }
+
+  /**
+   * Whether actions on an entity type need approval in the organization
+   */
+  async requiresApproval(entityType: ApprovalEntityType): Promise<boolean> {
+    return (await this.getChain(entityType)) != null;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // REQUESTS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Requests approval of an action on a record and notifies the first approvers
+   * @param action Guarded action, such as Create, Reopen or Send
+   * @param summary Short description shown to approvers
+   * @returns The request - the pending request when the record already has one -
+   * or null when the organization has no chain for the entity type
+   */
+  async requestAsync(
+    entityType: ApprovalEntityType,
+    entityId: string,
+    action: string,
+    summary: string
+  ): Promise<ApprovalRequest | null> {
+    const chain = await this.getChain(entityType);
+    if (chain == null) return null;
+
+    const [pending] = await this.unitOfWork.raw<ApprovalRequest[]>(
+      `
+      SELECT * FROM ${TableNames.ApprovalRequest}
+      WHERE EntityType = ? AND EntityId = ? AND OrgId = ? AND Status = ? AND IsDeleted = 0
+      LIMIT 1
+      `,
+      [entityType, entityId, this.tenantId, ApprovalStatus.Pending]
+    );
+    if (pending) return pending;
+
+    const approverIds = this.getApproverIds(chain);
+    const request = new ApprovalRequest();
+    request.Uid = Utility.generateUUID();
+    request.OrgId = this.tenantId;
+    request.ChainId = chain.Uid;
+    request.EntityType = entityType;
+    request.EntityId = entityId;
+    request.Action = action;
+    request.Summary = summary;
+    request.Mode = chain.Mode;
+    request.Status = ApprovalStatus.Pending;
+    request.CreatedOn = new Date();
+    request.CreatedBy = this.userId;
+
+    const steps = approverIds.map((userId, index) => {
+      const step = new ApprovalStep();
+      step.Uid = Utility.generateUUID();
+      step.OrgId = this.tenantId;
+      step.RequestId = request.Uid;
+      step.UserId = userId;
+      step.StepOrder = chain.Mode === ApprovalMode.Sequential ? index + 1 : 1;
+      step.Status = ApprovalStatus.Pending;
+      step.CreatedOn = new Date();
+      step.CreatedBy = this.userId;
+      return step;
+    });
+
+    await this.transaction(async (trx) => {
+      await this.unitOfWork
+        .getTransactionalRepository<ApprovalRequest>(TableNames.ApprovalRequest, trx)
+        .create(request);
+      await this.unitOfWork
+        .getTransactionalRepository<ApprovalStep>(TableNames.ApprovalStep, trx)
+        .createMany(steps);
+    });
+
+    this.notifyApprovers(
+      request,
+      steps.filter((step) => step.StepOrder === 1).map((step) => step.UserId),
+      1,
+      steps.length
+    );
+
+    return request;
+  }
+
+  /**
+   * Cancels the pending requests of a record, such as when the record is deleted
+   */
+  async cancelAsync(entityType: ApprovalEntityType, entityId: string): Promise<void> {
+    await this.transaction(async (trx) => {
+      const requestIds = (
+        await trx(TableNames.ApprovalRequest)
+          .where({
+            EntityType: entityType,
+            EntityId: entityId,
+            OrgId: this.tenantId,
+            Status: ApprovalStatus.Pending,
+          })
+          .select('Uid')
+      ).map((row: { Uid: string }) => row.Uid);
+      if (!requestIds.length) return;
+
+      const now = new Date();
+      await trx(TableNames.ApprovalRequest)
+        .whereIn('Uid', requestIds)
+        .update({ Status: ApprovalStatus.Cancelled, CompletedOn: now, UpdatedOn: now });
+      await trx(TableNames.ApprovalStep)
+        .whereIn('RequestId', requestIds)
+        .where({ Status: ApprovalStatus.Pending })
+        .update({ Status: ApprovalStatus.Cancelled, UpdatedOn: now });
+    });
+  }
+
+  async getRequestAsync(id: string): Promise<Result<ApprovalRequestResult>> {
+    const [request] = await this.getRequests('r.Uid = ?', [id]);
+    if (request == null) {
+      throw new NotFoundError('Approval request not found');
+    }
+    return Result.toEntityResult(request);
+  }
+
+  /**
+   * Get the approval requests of a record, newest first
+   */
+  async getByEntityAsync(
+    entityType: ApprovalEntityType,
+    entityId: string
+  ): Promise<Result<ApprovalRequestResult[]>> {
+    return Result.toEntityResult(
+      await this.getRequests('r.EntityType = ? AND r.EntityId = ?', [entityType, entityId])
+    );
+  }
+
+  /**
+   * Get the latest approval request of each of the records
+   */
+  async getLatestRequests(
+    entityType: ApprovalEntityType,
+    entityIds: string[]
+  ): Promise<ApprovalRequestResult[]> {
+    if (!entityIds.length) return [];
+
+    const requests = await this.getRequests(
+      `r.EntityType = ? AND r.EntityId IN (${entityIds.map(() => '?').join(', ')})`,
+      [entityType, ...entityIds]
+    );
+
+    // Requests are ordered newest first
+    return requests.filter(
+      (request, index) => requests.findIndex((r) => r.EntityId === request.EntityId) === index
+    );
+  }
+
+  /**
+   * Get the requests awaiting the caller's decision, oldest first
+   */
+  async getPendingAsync(): Promise<Result<ApprovalRequestResult[]>> {
+    const requests = await this.getRequests(
+      `
+      r.Status = ? AND EXISTS (
+        SELECT 1 FROM ${TableNames.ApprovalStep} s
+        WHERE s.RequestId = r.Uid AND s.UserId = ? AND s.Status = ?
+          AND s.StepOrder = (
+            SELECT MIN(p.StepOrder) FROM ${TableNames.ApprovalStep} p
+            WHERE p.RequestId = r.Uid AND p.Status = ?
+          )
+      )
+      `,
+      [ApprovalStatus.Pending, this.userId, ApprovalStatus.Pending, ApprovalStatus.Pending]
+    );
+
+    return Result.toEntityResult(requests.reverse());
+  }
+
+  /**
+   * Approves a request as the caller
+   * @throws ValidationError if the caller is not a current approver of the request
+   */
+  async approveAsync(
+    id: string,
+    model: ApprovalDecisionVm
+  ): Promise<Result<ApprovalRequestResult>> {
+    return await this.decide(id, ApprovalStatus.Approved, model?.Comment?.trim() || null);
+  }
+
+  /**
+   * Rejects a request as the caller - a comment is required
+   * @throws ValidationError if the caller is not a current approver of the request
+   */
+  async rejectAsync(
+    id: string,
+    model: ApprovalDecisionVm
+  ): Promise<Result<ApprovalRequestResult>> {
+    if (!model?.Comment?.trim()) {
+      throw new ValidationError('A comment is required to reject a request');
+    }
+    return await this.decide(id, ApprovalStatus.Rejected, model.Comment.trim());
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // DECISIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  private async decide(
+    id: string,
+    decision: ApprovalStatus.Approved | ApprovalStatus.Rejected,
+    comment: string | null
+  ): Promise<Result<ApprovalRequestResult>> {
+    const found = await this.getOtherRepository<ApprovalRequest>(
+      TableNames.ApprovalRequest
+    ).findById(id, this.tenantId);
+    if (found == null) {
+      throw new NotFoundError('Approval request not found');
+    }
+
+    const { request, status, nextOrder, nextApproverIds, stepCount } = await this.transaction(
+      async (trx) => {
+        const request = (await trx(TableNames.ApprovalRequest)
+          .where({ Uid: id })
+          .forUpdate()
+          .first()) as ApprovalRequest;
+        if (request.Status !== ApprovalStatus.Pending) {
+          throw new ValidationError(
+            `The request has already been ${request.Status.toLowerCase()}`
+          );
+        }
+
+        const steps = (await trx(TableNames.ApprovalStep)
+          .where({ RequestId: id })
+          .orderBy('StepOrder')) as ApprovalStep[];
+        const pending = steps.filter((s) => s.Status === ApprovalStatus.Pending);
+        const currentOrder = Math.min(...pending.map((s) => s.StepOrder));
+
+        const step = pending.find(
+          (s) => s.UserId === this.userId && s.StepOrder === currentOrder
+        );
+        if (step == null) {
+          throw new ValidationError(
+            pending.some((s) => s.UserId === this.userId)
+              ? 'Earlier approvers have not decided on the request yet'
+              : 'Only the current approvers of the request can decide on it'
+          );
+        }
+
+        const now = new Date();
+        await trx(TableNames.ApprovalStep).where({ Uid: step.Uid }).update({
+          Status: decision,
+          Comment: comment,
+          DecidedOn: now,
+          UpdatedOn: now,
+          UpdatedBy: this.userId,
+        });
+
+        const remaining = pending.filter((s) => s.Uid !== step.Uid);
+        let status = ApprovalStatus.Pending;
+        if (decision === ApprovalStatus.Rejected) {
+          status = ApprovalStatus.Rejected;
+          if (remaining.length) {
+            await trx(TableNames.ApprovalStep)
+              .whereIn('Uid', remaining.map((s) => s.Uid))
+              .update({ Status: ApprovalStatus.Cancelled, UpdatedOn: now });
+          }
+        } else if (!remaining.length) {
+          status = ApprovalStatus.Approved;
+        }
+
+        if (status !== ApprovalStatus.Pending) {
+          await trx(TableNames.ApprovalRequest)
+            .where({ Uid: id })
+            .update({ Status: status, CompletedOn: now, UpdatedOn: now });
+          await this.applyOutcome(request, status, trx);
+        }
+
+        // The next approvers of a sequential request are asked once the current step is complete
+        const nextOrder = remaining.some((s) => s.StepOrder === currentOrder)
+          ? null
+          : Math.min(...remaining.map((s) => s.StepOrder));
+        const nextApproverIds =
+          status === ApprovalStatus.Pending && nextOrder != null
+            ? remaining.filter((s) => s.StepOrder === nextOrder).map((s) => s.UserId)
+            : [];
+
+        return { request, status, nextOrder, nextApproverIds, stepCount: steps.length };
+      }
+    );
+
+    if (status !== ApprovalStatus.Pending) {
+      this.notifyRequester(request, status, comment);
+    } else if (nextApproverIds.length) {
+      this.notifyApprovers(request, nextApproverIds, nextOrder!, stepCount);
+    }
+
+    return await this.getRequestAsync(id);
+  }
+
+  /**
+   * Applies the outcome of a request to the guarded record
+   */
+  private async applyOutcome(
+    request: ApprovalRequest,
+    status: ApprovalStatus,
+    trx: Knex.Transaction
+  ): Promise<void> {
+    const now = new Date();
+
+    switch (request.EntityType) {
+      case ApprovalEntityType.Offer:
+        await trx(TableNames.Offer)
+          .where({
+            Uid: request.EntityId,
+            OrgId: request.OrgId,
+            Status: OfferStatus.PendingApproval,
+          })
+          .update(
+            status === ApprovalStatus.Approved
+              ? { Status: OfferStatus.Approved, ApprovedOn: now, UpdatedOn: now }
+              : { Status: OfferStatus.Rejected, UpdatedOn: now }
+          );
+        break;
+
+      case ApprovalEntityType.Position:
+        // Positions awaiting approval keep their Draft or Closed status; a rejected one stays as is
+        if (status === ApprovalStatus.Approved) {
+          await trx(TableNames.Position)
+            .where({ Uid: request.EntityId, OrgId: request.OrgId })
+            .whereIn('Status', [PositionStatus.Draft, PositionStatus.Closed])
+            .update({
+              Status: PositionStatus.Open,
+              // A reopened position would otherwise stay hidden behind its old close date
+              CloseOn: trx.raw('CASE WHEN CloseOn <= ? THEN NULL ELSE CloseOn END', [now]),
+              UpdatedOn: now,
+            });
+        }
+        break;
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // NOTIFICATIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Asks approvers for their decision without blocking the request
+   */
+  private notifyApprovers(
+    request: ApprovalRequest,
+    approverIds: string[],
+    stepOrder: number,
+    stepCount: number
+  ): void {
+    const send = async () => {
+      const approvers = await this.getUsers(approverIds, request.OrgId);
+      const [requester] = await this.getUsers([request.CreatedBy!], request.OrgId);
+
+      for (const approver of approvers) {
+        await this._mailService.send({
+          To: [{ Email: approver.Email, Name: approver.Name ?? undefined }],
+          Subject: `Approval required: ${request.Summary}`,
+          Html: TemplateHelper.getApprovalRequestTemplate({
+            approverName: approver.Name ?? approver.Email,
+            requestedBy: requester?.Name ?? requester?.Email ?? 'A colleague',
+            summary: request.Summary,
+            step:
+              request.Mode === ApprovalMode.Sequential
+                ? `${stepOrder} of ${stepCount}`
+                : `All ${stepCount} approvers`,
+            approvalUrl: this.getUrl(request),
+          }),
+        });
+      }
+    };
+
+    send().catch((error) => {
+      logger.error('Failed to send approval request', {
+        ApprovalRequestId: request.Uid,
+        Error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+
+  /**
+   * Tells the requester the outcome without blocking the request
+   */
+  private notifyRequester(
+    request: ApprovalRequest,
+    status: ApprovalStatus,
+    comment: string | null
+  ): void {
+    const send = async () => {
+      const [requester, decidedBy] = await Promise.all([
+        this.getUsers([request.CreatedBy!], request.OrgId),
+        this.getUsers([this.userId], request.OrgId),
+      ]);
+      if (!requester.length) return;
+
+      await this._mailService.send({
+        To: [{ Email: requester[0].Email, Name: requester[0].Name ?? undefined }],
+        Subject: `Request ${status.toLowerCase()}: ${request.Summary}`,
+        Html: TemplateHelper.getApprovalDecisionTemplate({
+          requesterName: requester[0].Name ?? requester[0].Email,
+          outcome: status.toLowerCase(),
+          summary: request.Summary,
+          decidedBy: decidedBy[0]?.Name ?? decidedBy[0]?.Email ?? '',
+          comment: comment ?? '-',
+          approvalUrl: this.getUrl(request),
+        }),
+      });
+    };
+
+    send().catch((error) => {
+      logger.error('Failed to send approval decision', {
+        ApprovalRequestId: request.Uid,
+        Error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  private async validateChain(model: ApprovalChainVm): Promise<void> {
+    if (!model?.Name?.trim()) {
+      throw new ValidationError('Name is required');
+    }
+    if (!Object.values(ApprovalEntityType).includes(model.EntityType)) {
+      throw new ValidationError(
+        `EntityType must be one of ${Object.values(ApprovalEntityType).join(', ')}`
+      );
+    }
+    if (!Object.values(ApprovalMode).includes(model.Mode)) {
+      throw new ValidationError(
+        `Mode must be one of ${Object.values(ApprovalMode).join(', ')}`
+      );
+    }
+    if (!Array.isArray(model.ApproverIds) || !model.ApproverIds.length) {
+      throw new ValidationError('At least one approver is required');
+    }
+
+    const approverIds = [...new Set(model.ApproverIds)];
+    const users = await this.getUsers(approverIds);
+    const missing = approverIds.filter((id) => !users.some((u) => u.UserId === id));
+    if (missing.length) {
+      throw new ValidationError(`Approvers not found: ${missing.join(', ')}`);
+    }
+  }
+
+  private async assertUniqueChain(entityType: ApprovalEntityType, id: string): Promise<void> {
+    const [existing] = await this.unitOfWork.raw<{ Uid: string }[]>(
+      `
+      SELECT Uid FROM ${TableNames.ApprovalChain}
+      WHERE EntityType = ? AND OrgId = ? AND Uid <> ? AND IsDeleted = 0
+      LIMIT 1
+      `,
+      [entityType, this.tenantId, id]
+    );
+    if (existing) {
+      throw new ValidationError(`An approval chain for ${entityType} already exists`);
+    }
+  }
+
+  private async getChain(entityType: ApprovalEntityType): Promise<ApprovalChain | null> {
+    return await this.repository.findOneWhere({ EntityType: entityType }, this.tenantId);
+  }
+
+  private getApproverIds(chain: ApprovalChain): string[] {
+    return JSON.parse(chain.ApproverIds || '[]') as string[];
+  }
+
+  private getUrl(request: ApprovalRequest): string {
+    return `${config.APP_URL}/approvals/${request.Uid}`;
+  }
+
+  private async getRequests(
+    condition: string,
+    bindings: unknown[]
+  ): Promise<ApprovalRequestResult[]> {
+    const requests = await this.unitOfWork.raw<ApprovalRequest[]>(
+      `
+      SELECT r.* FROM ${TableNames.ApprovalRequest} r
+      WHERE ${condition} AND r.OrgId = ? AND r.IsDeleted = 0
+      ORDER BY r.CreatedOn DESC
+      `,
+      [...bindings, this.tenantId]
+    );
+    if (!requests.length) return [];
+
+    const steps = await this.unitOfWork.raw<(ApprovalStepResult & { RequestId: string })[]>(
+      `
+      SELECT
+        s.RequestId, s.UserId, s.StepOrder, s.Status, s.Comment, s.DecidedOn, u.Email,
+        NULLIF(TRIM(CONCAT(COALESCE(ui.FirstName, ''), ' ', COALESCE(ui.LastName, ''))), '') AS Name
+      FROM ${TableNames.ApprovalStep} s
+      JOIN ${TableNames.User} u ON u.Uid = s.UserId
+      LEFT JOIN ${TableNames.UserInfo} ui ON ui.UserId = u.Uid AND ui.IsDeleted = 0
+      WHERE s.RequestId IN (${requests.map(() => '?').join(', ')})
+      ORDER BY s.StepOrder, s.CreatedOn
+      `,
+      requests.map((request) => request.Uid)
+    );
+
+    return requests.map((request) => {
+      const result = Object.assign(new ApprovalRequestResult(), request);
+      result.Steps = steps
+        .filter((step) => step.RequestId === request.Uid)
+        .map(({ RequestId, ...step }) => Object.assign(new ApprovalStepResult(), step));
+      return result;
+    });
+  }
+
+  private async getUsers(
+    userIds: string[],
+    orgId: string = this.tenantId
+  ): Promise<ApprovalApproverResult[]> {
+    if (!userIds.length) return [];
+
+    return await this.unitOfWork.raw<ApprovalApproverResult[]>(
+      `
+      SELECT
+        u.Uid AS UserId, u.Email,
+        NULLIF(TRIM(CONCAT(COALESCE(ui.FirstName, ''), ' ', COALESCE(ui.LastName, ''))), '') AS Name
+      FROM ${TableNames.User} u
+      LEFT JOIN ${TableNames.UserInfo} ui ON ui.UserId = u.Uid AND ui.IsDeleted = 0
+      WHERE u.OrgId = ? AND u.IsDeleted = 0 AND u.Uid IN (${userIds.map(() => '?').join(', ')})
+      `,
+      [orgId, ...userIds]
+    );
+  }
+}
@@ -0,0 +1,368 @@
+import { inject, injectable } from 'inversify';
+import { TYPES } from '@/core/container/types';
+import { Attachment } from '@/data/entities/attachment';
+import { TableNames } from '@/database/tables';
+import { IUnitOfWork } from '@/repository';
+import { CallerService } from '../caller/caller.service';
+import { BaseService } from '../base/base.service';
+import { Result } from '@/data/response/response';
+import { config } from '@/core/config/environment';
+import { FileHelper } from '@/core/utils/file.utils';
+import { Security } from '@/core/utils/security.utils';
+import { Utility } from '@/core/utils/common.utils';
+import { ValidationError } from '@/middleware/errors/validation.error';
+import { NotFoundError } from '@/middleware/errors/notFound.error';
+import { UnAuthorizedError } from '@/middleware/errors/unauthorized.error.';
+import { IStorageProvider } from '@/storage';
+import { UploadedFileVm } from '@/data/models/UploadedFileVm';
+import { AttachmentUrlResult } from '@/data/results/attachment_result';
+import { PositionStatus } from '@/data/enums/position_status';
+import { Permission } from '@/data/enums/permission';
+import { ListQueryOptions, PaginatedResult } from '@/database/types';
+
+/**
+ * Resumes and other files uploaded for applications
+ * @remarks
+ * Files are uploaded first and then referenced by Uid from an application
+ * (Application.ResumeId and the answers of File form fields).
+ * Downloads go through signed, expiring URLs that are bound to the organization.
+ * Candidates can only upload for a position that is accepting applications, and
+ * the storage key of a file is never returned.
+ */
+@injectable()
+export class AttachmentService extends BaseService<Attachment> {
+  private readonly _storage: IStorageProvider;
+
+  protected override readonly permissions = {
+    Read: Permission.ApplicationRead,
+    Write: Permission.ApplicationWrite,
+  };
+  protected override readonly applicationColumn = 'ApplicationId';
+
+  constructor(
+    @inject(TYPES.UnitOfWork) unitOfWork: IUnitOfWork,
+    @inject(TYPES.Caller) callerService: CallerService,
+    @inject(TYPES.StorageProvider) storage: IStorageProvider
+  ) {
+    super(unitOfWork, callerService, TableNames.Attachment, Attachment);
+    this._storage = storage;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // GUARDS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  override async getAllAsync(columns?: (keyof Attachment)[]): Promise<Result<Attachment>> {
+    const { Result: page } = await super.getAllAsync(columns);
+    return Result.toPagedResult(
+      1,
+      1,
+      1,
+      (page?.Records ?? []).map((attachment) => this.toResult(attachment))
+    );
+  }
+
+  override async getListAsync(
+    options?: ListQueryOptions
+  ): Promise<PaginatedResult<Attachment>> {
+    const list = await super.getListAsync(options);
+    return {
+      ...list,
+      data: list.data.map((attachment) => this.toResult(attachment)),
+    };
+  }
+
+  override async toEntityResult(entity: Attachment): Promise<Result<Attachment>> {
+    return Result.toEntityResult(this.toResult(entity));
+  }
+
+  override async createAsync(): Promise<Result<Attachment>> {
+    throw new ValidationError('Files must be uploaded through the upload endpoint');
+  }
+
+  override async updateAsync(): Promise<Result<Attachment>> {
+    throw new ValidationError('Attachments cannot be changed');
+  }
+
+  /**
+   * Permanently deletes an attachment and its file
+   */
+  override async hardDeleteAsync(id: string): Promise<boolean> {
+    const attachment = await this.repository.findById(id, this.tenantId);
+    if (attachment == null) {
+      throw new NotFoundError('Attachment not found');
+    }
+    await this.assertPermission(this.permissions.Write, attachment);
+
+    await this._storage.delete(attachment.StorageKey);
+    return await this.repository.hardDelete(id);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // UPLOAD
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Stores a file uploaded by a user of the organization
+   * @throws ValidationError if the type is not allowed, the content does not match
+   * the type, or the file is larger than MAX_FILE_SIZE
+   */
+  async uploadAsync(file: UploadedFileVm): Promise<Result<Attachment>> {
+    return await this.store(file, this.tenantId);
+  }
+
+  /**
+   * Stores a file uploaded by a candidate applying to a position
+   * @throws NotFoundError if the position is not accepting applications
+   * @throws ValidationError if the file is not valid, see uploadAsync
+   */
+  async uploadForPositionAsync(
+    file: UploadedFileVm,
+    orgId: string,
+    positionId: string
+  ): Promise<Result<Attachment>> {
+    if (!(await this.isAcceptingApplications(orgId, positionId))) {
+      throw new NotFoundError('Position not found');
+    }
+    return await this.store(file, orgId);
+  }
+
+  private async store(
+    file: UploadedFileVm,
+    organizationId: string
+  ): Promise<Result<Attachment>> {
+    this.validateFile(file);
+
+    const now = new Date();
+    const attachment = new Attachment();
+    attachment.Uid = Utility.generateUUID();
+    attachment.OrgId = organizationId;
+    attachment.FileName = this.toSafeFileName(file.FileName);
+    attachment.ContentType = file.ContentType;
+    attachment.Size = file.Content.length;
+    attachment.StorageProvider = this._storage.Type;
+    attachment.StorageKey = [
+      organizationId,
+      now.getUTCFullYear(),
+      String(now.getUTCMonth() + 1).padStart(2, '0'),
+      `${attachment.Uid}${FileHelper.getExtension(attachment.FileName)}`,
+    ].join('/');
+    attachment.CreatedOn = now;
+    attachment.CreatedBy = this.userId;
+
+    await this._storage.save(attachment.StorageKey, file.Content, file.ContentType);
+
+    try {
+      return await this.toEntityResult(await this.repository.create(attachment));
+    } catch (error) {
+      await this._storage.delete(attachment.StorageKey);
+      throw error;
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // DOWNLOAD
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Creates a signed download URL for an attachment of the caller's organization
+   * The URL expires after FILE_URL_EXPIRES_IN seconds
+   */
+  async getDownloadUrlAsync(id: string): Promise<Result<AttachmentUrlResult>> {
+    const attachment = await this.repository.findById(id, this.tenantId);
+    if (attachment == null) {
+      throw new NotFoundError('Attachment not found');
+    }
+    await this.assertPermission(this.permissions.Read, attachment);
+
+    const expires = Math.floor(Date.now() / 1000) + config.FILE_URL_EXPIRES_IN;
+    const signature = Security.sign(this.toSignedValue(id, this.tenantId, expires));
+    const query = new URLSearchParams({
+      orgId: this.tenantId,
+      expires: String(expires),
+      signature,
+    });
+
+    return Result.toEntityResult({
+      Url: `/api/attachment/download/${id}?${query.toString()}`,
+      ExpiresOn: new Date(expires * 1000),
+    });
+  }
+
+  /**
+   * Reads an attachment through a signed URL
+   * @throws UnAuthorizedError if the signature is invalid or the URL has expired
+   */
+  async downloadAsync(
+    id: string,
+    orgId: string,
+    expires: string,
+    signature: string
+  ): Promise<{ Attachment: Attachment; Content: Buffer }> {
+    const expiresAt = Number(expires);
+    if (
+      !orgId ||
+      !Number.isInteger(expiresAt) ||
+      !Security.verifySignature(this.toSignedValue(id, orgId, expiresAt), signature)
+    ) {
+      throw new UnAuthorizedError('Invalid download link');
+    }
+    if (expiresAt < Math.floor(Date.now() / 1000)) {
+      throw new UnAuthorizedError('Download link has expired');
+    }
+
+    const file = await this.getContent(id, orgId);
+    if (file == null) {
+      throw new NotFoundError('Attachment not found');
+    }
+
+    return file;
+  }
+
+  /**
+   * Reads an attachment of an organization
+   * @returns The attachment and its content, or null when it does not exist
+   */
+  async getContent(
+    id: string,
+    orgId: string
+  ): Promise<{ Attachment: Attachment; Content: Buffer } | null> {
+    const attachment = await this.repository.findById(id, orgId);
+    if (attachment == null) return null;
+
+    return {
+      Attachment: attachment,
+      Content: await this._storage.read(attachment.StorageKey),
+    };
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // APPLICATIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Ensures the attachments exist in the organization and are not used by another application
+   * @throws ValidationError listing the attachments that cannot be used
+   */
+  async assertAvailable(ids: string[], orgId: string): Promise<void> {
+    if (!ids.length) return;
+
+    const attachments = await this.getByIds(ids, orgId);
+    const missing = ids.filter(
+      (id) => !attachments.some((a) => a.Uid === id && a.ApplicationId == null)
+    );
+
+    if (missing.length) {
+      throw new ValidationError(
+        `Attachments not found or already in use: ${missing.join(', ')}`
+      );
+    }
+  }
+
+  /**
+   * Links uploaded attachments to the application that references them
+   */
+  async linkToApplication(
+    ids: string[],
+    application: { Uid: string; OrgId: string }
+  ): Promise<void> {
+    if (!ids.length) return;
+
+    await this.repository
+      .query()
+      .whereIn('Uid', ids)
+      .andWhere({ OrgId: application.OrgId })
+      .whereNull('ApplicationId')
+      .update({ ApplicationId: application.Uid, UpdatedOn: new Date() });
+  }
+
+  /**
+   * Get the attachments of an application
+   */
+  async getByApplicationAsync(
+    applicationId: string
+  ): Promise<Result<Attachment[]>> {
+    await this.permissionService.assertApplicationPermission(
+      Permission.ApplicationRead,
+      applicationId
+    );
+    const attachments = await this.repository.findWhere(
+      { ApplicationId: applicationId },
+      this.tenantId
+    );
+    return Result.toEntityResult(
+      attachments.map((attachment) => this.toResult(attachment))
+    );
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  private validateFile(file: UploadedFileVm): void {
+    if (!file?.Content?.length) {
+      throw new ValidationError('File is empty');
+    }
+    if (file.Content.length > config.MAX_FILE_SIZE) {
+      throw new ValidationError(
+        `File must be at most ${FileHelper.formatFileSize(config.MAX_FILE_SIZE)}`
+      );
+    }
+    if (!config.ALLOWED_FILE_TYPES.includes(file.ContentType)) {
+      throw new ValidationError(`File type '${file.ContentType}' is not allowed`);
+    }
+    if (!FileHelper.matchesMimeType(file.Content, file.ContentType)) {
+      throw new ValidationError(
+        `File content does not match its type '${file.ContentType}'`
+      );
+    }
+  }
+
+  private async getByIds(ids: string[], orgId: string): Promise<Attachment[]> {
+    return (await this.repository
+      .queryActive()
+      .whereIn('Uid', ids)
+      .andWhere({ OrgId: orgId })) as Attachment[];
+  }
+
+  /**
+   * Whether candidates can apply to a position - it is open and within its publish window
+   */
+  private async isAcceptingApplications(
+    orgId: string,
+    positionId: string
+  ): Promise<boolean> {
+    const rows = await this.unitOfWork.raw<{ Uid: string }[]>(
+      `
+      SELECT Uid FROM ${TableNames.Position}
+      WHERE Uid = ? AND OrgId = ? AND Status = ? AND IsDeleted = 0
+        AND (PublishOn IS NULL OR PublishOn <= ?)
+        AND (CloseOn IS NULL OR CloseOn > ?)
+      `,
+      [positionId, orgId, PositionStatus.Open, new Date(), new Date()]
+    );
+    return rows.length > 0;
+  }
+
+  private toResult(attachment: Attachment): Attachment {
+    const result = { ...attachment };
+    delete (result as Partial<Attachment>).StorageKey;
+    return result;
+  }
+
+  private toSignedValue(id: string, orgId: string, expires: number): string {
+    return `attachment:${id}:${orgId}:${expires}`;
+  }
+
+  /**
+   * Keeps only the base name of an uploaded file, without path or control characters
+   */
+  private toSafeFileName(fileName: string): string {
+    const name = (fileName ?? '')
+      .split(/[\\/]/)
+      .pop()!
+      .replace(/[\u0000-\u001f"]/g, '')
+      .trim();
+    return name.length ? name.substring(0, 255) : 'file';
+  }
+}
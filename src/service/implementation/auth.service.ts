@@ -9,17 +9,39 @@ import { EmailService, NodemailerConfig } from '@/email';
 import { NotFoundError } from '@/middleware/errors/notFound.error';
 import { UnAuthorizedError } from '@/middleware/errors/unauthorized.error.';
 import { ValidationError } from '@/middleware/errors/validation.error';
-import { IUnitOfWork } from '@/repository/interfaces';
+import { IUnitOfWork } from '@/repository';
 import { TableNames } from '@/database/tables';
 import { User } from '@/data/entities/user';
 import { UserInfo } from '@/data/entities/user-info';
+import { PasswordReset } from '@/data/entities/password_reset';
+import {
+  ForgotPasswordRequest,
+  ResetPasswordRequest,
+} from '@/data/models/passwordResetRequest';
+import { config } from '@/core/config/environment';
+import { Utility } from '@/core/utils/common.utils';
+import { Validator } from '@/core/utils/validator.utils';
+import { logger } from '@/core/utils/logger.utils';
+import { RefreshToken } from '@/data/entities/refresh_token';
+import { TokenType } from '@/data/enums/token_type';
+import { Knex } from 'knex';
+import { CallerService } from '../caller/caller.service';
+import { MailService } from './mail.service';
 
 @injectable()
 export class AuthService {
   private readonly unitOfWork: IUnitOfWork;
-
-  constructor(@inject(TYPES.UnitOfWork) unitOfWork: IUnitOfWork) {
+  private readonly _callerService: CallerService;
+  private readonly _mailService: MailService;
+
+  constructor(
+    @inject(TYPES.UnitOfWork) unitOfWork: IUnitOfWork,
+    @inject(TYPES.Caller) callerService: CallerService,
+    @inject(TYPES.MailService) mailService: MailService
+  ) {
     this.unitOfWork = unitOfWork;
+    this._callerService = callerService;
+    this._mailService = mailService;
   }
 
   /**
@@ -66,13 +88,10 @@ export class AuthService {
       throw new UnAuthorizedError('Invalid email or password.');
     }
 
-    const response = JWT.generateTokenPair({
-      UserId: user.Uid,
-      Email: user.Email,
-      Role: user.Role,
-      TenantId: user.OrgId,
-      InfoId: userInfo?.Uid,
-    });
+    // Each login starts a new token family
+    const { Tokens } = await this.unitOfWork.transaction((trx) =>
+      this.issueTokens(user, userInfo, Utility.generateUUID(), trx)
+    );
 
     // Send login notification email (non-blocking)
     this.sendLoginNotificationEmail(
@@ -83,26 +102,30 @@ export class AuthService {
       // Don't throw - email failure shouldn't block login
     });
 
-    return new AuthResult({
-      AccessToken: response.AccessToken,
-      RefreshToken: response.RefreshToken,
-    });
+    return Tokens;
   }
   //#endregion
 
   //#region Refresh Token
   /**
-   * Refresh access token using refresh token
+   * Exchanges a refresh token for a new access and refresh token
+   * @remarks
+   * Refresh tokens are single-use: the presented token is marked used and
+   * replaced by a new token of the same family. Presenting a used token again
+   * means it was copied, so every token of the family is revoked and the
+   * session has to log in again.
+   * @throws ValidationError if the token is missing
+   * @throws UnAuthorizedError if the token is invalid, expired, revoked or reused
    */
   async refreshToken(refreshToken: string) {
     if (!refreshToken || !refreshToken?.length) {
       throw new ValidationError('RefreshToken is required');
     }
 
-    const decodedData = JWT.decode(refreshToken);
+    const decodedData = JWT.decode(refreshToken, TokenType.Refresh);
 
     if (!decodedData?.Payload) {
-      throw new ValidationError('Invalid RefreshToken');
+      throw new UnAuthorizedError('Invalid RefreshToken');
     }
 
     const [user, userInfo] = await Promise.all([
@@ -120,22 +143,296 @@ export class AuthService {
       throw new ValidationError('User not found');
     }
 
-    const accessToken = JWT.encode({
+    if (this.isRevoked(user, decodedData.Payload.iat)) {
+      throw new UnAuthorizedError('RefreshToken has been revoked');
+    }
+
+    const now = new Date();
+    // The family is revoked in its own commit, so a reuse is answered after the transaction
+    const outcome = await this.unitOfWork.transaction<AuthResult | 'Invalid' | 'Reused'>(
+      async (trx) => {
+        const current = (await trx(TableNames.RefreshToken)
+          .where({ TokenHash: Security.hashToken(refreshToken), UserId: user.Uid })
+          .forUpdate()
+          .first()) as RefreshToken | undefined;
+
+        if (!current || current.RevokedOn || new Date(current.ExpiresOn) <= now) {
+          return 'Invalid';
+        }
+
+        if (current.UsedOn) {
+          await this.revokeTokens(trx, { FamilyId: current.FamilyId });
+          logger.warn('Refresh token reuse detected - token family revoked', {
+            UserId: user.Uid,
+            FamilyId: current.FamilyId,
+          });
+          return 'Reused';
+        }
+
+        const result = await this.issueTokens(user, userInfo, current.FamilyId, trx);
+        await trx(TableNames.RefreshToken)
+          .where({ Uid: current.Uid })
+          .update({ UsedOn: now, ReplacedById: result.TokenId, UpdatedOn: now });
+
+        return result.Tokens;
+      }
+    );
+
+    if (outcome === 'Invalid') {
+      throw new UnAuthorizedError('Invalid RefreshToken');
+    }
+    if (outcome === 'Reused') {
+      throw new UnAuthorizedError('RefreshToken has been revoked');
+    }
+
+    return outcome;
+  }
+  //#endregion
+
+  //#region Logout
+  /**
+   * Ends the session of a refresh token by revoking its token family
+   * Unknown or already revoked tokens are ignored
+   * @remarks Access tokens stay valid until they expire
+   * @throws ValidationError if the token is missing
+   */
+  async logout(refreshToken: string): Promise<void> {
+    if (!refreshToken || !refreshToken?.length) {
+      throw new ValidationError('RefreshToken is required');
+    }
+
+    if (!JWT.decode(refreshToken, TokenType.Refresh).Valid) return;
+
+    const current = await this.refreshTokenRepo.findOneWhere({
+      TokenHash: Security.hashToken(refreshToken),
+    });
+    if (!current) return;
+
+    await this.unitOfWork.transaction((trx) =>
+      this.revokeTokens(trx, { FamilyId: current.FamilyId })
+    );
+  }
+
+  /**
+   * Ends every session of the caller by revoking all of their refresh tokens
+   * @remarks Access tokens stay valid until they expire
+   */
+  async logoutAll(): Promise<void> {
+    const userId = this._callerService.userId;
+
+    await this.unitOfWork.transaction((trx) =>
+      this.revokeTokens(trx, { UserId: userId })
+    );
+  }
+  //#endregion
+
+  //#region Password Reset
+  /**
+   * Emails a password reset link to the user with the given email
+   * @remarks
+   * Answers the same way whether or not the account exists - the link is issued
+   * and sent in the background so the response time does not reveal it either.
+   * Issuing a link invalidates the user's earlier links.
+   * @throws ValidationError if the email is missing
+   */
+  async forgotPassword(model: ForgotPasswordRequest): Promise<void> {
+    const email = model?.Email?.trim();
+    if (!email?.length) {
+      throw new ValidationError('Email is required');
+    }
+
+    this.issuePasswordReset(email).catch((error) => {
+      logger.error('Failed to issue password reset', {
+        Error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+
+  /**
+   * Sets a new password with a password reset token
+   * The token can be used once; the user's refresh tokens are revoked so every
+   * session has to log in again with the new password
+   * @throws ValidationError if the token is invalid, expired or used, or the password is weak
+   */
+  async resetPassword(model: ResetPasswordRequest): Promise<void> {
+    if (!model?.Token?.length) {
+      throw new ValidationError('Token is required');
+    }
+    if (!model.Password?.length) {
+      throw new ValidationError('Password is required');
+    }
+
+    const strength = Validator.isValidPassword(model.Password);
+    if (!strength.valid) {
+      throw new ValidationError('Password is too weak', { Password: strength.errors });
+    }
+
+    const reset = await this.passwordResetRepo.findOneWhere({
+      TokenHash: Security.hashToken(model.Token),
+    });
+    if (!reset || reset.UsedOn || new Date(reset.ExpiresOn) <= new Date()) {
+      throw new ValidationError('This password reset link is invalid or has expired');
+    }
+
+    const password = await Security.hashPassword(model.Password);
+    // JWT issue times have a precision of seconds
+    const now = new Date(Math.floor(Date.now() / 1000) * 1000);
+
+    await this.unitOfWork.transaction(async (trx) => {
+      // Only one request can use the token
+      const claimed = await trx(TableNames.PasswordReset)
+        .where({ Uid: reset.Uid, UsedOn: null })
+        .update({ UsedOn: now, UpdatedOn: now });
+      if (!claimed) {
+        throw new ValidationError('This password reset link is invalid or has expired');
+      }
+
+      await trx(TableNames.User)
+        .where({ Uid: reset.UserId })
+        .update({ Password: password, TokensValidAfter: now, UpdatedOn: now });
+      await this.revokeTokens(trx, { UserId: reset.UserId });
+
+      // Other links sent before the reset can no longer be used
+      await trx(TableNames.PasswordReset)
+        .where({ UserId: reset.UserId, UsedOn: null })
+        .update({ UsedOn: now, UpdatedOn: now });
+    });
+  }
+  //#endregion
+
+  //#region Private Functions
+  /**
+   * Get password reset repository
+   */
+  private get passwordResetRepo() {
+    return this.unitOfWork.getRepository<PasswordReset>(TableNames.PasswordReset);
+  }
+
+  /**
+   * Get refresh token repository
+   */
+  private get refreshTokenRepo() {
+    return this.unitOfWork.getRepository<RefreshToken>(TableNames.RefreshToken);
+  }
+
+  /**
+   * Creates an access and refresh token pair and records the refresh token
+   * @param familyId Token family - a new one for each login, kept on refresh
+   */
+  private async issueTokens(
+    user: User,
+    userInfo: UserInfo,
+    familyId: string,
+    trx: Knex.Transaction
+  ): Promise<{ Tokens: AuthResult; TokenId: string }> {
+    const response = JWT.generateTokenPair({
       UserId: user.Uid,
       Email: user.Email,
       Role: user.Role,
       TenantId: user.OrgId,
       InfoId: userInfo?.Uid,
     });
+    const expiresAt = JWT.decodeWithoutVerification(response.RefreshToken)?.exp;
+
+    const record = new RefreshToken();
+    record.Uid = Utility.generateUUID();
+    record.OrgId = user.OrgId;
+    record.UserId = user.Uid;
+    record.FamilyId = familyId;
+    record.TokenHash = Security.hashToken(response.RefreshToken);
+    record.ExpiresOn = expiresAt ? new Date(expiresAt * 1000) : new Date();
+    record.UsedOn = null;
+    record.ReplacedById = null;
+    record.RevokedOn = null;
+    record.IsActive = true;
+    record.IsDeleted = false;
+    record.CreatedOn = new Date();
+    record.CreatedBy = user.Uid;
+    await this.unitOfWork
+      .getTransactionalRepository<RefreshToken>(TableNames.RefreshToken, trx)
+      .create(record);
+
+    return {
+      Tokens: new AuthResult({
+        AccessToken: response.AccessToken,
+        RefreshToken: response.RefreshToken,
+      }),
+      TokenId: record.Uid,
+    };
+  }
 
-    return new AuthResult({
-      AccessToken: accessToken,
-      RefreshToken: refreshToken,
+  /**
+   * Revokes the refresh tokens of a family or a user that are not revoked yet
+   */
+  private async revokeTokens(
+    trx: Knex.Transaction,
+    where: { FamilyId: string } | { UserId: string }
+  ): Promise<void> {
+    const now = new Date();
+    await trx(TableNames.RefreshToken)
+      .where(where)
+      .whereNull('RevokedOn')
+      .update({ RevokedOn: now, UpdatedOn: now });
+  }
+
+  /**
+   * Whether a token was issued before the user's tokens were revoked
+   */
+  private isRevoked(user: User, issuedAt: number | undefined): boolean {
+    if (!user.TokensValidAfter) return false;
+    return (issuedAt ?? 0) * 1000 < new Date(user.TokensValidAfter).getTime();
+  }
+
+  /**
+   * Creates a password reset token for an existing user and emails the link
+   */
+  private async issuePasswordReset(email: string): Promise<void> {
+    const user = await this.userRepo.findOneWhere({ Email: email });
+    if (!user) return;
+
+    const now = new Date();
+    await this.passwordResetRepo
+      .query()
+      .where({ UserId: user.Uid, UsedOn: null })
+      .update({ UsedOn: now, UpdatedOn: now });
+
+    const token = Security.generateToken();
+    const reset = new PasswordReset();
+    reset.Uid = Utility.generateUUID();
+    reset.OrgId = user.OrgId;
+    reset.UserId = user.Uid;
+    reset.TokenHash = Security.hashToken(token);
+    reset.ExpiresOn = new Date(now.getTime() + config.PASSWORD_RESET_EXPIRES_IN * 1000);
+    reset.UsedOn = null;
+    reset.CreatedOn = now;
+    reset.CreatedBy = user.Uid;
+    await this.passwordResetRepo.create(reset);
+
+    const userInfo = await this.userInfoRepo.findOneWhere({
+      Email: email,
+    } as Partial<UserInfo>);
+    const userName = userInfo?.FirstName || 'User';
+    const resetUrl = `${config.APP_URL}/reset-password/${token}`;
+    const expiryMinutes = String(Math.round(config.PASSWORD_RESET_EXPIRES_IN / 60));
+
+    const result = await this._mailService.send({
+      To: [{ Email: user.Email, Name: userName }],
+      Subject: 'Reset your password - Recruitment System',
+      Html: TemplateHelper.getPasswordResetTemplate({ userName, resetUrl, expiryMinutes }),
+      Text:
+        `Hello ${userName},\n\nWe received a request to reset your password. ` +
+        `Open this link to choose a new one:\n${resetUrl}\n\n` +
+        `The link expires in ${expiryMinutes} minutes. If you didn't request ` +
+        `a password reset, you can ignore this email.`,
     });
+    if (!result.Success) {
+      logger.error('Failed to send password reset email', {
+        UserId: user.Uid,
+        Error: result.Error,
+      });
+    }
   }
-  //#endregion
 
-  //#region Private Functions
   /**
    * Validates the presence of required login credentials
    */
@@ -0,0 +1,425 @@
+import { inject, injectable } from 'inversify';
+import { TYPES } from '@/core/container/types';
+import { UserAvailability } from '@/data/entities/user_availability';
+import { UserBlackout } from '@/data/entities/user_blackout';
+import { TableNames } from '@/database/tables';
+import { IUnitOfWork } from '@/repository';
+import { CallerService } from '../caller/caller.service';
+import { BaseService } from '../base/base.service';
+import { Result } from '@/data/response/response';
+import { config } from '@/core/config/environment';
+import { Utility } from '@/core/utils/common.utils';
+import { DateHelper } from '@/core/utils/date.utils';
+import { ValidationError } from '@/middleware/errors/validation.error';
+import { NotFoundError } from '@/middleware/errors/notFound.error';
+import { SlotHelper, TimeInterval } from '@/core/helper/slot.helper';
+import {
+  AvailabilityWindowVm,
+  BlackoutVm,
+  SlotSearchVm,
+  WeeklyAvailabilityVm,
+} from '@/data/models/AvailabilityVm';
+import {
+  TimeSlotResult,
+  WeeklyAvailabilityResult,
+} from '@/data/results/availability_result';
+import { InterviewService } from './interview.service';
+
+/**
+ * Longest period that can be searched for slots, in days
+ */
+const MAX_SEARCH_DAYS = 31;
+
+/**
+ * Most slots returned by a search
+ */
+const MAX_SLOTS = 200;
+
+/**
+ * Weekly availability and blackout periods of interviewers
+ * @remarks
+ * Availability is a set of recurring weekly windows in the user's own timezone.
+ * Users who have not published availability are available during the configured
+ * working hours (WORKDAY_START - WORKDAY_END) on weekdays.
+ */
+@injectable()
+export class AvailabilityService extends BaseService<UserAvailability> {
+  private readonly _interviewService: InterviewService;
+
+  constructor(
+    @inject(TYPES.UnitOfWork) unitOfWork: IUnitOfWork,
+    @inject(TYPES.Caller) callerService: CallerService,
+    @inject(TYPES.InterviewService) interviewService: InterviewService
+  ) {
+    super(unitOfWork, callerService, TableNames.UserAvailability, UserAvailability);
+    this._interviewService = interviewService;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // GUARDS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  override async createAsync(): Promise<Result<UserAvailability>> {
+    throw new ValidationError('Availability is published as a weekly schedule');
+  }
+
+  override async updateAsync(): Promise<Result<UserAvailability>> {
+    throw new ValidationError('Availability is published as a weekly schedule');
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // WEEKLY AVAILABILITY
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get the weekly availability of a user of the organization
+   */
+  async getWeeklyAsync(
+    userId: string
+  ): Promise<Result<WeeklyAvailabilityResult>> {
+    await this.assertUsers([userId]);
+    const [schedule] = await this.getSchedules([userId], 'UTC');
+    return Result.toEntityResult(schedule);
+  }
+
+  /**
+   * Get the caller's weekly availability
+   */
+  async getMyWeeklyAsync(): Promise<Result<WeeklyAvailabilityResult>> {
+    return await this.getWeeklyAsync(this.userId);
+  }
+
+  /**
+   * Replaces the caller's weekly availability
+   * An empty list of windows restores the default working hours
+   * @throws ValidationError if a window is invalid or overlaps another on the same day
+   */
+  async setWeeklyAsync(
+    model: WeeklyAvailabilityVm
+  ): Promise<Result<WeeklyAvailabilityResult>> {
+    const timezone = model?.Timezone || 'UTC';
+    this.validateTimezone(timezone);
+
+    const windows = Array.isArray(model.Windows) ? model.Windows : [];
+    this.validateWindows(windows);
+
+    const now = new Date();
+    await this.transaction(async (trx) => {
+      await trx(TableNames.UserAvailability)
+        .where({ UserId: this.userId, OrgId: this.tenantId })
+        .delete();
+
+      if (windows.length) {
+        await this.unitOfWork
+          .getTransactionalRepository<UserAvailability>(TableNames.UserAvailability, trx)
+          .createMany(
+            windows.map((window) => {
+              const availability = new UserAvailability();
+              availability.Uid = Utility.generateUUID();
+              availability.OrgId = this.tenantId;
+              availability.UserId = this.userId;
+              availability.DayOfWeek = Number(window.DayOfWeek);
+              availability.StartTime = window.StartTime;
+              availability.EndTime = window.EndTime;
+              availability.Timezone = timezone;
+              availability.CreatedOn = now;
+              availability.CreatedBy = this.userId;
+              return availability;
+            })
+          );
+      }
+    });
+
+    return await this.getWeeklyAsync(this.userId);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // BLACKOUTS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get the caller's current and upcoming blackout periods
+   */
+  async getBlackoutsAsync(): Promise<Result<UserBlackout[]>> {
+    const blackouts = await this.getOtherRepository<UserBlackout>(TableNames.UserBlackout)
+      .queryActive()
+      .where({ UserId: this.userId, OrgId: this.tenantId })
+      .andWhere('EndTime', '>', new Date())
+      .orderBy('StartTime', 'asc');
+
+    return Result.toEntityResult(blackouts as UserBlackout[]);
+  }
+
+  /**
+   * Adds a period the caller is unavailable
+   */
+  async addBlackoutAsync(model: BlackoutVm): Promise<Result<UserBlackout>> {
+    const start = new Date(model?.StartTime);
+    const end = new Date(model?.EndTime);
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      throw new ValidationError('StartTime and EndTime must be valid date-times');
+    }
+    if (end <= start) {
+      throw new ValidationError('EndTime must be after StartTime');
+    }
+
+    const blackout = new UserBlackout();
+    blackout.Uid = Utility.generateUUID();
+    blackout.OrgId = this.tenantId;
+    blackout.UserId = this.userId;
+    blackout.StartTime = start;
+    blackout.EndTime = end;
+    blackout.Reason = model.Reason?.trim() || null;
+    blackout.CreatedOn = new Date();
+    blackout.CreatedBy = this.userId;
+
+    return Result.toEntityResult(
+      await this.getOtherRepository<UserBlackout>(TableNames.UserBlackout).create(blackout)
+    );
+  }
+
+  /**
+   * Removes one of the caller's blackout periods
+   */
+  async removeBlackoutAsync(id: string): Promise<boolean> {
+    const repository = this.getOtherRepository<UserBlackout>(TableNames.UserBlackout);
+    const blackout = await repository.findById(id, this.tenantId);
+
+    if (blackout == null || blackout.UserId !== this.userId) {
+      throw new NotFoundError('Blackout not found');
+    }
+
+    return await repository.hardDelete(id);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // SLOT FINDING
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Finds times when all the given users are free
+   * @remarks
+   * A user is free inside their weekly availability, outside their blackouts and
+   * outside the scheduled interviews they are on the panel of. Slots start on
+   * multiples of StepMinutes (default: 30) and never in the past.
+   * @throws ValidationError if the search is invalid or longer than MAX_SEARCH_DAYS
+   */
+  async findSlotsAsync(model: SlotSearchVm): Promise<Result<TimeSlotResult[]>> {
+    const userIds = [...new Set(model?.UserIds ?? [])];
+    if (!userIds.length) {
+      throw new ValidationError('At least one user is required');
+    }
+
+    const from = new Date(model.From);
+    const to = new Date(model.To);
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || to <= from) {
+      throw new ValidationError('From and To must be valid date-times with To after From');
+    }
+    if (to.getTime() - from.getTime() > MAX_SEARCH_DAYS * 24 * 60 * 60000) {
+      throw new ValidationError(`Searches can cover at most ${MAX_SEARCH_DAYS} days`);
+    }
+
+    const duration = Number(model.DurationMinutes);
+    const step = Number(model.StepMinutes ?? 30);
+    if (!Number.isInteger(duration) || duration < 5 || duration > 8 * 60) {
+      throw new ValidationError('DurationMinutes must be between 5 and 480');
+    }
+    if (!Number.isInteger(step) || step < 5 || step > 24 * 60) {
+      throw new ValidationError('StepMinutes must be between 5 and 1440');
+    }
+
+    const timezone = model.Timezone || 'UTC';
+    this.validateTimezone(timezone);
+    await this.assertUsers(userIds);
+
+    const free = await this.getFreeIntervals(userIds, from, to, timezone);
+    const slots = SlotHelper.toSlots(free, duration, step, new Date(), MAX_SLOTS);
+
+    return Result.toEntityResult(
+      slots.map((slot) => ({ StartTime: slot.Start, EndTime: slot.End }))
+    );
+  }
+
+  /**
+   * Get the time inside a period when all the given users are free
+   * @param defaultTimezone Timezone of the working hours of users without availability
+   */
+  async getFreeIntervals(
+    userIds: string[],
+    from: Date,
+    to: Date,
+    defaultTimezone: string
+  ): Promise<TimeInterval[]> {
+    const period: TimeInterval[] = [{ Start: from, End: to }];
+    const schedules = await this.getSchedules(userIds, defaultTimezone);
+    const interviews = await this._interviewService.getBusyIntervals(userIds, from, to);
+    const blackouts = (await this.getOtherRepository<UserBlackout>(TableNames.UserBlackout)
+      .queryActive()
+      .where({ OrgId: this.tenantId })
+      .whereIn('UserId', userIds)
+      .andWhere('StartTime', '<', to)
+      .andWhere('EndTime', '>', from)) as UserBlackout[];
+
+    let common = period;
+    for (const schedule of schedules) {
+      const busy = [
+        ...interviews.filter((i) => i.UserId === schedule.UserId),
+        ...blackouts.filter((b) => b.UserId === schedule.UserId),
+      ].map((b) => ({ Start: new Date(b.StartTime), End: new Date(b.EndTime) }));
+
+      const available = SlotHelper.intersect(
+        this.expandSchedule(schedule, from, to),
+        period
+      );
+
+      common = SlotHelper.intersect(common, SlotHelper.subtract(available, busy));
+      if (!common.length) break;
+    }
+
+    return common;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get the weekly schedules of users, falling back to the working hours
+   */
+  private async getSchedules(
+    userIds: string[],
+    defaultTimezone: string
+  ): Promise<WeeklyAvailabilityResult[]> {
+    const rows = (await this.repository
+      .queryActive()
+      .where({ OrgId: this.tenantId })
+      .whereIn('UserId', userIds)
+      .orderBy(['DayOfWeek', 'StartTime'])) as UserAvailability[];
+
+    return userIds.map((userId) => {
+      const windows = rows.filter((r) => r.UserId === userId);
+      const schedule = new WeeklyAvailabilityResult();
+      schedule.UserId = userId;
+
+      if (windows.length) {
+        schedule.Timezone = windows[0].Timezone;
+        schedule.Windows = windows.map((w) => ({
+          DayOfWeek: Number(w.DayOfWeek),
+          StartTime: w.StartTime,
+          EndTime: w.EndTime,
+        }));
+      } else {
+        schedule.IsDefault = true;
+        schedule.Timezone = defaultTimezone;
+        schedule.Windows = [1, 2, 3, 4, 5].map((day) => ({
+          DayOfWeek: day,
+          StartTime: config.WORKDAY_START,
+          EndTime: config.WORKDAY_END,
+        }));
+      }
+
+      return schedule;
+    });
+  }
+
+  /**
+   * Turns weekly windows into actual periods between two moments
+   * Days are walked in the schedule's timezone so windows follow its daylight saving
+   */
+  private expandSchedule(
+    schedule: WeeklyAvailabilityResult,
+    from: Date,
+    to: Date
+  ): TimeInterval[] {
+    const timezone = schedule.Timezone;
+    const days = DateHelper.getDateRange(
+      DateHelper.startOfDay(DateHelper.toTimezone(from, timezone)),
+      DateHelper.toTimezone(to, timezone)
+    );
+    const intervals: TimeInterval[] = [];
+
+    for (const day of days) {
+      const windows = schedule.IsDefault
+        ? DateHelper.isWeekday(day)
+          ? [{ StartTime: config.WORKDAY_START, EndTime: config.WORKDAY_END }]
+          : []
+        : schedule.Windows.filter((w) => w.DayOfWeek === day.getDay());
+
+      for (const window of windows) {
+        intervals.push({
+          Start: DateHelper.fromTimezone(this.atTime(day, window.StartTime), timezone),
+          End: DateHelper.fromTimezone(this.atTime(day, window.EndTime), timezone),
+        });
+      }
+    }
+
+    return intervals;
+  }
+
+  private atTime(day: Date, time: string): Date {
+    const minutes = SlotHelper.parseTimeOfDay(time) ?? 0;
+    const date = new Date(day);
+    date.setHours(0, minutes, 0, 0);
+    return date;
+  }
+
+  private validateWindows(windows: AvailabilityWindowVm[]): void {
+    const errors: Record<string, string[]> = {};
+
+    windows.forEach((window, index) => {
+      const day = Number(window?.DayOfWeek);
+      const start = SlotHelper.parseTimeOfDay(window?.StartTime);
+      const end = SlotHelper.parseTimeOfDay(window?.EndTime);
+
+      if (!Number.isInteger(day) || day < 0 || day > 6) {
+        errors[`Windows[${index}]`] = ['DayOfWeek must be 0 (Sunday) to 6 (Saturday)'];
+      } else if (start == null || end == null || start === 24 * 60) {
+        errors[`Windows[${index}]`] = ['StartTime and EndTime must be HH:mm'];
+      } else if (end <= start) {
+        errors[`Windows[${index}]`] = ['EndTime must be after StartTime'];
+      } else {
+        const overlapping = windows.some(
+          (other, otherIndex) =>
+            otherIndex !== index &&
+            Number(other?.DayOfWeek) === day &&
+            (SlotHelper.parseTimeOfDay(other?.StartTime) ?? 0) < end &&
+            (SlotHelper.parseTimeOfDay(other?.EndTime) ?? 0) > start
+        );
+        if (overlapping) {
+          errors[`Windows[${index}]`] = ['Window overlaps another window on the same day'];
+        }
+      }
+    });
+
+    if (Object.keys(errors).length) {
+      throw new ValidationError('Invalid availability', errors);
+    }
+  }
+
+  private validateTimezone(timezone: string): void {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    } catch {
+      throw new ValidationError(`Unknown timezone '${timezone}'`);
+    }
+  }
+
+  /**
+   * @throws NotFoundError listing users that are not in the organization
+   */
+  private async assertUsers(userIds: string[]): Promise<void> {
+    const users = await this.unitOfWork.raw<{ Uid: string }[]>(
+      `
+      SELECT Uid FROM ${TableNames.User}
+      WHERE OrgId = ? AND IsDeleted = 0 AND Uid IN (${userIds.map(() => '?').join(', ')})
+      `,
+      [this.tenantId, ...userIds]
+    );
+
+    const missing = userIds.filter((id) => !users.some((u) => u.Uid === id));
+    if (missing.length) {
+      throw new NotFoundError(`Users not found: ${missing.join(', ')}`);
+    }
+  }
+}
@@ -0,0 +1,324 @@
+import { inject, injectable } from 'inversify';
+import { TYPES } from '@/core/container/types';
+import { Candidate } from '@/data/entities/candidate';
+import { Application } from '@/data/entities/application';
+import { TableNames } from '@/database/tables';
+import { IUnitOfWork } from '@/repository';
+import { CallerService } from '../caller/caller.service';
+import { BaseService } from '../base/base.service';
+import { Result } from '@/data/response/response';
+import { Utility } from '@/core/utils/common.utils';
+import { isValidEmail } from '@/email';
+import { ValidationError } from '@/middleware/errors/validation.error';
+import { NotFoundError } from '@/middleware/errors/notFound.error';
+import { Permission } from '@/data/enums/permission';
+import { CandidateMatchHelper } from '@/core/helper/candidate-match.helper';
+import { CandidateDuplicateResult } from '@/data/results/candidate_result';
+import { CandidateMergeVm } from '@/data/models/CandidateMergeVm';
+import { ApplicationEventService } from './application_event.service';
+import { ApplicationEventType } from '@/data/enums/application_event';
+
+/**
+ * People who applied, grouping their applications
+ * @remarks
+ * Applications are grouped by normalized email, then by normalized phone.
+ * Notes and history belong to the applications and move with them on merge.
+ */
+@injectable()
+export class CandidateService extends BaseService<Candidate> {
+  private readonly _applicationEventService: ApplicationEventService;
+
+  constructor(
+    @inject(TYPES.UnitOfWork) unitOfWork: IUnitOfWork,
+    @inject(TYPES.Caller) callerService: CallerService,
+    @inject(TYPES.ApplicationEventService)
+    applicationEventService: ApplicationEventService
+  ) {
+    super(unitOfWork, callerService, TableNames.Candidate, Candidate);
+    this._applicationEventService = applicationEventService;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // VALIDATION
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  override async validateAdd(model: Candidate): Promise<void> {
+    this.validateCandidate(model);
+  }
+
+  override async validateUpdate(model: Candidate): Promise<void> {
+    this.validateCandidate(model);
+  }
+
+  private validateCandidate(model: Candidate): void {
+    if (!model?.FullName?.trim()?.length) {
+      throw new ValidationError('FullName is required');
+    }
+    if (model.Email?.length && !isValidEmail(model.Email)) {
+      throw new ValidationError('Email must be a valid email address');
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // PRE OPERATIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  override async preAddOperation(model: Candidate, entity: Candidate): Promise<void> {
+    await super.preAddOperation(model, entity);
+    entity.MergedIntoId = null;
+    this.normalize(entity);
+  }
+
+  override async preUpdateOperation(
+    model: Candidate,
+    entity: Candidate
+  ): Promise<void> {
+    await super.preUpdateOperation(model, entity);
+    this.normalize(entity);
+  }
+
+  /**
+   * Merges are only made through mergeAsync
+   */
+  protected override mergeModelToEntity(model: Candidate, entity: Candidate): void {
+    const { MergedIntoId } = entity;
+    super.mergeModelToEntity(model, entity);
+    entity.MergedIntoId = MergedIntoId;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // GROUPING
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Finds the candidate an application belongs to, or creates one
+   * Matches on normalized email first, then on normalized phone
+   */
+  async resolveForApplication(application: Application): Promise<Candidate> {
+    const email = CandidateMatchHelper.normalizeEmail(application.Email);
+    const phone = CandidateMatchHelper.normalizePhone(application.Phone);
+
+    const existing =
+      (email
+        ? await this.repository.findOneWhere(
+            { NormalizedEmail: email, MergedIntoId: null },
+            application.OrgId
+          )
+        : null) ??
+      (phone
+        ? await this.repository.findOneWhere(
+            { NormalizedPhone: phone, MergedIntoId: null },
+            application.OrgId
+          )
+        : null);
+
+    if (existing) {
+      return existing;
+    }
+
+    const candidate = new Candidate();
+    candidate.Uid = Utility.generateUUID();
+    candidate.OrgId = application.OrgId;
+    candidate.FullName = application.FullName;
+    candidate.Email = application.Email;
+    candidate.Phone = application.Phone;
+    candidate.CreatedOn = new Date();
+    candidate.CreatedBy = application.CreatedBy;
+    this.normalize(candidate);
+
+    return await this.repository.create(candidate);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // DUPLICATES
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Suggests candidates that are likely the same person, best match first
+   */
+  async getDuplicatesAsync(
+    id: string
+  ): Promise<Result<CandidateDuplicateResult[]>> {
+    const candidate = await this.getCandidate(id);
+
+    // Narrow down with indexed/cheap conditions, then score in code; exact email
+    // and phone matches come first so a common name cannot push them past the limit
+    const query = `
+      SELECT
+        c.*,
+        (
+          SELECT COUNT(*) FROM ${TableNames.Application} a
+          WHERE a.CandidateId = c.Uid AND a.IsDeleted = 0
+        ) AS ApplicationCount
+      FROM ${TableNames.Candidate} c
+      WHERE c.OrgId = ? AND c.IsDeleted = 0 AND c.MergedIntoId IS NULL AND c.Uid <> ?
+        AND (
+          c.NormalizedEmail = ?
+          OR c.NormalizedPhone = ?
+          OR SUBSTRING_INDEX(c.NormalizedEmail, '@', 1) = ?
+          OR SOUNDEX(c.FullName) = SOUNDEX(?)
+        )
+      ORDER BY
+        (c.NormalizedEmail = ?) DESC,
+        (c.NormalizedPhone = ?) DESC,
+        (SUBSTRING_INDEX(c.NormalizedEmail, '@', 1) = ?) DESC,
+        c.CreatedOn DESC
+      LIMIT 200
+    `;
+
+    const emailLocalPart = candidate.NormalizedEmail?.split('@')[0] ?? null;
+    const rows = await this.unitOfWork.raw<CandidateDuplicateResult[]>(query, [
+      this.tenantId,
+      candidate.Uid,
+      candidate.NormalizedEmail,
+      candidate.NormalizedPhone,
+      emailLocalPart,
+      candidate.FullName,
+      candidate.NormalizedEmail,
+      candidate.NormalizedPhone,
+      emailLocalPart,
+    ]);
+
+    const duplicates = rows
+      .map((row) => ({
+        ...row,
+        ...CandidateMatchHelper.score(candidate, row),
+        ApplicationCount: Number(row.ApplicationCount),
+      }))
+      .filter((row) => row.Score >= CandidateMatchHelper.DUPLICATE_THRESHOLD)
+      .sort((a, b) => b.Score - a.Score);
+
+    return Result.toEntityResult(duplicates);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // MERGE
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Merges candidates into another candidate
+   * @remarks
+   * The applications of the merged candidates (with their notes and history) move
+   * to the target, missing contact details are copied over, and the merged
+   * candidates are retired with MergedIntoId pointing to the target
+   * @throws NotFoundError if a candidate does not exist
+   * @throws ValidationError if no candidates are given or the target is among them
+   */
+  async mergeAsync(id: string, model: CandidateMergeVm): Promise<Result<Candidate>> {
+    const sourceIds = [...new Set(model?.SourceIds ?? [])];
+    if (!sourceIds.length) {
+      throw new ValidationError('SourceIds is required');
+    }
+    if (sourceIds.includes(id)) {
+      throw new ValidationError('A candidate cannot be merged into itself');
+    }
+
+    const target = await this.getCandidate(id);
+    const sources = (await this.repository
+      .queryActive()
+      .whereIn('Uid', sourceIds)
+      .andWhere({ OrgId: this.tenantId })
+      .whereNull('MergedIntoId')) as Candidate[];
+
+    const missing = sourceIds.filter((s) => !sources.some((c) => c.Uid === s));
+    if (missing.length) {
+      throw new NotFoundError(`Candidates not found: ${missing.join(', ')}`);
+    }
+
+    const moved = (await this.getOtherRepository<Application>(TableNames.Application)
+      .queryActive()
+      .select('Uid', 'OrgId', 'CandidateId')
+      .whereIn('CandidateId', sourceIds)
+      .andWhere({ OrgId: this.tenantId })) as Application[];
+
+    const now = new Date();
+    const changes: Partial<Candidate> = {
+      Email: target.Email || sources.find((s) => s.Email)?.Email || '',
+      Phone: target.Phone || sources.find((s) => s.Phone)?.Phone || '',
+    };
+    changes.NormalizedEmail = CandidateMatchHelper.normalizeEmail(changes.Email);
+    changes.NormalizedPhone = CandidateMatchHelper.normalizePhone(changes.Phone);
+
+    await this.transaction(async (trx) => {
+      await trx(TableNames.Application)
+        .whereIn('CandidateId', sourceIds)
+        .andWhere({ OrgId: this.tenantId })
+        .update({ CandidateId: target.Uid, UpdatedOn: now, UpdatedBy: this.userId });
+
+      // Candidates merged earlier into a source now point to the target
+      await trx(TableNames.Candidate)
+        .whereIn('MergedIntoId', sourceIds)
+        .andWhere({ OrgId: this.tenantId })
+        .update({ MergedIntoId: target.Uid, UpdatedOn: now, UpdatedBy: this.userId });
+
+      await trx(TableNames.Candidate)
+        .whereIn('Uid', sourceIds)
+        .andWhere({ OrgId: this.tenantId })
+        .update({
+          MergedIntoId: target.Uid,
+          IsDeleted: true,
+          DeletedOn: now,
+          UpdatedOn: now,
+          UpdatedBy: this.userId,
+        });
+
+      await this.unitOfWork
+        .getTransactionalRepository<Candidate>(TableNames.Candidate, trx)
+        .update(target.Uid, { ...changes, UpdatedOn: now, UpdatedBy: this.userId });
+    });
+
+    for (const application of moved) {
+      const source = sources.find((s) => s.Uid === application.CandidateId);
+      await this._applicationEventService.record(
+        application,
+        ApplicationEventType.CandidateMerged,
+        `Candidate ${source?.FullName ?? ''} merged into ${target.FullName}`.replace(/\s+/g, ' '),
+        { FromCandidateId: application.CandidateId, ToCandidateId: target.Uid }
+      );
+    }
+
+    return Result.toEntityResult({ ...target, ...changes, UpdatedOn: now } as Candidate);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // READ OPERATIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get the applications of a candidate the caller can read, newest first
+   */
+  async getApplicationsAsync(id: string): Promise<Result<Application[]>> {
+    await this.getCandidate(id);
+
+    const condition = await this.permissionService.getCondition(
+      Permission.ApplicationRead,
+      'PositionId'
+    );
+    const applications = await this.getOtherRepository<Application>(
+      TableNames.Application
+    )
+      .queryActive()
+      .where({ CandidateId: id, OrgId: this.tenantId })
+      .whereRaw(condition.Sql, condition.Bindings)
+      .orderBy('CreatedOn', 'desc');
+
+    return Result.toEntityResult(applications as Application[]);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  private async getCandidate(id: string): Promise<Candidate> {
+    const candidate = await this.repository.findById(id, this.tenantId);
+    if (candidate == null || candidate.MergedIntoId != null) {
+      throw new NotFoundError('Candidate not found');
+    }
+    return candidate;
+  }
+
+  private normalize(candidate: Candidate): void {
+    candidate.NormalizedEmail = CandidateMatchHelper.normalizeEmail(candidate.Email);
+    candidate.NormalizedPhone = CandidateMatchHelper.normalizePhone(candidate.Phone);
+  }
+}
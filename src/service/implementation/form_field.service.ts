@@ -7,6 +7,8 @@ import { BaseService } from '../base/base.service';
 import { Result } from '@/data/response/response';
 import { Utility } from '@/core/utils/common.utils';
 import { IUnitOfWork } from '@/repository';
+import { ValidationError } from '@/middleware/errors/validation.error';
+import { FormValidationHelper } from '@/core/helper/form-validation.helper';
 
 @injectable()
 export class FormFieldService extends BaseService<FormField> {
@@ -17,6 +19,22 @@ export class FormFieldService extends BaseService<FormField> {
     super(unitOfWork, callerService, TableNames.FormField, FormField);
   }
 
+  /**
+   * Validates the visibility conditions and pattern before adding
+   */
+  override async validateAdd(model: FormField): Promise<void> {
+    this.validateConditions(model);
+    this.validatePattern(model);
+  }
+
+  /**
+   * Validates the visibility conditions and pattern before updating
+   */
+  override async validateUpdate(model: FormField): Promise<void> {
+    this.validateConditions(model);
+    this.validatePattern(model);
+  }
+
   /**
    * Upsert multiple form fields
    * Creates new fields or updates existing ones based on Uid
@@ -28,6 +46,11 @@ export class FormFieldService extends BaseService<FormField> {
       return Result.toEntityResult([]);
     }
 
+    fields.forEach((f) => {
+      this.validateConditions(f);
+      this.validatePattern(f);
+    });
+
     const now = new Date();
     const emptyGuid = '00000000-0000-0000-0000-000000000000';
 
@@ -92,6 +115,7 @@ export class FormFieldService extends BaseService<FormField> {
     newField.SortOrder = field.SortOrder;
     newField.IsVisible = field.IsVisible;
     newField.Width = field.Width;
+    newField.Conditions = field.Conditions;
 
     newField.IsActive = field.IsActive ?? true;
     newField.IsDeleted = field.IsDeleted ?? false;
@@ -102,4 +126,36 @@ export class FormFieldService extends BaseService<FormField> {
 
     return newField;
   }
+
+  /**
+   * Conditions must be valid and may not reference the field itself
+   * @throws ValidationError listing the problems keyed by field name
+   */
+  private validateConditions(field: FormField): void {
+    const errors = FormValidationHelper.getConditionErrors(field?.Conditions);
+
+    const condition = FormValidationHelper.parseConditions(field?.Conditions);
+    if (condition?.Rules.some((r) => r?.Field === field.Name)) {
+      errors.push('Conditions cannot reference the field itself');
+    }
+
+    if (errors.length) {
+      throw new ValidationError('Invalid field conditions', {
+        [field.Name || 'Conditions']: errors,
+      });
+    }
+  }
+
+  /**
+   * The pattern runs on public form answers and must be safe to run
+   * @throws ValidationError listing the problems keyed by field name
+   */
+  private validatePattern(field: FormField): void {
+    const errors = FormValidationHelper.getPatternErrors(field?.Pattern);
+    if (errors.length) {
+      throw new ValidationError('Invalid field pattern', {
+        [field.Name || 'Pattern']: errors,
+      });
+    }
+  }
 }
@@ -5,6 +5,8 @@ import { TableNames } from '@/database/tables';
 import { IUnitOfWork } from '@/repository/interfaces';
 import { CallerService } from '../caller/caller.service';
 import { BaseService } from '../base/base.service';
+import { ValidationError } from '@/middleware/errors/validation.error';
+import { FormValidationHelper } from '@/core/helper/form-validation.helper';
 
 @injectable()
 export class FormSectionService extends BaseService<FormSection> {
@@ -14,4 +16,27 @@ export class FormSectionService extends BaseService<FormSection> {
   ) {
     super(unitOfWork, callerService, TableNames.FormSection, FormSection);
   }
+
+  /**
+   * Validates the visibility conditions before adding
+   */
+  override async validateAdd(model: FormSection): Promise<void> {
+    this.validateConditions(model);
+  }
+
+  /**
+   * Validates the visibility conditions before updating
+   */
+  override async validateUpdate(model: FormSection): Promise<void> {
+    this.validateConditions(model);
+  }
+
+  private validateConditions(section: FormSection): void {
+    const errors = FormValidationHelper.getConditionErrors(section?.Conditions);
+    if (errors.length) {
+      throw new ValidationError('Invalid section conditions', {
+        Conditions: errors,
+      });
+    }
+  }
 }
@@ -7,6 +7,22 @@ import { CallerService } from "../caller/caller.service";
 import { BaseService } from "../base/base.service";
 import { Result } from "@/data/response/response";
 import { FormTemplateResult } from "@/data/results/form_template_result";
+import { FormSection } from "@/data/entities/form_section";
+import { FormField } from "@/data/entities/form_field";
+import { OptionGroup } from "@/data/entities/option_group";
+import { Options } from "@/data/entities/options";
+import { OptionGroupResult } from "@/data/results/option_group_result";
+import {
+  CloneFormTemplateVm,
+  FormTemplateDocument,
+} from "@/data/models/FormTemplateDocument";
+import { FieldType } from "@/data/enums/field_type";
+import { BaseEntities } from "@/data/entities/base-entities";
+import { FormTemplateType } from "@/data/enums/template_type";
+import { FormValidationHelper } from "@/core/helper/form-validation.helper";
+import { Utility } from "@/core/utils/common.utils";
+import { NotFoundError } from "@/middleware/errors/notFound.error";
+import { ValidationError } from "@/middleware/errors/validation.error";
 
 @injectable()
 export class FormTemplateService extends BaseService<FormTemplate> {
@@ -17,6 +33,26 @@ export class FormTemplateService extends BaseService<FormTemplate> {
     super(unitOfWork, callerService, TableNames.FormTemplate, FormTemplate);
   }
 
+  /**
+   * PublishedVersion is only set by publishing a version
+   */
+  override async preAddOperation(
+    model: FormTemplate,
+    entity: FormTemplate,
+  ): Promise<void> {
+    await super.preAddOperation(model, entity);
+    entity.PublishedVersion = null;
+  }
+
+  protected override mergeModelToEntity(
+    model: FormTemplate,
+    entity: FormTemplate,
+  ): void {
+    const { PublishedVersion } = entity;
+    super.mergeModelToEntity(model, entity);
+    entity.PublishedVersion = PublishedVersion;
+  }
+
   override async getByIdAsync(
     id: string,
     columns?: (keyof FormTemplate)[] | undefined,
@@ -43,6 +79,7 @@ export class FormTemplateService extends BaseService<FormTemplate> {
         ft.Name,
         ft.Description,
         ft.TemplateType,
+        ft.TimeLimitMinutes,
         (
           SELECT JSON_ARRAYAGG(
             JSON_OBJECT(
@@ -53,6 +90,7 @@ export class FormTemplateService extends BaseService<FormTemplate> {
               'Description', fs.Description,
               'ShowTitle', fs.ShowTitle,
               'SortOrder', fs.SortOrder,
+              'Conditions', CAST(fs.Conditions AS JSON),
               'Fields', (
                 SELECT JSON_ARRAYAGG(
                   JSON_OBJECT(
@@ -73,6 +111,9 @@ export class FormTemplateService extends BaseService<FormTemplate> {
                     'SortOrder', ff.SortOrder,
                     'IsVisible', ff.IsVisible,
                     'Width', ff.Width,
+                    'Conditions', CAST(ff.Conditions AS JSON),
+                    'Points', ff.Points,
+                    'CorrectAnswer', ff.CorrectAnswer,
                     'Options', (
                       SELECT JSON_ARRAYAGG(
                         JSON_OBJECT(
@@ -81,7 +122,8 @@ export class FormTemplateService extends BaseService<FormTemplate> {
                           'OptionGroupId', opt.OptionGroupId,
                           'Name', opt.Name,
                           'Value', opt.Value,
-                          'SortOrder', opt.SortOrder
+                          'SortOrder', opt.SortOrder,
+                          'IsCorrect', opt.IsCorrect
                         )
                       )
                       FROM ${TableNames.Options} opt
@@ -117,4 +159,305 @@ export class FormTemplateService extends BaseService<FormTemplate> {
 
     return Result.toEntityResult<FormTemplateResult>(data);
   }
+
+  //#region Clone / Import / Export
+
+  /**
+   * Export a template with its sections, fields and option groups
+   * as a portable JSON document
+   */
+  async exportAsync(id: string): Promise<Result<FormTemplateDocument>> {
+    return Result.toEntityResult(await this.toDocument(id));
+  }
+
+  /**
+   * Deep-copies a template, its sections, fields and option groups with new Uids
+   * The copy is an unpublished draft
+   */
+  async cloneAsync(
+    id: string,
+    model: CloneFormTemplateVm,
+  ): Promise<Result<FormTemplateResult | null>> {
+    const document = await this.toDocument(id);
+    document.Name = model?.Name?.trim() || `${document.Name} (Copy)`;
+
+    const templateId = await this.createFromDocument(document);
+    return await this.getFormTemplateByIdForPublic(templateId, this.tenantId);
+  }
+
+  /**
+   * Creates a template in the current organization from an exported document
+   * @throws ValidationError listing the problems of the document
+   */
+  async importAsync(
+    document: FormTemplateDocument,
+  ): Promise<Result<FormTemplateResult | null>> {
+    this.validateDocument(document);
+
+    const templateId = await this.createFromDocument(document);
+    return await this.getFormTemplateByIdForPublic(templateId, this.tenantId);
+  }
+
+  private async toDocument(id: string): Promise<FormTemplateDocument> {
+    const template = (
+      await this.getFormTemplateByIdForPublic(id, this.tenantId)
+    ).Entity;
+
+    if (!template) {
+      throw new NotFoundError("Form template not found");
+    }
+
+    const normalized = FormValidationHelper.normalize(template);
+    const groupIds = [
+      ...new Set(
+        FormValidationHelper.getFields(normalized)
+          .map((f) => f.OptionGroupId)
+          .filter((groupId): groupId is string => !!groupId),
+      ),
+    ];
+
+    const groups = groupIds.length
+      ? await this.getOtherRepository<OptionGroup>(TableNames.OptionGroup)
+          .queryActive()
+          .select("Uid", "Name", "Description")
+          .whereIn("Uid", groupIds)
+          .andWhere({ OrgId: this.tenantId })
+      : [];
+
+    return {
+      ...normalized,
+      FormatVersion: 1,
+      OptionGroups: (groups as OptionGroup[]).map((group) => ({
+        ...group,
+        Options:
+          FormValidationHelper.getFields(normalized).find(
+            (f) => f.OptionGroupId === group.Uid,
+          )?.Options ?? [],
+      })) as OptionGroupResult[],
+    };
+  }
+
+  /**
+   * Creates the template, option groups, options, sections and fields
+   * of a document in a single transaction, all with new Uids
+   * @returns Uid of the new template
+   */
+  private async createFromDocument(
+    document: FormTemplateDocument,
+  ): Promise<string> {
+    const now = new Date();
+    const stamp = <TEntity extends BaseEntities>(entity: TEntity): TEntity => {
+      entity.Uid = Utility.generateUUID();
+      entity.OrgId = this.tenantId;
+      entity.IsActive = true;
+      entity.IsDeleted = false;
+      entity.CreatedOn = now;
+      entity.CreatedBy = this.userId;
+      return entity;
+    };
+
+    const sections = FormValidationHelper.getSections(
+      FormValidationHelper.normalize(document),
+    );
+    const fields = sections.flatMap((s) => s.Fields);
+
+    // Option groups of the document, plus any a field references without one
+    const sourceGroups = new Map(
+      (Array.isArray(document.OptionGroups) ? document.OptionGroups : []).map(
+        (g) => [g.Uid, g],
+      ),
+    );
+    for (const field of fields) {
+      if (field.OptionGroupId && !sourceGroups.has(field.OptionGroupId)) {
+        sourceGroups.set(field.OptionGroupId, {
+          ...new OptionGroupResult(),
+          Uid: field.OptionGroupId,
+          Name: field.Label || field.Name,
+        });
+      }
+    }
+
+    const groupIds = new Map<string, string>();
+    const groups: OptionGroup[] = [];
+    const options: Options[] = [];
+
+    for (const [sourceId, source] of sourceGroups) {
+      const group = stamp(new OptionGroup());
+      group.Name = source.Name;
+      group.Description = source.Description ?? null;
+      groupIds.set(sourceId, group.Uid);
+      groups.push(group);
+
+      const sourceOptions = source.Options?.length
+        ? source.Options
+        : (fields.find((f) => f.OptionGroupId === sourceId)?.Options ?? []);
+
+      sourceOptions.forEach((sourceOption, index) => {
+        const option = stamp(new Options());
+        option.OptionGroupId = group.Uid;
+        option.Name = sourceOption.Name;
+        option.Value = sourceOption.Value;
+        option.SortOrder = sourceOption.SortOrder ?? index + 1;
+        option.IsCorrect = Boolean(sourceOption.IsCorrect);
+        options.push(option);
+      });
+    }
+
+    const template = stamp(new FormTemplate());
+    template.Name = document.Name;
+    template.Description = document.Description ?? null;
+    template.TemplateType = Number(
+      document.TemplateType ?? FormTemplateType.Application,
+    );
+    template.PublishedVersion = null;
+    template.TimeLimitMinutes = document.TimeLimitMinutes ?? null;
+
+    const newSections: FormSection[] = [];
+    const newFields: FormField[] = [];
+
+    sections.forEach((sourceSection, sectionIndex) => {
+      const section = stamp(new FormSection());
+      section.FormTemplateId = template.Uid;
+      section.Name = sourceSection.Name;
+      section.Description = sourceSection.Description ?? null;
+      section.ShowTitle = sourceSection.ShowTitle ?? true;
+      section.SortOrder = sourceSection.SortOrder ?? sectionIndex + 1;
+      section.Conditions = this.toConditionsJson(sourceSection.Conditions);
+      newSections.push(section);
+
+      sourceSection.Fields.forEach((sourceField, fieldIndex) => {
+        const field = stamp(new FormField());
+        field.FormSectionId = section.Uid;
+        field.Label = sourceField.Label;
+        field.Name = sourceField.Name;
+        field.Type = Number(sourceField.Type);
+        field.Placeholder = sourceField.Placeholder ?? null;
+        field.OptionGroupId = sourceField.OptionGroupId
+          ? (groupIds.get(sourceField.OptionGroupId) ?? null)
+          : null;
+        field.HelpText = sourceField.HelpText ?? null;
+        field.IsRequired = sourceField.IsRequired ?? true;
+        field.DefaultValue = sourceField.DefaultValue ?? null;
+        field.MinLength = sourceField.MinLength ?? null;
+        field.MaxLength = sourceField.MaxLength ?? null;
+        field.Pattern = sourceField.Pattern ?? null;
+        field.SortOrder = sourceField.SortOrder ?? fieldIndex + 1;
+        field.IsVisible = sourceField.IsVisible ?? true;
+        field.Width = sourceField.Width ?? 100;
+        field.Conditions = this.toConditionsJson(sourceField.Conditions);
+        field.Points = sourceField.Points ?? null;
+        field.CorrectAnswer = sourceField.CorrectAnswer ?? null;
+        newFields.push(field);
+      });
+    });
+
+    await this.transaction(async (trx) => {
+      await this.unitOfWork
+        .getTransactionalRepository<FormTemplate>(TableNames.FormTemplate, trx)
+        .create(template);
+      if (groups.length) {
+        await this.unitOfWork
+          .getTransactionalRepository<OptionGroup>(TableNames.OptionGroup, trx)
+          .createMany(groups);
+      }
+      if (options.length) {
+        await this.unitOfWork
+          .getTransactionalRepository<Options>(TableNames.Options, trx)
+          .createMany(options);
+      }
+      if (newSections.length) {
+        await this.unitOfWork
+          .getTransactionalRepository<FormSection>(TableNames.FormSection, trx)
+          .createMany(newSections);
+      }
+      if (newFields.length) {
+        await this.unitOfWork
+          .getTransactionalRepository<FormField>(TableNames.FormField, trx)
+          .createMany(newFields);
+      }
+    });
+
+    return template.Uid;
+  }
+
+  /**
+   * Validates an imported document before anything is created
+   */
+  private validateDocument(document: FormTemplateDocument): void {
+    if (document == null || typeof document !== "object") {
+      throw new ValidationError("Template document is required");
+    }
+
+    const errors: Record<string, string[]> = {};
+    const addError = (key: string, message: string) =>
+      (errors[key] ??= []).push(message);
+
+    if (!document.Name?.trim()?.length) {
+      addError("Name", "Name is required");
+    }
+    if (
+      document.TemplateType != null &&
+      !Object.values(FormTemplateType).includes(Number(document.TemplateType))
+    ) {
+      addError("TemplateType", "TemplateType is not valid");
+    }
+
+    const sections = FormValidationHelper.getSections(document);
+    if (!sections.length) {
+      addError("Sections", "At least one section is required");
+    }
+
+    const names = new Set<string>();
+    sections.forEach((section, sectionIndex) => {
+      const sectionKey = `Sections[${sectionIndex}]`;
+      if (!section?.Name?.trim()?.length) {
+        addError(sectionKey, "Section name is required");
+      }
+      FormValidationHelper.getConditionErrors(
+        this.toConditionsJson(section?.Conditions),
+      ).forEach((e) => addError(sectionKey, e));
+
+      FormValidationHelper.getFields({
+        ...new FormTemplateResult(),
+        Sections: [section],
+      }).forEach((field, fieldIndex) => {
+        const fieldKey = field?.Name || `${sectionKey}.Fields[${fieldIndex}]`;
+        if (!field?.Name?.trim()?.length) {
+          addError(fieldKey, "Field name is required");
+        } else if (names.has(field.Name)) {
+          addError(fieldKey, `Field name '${field.Name}' is used more than once`);
+        } else {
+          names.add(field.Name);
+        }
+        if (!Object.values(FieldType).includes(Number(field?.Type))) {
+          addError(fieldKey, "Field type is not valid");
+        }
+        FormValidationHelper.getConditionErrors(
+          this.toConditionsJson(field?.Conditions),
+        ).forEach((e) => addError(fieldKey, e));
+        FormValidationHelper.getPatternErrors(field?.Pattern).forEach((e) =>
+          addError(fieldKey, e),
+        );
+      });
+    });
+
+    if (Object.keys(errors).length) {
+      throw new ValidationError("Template document is invalid", errors);
+    }
+  }
+
+  /**
+   * Conditions come back from the template query as JSON objects
+   * and are stored as text
+   */
+  private toConditionsJson(conditions: unknown): string | null {
+    if (conditions === undefined || conditions === null || conditions === "") {
+      return null;
+    }
+    return typeof conditions === "string"
+      ? conditions
+      : JSON.stringify(conditions);
+  }
+
+  //#endregion
 }
@@ -0,0 +1,399 @@
+import { inject, injectable } from 'inversify';
+import { TYPES } from '@/core/container/types';
+import { FormTemplate } from '@/data/entities/form_template';
+import { FormTemplateVersion } from '@/data/entities/form_template_version';
+import { TableNames } from '@/database/tables';
+import { IUnitOfWork } from '@/repository';
+import { CallerService } from '../caller/caller.service';
+import { BaseService } from '../base/base.service';
+import { Result } from '@/data/response/response';
+import { Utility } from '@/core/utils/common.utils';
+import { ValidationError } from '@/middleware/errors/validation.error';
+import { NotFoundError } from '@/middleware/errors/notFound.error';
+import { FormValidationHelper } from '@/core/helper/form-validation.helper';
+import { TestGradingHelper } from '@/core/helper/test-grading.helper';
+import { FormTemplateService } from './form_template.service';
+import { FormTemplateResult } from '@/data/results/form_template_result';
+import {
+  FormItemChange,
+  FormTemplateDiffResult,
+  FormTemplateSnapshotResult,
+} from '@/data/results/form_template_version_result';
+import { FieldChange } from '@/data/results/application_event_result';
+import { PublishFormTemplateVm } from '@/data/models/PublishFormTemplateVm';
+import { ChangeType } from '@/data/enums/change_type';
+
+/**
+ * Keys never compared when diffing snapshots
+ */
+const UNCOMPARED_KEYS = ['Uid', 'OrgId', 'FormTemplateId', 'FormSectionId'];
+
+/**
+ * Immutable published snapshots of form templates
+ * @remarks
+ * The sections, fields and options of a template are its draft and can be edited freely.
+ * Publishing freezes them into a numbered version, which is what candidates fill in
+ * and what their applications are validated and recorded against.
+ */
+@injectable()
+export class FormTemplateVersionService extends BaseService<FormTemplateVersion> {
+  private readonly _formTemplateService: FormTemplateService;
+
+  constructor(
+    @inject(TYPES.UnitOfWork) unitOfWork: IUnitOfWork,
+    @inject(TYPES.Caller) callerService: CallerService,
+    @inject(TYPES.FormTemplateService) formTemplateService: FormTemplateService
+  ) {
+    super(
+      unitOfWork,
+      callerService,
+      TableNames.FormTemplateVersion,
+      FormTemplateVersion
+    );
+    this._formTemplateService = formTemplateService;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // IMMUTABILITY GUARDS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  override async updateAsync(): Promise<Result<FormTemplateVersion>> {
+    throw new ValidationError('Published versions cannot be changed');
+  }
+
+  override async deleteAsync(): Promise<boolean> {
+    throw new ValidationError('Published versions cannot be deleted');
+  }
+
+  override async hardDeleteAsync(): Promise<boolean> {
+    throw new ValidationError('Published versions cannot be deleted');
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // PUBLISHING
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Freezes the current draft of a template into a new version
+   * @throws NotFoundError if the template does not exist
+   * @throws ValidationError if the draft has no fields or has not changed
+   */
+  async publishAsync(
+    templateId: string,
+    model: PublishFormTemplateVm
+  ): Promise<Result<FormTemplateVersion>> {
+    const snapshot = await this.getDraft(templateId, this.tenantId);
+
+    if (!FormValidationHelper.getFields(snapshot).length) {
+      throw new ValidationError('Cannot publish a form without fields');
+    }
+
+    const latest = await this.getLatestVersion(templateId, this.tenantId);
+    const serialized = JSON.stringify(snapshot);
+
+    if (latest && latest.Snapshot === serialized) {
+      throw new ValidationError(`No changes since version ${latest.Version}`);
+    }
+
+    const version = new FormTemplateVersion();
+    version.Uid = Utility.generateUUID();
+    version.OrgId = this.tenantId;
+    version.FormTemplateId = templateId;
+    version.Version = (latest?.Version ?? 0) + 1;
+    version.Snapshot = serialized;
+    version.Notes = model?.Notes ?? null;
+    version.CreatedOn = new Date();
+    version.CreatedBy = this.userId;
+
+    await this.transaction(async (trx) => {
+      await this.unitOfWork
+        .getTransactionalRepository<FormTemplateVersion>(
+          TableNames.FormTemplateVersion,
+          trx
+        )
+        .create(version);
+      await this.unitOfWork
+        .getTransactionalRepository<FormTemplate>(TableNames.FormTemplate, trx)
+        .update(templateId, {
+          PublishedVersion: version.Version,
+          UpdatedOn: version.CreatedOn,
+          UpdatedBy: this.userId,
+        });
+    });
+
+    return Result.toEntityResult(version);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // READ OPERATIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get the published versions of a template, newest first (without snapshots)
+   */
+  async getVersionsAsync(
+    templateId: string
+  ): Promise<Result<FormTemplateVersion[]>> {
+    const versions = await this.repository
+      .queryActive()
+      .select('Uid', 'FormTemplateId', 'Version', 'Notes', 'CreatedOn', 'CreatedBy')
+      .where({ FormTemplateId: templateId, OrgId: this.tenantId })
+      .orderBy('Version', 'desc');
+
+    return Result.toEntityResult(versions as FormTemplateVersion[]);
+  }
+
+  /**
+   * Get a published version of a template, or the draft
+   * @param version Version number or "draft"
+   */
+  async getVersionAsync(
+    templateId: string,
+    version: string
+  ): Promise<Result<FormTemplateSnapshotResult>> {
+    return Result.toEntityResult(
+      await this.getSnapshot(templateId, this.parseVersion(version))
+    );
+  }
+
+  /**
+   * Get the form candidates fill in for a template
+   * Returns the latest published version, or the draft if it was never published.
+   * The answer key of Test templates is removed.
+   */
+  async getPublishedFormAsync(
+    templateId: string,
+    orgId: string
+  ): Promise<Result<FormTemplateSnapshotResult | null>> {
+    const form = await this.getPublishedForm(templateId, orgId);
+    return Result.toEntityResult(form ? TestGradingHelper.withoutAnswers(form) : null);
+  }
+
+  /**
+   * Get the form candidates fill in for a template
+   * @returns The latest published version, the draft if it was never published,
+   * or null when the template does not exist
+   */
+  async getPublishedForm(
+    templateId: string,
+    orgId: string
+  ): Promise<FormTemplateSnapshotResult | null> {
+    const latest = await this.getLatestVersion(templateId, orgId);
+    if (latest) {
+      return this.toSnapshotResult(latest);
+    }
+
+    const draft = (
+      await this._formTemplateService.getFormTemplateByIdForPublic(templateId, orgId)
+    ).Entity;
+
+    return draft
+      ? { ...FormValidationHelper.normalize(draft), Version: null, FormTemplateVersionId: null }
+      : null;
+  }
+
+  /**
+   * Get a published version by its id
+   */
+  async getSnapshotById(
+    versionId: string,
+    orgId: string
+  ): Promise<FormTemplateSnapshotResult | null> {
+    const version = await this.repository.findById(versionId, orgId);
+    return version ? this.toSnapshotResult(version) : null;
+  }
+
+  /**
+   * Get the latest published version of a template
+   */
+  async getLatestVersion(
+    templateId: string,
+    orgId: string
+  ): Promise<FormTemplateVersion | null> {
+    const version = await this.repository
+      .queryActive()
+      .where({ FormTemplateId: templateId, OrgId: orgId })
+      .orderBy('Version', 'desc')
+      .first();
+
+    return (version as FormTemplateVersion | undefined) ?? null;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // DIFF
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Compares two versions of a template
+   * @param from Version number or "draft"
+   * @param to Version number or "draft"
+   */
+  async diffAsync(
+    templateId: string,
+    from: string,
+    to: string
+  ): Promise<Result<FormTemplateDiffResult>> {
+    const before = await this.getSnapshot(templateId, this.parseVersion(from));
+    const after = await this.getSnapshot(templateId, this.parseVersion(to));
+
+    const diff = new FormTemplateDiffResult();
+    diff.FromVersion = before.Version;
+    diff.ToVersion = after.Version;
+    diff.Template = this.compare(before, after, ['Sections', 'Version', 'FormTemplateVersionId']);
+    diff.Sections = this.compareItems(
+      FormValidationHelper.getSections(before),
+      FormValidationHelper.getSections(after),
+      ['Fields']
+    );
+    diff.Fields = this.compareItems(
+      FormValidationHelper.getFields(before),
+      FormValidationHelper.getFields(after),
+      []
+    );
+
+    return Result.toEntityResult(diff);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  private async getSnapshot(
+    templateId: string,
+    version: number | null
+  ): Promise<FormTemplateSnapshotResult> {
+    if (version == null) {
+      return {
+        ...(await this.getDraft(templateId, this.tenantId)),
+        Version: null,
+        FormTemplateVersionId: null,
+      };
+    }
+
+    const published = await this.repository.findOneWhere(
+      { FormTemplateId: templateId, Version: version },
+      this.tenantId
+    );
+    if (!published) {
+      throw new NotFoundError(`Version ${version} not found`);
+    }
+
+    return this.toSnapshotResult(published);
+  }
+
+  private async getDraft(
+    templateId: string,
+    orgId: string
+  ): Promise<FormTemplateResult> {
+    const draft = (
+      await this._formTemplateService.getFormTemplateByIdForPublic(templateId, orgId)
+    ).Entity;
+
+    if (!draft) {
+      throw new NotFoundError('Form template not found');
+    }
+
+    return FormValidationHelper.normalize(draft);
+  }
+
+  private toSnapshotResult(
+    version: FormTemplateVersion
+  ): FormTemplateSnapshotResult {
+    return {
+      ...Utility.safeJsonParse<FormTemplateResult>(
+        version.Snapshot,
+        new FormTemplateResult()
+      ),
+      Version: version.Version,
+      FormTemplateVersionId: version.Uid,
+    };
+  }
+
+  /**
+   * Parses a version route value - "draft" or a positive version number
+   */
+  private parseVersion(value: string): number | null {
+    if (value?.toLowerCase() === 'draft') return null;
+
+    const version = Number(value);
+    if (!Number.isInteger(version) || version < 1) {
+      throw new ValidationError('Version must be a version number or "draft"');
+    }
+
+    return version;
+  }
+
+  /**
+   * Matches sections or fields by Uid and reports what was added, removed or changed
+   */
+  private compareItems<TItem extends { Uid: string; Name: string }>(
+    before: TItem[],
+    after: TItem[],
+    ignoredKeys: string[]
+  ): FormItemChange[] {
+    const changes: FormItemChange[] = [];
+    const previous = new Map(before.map((item) => [item.Uid, item]));
+    const current = new Set(after.map((item) => item.Uid));
+
+    for (const item of after) {
+      const old = previous.get(item.Uid);
+      if (!old) {
+        changes.push({ Uid: item.Uid, Name: item.Name, Change: ChangeType.Added, Changes: [] });
+        continue;
+      }
+
+      const fieldChanges = this.compare(old, item, ignoredKeys);
+      if (fieldChanges.length) {
+        changes.push({
+          Uid: item.Uid,
+          Name: item.Name,
+          Change: ChangeType.Changed,
+          Changes: fieldChanges,
+        });
+      }
+    }
+
+    for (const item of before) {
+      if (!current.has(item.Uid)) {
+        changes.push({ Uid: item.Uid, Name: item.Name, Change: ChangeType.Removed, Changes: [] });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Compares the properties of two objects
+   * Options are compared by their names and values only
+   */
+  private compare(
+    before: object,
+    after: object,
+    ignoredKeys: string[]
+  ): FieldChange[] {
+    const from = before as Record<string, unknown>;
+    const to = after as Record<string, unknown>;
+    const keys = new Set([...Object.keys(from), ...Object.keys(to)]);
+    const changes: FieldChange[] = [];
+
+    for (const key of keys) {
+      if (UNCOMPARED_KEYS.includes(key) || ignoredKeys.includes(key)) continue;
+
+      const oldValue = key === 'Options' ? this.toOptionList(from[key]) : from[key] ?? null;
+      const newValue = key === 'Options' ? this.toOptionList(to[key]) : to[key] ?? null;
+
+      if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+        changes.push({ Field: key, From: oldValue, To: newValue });
+      }
+    }
+
+    return changes;
+  }
+
+  private toOptionList(options: unknown): { Name: string; Value: string }[] {
+    return (Array.isArray(options) ? options : []).map((o) => ({
+      Name: o.Name,
+      Value: o.Value,
+    }));
+  }
+}
@@ -0,0 +1,860 @@
+import { inject, injectable } from 'inversify';
+import { TYPES } from '@/core/container/types';
+import { Interview } from '@/data/entities/interview';
+import { InterviewPanelist } from '@/data/entities/interview_panelist';
+import { Application } from '@/data/entities/application';
+import { TableNames } from '@/database/tables';
+import { IUnitOfWork } from '@/repository';
+import { CallerService } from '../caller/caller.service';
+import { BaseService } from '../base/base.service';
+import { Result } from '@/data/response/response';
+import { config } from '@/core/config/environment';
+import { Utility } from '@/core/utils/common.utils';
+import { DateHelper } from '@/core/utils/date.utils';
+import { logger } from '@/core/utils/logger.utils';
+import { ValidationError } from '@/middleware/errors/validation.error';
+import { NotFoundError } from '@/middleware/errors/notFound.error';
+import { Permission } from '@/data/enums/permission';
+import { InterviewStatus } from '@/data/enums/interview_status';
+import { ApplicationEventType } from '@/data/enums/application_event';
+import {
+  CancelInterviewVm,
+  InterviewVm,
+  RescheduleInterviewVm,
+} from '@/data/models/InterviewVm';
+import {
+  InterviewPanelistResult,
+  InterviewResult,
+} from '@/data/results/interview_result';
+import {
+  CalendarHelper,
+  CalendarMethod,
+} from '@/core/helper/calendar.helper';
+import { TemplateHelper } from '@/core/helper/template.helper';
+import { EmailOptions } from '@/email';
+import { ApplicationEventService } from './application_event.service';
+import { MailService } from './mail.service';
+
+/**
+ * Longest interview that can be scheduled, in minutes
+ */
+const MAX_DURATION_MINUTES = 8 * 60;
+
+/**
+ * Interviews of applications with their panels
+ * @remarks
+ * Every change is sent to the candidate and the panel with an iCalendar (.ics)
+ * attachment. The calendar UID stays the same for the life of an interview and
+ * Sequence is incremented on each change, so calendars update the existing event.
+ */
+@injectable()
+export class InterviewService extends BaseService<Interview, InterviewVm> {
+  private readonly _applicationEventService: ApplicationEventService;
+  private readonly _mailService: MailService;
+
+  protected override readonly permissions = {
+    Read: Permission.ApplicationRead,
+    Write: Permission.ApplicationWrite,
+  };
+  protected override readonly applicationColumn = 'ApplicationId';
+
+  constructor(
+    @inject(TYPES.UnitOfWork) unitOfWork: IUnitOfWork,
+    @inject(TYPES.Caller) callerService: CallerService,
+    @inject(TYPES.ApplicationEventService)
+    applicationEventService: ApplicationEventService,
+    @inject(TYPES.MailService) mailService: MailService
+  ) {
+    super(unitOfWork, callerService, TableNames.Interview, Interview);
+    this._applicationEventService = applicationEventService;
+    this._mailService = mailService;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // VALIDATION
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  override async validateAdd(model: InterviewVm): Promise<void> {
+    if (!model?.ApplicationId?.length) {
+      throw new ValidationError('ApplicationId is required');
+    }
+    if (!model.Title?.trim()?.length) {
+      throw new ValidationError('Title is required');
+    }
+    if (!Array.isArray(model.PanelistIds) || !model.PanelistIds.length) {
+      throw new ValidationError('At least one panelist is required');
+    }
+
+    this.validateTimes(model.StartTime, model.EndTime);
+    this.validateTimezone(model.Timezone);
+    this.validateMeetingLink(model.MeetingLink);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // SCHEDULE
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Schedules an interview for an application
+   * @remarks
+   * The panelists' user rows are locked before the availability check, and the
+   * interview is saved with its panel in the same transaction, so concurrent
+   * schedules for the same panel cannot both succeed.
+   * @throws ValidationError if a panelist already has an interview at this time
+   */
+  override async createAsync(model: InterviewVm): Promise<Result<Interview>> {
+    await this.validateAdd(model);
+
+    const entity = this.toEntity(model);
+    await this.assertPermission(this.permissions.Write, entity);
+    await this.preAddOperation(model, entity);
+
+    const panelistIds = [...new Set(model.PanelistIds)];
+    await this.transaction(async (trx) => {
+      await this.lockPanel(panelistIds, trx);
+      await this.assertPanelAvailable(panelistIds, entity.StartTime, entity.EndTime);
+
+      await this.unitOfWork
+        .getTransactionalRepository<Interview>(TableNames.Interview, trx)
+        .create(entity);
+      await this.savePanelists(entity, panelistIds, trx);
+    });
+
+    await this.postAddOperation(model, entity);
+
+    return await this.toEntityResult(entity);
+  }
+
+  override async preAddOperation(
+    model: InterviewVm,
+    entity: Interview
+  ): Promise<void> {
+    await super.preAddOperation(model, entity);
+    await this.getApplication(model.ApplicationId, Permission.ApplicationWrite);
+
+    entity.Title = model.Title.trim();
+    entity.StartTime = new Date(model.StartTime);
+    entity.EndTime = new Date(model.EndTime);
+    entity.Timezone = model.Timezone || 'UTC';
+    entity.Location = model.Location?.trim() || null;
+    entity.MeetingLink = model.MeetingLink?.trim() || null;
+    entity.Status = InterviewStatus.Scheduled;
+    entity.Sequence = 0;
+
+    await this.getPanelists([...new Set(model.PanelistIds)]);
+  }
+
+  /**
+   * Records the interview on the timeline and sends the invitations
+   */
+  override async postAddOperation(
+    model: InterviewVm,
+    entity: Interview
+  ): Promise<void> {
+    await this._applicationEventService.record(
+      { Uid: entity.ApplicationId, OrgId: entity.OrgId },
+      ApplicationEventType.InterviewScheduled,
+      `Interview scheduled: ${entity.Title}`,
+      { InterviewId: entity.Uid, StartTime: entity.StartTime, EndTime: entity.EndTime }
+    );
+
+    this.notify(entity.Uid, 'REQUEST', InterviewStatus.Scheduled);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // GUARDS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  override async updateAsync(): Promise<Result<Interview>> {
+    throw new ValidationError('Interviews are changed through reschedule or cancel');
+  }
+
+  /**
+   * Only cancelled interviews can be deleted, so invitees are always notified
+   */
+  override async deleteAsync(id: string): Promise<boolean> {
+    const interview = await this.getInterview(id, Permission.ApplicationWrite);
+    if (interview.Status !== InterviewStatus.Cancelled) {
+      throw new ValidationError('Cancel the interview before deleting it');
+    }
+    return await this.repository.softDelete(id);
+  }
+
+  override async hardDeleteAsync(id: string): Promise<boolean> {
+    return await this.deleteAsync(id);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // RESCHEDULE / CANCEL / COMPLETE
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Moves an interview to another time or place, optionally changing the panel
+   * Panelists removed from the panel receive a cancellation
+   * @throws ValidationError if the interview is not scheduled, the times are invalid
+   * or a panelist is already in another interview at that time
+   */
+  async rescheduleAsync(
+    id: string,
+    model: RescheduleInterviewVm
+  ): Promise<Result<Interview>> {
+    const interview = await this.getScheduledInterview(id);
+
+    this.validateTimes(model?.StartTime, model?.EndTime);
+    if (model.Timezone !== undefined) this.validateTimezone(model.Timezone);
+    if (model.MeetingLink !== undefined) this.validateMeetingLink(model.MeetingLink);
+
+    const previousPanel = await this.getPanelistIds(id);
+    const panelistIds =
+      model.PanelistIds !== undefined ? [...new Set(model.PanelistIds)] : previousPanel;
+    if (!panelistIds.length) {
+      throw new ValidationError('At least one panelist is required');
+    }
+    await this.getPanelists(panelistIds);
+
+    const changes: Partial<Interview> = {
+      StartTime: new Date(model.StartTime),
+      EndTime: new Date(model.EndTime),
+      Timezone: model.Timezone || interview.Timezone,
+      Location:
+        model.Location !== undefined ? model.Location?.trim() || null : interview.Location,
+      MeetingLink:
+        model.MeetingLink !== undefined
+          ? model.MeetingLink?.trim() || null
+          : interview.MeetingLink,
+      Sequence: interview.Sequence + 1,
+      UpdatedOn: new Date(),
+      UpdatedBy: this.userId,
+    };
+
+    await this.transaction(async (trx) => {
+      await this.lockPanel(panelistIds, trx);
+      await this.assertPanelAvailable(
+        panelistIds,
+        changes.StartTime!,
+        changes.EndTime!,
+        id
+      );
+
+      await this.unitOfWork
+        .getTransactionalRepository<Interview>(TableNames.Interview, trx)
+        .update(id, changes);
+      await this.savePanelists(interview, panelistIds, trx);
+    });
+
+    await this._applicationEventService.record(
+      { Uid: interview.ApplicationId, OrgId: interview.OrgId },
+      ApplicationEventType.InterviewRescheduled,
+      `Interview rescheduled: ${interview.Title}`,
+      {
+        InterviewId: id,
+        From: { StartTime: interview.StartTime, EndTime: interview.EndTime },
+        To: { StartTime: changes.StartTime, EndTime: changes.EndTime },
+        Reason: model.Reason ?? null,
+      }
+    );
+
+    const removed = previousPanel.filter((userId) => !panelistIds.includes(userId));
+    this.notify(id, 'REQUEST', 'Rescheduled', model.Reason, removed);
+
+    return Result.toEntityResult({ ...interview, ...changes } as Interview);
+  }
+
+  /**
+   * Cancels an interview and sends the cancellation to the candidate and panel
+   */
+  async cancelAsync(
+    id: string,
+    model: CancelInterviewVm
+  ): Promise<Result<Interview>> {
+    const interview = await this.getScheduledInterview(id);
+
+    const changes: Partial<Interview> = {
+      Status: InterviewStatus.Cancelled,
+      Sequence: interview.Sequence + 1,
+      UpdatedOn: new Date(),
+      UpdatedBy: this.userId,
+    };
+    await this.repository.update(id, changes);
+
+    await this._applicationEventService.record(
+      { Uid: interview.ApplicationId, OrgId: interview.OrgId },
+      ApplicationEventType.InterviewCancelled,
+      `Interview cancelled: ${interview.Title}`,
+      { InterviewId: id, Reason: model?.Reason ?? null }
+    );
+
+    this.notify(id, 'CANCEL', InterviewStatus.Cancelled, model?.Reason);
+
+    return Result.toEntityResult({ ...interview, ...changes } as Interview);
+  }
+
+  /**
+   * Marks an interview that has started as completed
+   */
+  async completeAsync(id: string): Promise<Result<Interview>> {
+    const interview = await this.getScheduledInterview(id);
+    if (new Date(interview.StartTime) > new Date()) {
+      throw new ValidationError('Interview has not started yet');
+    }
+
+    const changes: Partial<Interview> = {
+      Status: InterviewStatus.Completed,
+      UpdatedOn: new Date(),
+      UpdatedBy: this.userId,
+    };
+    await this.repository.update(id, changes);
+
+    return Result.toEntityResult({ ...interview, ...changes } as Interview);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // BOOKING
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Schedules an interview inside the caller's transaction, e.g. a candidate booking
+   * through a scheduling link
+   * @remarks
+   * The panelists' user rows are locked before the availability check, so concurrent
+   * bookings for the same panel are serialized and cannot both succeed.
+   * Call sendInvitation once the transaction has committed.
+   * @throws ValidationError if a panelist already has an interview at this time
+   */
+  async scheduleInTransaction(
+    model: InterviewVm,
+    orgId: string,
+    createdBy: string,
+    trx: import('knex').Knex.Transaction
+  ): Promise<Interview> {
+    const panelistIds = [...new Set(model.PanelistIds)];
+    await this.getPanelists(panelistIds, orgId);
+    await this.lockPanel(panelistIds, trx);
+
+    const interview = new Interview();
+    interview.Uid = Utility.generateUUID();
+    interview.OrgId = orgId;
+    interview.ApplicationId = model.ApplicationId;
+    interview.Title = model.Title.trim();
+    interview.StartTime = new Date(model.StartTime);
+    interview.EndTime = new Date(model.EndTime);
+    interview.Timezone = model.Timezone || 'UTC';
+    interview.Location = model.Location?.trim() || null;
+    interview.MeetingLink = model.MeetingLink?.trim() || null;
+    interview.Notes = model.Notes?.trim() || null;
+    interview.Status = InterviewStatus.Scheduled;
+    interview.Sequence = 0;
+    interview.CreatedOn = new Date();
+    interview.CreatedBy = createdBy;
+
+    const conflicts = await this.getBusyIntervals(
+      panelistIds,
+      interview.StartTime,
+      interview.EndTime,
+      null,
+      orgId
+    );
+    if (conflicts.length) {
+      throw new ValidationError('The panel is no longer available at this time');
+    }
+
+    await this.unitOfWork
+      .getTransactionalRepository<Interview>(TableNames.Interview, trx)
+      .create(interview);
+    await this.savePanelists(interview, panelistIds, trx);
+
+    return interview;
+  }
+
+  /**
+   * Sends the invitations of an interview scheduled with scheduleInTransaction
+   */
+  sendInvitation(interview: Interview): void {
+    this.notify(interview.Uid, 'REQUEST', InterviewStatus.Scheduled, null, [], interview.OrgId);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // READ OPERATIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get an interview with its candidate and panel
+   */
+  override async getByIdAsync(id: string): Promise<Result<InterviewResult>> {
+    await this.getInterview(id, Permission.ApplicationRead);
+    return Result.toEntityResult(await this.getDetails(id, this.tenantId));
+  }
+
+  /**
+   * Get the interviews of an application with their panels, in chronological order
+   */
+  async getByApplicationAsync(
+    applicationId: string
+  ): Promise<Result<InterviewResult[]>> {
+    await this.getApplication(applicationId, Permission.ApplicationRead);
+
+    const interviews = (await this.repository
+      .queryActive()
+      .select('Uid')
+      .where({ ApplicationId: applicationId, OrgId: this.tenantId })
+      .orderBy('StartTime', 'asc')) as Interview[];
+
+    const results: InterviewResult[] = [];
+    for (const interview of interviews) {
+      results.push(await this.getDetails(interview.Uid, this.tenantId));
+    }
+
+    return Result.toEntityResult(results);
+  }
+
+  /**
+   * Get the scheduled interviews of users that overlap a period
+   * @param excludeInterviewId Interview ignored, e.g. the one being rescheduled
+   */
+  async getBusyIntervals(
+    userIds: string[],
+    from: Date,
+    to: Date,
+    excludeInterviewId: string | null = null,
+    orgId: string = this.tenantId
+  ): Promise<{ UserId: string; InterviewId: string; StartTime: Date; EndTime: Date }[]> {
+    if (!userIds.length) return [];
+
+    const rows = await this.unitOfWork.raw<
+      { UserId: string; InterviewId: string; StartTime: Date; EndTime: Date }[]
+    >(
+      `
+      SELECT p.UserId, i.Uid AS InterviewId, i.StartTime, i.EndTime
+      FROM ${TableNames.InterviewPanelist} p
+      INNER JOIN ${TableNames.Interview} i ON i.Uid = p.InterviewId
+      WHERE p.OrgId = ? AND p.IsDeleted = 0 AND i.IsDeleted = 0
+        AND i.Status = ?
+        AND p.UserId IN (${userIds.map(() => '?').join(', ')})
+        AND i.StartTime < ? AND i.EndTime > ?
+        AND i.Uid <> ?
+      ORDER BY i.StartTime ASC
+      `,
+      [
+        orgId,
+        InterviewStatus.Scheduled,
+        ...userIds,
+        to,
+        from,
+        excludeInterviewId ?? '',
+      ]
+    );
+
+    return rows.map((row) => ({
+      ...row,
+      StartTime: new Date(row.StartTime),
+      EndTime: new Date(row.EndTime),
+    }));
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // NOTIFICATIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Sends the invitation, update or cancellation without blocking the request
+   * @param removedPanelistIds Former panelists, who receive a cancellation
+   */
+  private notify(
+    id: string,
+    method: CalendarMethod,
+    change: InterviewStatus | 'Rescheduled',
+    reason?: string | null,
+    removedPanelistIds: string[] = [],
+    orgId: string = this.tenantId
+  ): void {
+    this.sendNotifications(id, orgId, method, change, reason ?? null, removedPanelistIds).catch(
+      (error) => {
+        logger.error('Failed to send interview emails', {
+          InterviewId: id,
+          Error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    );
+  }
+
+  private async sendNotifications(
+    id: string,
+    orgId: string,
+    method: CalendarMethod,
+    change: InterviewStatus | 'Rescheduled',
+    reason: string | null,
+    removedPanelistIds: string[]
+  ): Promise<void> {
+    const interview = await this.getDetails(id, orgId);
+    const ics = this.toCalendar(interview, method);
+    const display = this.toDisplay(interview);
+    const heading = `Interview ${change}`;
+    const reasonText = reason ? ` Reason: ${reason}` : '';
+    const [organization] = await this.unitOfWork.raw<{ Phone: string | null }[]>(
+      `SELECT Phone FROM ${TableNames.Organization} WHERE Uid = ?`,
+      [orgId]
+    );
+
+    // Candidate
+    const candidateEmail: EmailOptions = {
+      To: [{ Email: interview.CandidateEmail, Name: interview.CandidateName }],
+      Subject: `${heading} - ${interview.PositionName ?? interview.Title}`,
+      Html:
+        change === InterviewStatus.Scheduled
+          ? TemplateHelper.getInterviewInvitationTemplate({
+              candidateName: TemplateHelper.escapeHtml(interview.CandidateName),
+              positionTitle: TemplateHelper.escapeHtml(display.positionTitle),
+              interviewDate: display.interviewDate,
+              interviewTime: display.interviewTime,
+              duration: display.duration,
+              location: TemplateHelper.escapeHtml(display.location),
+              interviewer: TemplateHelper.escapeHtml(
+                interview.Panelists.map((p) => p.Name ?? p.Email).join(', ')
+              ),
+              contactPhone: TemplateHelper.escapeHtml(organization?.Phone ?? ''),
+              confirmUrl: interview.MeetingLink ?? `mailto:${config.MAIL_FROM ?? ''}`,
+            })
+          : TemplateHelper.getInterviewUpdateTemplate({
+              userName: interview.CandidateName,
+              heading,
+              message: `Your interview has been ${change.toLowerCase()}.${reasonText}`,
+              candidateName: interview.CandidateName,
+              ...display,
+            }),
+      Attachments: [this.toAttachment(ics, method)],
+    };
+
+    if (interview.CandidateEmail) {
+      const result = await this._mailService.send(candidateEmail);
+      await this._applicationEventService.recordEmail(
+        { Uid: interview.ApplicationId, OrgId: orgId },
+        candidateEmail,
+        result
+      );
+    }
+
+    // Panel
+    for (const panelist of interview.Panelists) {
+      await this.sendPanelEmail(
+        panelist,
+        interview,
+        heading,
+        `You are on the panel of an interview that has been ${change.toLowerCase()}.${reasonText}`,
+        ics,
+        method
+      );
+    }
+
+    // Former panelists
+    if (removedPanelistIds.length) {
+      const removed = await this.getPanelists(removedPanelistIds, orgId, false);
+      const cancellation = this.toCalendar({ ...interview, Panelists: removed }, 'CANCEL');
+      for (const panelist of removed) {
+        await this.sendPanelEmail(
+          panelist,
+          interview,
+          'Removed From Interview Panel',
+          'You are no longer on the panel of this interview.',
+          cancellation,
+          'CANCEL'
+        );
+      }
+    }
+  }
+
+  private async sendPanelEmail(
+    panelist: InterviewPanelistResult,
+    interview: InterviewResult,
+    heading: string,
+    message: string,
+    ics: string,
+    method: CalendarMethod
+  ): Promise<void> {
+    await this._mailService.send({
+      To: [{ Email: panelist.Email, Name: panelist.Name ?? undefined }],
+      Subject: `${heading} - ${interview.CandidateName}`,
+      Html: TemplateHelper.getInterviewUpdateTemplate({
+        userName: panelist.Name ?? panelist.Email,
+        heading,
+        message,
+        candidateName: interview.CandidateName,
+        ...this.toDisplay(interview),
+      }),
+      Attachments: [this.toAttachment(ics, method)],
+    });
+  }
+
+  private toCalendar(interview: InterviewResult, method: CalendarMethod): string {
+    return CalendarHelper.createEvent(
+      {
+        Uid: `${interview.Uid}@recruitment-system`,
+        Sequence: interview.Sequence,
+        Start: new Date(interview.StartTime),
+        End: new Date(interview.EndTime),
+        Summary: `${interview.Title} - ${interview.CandidateName}`,
+        Description: interview.MeetingLink
+          ? `Join: ${interview.MeetingLink}`
+          : interview.Notes,
+        Location: interview.Location ?? interview.MeetingLink,
+        Url: interview.MeetingLink,
+        Organizer: { Email: config.MAIL_FROM ?? '', Name: config.MAIL_FROM_NAME },
+        Attendees: [
+          { Email: interview.CandidateEmail, Name: interview.CandidateName },
+          ...interview.Panelists.map((p) => ({ Email: p.Email, Name: p.Name })),
+        ].filter((attendee) => attendee.Email),
+      },
+      method
+    );
+  }
+
+  private toAttachment(ics: string, method: CalendarMethod) {
+    return {
+      Filename: method === 'CANCEL' ? 'cancel.ics' : 'invite.ics',
+      Content: Buffer.from(ics, 'utf8'),
+      ContentType: `text/calendar; charset=utf-8; method=${method}`,
+    };
+  }
+
+  /**
+   * Formats an interview for emails in the interview's timezone
+   */
+  private toDisplay(interview: InterviewResult) {
+    const start = new Date(interview.StartTime);
+    const end = new Date(interview.EndTime);
+    const minutes = Math.round((end.getTime() - start.getTime()) / 60000);
+
+    return {
+      positionTitle: interview.PositionName ?? interview.Title,
+      interviewDate: DateHelper.format(start, 'full', 'en-US', interview.Timezone),
+      interviewTime: `${DateHelper.format(start, 'time', 'en-US', interview.Timezone)} - ${DateHelper.format(end, 'time', 'en-US', interview.Timezone)} (${interview.Timezone})`,
+      duration: `${minutes} minutes`,
+      location: interview.Location ?? interview.MeetingLink ?? 'To be confirmed',
+    };
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  private async getDetails(id: string, orgId: string): Promise<InterviewResult> {
+    const [interview] = await this.unitOfWork.raw<InterviewResult[]>(
+      `
+      SELECT
+        i.*,
+        a.FullName AS CandidateName,
+        a.Email AS CandidateEmail,
+        p.Name AS PositionName
+      FROM ${TableNames.Interview} i
+      INNER JOIN ${TableNames.Application} a ON a.Uid = i.ApplicationId
+      LEFT JOIN ${TableNames.Position} p ON p.Uid = a.PositionId
+      WHERE i.Uid = ? AND i.OrgId = ? AND i.IsDeleted = 0
+      `,
+      [id, orgId]
+    );
+
+    if (interview == null) {
+      throw new NotFoundError('Interview not found');
+    }
+
+    interview.Panelists = await this.getPanelists(
+      await this.getPanelistIds(id, orgId),
+      orgId,
+      false
+    );
+
+    return interview;
+  }
+
+  private async getInterview(id: string, permission: Permission): Promise<Interview> {
+    const interview = await this.repository.findById(id, this.tenantId);
+    if (interview == null) {
+      throw new NotFoundError('Interview not found');
+    }
+    await this.assertPermission(permission, interview);
+    return interview;
+  }
+
+  private async getScheduledInterview(id: string): Promise<Interview> {
+    const interview = await this.getInterview(id, Permission.ApplicationWrite);
+    if (interview.Status !== InterviewStatus.Scheduled) {
+      throw new ValidationError(`Interview is ${interview.Status.toLowerCase()}`);
+    }
+    return interview;
+  }
+
+  /**
+   * Get an application the caller has a permission on
+   */
+  private async getApplication(
+    id: string,
+    permission: Permission
+  ): Promise<Application> {
+    const application = await this.getOtherRepository<Application>(
+      TableNames.Application
+    ).findById(id, this.tenantId);
+
+    if (application == null) {
+      throw new NotFoundError('Application not found');
+    }
+    await this.permissionService.assertPermission(permission, application);
+
+    return application;
+  }
+
+  private async getPanelistIds(
+    interviewId: string,
+    orgId: string = this.tenantId
+  ): Promise<string[]> {
+    const panelists = await this.getOtherRepository<InterviewPanelist>(
+      TableNames.InterviewPanelist
+    ).findWhere({ InterviewId: interviewId }, orgId);
+
+    return panelists.map((p) => p.UserId);
+  }
+
+  /**
+   * Get users of the organization by id
+   * @param strict Throw when a user is not found
+   * @throws ValidationError listing the users that are not in the organization
+   */
+  private async getPanelists(
+    userIds: string[],
+    orgId: string = this.tenantId,
+    strict: boolean = true
+  ): Promise<InterviewPanelistResult[]> {
+    if (!userIds.length) return [];
+
+    const users = await this.unitOfWork.raw<InterviewPanelistResult[]>(
+      `
+      SELECT
+        u.Uid AS UserId, u.Email,
+        NULLIF(TRIM(CONCAT(COALESCE(ui.FirstName, ''), ' ', COALESCE(ui.LastName, ''))), '') AS Name
+      FROM ${TableNames.User} u
+      LEFT JOIN ${TableNames.UserInfo} ui ON ui.UserId = u.Uid AND ui.IsDeleted = 0
+      WHERE u.OrgId = ? AND u.IsDeleted = 0 AND u.Uid IN (${userIds.map(() => '?').join(', ')})
+      `,
+      [orgId, ...userIds]
+    );
+
+    const missing = userIds.filter((id) => !users.some((u) => u.UserId === id));
+    if (strict && missing.length) {
+      throw new ValidationError(`Panelists not found: ${missing.join(', ')}`);
+    }
+
+    return users;
+  }
+
+  /**
+   * Replaces the panel of an interview
+   */
+  private async savePanelists(
+    interview: Interview,
+    userIds: string[],
+    trx?: import('knex').Knex.Transaction
+  ): Promise<void> {
+    const save = async (transaction: import('knex').Knex.Transaction) => {
+      await transaction(TableNames.InterviewPanelist)
+        .where({ InterviewId: interview.Uid, OrgId: interview.OrgId })
+        .delete();
+
+      await this.unitOfWork
+        .getTransactionalRepository<InterviewPanelist>(
+          TableNames.InterviewPanelist,
+          transaction
+        )
+        .createMany(
+          userIds.map((userId) => {
+            const panelist = new InterviewPanelist();
+            panelist.Uid = Utility.generateUUID();
+            panelist.OrgId = interview.OrgId;
+            panelist.InterviewId = interview.Uid;
+            panelist.UserId = userId;
+            panelist.CreatedOn = new Date();
+            panelist.CreatedBy = this.userId;
+            return panelist;
+          })
+        );
+    };
+
+    if (trx) {
+      await save(trx);
+    } else {
+      await this.transaction(save);
+    }
+  }
+
+  /**
+   * Locks the panelists' user rows until the transaction ends
+   * Rows are locked in Uid order so concurrent schedules cannot deadlock
+   */
+  private async lockPanel(
+    userIds: string[],
+    trx: import('knex').Knex.Transaction
+  ): Promise<void> {
+    await trx(TableNames.User)
+      .select('Uid')
+      .whereIn('Uid', [...userIds].sort())
+      .orderBy('Uid')
+      .forUpdate();
+  }
+
+  /**
+   * @throws ValidationError if a panelist has another interview in the period
+   */
+  private async assertPanelAvailable(
+    userIds: string[],
+    start: Date,
+    end: Date,
+    excludeInterviewId: string | null = null
+  ): Promise<void> {
+    const conflicts = await this.getBusyIntervals(userIds, start, end, excludeInterviewId);
+    if (conflicts.length) {
+      throw new ValidationError(
+        `Panelists already have an interview at this time: ${[
+          ...new Set(conflicts.map((c) => c.UserId)),
+        ].join(', ')}`
+      );
+    }
+  }
+
+  private validateTimes(startValue: Date | string, endValue: Date | string): void {
+    const start = new Date(startValue);
+    const end = new Date(endValue);
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      throw new ValidationError('StartTime and EndTime must be valid date-times');
+    }
+    if (end <= start) {
+      throw new ValidationError('EndTime must be after StartTime');
+    }
+    if (start < new Date()) {
+      throw new ValidationError('Interviews cannot be scheduled in the past');
+    }
+    if (end.getTime() - start.getTime() > MAX_DURATION_MINUTES * 60000) {
+      throw new ValidationError(
+        `Interviews can last at most ${MAX_DURATION_MINUTES / 60} hours`
+      );
+    }
+  }
+
+  private validateTimezone(timezone: string | undefined): void {
+    if (!timezone) return;
+
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    } catch {
+      throw new ValidationError(`Unknown timezone '${timezone}'`);
+    }
+  }
+
+  private validateMeetingLink(link: string | null | undefined): void {
+    if (!link?.trim()?.length) return;
+
+    try {
+      const url = new URL(link.trim());
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') throw new Error();
+    } catch {
+      throw new ValidationError('MeetingLink must be an http(s) URL');
+    }
+  }
+}
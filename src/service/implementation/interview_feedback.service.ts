@@ -0,0 +1,442 @@
+import { inject, injectable } from 'inversify';
+import { TYPES } from '@/core/container/types';
+import { InterviewFeedback } from '@/data/entities/interview_feedback';
+import { Interview } from '@/data/entities/interview';
+import { InterviewPanelist } from '@/data/entities/interview_panelist';
+import { Application } from '@/data/entities/application';
+import { Positions } from '@/data/entities/positions';
+import { TableNames } from '@/database/tables';
+import { IUnitOfWork } from '@/repository';
+import { CallerService } from '../caller/caller.service';
+import { BaseService } from '../base/base.service';
+import { Result } from '@/data/response/response';
+import { Utility } from '@/core/utils/common.utils';
+import { ValidationError } from '@/middleware/errors/validation.error';
+import { NotFoundError } from '@/middleware/errors/notFound.error';
+import { Permission } from '@/data/enums/permission';
+import { FieldType } from '@/data/enums/field_type';
+import { FeedbackRecommendation } from '@/data/enums/feedback_recommendation';
+import { InterviewFeedbackVm } from '@/data/models/InterviewFeedbackVm';
+import {
+  FeedbackQuestionResult,
+  FeedbackSummaryResult,
+  InterviewFeedbackResult,
+} from '@/data/results/interview_feedback_result';
+import { FormTemplateSnapshotResult } from '@/data/results/form_template_version_result';
+import { FormValidationHelper } from '@/core/helper/form-validation.helper';
+import { FormTemplateVersionService } from './form_template_version.service';
+
+/**
+ * Question types averaged in the feedback summary
+ */
+const NUMERIC_TYPES = [FieldType.Number, FieldType.Range, FieldType.Price];
+
+/**
+ * Question types whose answers are counted in the feedback summary
+ */
+const CHOICE_TYPES = [
+  FieldType.Select,
+  FieldType.Radio,
+  FieldType.MultiSelect,
+  FieldType.Checkbox,
+];
+
+/**
+ * Interviewer scorecards filled in against the position's Feedback form template
+ * @remarks
+ * Each interviewer submits at most one scorecard per application and round, and
+ * only the author can change or delete it. Answers are validated like application
+ * forms and stay tied to the form version they were submitted against.
+ */
+@injectable()
+export class InterviewFeedbackService extends BaseService<
+  InterviewFeedback,
+  InterviewFeedbackVm
+> {
+  private readonly _formTemplateVersionService: FormTemplateVersionService;
+
+  protected override readonly permissions = {
+    Read: Permission.ApplicationRead,
+    Write: Permission.ApplicationWrite,
+  };
+  protected override readonly applicationColumn = 'ApplicationId';
+
+  constructor(
+    @inject(TYPES.UnitOfWork) unitOfWork: IUnitOfWork,
+    @inject(TYPES.Caller) callerService: CallerService,
+    @inject(TYPES.FormTemplateVersionService)
+    formTemplateVersionService: FormTemplateVersionService
+  ) {
+    super(
+      unitOfWork,
+      callerService,
+      TableNames.InterviewFeedback,
+      InterviewFeedback
+    );
+    this._formTemplateVersionService = formTemplateVersionService;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // VALIDATION
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  override async validateAdd(model: InterviewFeedbackVm): Promise<void> {
+    if (!model?.ApplicationId?.length) {
+      throw new ValidationError('ApplicationId is required');
+    }
+    this.validateRecommendation(model.Recommendation);
+    this.validateAnswerObject(model.Answers);
+  }
+
+  override async validateUpdate(model: InterviewFeedbackVm): Promise<void> {
+    this.validateRecommendation(model?.Recommendation);
+    this.validateAnswerObject(model.Answers);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // SUBMIT
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Resolves the round, checks the caller was on the interview panel and
+   * validates the answers against the published feedback form
+   * @throws ValidationError if the caller already submitted feedback for the round
+   */
+  override async preAddOperation(
+    model: InterviewFeedbackVm,
+    entity: InterviewFeedback
+  ): Promise<void> {
+    await super.preAddOperation(model, entity);
+
+    const application = await this.getApplication(
+      model.ApplicationId,
+      Permission.ApplicationWrite
+    );
+    let round = model.Round?.trim() ?? '';
+
+    if (model.InterviewId) {
+      const interview = await this.getInterview(model.InterviewId, application.Uid);
+      round = round || interview.Title;
+    }
+    if (!round.length) {
+      throw new ValidationError('Round is required');
+    }
+
+    const existing = await this.repository.findOneWhere(
+      { ApplicationId: application.Uid, Round: round, CreatedBy: this.userId },
+      this.tenantId
+    );
+    if (existing) {
+      throw new ValidationError(
+        `You have already submitted feedback for the ${round} round`
+      );
+    }
+
+    const form = await this.getFeedbackForm(application);
+    this.validateAnswers(model.Answers, form);
+
+    entity.ApplicationId = application.Uid;
+    entity.InterviewId = model.InterviewId || null;
+    entity.Round = round;
+    entity.FormTemplateVersionId = form.FormTemplateVersionId;
+    entity.Answers = JSON.stringify(model.Answers);
+    entity.Comment = model.Comment?.trim() || null;
+  }
+
+  /**
+   * The application, interview, round and form version are fixed at submission
+   */
+  protected override mergeModelToEntity(
+    model: InterviewFeedbackVm,
+    entity: InterviewFeedback
+  ): void {
+    const { ApplicationId, InterviewId, Round, FormTemplateVersionId } = entity;
+    super.mergeModelToEntity(model, entity);
+    entity.ApplicationId = ApplicationId;
+    entity.InterviewId = InterviewId;
+    entity.Round = Round;
+    entity.FormTemplateVersionId = FormTemplateVersionId;
+    entity.Answers = JSON.stringify(model.Answers);
+    entity.Comment = model.Comment?.trim() || null;
+  }
+
+  /**
+   * Only the interviewer can change their feedback
+   * Answers are validated against the form version of the original submission
+   */
+  override async preUpdateOperation(
+    model: InterviewFeedbackVm,
+    entity: InterviewFeedback
+  ): Promise<void> {
+    await super.preUpdateOperation(model, entity);
+
+    if (entity.CreatedBy !== this.userId) {
+      throw new ValidationError('Only the interviewer can change their feedback');
+    }
+
+    const form = entity.FormTemplateVersionId
+      ? await this._formTemplateVersionService.getSnapshotById(
+          entity.FormTemplateVersionId,
+          this.tenantId
+        )
+      : await this.getFeedbackForm(
+          await this.getApplication(entity.ApplicationId, Permission.ApplicationWrite)
+        );
+    if (form) {
+      this.validateAnswers(model.Answers, form);
+    }
+  }
+
+  /**
+   * Only the interviewer can delete their feedback
+   */
+  override async deleteAsync(id: string): Promise<boolean> {
+    const feedback = await this.repository.findById(id, this.tenantId);
+    if (feedback == null) {
+      throw new NotFoundError('Feedback not found');
+    }
+    if (feedback.CreatedBy !== this.userId) {
+      throw new ValidationError('Only the interviewer can delete their feedback');
+    }
+    await this.assertPermission(this.permissions.Write, feedback);
+
+    return await this.repository.softDelete(id);
+  }
+
+  override async hardDeleteAsync(id: string): Promise<boolean> {
+    return await this.deleteAsync(id);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // READ OPERATIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get the feedback form interviewers fill in for an application
+   */
+  async getFormAsync(
+    applicationId: string
+  ): Promise<Result<FormTemplateSnapshotResult>> {
+    const application = await this.getApplication(
+      applicationId,
+      Permission.ApplicationRead
+    );
+    return Result.toEntityResult(await this.getFeedbackForm(application));
+  }
+
+  /**
+   * Get the feedback of an application with per-question averages and the
+   * hire/no-hire tally
+   * @param round Only include feedback of this round
+   */
+  async getSummaryAsync(
+    applicationId: string,
+    round?: string
+  ): Promise<Result<FeedbackSummaryResult>> {
+    await this.getApplication(applicationId, Permission.ApplicationRead);
+
+    const conditions = ['f.ApplicationId = ?', 'f.OrgId = ?', 'f.IsDeleted = 0'];
+    const bindings: unknown[] = [applicationId, this.tenantId];
+    if (round?.trim()) {
+      conditions.push('f.Round = ?');
+      bindings.push(round.trim());
+    }
+
+    const feedback = await this.unitOfWork.raw<InterviewFeedbackResult[]>(
+      `
+      SELECT
+        f.*,
+        u.Email AS InterviewerEmail,
+        NULLIF(TRIM(CONCAT(COALESCE(ui.FirstName, ''), ' ', COALESCE(ui.LastName, ''))), '') AS InterviewerName
+      FROM ${TableNames.InterviewFeedback} f
+      LEFT JOIN ${TableNames.User} u ON u.Uid = f.CreatedBy
+      LEFT JOIN ${TableNames.UserInfo} ui ON ui.UserId = f.CreatedBy AND ui.IsDeleted = 0
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY f.CreatedOn ASC
+      `,
+      bindings
+    );
+
+    const summary = new FeedbackSummaryResult();
+    summary.ApplicationId = applicationId;
+    summary.Feedback = feedback;
+    summary.FeedbackCount = feedback.length;
+    summary.Rounds = [...new Set(feedback.map((f) => f.Round))];
+    summary.Recommendations = Object.fromEntries(
+      Object.values(FeedbackRecommendation).map((value) => [
+        value,
+        feedback.filter((f) => f.Recommendation === value).length,
+      ])
+    );
+    summary.HireCount =
+      summary.Recommendations[FeedbackRecommendation.Hire] +
+      summary.Recommendations[FeedbackRecommendation.StrongHire];
+    summary.NoHireCount =
+      summary.Recommendations[FeedbackRecommendation.NoHire] +
+      summary.Recommendations[FeedbackRecommendation.StrongNoHire];
+    summary.Questions = await this.summarizeQuestions(feedback);
+
+    return Result.toEntityResult(summary);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Aggregates the answers by question
+   * Questions come from the form versions the feedback was submitted against,
+   * with the label of the newest version
+   */
+  private async summarizeQuestions(
+    feedback: InterviewFeedback[]
+  ): Promise<FeedbackQuestionResult[]> {
+    const versionIds = [
+      ...new Set(
+        feedback
+          .map((f) => f.FormTemplateVersionId)
+          .filter((id): id is string => !!id)
+      ),
+    ];
+
+    const fields = new Map<string, { Label: string; Type: FieldType }>();
+    const forms: FormTemplateSnapshotResult[] = [];
+    for (const versionId of versionIds) {
+      const form = await this._formTemplateVersionService.getSnapshotById(
+        versionId,
+        this.tenantId
+      );
+      if (form) forms.push(form);
+    }
+    forms.sort((a, b) => Number(a.Version ?? 0) - Number(b.Version ?? 0));
+    for (const form of forms) {
+      for (const field of FormValidationHelper.getFields(form)) {
+        fields.set(field.Name, {
+          Label: field.Label || field.Name,
+          Type: Number(field.Type) as FieldType,
+        });
+      }
+    }
+
+    const answers = feedback.map((f) =>
+      Utility.safeJsonParse<Record<string, unknown>>(f.Answers || '{}', {})
+    );
+
+    return [...fields.entries()].map(([name, field]) => {
+      const values = answers
+        .map((a) => a?.[name])
+        .filter((value) => value !== undefined && value !== null && value !== '');
+
+      const question = new FeedbackQuestionResult();
+      question.Name = name;
+      question.Label = field.Label;
+      question.Type = field.Type;
+      question.ResponseCount = values.length;
+
+      if (NUMERIC_TYPES.includes(field.Type)) {
+        const numbers = values.map(Number).filter((n) => !isNaN(n));
+        question.Average = numbers.length
+          ? Math.round((numbers.reduce((sum, n) => sum + n, 0) / numbers.length) * 100) / 100
+          : null;
+      } else if (CHOICE_TYPES.includes(field.Type)) {
+        question.Counts = {};
+        for (const value of values.flatMap((v) => (Array.isArray(v) ? v : [v]))) {
+          const key = String(value);
+          question.Counts[key] = (question.Counts[key] ?? 0) + 1;
+        }
+      }
+
+      return question;
+    });
+  }
+
+  /**
+   * Get the published feedback form of the application's position
+   * @throws ValidationError if the position has no feedback template
+   */
+  private async getFeedbackForm(
+    application: Application
+  ): Promise<FormTemplateSnapshotResult> {
+    const position = await this.getOtherRepository<Positions>(
+      TableNames.Position
+    ).findById(application.PositionId, application.OrgId);
+
+    const form = position?.FeedbackTemplateId
+      ? await this._formTemplateVersionService.getPublishedForm(
+          position.FeedbackTemplateId,
+          application.OrgId
+        )
+      : null;
+
+    if (form == null) {
+      throw new ValidationError('The position has no feedback template');
+    }
+
+    return form;
+  }
+
+  private validateAnswers(
+    answers: Record<string, unknown>,
+    form: FormTemplateSnapshotResult
+  ): void {
+    const errors = FormValidationHelper.validate(form, answers);
+    if (Object.keys(errors).length) {
+      throw new ValidationError('Feedback form is invalid', errors);
+    }
+  }
+
+  private validateAnswerObject(answers: unknown): void {
+    if (answers == null || typeof answers !== 'object' || Array.isArray(answers)) {
+      throw new ValidationError('Answers must be a JSON object');
+    }
+  }
+
+  private validateRecommendation(value: unknown): void {
+    if (!Object.values(FeedbackRecommendation).includes(value as FeedbackRecommendation)) {
+      throw new ValidationError(
+        `Recommendation must be one of: ${Object.values(FeedbackRecommendation).join(', ')}`
+      );
+    }
+  }
+
+  /**
+   * Get an application the caller has a permission on
+   */
+  private async getApplication(
+    id: string,
+    permission: Permission
+  ): Promise<Application> {
+    const application = await this.getOtherRepository<Application>(
+      TableNames.Application
+    ).findById(id, this.tenantId);
+
+    if (application == null) {
+      throw new NotFoundError('Application not found');
+    }
+    await this.permissionService.assertPermission(permission, application);
+
+    return application;
+  }
+
+  /**
+   * @throws ValidationError if the caller was not on the interview panel
+   */
+  private async getInterview(id: string, applicationId: string): Promise<Interview> {
+    const interview = await this.getOtherRepository<Interview>(
+      TableNames.Interview
+    ).findById(id, this.tenantId);
+
+    if (interview == null || interview.ApplicationId !== applicationId) {
+      throw new NotFoundError('Interview not found');
+    }
+
+    const panelist = await this.getOtherRepository<InterviewPanelist>(
+      TableNames.InterviewPanelist
+    ).findOneWhere({ InterviewId: id, UserId: this.userId }, this.tenantId);
+    if (panelist == null) {
+      throw new ValidationError('Only panelists of the interview can submit feedback for it');
+    }
+
+    return interview;
+  }
+}
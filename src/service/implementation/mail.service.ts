@@ -0,0 +1,73 @@
+import { injectable } from 'inversify';
+import { config } from '@/core/config/environment';
+import { logger } from '@/core/utils/logger.utils';
+import {
+  EmailOptions,
+  EmailResult,
+  EmailService,
+  NodemailerConfig,
+  ProviderType,
+  RetryOptions,
+} from '@/email';
+
+@injectable()
+export class MailService {
+  /**
+   * Whether outgoing mail has been configured for this environment
+   */
+  get isConfigured(): boolean {
+    return !!(config.SMTP_HOST && config.SMTP_USER && config.MAIL_FROM);
+  }
+
+  /**
+   * Sends an email using the SMTP settings from the environment
+   * @param options Email options (recipients, subject, body, attachments)
+   * @param retryOptions Optional retry configuration
+   * @returns EmailResult - failures are returned rather than thrown so that
+   * callers can record them without interrupting the request
+   */
+  async send(
+    options: EmailOptions,
+    retryOptions: RetryOptions = { MaxAttempts: 2, InitialDelayMs: 1000 }
+  ): Promise<EmailResult> {
+    if (!this.isConfigured) {
+      logger.warn('Email not sent: SMTP is not configured', {
+        Subject: options.Subject,
+      });
+      return this.toFailedResult('SMTP is not configured');
+    }
+
+    try {
+      return await EmailService.sendSingleEmail(
+        new NodemailerConfig({
+          Host: config.SMTP_HOST!,
+          Port: config.SMTP_PORT,
+          Secure: config.SMTP_SECURE,
+          User: config.SMTP_USER!,
+          Password: config.SMTP_PASSWORD ?? '',
+          From: config.MAIL_FROM!,
+          FromName: config.MAIL_FROM_NAME,
+        }),
+        options,
+        retryOptions
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('Failed to send email', {
+        Subject: options.Subject,
+        Error: message,
+      });
+      return this.toFailedResult(message);
+    }
+  }
+
+  private toFailedResult(error: string): EmailResult {
+    return {
+      Success: false,
+      SentAt: new Date(),
+      Provider: ProviderType.Nodemailer,
+      RetryAttempts: 0,
+      Error: error,
+    };
+  }
+}
@@ -0,0 +1,680 @@
+import { inject, injectable } from 'inversify';
+import { TYPES } from '@/core/container/types';
+import { Offer } from '@/data/entities/offer';
+import { Application } from '@/data/entities/application';
+import { EmailTemplate } from '@/data/entities/email_template';
+import { TableNames } from '@/database/tables';
+import { IUnitOfWork } from '@/repository';
+import { CallerService } from '../caller/caller.service';
+import { BaseService } from '../base/base.service';
+import { Result } from '@/data/response/response';
+import { config } from '@/core/config/environment';
+import { DateHelper } from '@/core/utils/date.utils';
+import { Security } from '@/core/utils/security.utils';
+import { logger } from '@/core/utils/logger.utils';
+import { ValidationError } from '@/middleware/errors/validation.error';
+import { NotFoundError } from '@/middleware/errors/notFound.error';
+import { Permission } from '@/data/enums/permission';
+import { UnAuthorizedError } from '@/middleware/errors/unauthorized.error.';
+import { ApplicationEventType } from '@/data/enums/application_event';
+import { ApprovalEntityType } from '@/data/enums/approval_entity_type';
+import { EmailTemplateType } from '@/data/enums/email_template';
+import { OfferStatus } from '@/data/enums/offer_status';
+import { OfferDecisionVm, OfferVm } from '@/data/models/OfferVm';
+import {
+  OfferLetterResult,
+  OfferResult,
+  PublicOfferResult,
+} from '@/data/results/offer_result';
+import { PdfHelper } from '@/core/helper/pdf.helper';
+import { TemplateHelper } from '@/core/helper/template.helper';
+import { EmailOptions } from '@/email';
+import { ApplicationEventService } from './application_event.service';
+import { ApprovalService } from './approval.service';
+import { MailService } from './mail.service';
+
+/**
+ * Statuses in which an offer can still be changed - changing it returns it to Draft
+ */
+const EDITABLE_STATUSES = [OfferStatus.Draft, OfferStatus.Rejected, OfferStatus.Approved];
+
+/**
+ * Statuses of offers that no longer block a new offer for the same application
+ */
+const CLOSED_STATUSES = [OfferStatus.Rejected, OfferStatus.Declined, OfferStatus.Expired];
+
+/**
+ * Candidate, position and organization details used in offer letters
+ */
+interface OfferDetails {
+  CandidateName: string;
+  CandidateEmail: string;
+  PositionName: string | null;
+  DepartmentName: string | null;
+  OrganizationName: string | null;
+}
+
+/**
+ * Job offers for applications
+ * @remarks
+ * An offer is drafted, submitted for approval through the org's Offer approval chain
+ * and, once approved, sent to the candidate with its letter as a PDF. The letter is rendered from the
+ * org's OfferLetter email template (or the default letter) with the {{variable}}
+ * placeholders of TemplateHelper.replaceVariables. The candidate accepts or declines
+ * through a tokenized link; the link stores the token's SHA-256. Sent offers past
+ * their expiry date are reported as Expired.
+ */
+@injectable()
+export class OfferService extends BaseService<Offer, OfferVm> {
+  private readonly _applicationEventService: ApplicationEventService;
+  private readonly _approvalService: ApprovalService;
+  private readonly _mailService: MailService;
+
+  protected override readonly permissions = {
+    Read: Permission.ApplicationRead,
+    Write: Permission.ApplicationWrite,
+  };
+  protected override readonly applicationColumn = 'ApplicationId';
+
+  constructor(
+    @inject(TYPES.UnitOfWork) unitOfWork: IUnitOfWork,
+    @inject(TYPES.Caller) callerService: CallerService,
+    @inject(TYPES.ApplicationEventService)
+    applicationEventService: ApplicationEventService,
+    @inject(TYPES.ApprovalService) approvalService: ApprovalService,
+    @inject(TYPES.MailService) mailService: MailService
+  ) {
+    super(unitOfWork, callerService, TableNames.Offer, Offer);
+    this._applicationEventService = applicationEventService;
+    this._approvalService = approvalService;
+    this._mailService = mailService;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // VALIDATION
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  override async validateAdd(model: OfferVm): Promise<void> {
+    if (!model?.ApplicationId?.length) {
+      throw new ValidationError('ApplicationId is required');
+    }
+    this.validateTerms(model);
+  }
+
+  override async validateUpdate(model: OfferVm): Promise<void> {
+    if (model == null) {
+      throw new ValidationError('Offer is required');
+    }
+    this.validateTerms(model);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // CREATE / UPDATE / DELETE
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Drafts an offer for an application
+   * @throws ValidationError if the application already has an open offer
+   */
+  override async createAsync(model: OfferVm): Promise<Result<OfferResult>> {
+    await this.validateAdd(model);
+
+    const application = await this.getApplication(
+      model.ApplicationId,
+      Permission.ApplicationWrite
+    );
+    const [open] = await this.unitOfWork.raw<{ Status: OfferStatus }[]>(
+      `
+      SELECT Status FROM ${TableNames.Offer}
+      WHERE ApplicationId = ? AND OrgId = ? AND IsDeleted = 0
+        AND Status NOT IN (${CLOSED_STATUSES.map(() => '?').join(', ')})
+      LIMIT 1
+      `,
+      [application.Uid, this.tenantId, ...CLOSED_STATUSES]
+    );
+    if (open) {
+      throw new ValidationError('The application already has an open offer');
+    }
+
+    if (model.TemplateId) await this.getTemplate(model.TemplateId);
+
+    const offer = this.toEntity(model);
+    await this.preAddOperation(model, offer);
+    Object.assign(offer, this.toTerms(model));
+    offer.ApplicationId = application.Uid;
+    offer.Status = OfferStatus.Draft;
+
+    await this.repository.create(offer);
+
+    return await this.getByIdAsync(offer.Uid);
+  }
+
+  /**
+   * Changes the terms of an offer that has not been sent
+   * The offer returns to Draft and must be approved again
+   */
+  override async updateAsync(model: OfferVm, id: string): Promise<Result<OfferResult>> {
+    await this.validateUpdate(model);
+
+    const offer = await this.getOffer(id, Permission.ApplicationWrite);
+    this.assertEditable(offer);
+    if (model.ApplicationId && model.ApplicationId !== offer.ApplicationId) {
+      throw new ValidationError('The application of an offer cannot be changed');
+    }
+
+    if (model.TemplateId) await this.getTemplate(model.TemplateId);
+
+    const changes: Partial<Offer> = {
+      ...this.toTerms(model),
+      Status: OfferStatus.Draft,
+      SubmittedOn: null,
+      ApprovedOn: null,
+      UpdatedOn: new Date(),
+      UpdatedBy: this.userId,
+    };
+
+    await this.repository.update(id, changes);
+
+    return await this.getByIdAsync(id);
+  }
+
+  /**
+   * Only offers that have not been sent can be deleted - a pending approval is cancelled
+   */
+  override async deleteAsync(id: string): Promise<boolean> {
+    const offer = await this.getOffer(id, Permission.ApplicationWrite);
+    if (offer.SentOn) {
+      throw new ValidationError('Sent offers cannot be deleted');
+    }
+    await this._approvalService.cancelAsync(ApprovalEntityType.Offer, id);
+    return await this.repository.softDelete(id);
+  }
+
+  override async hardDeleteAsync(id: string): Promise<boolean> {
+    return await this.deleteAsync(id);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // APPROVAL
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Submits an offer to the org's Offer approval chain
+   * Without a chain, the offer is approved immediately
+   */
+  async submitAsync(id: string): Promise<Result<OfferResult>> {
+    const offer = await this.getOffer(id, Permission.ApplicationWrite);
+    this.assertEditable(offer);
+    if (new Date(offer.ExpiresOn) <= new Date()) {
+      throw new ValidationError('ExpiresOn must be in the future');
+    }
+
+    const guarded = await this._approvalService.requiresApproval(ApprovalEntityType.Offer);
+    const now = new Date();
+    await this.repository.update(id, {
+      Status: guarded ? OfferStatus.PendingApproval : OfferStatus.Approved,
+      SubmittedOn: now,
+      ApprovedOn: guarded ? null : now,
+      UpdatedBy: this.userId,
+    });
+
+    if (guarded) {
+      const details = await this.getDetails(offer);
+      await this._approvalService.requestAsync(
+        ApprovalEntityType.Offer,
+        id,
+        'Send',
+        `Offer to ${details.CandidateName}` +
+          (details.PositionName ? ` for ${details.PositionName}` : '') +
+          `: ${this.formatSalary(offer.Salary)} ${offer.Currency}`
+      );
+    }
+
+    return await this.getByIdAsync(id);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // SEND / LETTER
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Sends an approved offer to the candidate with the letter attached
+   * @returns The offer, including the candidate's URL - the only time the URL is returned
+   * @throws ValidationError if the offer is not approved or has passed its expiry date
+   */
+  async sendAsync(id: string): Promise<Result<OfferResult>> {
+    const offer = await this.getOffer(id, Permission.ApplicationWrite);
+    if (offer.Status !== OfferStatus.Approved) {
+      throw new ValidationError('Only approved offers can be sent');
+    }
+    if (new Date(offer.ExpiresOn) <= new Date()) {
+      throw new ValidationError(
+        'The offer has passed its expiry date - change it and submit it for approval again'
+      );
+    }
+
+    const details = await this.getDetails(offer);
+    const letter = await this.renderLetter(offer, details);
+
+    const token = Security.generateToken();
+    const changes: Partial<Offer> = {
+      Status: OfferStatus.Sent,
+      SentOn: new Date(),
+      TokenHash: Security.hashToken(token),
+      UpdatedOn: new Date(),
+      UpdatedBy: this.userId,
+    };
+
+    // Only the first of concurrent sends is stored
+    const updated = await this.repository
+      .query()
+      .where({ Uid: id, Status: OfferStatus.Approved })
+      .update(changes);
+    if (!updated) {
+      throw new ValidationError('The offer has already been sent');
+    }
+
+    const sent = { ...offer, ...changes } as Offer;
+    await this._applicationEventService.record(
+      { Uid: offer.ApplicationId, OrgId: offer.OrgId },
+      ApplicationEventType.OfferSent,
+      `Offer sent: ${this.formatSalary(offer.Salary)} ${offer.Currency}, starting ${DateHelper.format(new Date(offer.StartDate), 'medium')}`,
+      { OfferId: id, Salary: Number(offer.Salary), Currency: offer.Currency }
+    );
+
+    const url = `${config.APP_URL}/offer/${token}`;
+    this.sendOffer(sent, details, letter, url);
+
+    const result = (await this.getByIdAsync(id)).Entity!;
+    result.Url = url;
+    return Result.toEntityResult(result);
+  }
+
+  /**
+   * Renders the offer letter to PDF
+   */
+  async getLetterAsync(id: string): Promise<OfferLetterResult> {
+    const offer = await this.getOffer(id, Permission.ApplicationRead);
+    const details = await this.getDetails(offer);
+    return this.toLetter(await this.renderLetter(offer, details), details);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // READ OPERATIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  override async getByIdAsync(id: string): Promise<Result<OfferResult>> {
+    const [offer] = await this.getOffers({ 'o.Uid': id });
+    if (offer == null) {
+      throw new NotFoundError('Offer not found');
+    }
+    await this.assertPermission(this.permissions.Read, offer);
+    return Result.toEntityResult(offer);
+  }
+
+  /**
+   * Get the offers of an application, newest first
+   */
+  async getByApplicationAsync(applicationId: string): Promise<Result<OfferResult[]>> {
+    await this.getApplication(applicationId, Permission.ApplicationRead);
+    return Result.toEntityResult(
+      await this.getOffers({ 'o.ApplicationId': applicationId })
+    );
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // PUBLIC (CANDIDATE) OPERATIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get an offer for the candidate
+   * @throws NotFoundError if the token does not match a sent offer
+   */
+  async getPublicAsync(token: string): Promise<Result<PublicOfferResult>> {
+    const offer = await this.getOfferByToken(token);
+    return Result.toEntityResult(await this.toPublicResult(offer));
+  }
+
+  /**
+   * Renders the offer letter to PDF for the candidate
+   */
+  async getPublicLetterAsync(token: string): Promise<OfferLetterResult> {
+    const offer = await this.getOfferByToken(token);
+    const details = await this.getDetails(offer);
+    return this.toLetter(await this.renderLetter(offer, details), details);
+  }
+
+  /**
+   * Accepts an offer
+   * @throws UnAuthorizedError if the offer has expired
+   * @throws ValidationError if the offer has already been answered
+   */
+  async acceptAsync(token: string): Promise<Result<PublicOfferResult>> {
+    return await this.respond(token, OfferStatus.Accepted, null);
+  }
+
+  /**
+   * Declines an offer, optionally with a reason
+   * @throws UnAuthorizedError if the offer has expired
+   * @throws ValidationError if the offer has already been answered
+   */
+  async declineAsync(
+    token: string,
+    model: OfferDecisionVm
+  ): Promise<Result<PublicOfferResult>> {
+    return await this.respond(token, OfferStatus.Declined, model?.Comment?.trim() || null);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // NOTIFICATIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Emails the offer to the candidate without blocking the request
+   */
+  private sendOffer(offer: Offer, details: OfferDetails, letter: string, url: string): void {
+    const send = async () => {
+      const attachment = this.toLetter(letter, details);
+      const email: EmailOptions = {
+        To: [{ Email: details.CandidateEmail, Name: details.CandidateName }],
+        Subject: `Your offer - ${details.PositionName ?? details.OrganizationName ?? ''}`,
+        Html: TemplateHelper.getOfferSentTemplate({
+          candidateName: details.CandidateName,
+          organizationName: details.OrganizationName ?? '',
+          positionTitle: details.PositionName ?? '',
+          startDate: DateHelper.format(new Date(offer.StartDate), 'full'),
+          expiryDate: DateHelper.format(new Date(offer.ExpiresOn), 'full'),
+          offerUrl: url,
+        }),
+        Attachments: [
+          {
+            Filename: attachment.FileName,
+            Content: attachment.Content,
+            ContentType: 'application/pdf',
+          },
+        ],
+      };
+
+      const result = await this._mailService.send(email);
+      await this._applicationEventService.recordEmail(
+        { Uid: offer.ApplicationId, OrgId: offer.OrgId },
+        email,
+        result
+      );
+    };
+
+    send().catch((error) => {
+      logger.error('Failed to send offer', {
+        OfferId: offer.Uid,
+        Error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  private validateTerms(model: OfferVm): void {
+    const salary = Number(model.Salary);
+    if (model.Salary == null || !isFinite(salary) || salary <= 0) {
+      throw new ValidationError('Salary must be a positive number');
+    }
+    if (!/^[A-Za-z]{3}$/.test(model.Currency ?? '')) {
+      throw new ValidationError('Currency must be a 3-letter ISO 4217 code');
+    }
+    if (model.StartDate == null || isNaN(new Date(model.StartDate).getTime())) {
+      throw new ValidationError('StartDate is required');
+    }
+
+    const expiresOn = model.ExpiresOn != null ? new Date(model.ExpiresOn) : null;
+    if (expiresOn == null || isNaN(expiresOn.getTime()) || expiresOn <= new Date()) {
+      throw new ValidationError('ExpiresOn must be in the future');
+    }
+  }
+
+  private toTerms(model: OfferVm): Partial<Offer> {
+    return {
+      TemplateId: model.TemplateId || null,
+      Salary: Number(model.Salary),
+      Currency: model.Currency.toUpperCase(),
+      StartDate: new Date(model.StartDate),
+      ExpiresOn: new Date(model.ExpiresOn),
+      Notes: model.Notes?.trim() || null,
+    };
+  }
+
+  private assertEditable(offer: Offer): void {
+    if (!EDITABLE_STATUSES.includes(offer.Status)) {
+      throw new ValidationError(
+        `Offers cannot be changed once ${offer.Status === OfferStatus.PendingApproval ? 'submitted for approval' : offer.Status.toLowerCase()}`
+      );
+    }
+  }
+
+  private async respond(
+    token: string,
+    status: OfferStatus.Accepted | OfferStatus.Declined,
+    reason: string | null
+  ): Promise<Result<PublicOfferResult>> {
+    const offer = await this.getOfferByToken(token);
+    if (offer.Status === OfferStatus.Expired) {
+      throw new UnAuthorizedError('This offer has expired');
+    }
+    if (offer.Status !== OfferStatus.Sent) {
+      throw new ValidationError(`This offer has already been ${offer.Status.toLowerCase()}`);
+    }
+
+    const changes: Partial<Offer> = {
+      Status: status,
+      RespondedOn: new Date(),
+      DeclineReason: reason,
+      UpdatedOn: new Date(),
+    };
+
+    // Only the first of concurrent responses is stored
+    const updated = await this.repository
+      .query()
+      .where({ Uid: offer.Uid, Status: OfferStatus.Sent })
+      .update(changes);
+    if (!updated) {
+      throw new ValidationError('This offer has already been answered');
+    }
+
+    await this._applicationEventService.record(
+      { Uid: offer.ApplicationId, OrgId: offer.OrgId },
+      status === OfferStatus.Accepted
+        ? ApplicationEventType.OfferAccepted
+        : ApplicationEventType.OfferDeclined,
+      status === OfferStatus.Accepted
+        ? 'Offer accepted'
+        : `Offer declined${reason ? `: ${reason}` : ''}`,
+      { OfferId: offer.Uid, Reason: reason }
+    );
+
+    return Result.toEntityResult(
+      await this.toPublicResult({ ...offer, ...changes } as Offer)
+    );
+  }
+
+  private async getOffers(where: Record<string, string>): Promise<OfferResult[]> {
+    const conditions = Object.keys(where).map((column) => `${column} = ?`);
+    const rows = await this.unitOfWork.raw<OfferResult[]>(
+      `
+      SELECT o.*, a.FullName AS CandidateName, p.Name AS PositionName
+      FROM ${TableNames.Offer} o
+      JOIN ${TableNames.Application} a ON a.Uid = o.ApplicationId
+      LEFT JOIN ${TableNames.Position} p ON p.Uid = a.PositionId
+      WHERE ${conditions.join(' AND ')} AND o.OrgId = ? AND o.IsDeleted = 0
+      ORDER BY o.CreatedOn DESC
+      `,
+      [...Object.values(where), this.tenantId]
+    );
+    if (!rows.length) return [];
+
+    const approvals = await this._approvalService.getLatestRequests(
+      ApprovalEntityType.Offer,
+      rows.map((row) => row.Uid)
+    );
+
+    return rows.map((row) => {
+      const result = Object.assign(new OfferResult(), row);
+      delete (result as Partial<OfferResult>).TokenHash;
+      result.Salary = Number(row.Salary);
+      result.Status = this.getStatus(row);
+      result.Approval = approvals.find((approval) => approval.EntityId === row.Uid) ?? null;
+      return result;
+    });
+  }
+
+  private async getOffer(id: string, permission: Permission): Promise<Offer> {
+    const offer = await this.repository.findById(id, this.tenantId);
+    if (offer == null) {
+      throw new NotFoundError('Offer not found');
+    }
+    await this.assertPermission(permission, offer);
+    return offer;
+  }
+
+  /**
+   * Finds a sent offer by the candidate's token, storing it as Expired once past its expiry date
+   */
+  private async getOfferByToken(token: string): Promise<Offer> {
+    const offer = token
+      ? ((await this.repository
+          .queryActive()
+          .where({ TokenHash: Security.hashToken(token) })
+          .first()) as Offer | undefined)
+      : undefined;
+
+    if (offer == null) {
+      throw new NotFoundError('Offer not found');
+    }
+
+    if (this.getStatus(offer) === OfferStatus.Expired && offer.Status === OfferStatus.Sent) {
+      await this.repository
+        .query()
+        .where({ Uid: offer.Uid, Status: OfferStatus.Sent })
+        .update({ Status: OfferStatus.Expired, UpdatedOn: new Date() });
+      offer.Status = OfferStatus.Expired;
+    }
+
+    return offer;
+  }
+
+  /**
+   * Reports sent offers past their expiry date as Expired
+   */
+  private getStatus(offer: Offer): OfferStatus {
+    return offer.Status === OfferStatus.Sent && new Date(offer.ExpiresOn) <= new Date()
+      ? OfferStatus.Expired
+      : offer.Status;
+  }
+
+  private async toPublicResult(offer: Offer): Promise<PublicOfferResult> {
+    const details = await this.getDetails(offer);
+
+    const result = new PublicOfferResult();
+    result.CandidateName = details.CandidateName;
+    result.PositionName = details.PositionName ?? '';
+    result.OrganizationName = details.OrganizationName ?? '';
+    result.Salary = Number(offer.Salary);
+    result.Currency = offer.Currency;
+    result.StartDate = offer.StartDate;
+    result.ExpiresOn = offer.ExpiresOn;
+    result.Status = this.getStatus(offer);
+    result.Letter = await this.renderLetter(offer, details);
+    return result;
+  }
+
+  private async getDetails(offer: Offer): Promise<OfferDetails> {
+    const [details] = await this.unitOfWork.raw<OfferDetails[]>(
+      `
+      SELECT
+        a.FullName AS CandidateName, a.Email AS CandidateEmail,
+        p.Name AS PositionName, d.Name AS DepartmentName, org.Name AS OrganizationName
+      FROM ${TableNames.Application} a
+      LEFT JOIN ${TableNames.Position} p ON p.Uid = a.PositionId
+      LEFT JOIN ${TableNames.Department} d ON d.Uid = p.DepartmentId
+      LEFT JOIN ${TableNames.Organization} org ON org.Uid = a.OrgId
+      WHERE a.Uid = ? AND a.OrgId = ?
+      `,
+      [offer.ApplicationId, offer.OrgId]
+    );
+    if (details == null) {
+      throw new NotFoundError('Application not found');
+    }
+    return details;
+  }
+
+  /**
+   * Renders the offer letter from the org's template, or the default letter
+   * Values are escaped, since templates are HTML
+   */
+  private async renderLetter(offer: Offer, details: OfferDetails): Promise<string> {
+    const template = offer.TemplateId
+      ? (await this.getTemplate(offer.TemplateId, offer.OrgId)).Content
+      : TemplateHelper.loadTemplate('offer-letter');
+
+    const escape = (value: string | null) => TemplateHelper.escapeHtml(value ?? '');
+
+    return TemplateHelper.replaceVariables(template, {
+      candidateName: escape(details.CandidateName),
+      candidateEmail: escape(details.CandidateEmail),
+      positionTitle: escape(details.PositionName),
+      department: escape(details.DepartmentName),
+      organizationName: escape(details.OrganizationName),
+      salary: this.formatSalary(offer.Salary),
+      currency: escape(offer.Currency),
+      startDate: DateHelper.format(new Date(offer.StartDate), 'long'),
+      expiryDate: DateHelper.format(new Date(offer.ExpiresOn), 'long'),
+      offerDate: DateHelper.format(offer.SentOn ? new Date(offer.SentOn) : new Date(), 'long'),
+      notes: escape(offer.Notes).replace(/\r?\n/g, '<br />'),
+    });
+  }
+
+  private toLetter(letter: string, details: OfferDetails): OfferLetterResult {
+    const result = new OfferLetterResult();
+    result.FileName = `Offer - ${details.CandidateName}.pdf`.replace(/[\\/:*?"<>|]/g, '');
+    result.Content = PdfHelper.fromHtml(letter, `Offer - ${details.CandidateName}`);
+    return result;
+  }
+
+  private formatSalary(salary: number): string {
+    return new Intl.NumberFormat('en-US', { maximumFractionDigits: 2 }).format(Number(salary));
+  }
+
+  private async getTemplate(id: string, orgId: string = this.tenantId): Promise<EmailTemplate> {
+    const template = await this.getOtherRepository<EmailTemplate>(
+      TableNames.EmailTemplate
+    ).findById(id, orgId);
+
+    if (template == null) {
+      throw new NotFoundError('Offer letter template not found');
+    }
+    if (Number(template.Type) !== EmailTemplateType.OfferLetter) {
+      throw new ValidationError('The template is not an offer letter template');
+    }
+
+    return template;
+  }
+
+  /**
+   * Get an application the caller has a permission on
+   */
+  private async getApplication(
+    id: string,
+    permission: Permission
+  ): Promise<Application> {
+    const application = await this.getOtherRepository<Application>(
+      TableNames.Application
+    ).findById(id, this.tenantId);
+
+    if (application == null) {
+      throw new NotFoundError('Application not found');
+    }
+    await this.permissionService.assertPermission(permission, application);
+
+    return application;
+  }
+}
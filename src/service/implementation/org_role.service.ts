@@ -0,0 +1,278 @@
+import { inject, injectable } from 'inversify';
+import { TYPES } from '@/core/container/types';
+import { OrgRole } from '@/data/entities/org_role';
+import { OrgRoleAssignment } from '@/data/entities/org_role_assignment';
+import { TableNames } from '@/database/tables';
+import { IUnitOfWork } from '@/repository';
+import { CallerService } from '../caller/caller.service';
+import { BaseService } from '../base/base.service';
+import { Result } from '@/data/response/response';
+import { Utility } from '@/core/utils/common.utils';
+import { ValidationError } from '@/middleware/errors/validation.error';
+import { NotFoundError } from '@/middleware/errors/notFound.error';
+import { Permission } from '@/data/enums/permission';
+import { OrgRoleAssignmentVm, OrgRoleVm } from '@/data/models/OrgRoleVm';
+import {
+  CallerPermissionResult,
+  OrgRoleAssignmentResult,
+  OrgRoleResult,
+} from '@/data/results/org_role_result';
+
+/**
+ * Roles organizations define from permissions, and their assignments to users
+ * @remarks
+ * A role given to a user can be scoped to a department or a position. Once an
+ * organization has a role, its employees only have the permissions of the roles
+ * given to them; admins are never restricted. Deleting a role removes its
+ * assignments.
+ */
+@injectable()
+export class OrgRoleService extends BaseService<OrgRole, OrgRoleVm> {
+  constructor(
+    @inject(TYPES.UnitOfWork) unitOfWork: IUnitOfWork,
+    @inject(TYPES.Caller) callerService: CallerService
+  ) {
+    super(unitOfWork, callerService, TableNames.OrgRole, OrgRole);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // ROLES
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  override async validateAdd(model: OrgRoleVm): Promise<void> {
+    this.validateRole(model);
+  }
+
+  override async validateUpdate(model: OrgRoleVm): Promise<void> {
+    this.validateRole(model);
+  }
+
+  override async preAddOperation(model: OrgRoleVm, entity: OrgRole): Promise<void> {
+    await super.preAddOperation(model, entity);
+    await this.assertUniqueName(model.Name.trim(), entity.Uid);
+    entity.Name = model.Name.trim();
+    entity.Description = model.Description?.trim() || null;
+    entity.Permissions = JSON.stringify([...new Set(model.Permissions)]);
+  }
+
+  override async preUpdateOperation(model: OrgRoleVm, entity: OrgRole): Promise<void> {
+    await super.preUpdateOperation(model, entity);
+    await this.assertUniqueName(model.Name.trim(), entity.Uid);
+    entity.Name = model.Name.trim();
+    entity.Description = model.Description?.trim() || null;
+    entity.Permissions = JSON.stringify([...new Set(model.Permissions)]);
+  }
+
+  /**
+   * Get a role with the users it is given to
+   */
+  override async getByIdAsync(id: string): Promise<Result<OrgRoleResult>> {
+    const role = await this.getRole(id);
+
+    const result = Object.assign(new OrgRoleResult(), role);
+    result.Assignments = await this.getAssignments(id);
+    return Result.toEntityResult(result);
+  }
+
+  /**
+   * Deletes a role and its assignments
+   */
+  override async deleteAsync(id: string): Promise<boolean> {
+    await this.getRole(id);
+
+    const deletedOn = new Date();
+    await this.transaction(async (trx) => {
+      await trx(TableNames.OrgRoleAssignment)
+        .where({ OrgRoleId: id, OrgId: this.tenantId, IsDeleted: false })
+        .update({ IsDeleted: true, DeletedOn: deletedOn });
+      await trx(TableNames.OrgRole)
+        .where({ Uid: id })
+        .update({ IsDeleted: true, DeletedOn: deletedOn });
+    });
+
+    return true;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // ASSIGNMENTS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Gives a role to a user, optionally scoped to a department or a position
+   * @throws NotFoundError if the role does not exist
+   * @throws ValidationError if the user, department or position is not in the
+   * organization, or the user already has the role in the scope
+   */
+  async assignAsync(
+    id: string,
+    model: OrgRoleAssignmentVm
+  ): Promise<Result<OrgRoleAssignmentResult>> {
+    await this.getRole(id);
+    await this.validateAssignment(model);
+
+    const assignment = new OrgRoleAssignment();
+    assignment.Uid = Utility.generateUUID();
+    assignment.OrgId = this.tenantId;
+    assignment.OrgRoleId = id;
+    assignment.UserId = model.UserId;
+    assignment.DepartmentId = model.DepartmentId || null;
+    assignment.PositionId = model.PositionId || null;
+    assignment.CreatedOn = new Date();
+    assignment.CreatedBy = this.userId;
+
+    const [existing] = await this.unitOfWork.raw<{ Uid: string }[]>(
+      `
+      SELECT Uid FROM ${TableNames.OrgRoleAssignment}
+      WHERE OrgRoleId = ? AND UserId = ? AND OrgId = ? AND IsDeleted = 0
+        AND DepartmentId <=> ? AND PositionId <=> ?
+      LIMIT 1
+      `,
+      [id, assignment.UserId, this.tenantId, assignment.DepartmentId, assignment.PositionId]
+    );
+    if (existing) {
+      throw new ValidationError('The user already has this role');
+    }
+
+    await this.getOtherRepository<OrgRoleAssignment>(
+      TableNames.OrgRoleAssignment
+    ).create(assignment);
+
+    const [result] = await this.getAssignments(id, assignment.Uid);
+    return Result.toEntityResult(result);
+  }
+
+  /**
+   * Takes a role back from a user
+   * @throws NotFoundError if the assignment does not exist
+   */
+  async unassignAsync(assignmentId: string): Promise<boolean> {
+    const repository = this.getOtherRepository<OrgRoleAssignment>(
+      TableNames.OrgRoleAssignment
+    );
+    const assignment = await repository.findById(assignmentId, this.tenantId);
+    if (assignment == null) {
+      throw new NotFoundError('Role assignment not found');
+    }
+    return await repository.softDelete(assignmentId);
+  }
+
+  /**
+   * Get the users a role is given to
+   */
+  async getAssignmentsAsync(id: string): Promise<Result<OrgRoleAssignmentResult[]>> {
+    await this.getRole(id);
+    return Result.toEntityResult(await this.getAssignments(id));
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // CALLER
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get the caller's permissions and where they apply
+   */
+  async getCallerPermissionsAsync(): Promise<Result<CallerPermissionResult[]>> {
+    const permissions = await this.permissionService.getPermissionsAsync();
+
+    return Result.toEntityResult(
+      permissions.map(([permission, scope]) =>
+        Object.assign(new CallerPermissionResult(), {
+          Permission: permission,
+          All: scope.All,
+          DepartmentIds: [...new Set(scope.DepartmentIds)],
+          PositionIds: [...new Set(scope.PositionIds)],
+        })
+      )
+    );
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  private validateRole(model: OrgRoleVm): void {
+    if (!model?.Name?.trim()) {
+      throw new ValidationError('Name is required');
+    }
+    if (!Array.isArray(model.Permissions) || !model.Permissions.length) {
+      throw new ValidationError('At least one permission is required');
+    }
+
+    const unknown = model.Permissions.filter(
+      (permission) => !Object.values(Permission).includes(permission)
+    );
+    if (unknown.length) {
+      throw new ValidationError(
+        `Permissions must be one of ${Object.values(Permission).join(', ')}`,
+        { Permissions: unknown.map((permission) => `Unknown permission ${permission}`) }
+      );
+    }
+  }
+
+  private async validateAssignment(model: OrgRoleAssignmentVm): Promise<void> {
+    if (!model?.UserId?.length) {
+      throw new ValidationError('UserId is required');
+    }
+    if (model.DepartmentId && model.PositionId) {
+      throw new ValidationError('A role is scoped to a department or a position, not both');
+    }
+
+    const checks: [string | null | undefined, string, string][] = [
+      [model.UserId, TableNames.User, 'User not found'],
+      [model.DepartmentId, TableNames.Department, 'Department not found'],
+      [model.PositionId, TableNames.Position, 'Position not found'],
+    ];
+    for (const [id, tableName, message] of checks) {
+      if (!id) continue;
+
+      const [row] = await this.unitOfWork.raw<{ Uid: string }[]>(
+        `SELECT Uid FROM ${tableName} WHERE Uid = ? AND OrgId = ? AND IsDeleted = 0 LIMIT 1`,
+        [id, this.tenantId]
+      );
+      if (row == null) {
+        throw new ValidationError(message);
+      }
+    }
+  }
+
+  private async assertUniqueName(name: string, id: string): Promise<void> {
+    const [existing] = await this.unitOfWork.raw<{ Uid: string }[]>(
+      `
+      SELECT Uid FROM ${TableNames.OrgRole}
+      WHERE Name = ? AND OrgId = ? AND Uid <> ? AND IsDeleted = 0
+      LIMIT 1
+      `,
+      [name, this.tenantId, id]
+    );
+    if (existing) {
+      throw new ValidationError(`A role named ${name} already exists`);
+    }
+  }
+
+  private async getRole(id: string): Promise<OrgRole> {
+    const role = await this.repository.findById(id, this.tenantId);
+    if (role == null) {
+      throw new NotFoundError('Role not found');
+    }
+    return role;
+  }
+
+  private async getAssignments(
+    roleId: string,
+    assignmentId?: string
+  ): Promise<OrgRoleAssignmentResult[]> {
+    return await this.unitOfWork.raw<OrgRoleAssignmentResult[]>(
+      `
+      SELECT a.*, u.Email, d.Name AS Department, p.Name AS Position
+      FROM ${TableNames.OrgRoleAssignment} a
+      INNER JOIN ${TableNames.User} u ON u.Uid = a.UserId
+      LEFT JOIN ${TableNames.Department} d ON d.Uid = a.DepartmentId
+      LEFT JOIN ${TableNames.Position} p ON p.Uid = a.PositionId
+      WHERE a.OrgRoleId = ? AND a.OrgId = ? AND a.IsDeleted = 0
+        ${assignmentId ? 'AND a.Uid = ?' : ''}
+      ORDER BY u.Email
+      `,
+      assignmentId ? [roleId, this.tenantId, assignmentId] : [roleId, this.tenantId]
+    );
+  }
+}
@@ -0,0 +1,225 @@
+import { inject, injectable } from 'inversify';
+import { TYPES } from '@/core/container/types';
+import { PipelineStage } from '@/data/entities/pipeline_stage';
+import { Organization } from '@/data/entities/organization';
+import { TableNames } from '@/database/tables';
+import { IUnitOfWork } from '@/repository';
+import { CallerService } from '../caller/caller.service';
+import { BaseService } from '../base/base.service';
+import { Result } from '@/data/response/response';
+import { Utility } from '@/core/utils/common.utils';
+import { ValidationError } from '@/middleware/errors/validation.error';
+
+/**
+ * Default pipeline created for an organization that has not configured one.
+ * Transitions reference other stages by name and are resolved to Uids on creation.
+ */
+const DEFAULT_PIPELINE: {
+  Name: string;
+  IsInitial?: boolean;
+  IsTerminal?: boolean;
+  Next: string[];
+}[] = [
+  { Name: 'Applied', IsInitial: true, Next: ['Screening', 'Rejected'] },
+  { Name: 'Screening', Next: ['Interview', 'Rejected'] },
+  { Name: 'Interview', Next: ['Offer', 'Rejected'] },
+  { Name: 'Offer', Next: ['Hired', 'Rejected'] },
+  { Name: 'Hired', IsTerminal: true, Next: [] },
+  { Name: 'Rejected', IsTerminal: true, Next: [] },
+];
+
+@injectable()
+export class PipelineStageService extends BaseService<PipelineStage> {
+  constructor(
+    @inject(TYPES.UnitOfWork) unitOfWork: IUnitOfWork,
+    @inject(TYPES.Caller) callerService: CallerService
+  ) {
+    super(unitOfWork, callerService, TableNames.PipelineStage, PipelineStage);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // VALIDATION
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Validate before creating - name is required and unique per organization
+   */
+  override async validateAdd(model: PipelineStage): Promise<void> {
+    await this.validateStage(model, null);
+  }
+
+  /**
+   * Validate before updating - name is required and unique per organization
+   */
+  override async validateUpdate(model: PipelineStage): Promise<void> {
+    await this.validateStage(model, model.Uid);
+  }
+
+  private async validateStage(
+    model: PipelineStage,
+    id: string | null
+  ): Promise<void> {
+    if (!model?.Name?.trim()?.length) {
+      throw new ValidationError('Stage name is required');
+    }
+
+    const duplicate = await this.repository.findOneWhere(
+      { Name: model.Name.trim() },
+      this.tenantId
+    );
+    if (duplicate && duplicate.Uid !== id) {
+      throw new ValidationError(`Stage '${model.Name}' already exists`);
+    }
+
+    if (model.AllowedTransitions != null && model.AllowedTransitions.length) {
+      const transitions = Utility.safeJsonParse<unknown>(
+        model.AllowedTransitions,
+        null
+      );
+      if (
+        !Array.isArray(transitions) ||
+        transitions.some((t) => typeof t !== 'string')
+      ) {
+        throw new ValidationError(
+          'AllowedTransitions must be a JSON array of stage ids'
+        );
+      }
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // PIPELINE
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get the ordered pipeline for the current organization
+   */
+  async getPipelineAsync(): Promise<Result<PipelineStage[]>> {
+    return Result.toEntityResult(await this.getPipeline(this.tenantId));
+  }
+
+  /**
+   * Get the ordered pipeline for an organization
+   * Creates the default pipeline on first use
+   */
+  async getPipeline(orgId: string): Promise<PipelineStage[]> {
+    let stages = await this.repository.findAll(orgId);
+
+    if (!stages.length) {
+      stages = await this.createDefaultPipeline(orgId);
+    }
+
+    return stages.sort((a, b) => a.SortOrder - b.SortOrder);
+  }
+
+  /**
+   * Get the stage new applications are placed in
+   */
+  async getInitialStage(orgId: string): Promise<PipelineStage> {
+    const stages = await this.getPipeline(orgId);
+    return stages.find((s) => s.IsInitial) ?? stages[0];
+  }
+
+  /**
+   * Ensures a move between two stages is allowed by the pipeline
+   * @throws ValidationError if the transition is not allowed
+   */
+  assertTransition(
+    stages: PipelineStage[],
+    from: PipelineStage | null,
+    to: PipelineStage
+  ): void {
+    if (from == null) return;
+
+    if (from.Uid === to.Uid) {
+      throw new ValidationError(`Application is already in '${to.Name}'`);
+    }
+
+    if (from.IsTerminal) {
+      throw new ValidationError(
+        `'${from.Name}' is a final stage and cannot be changed`
+      );
+    }
+
+    if (!this.getAllowedNextStageIds(stages, from).includes(to.Uid)) {
+      throw new ValidationError(
+        `Cannot move application from '${from.Name}' to '${to.Name}'`
+      );
+    }
+  }
+
+  /**
+   * Stages reachable from the given stage
+   * Uses the configured transitions, or the next stage by SortOrder when none are configured
+   */
+  getAllowedNextStageIds(
+    stages: PipelineStage[],
+    from: PipelineStage
+  ): string[] {
+    const configured = Utility.safeJsonParse<string[] | null>(
+      from.AllowedTransitions ?? '',
+      null
+    );
+    if (Array.isArray(configured) && configured.length) {
+      return configured;
+    }
+
+    const next = [...stages]
+      .sort((a, b) => a.SortOrder - b.SortOrder)
+      .find((s) => s.SortOrder > from.SortOrder);
+
+    return next ? [next.Uid] : [];
+  }
+
+  /**
+   * Creates the default pipeline for an organization
+   * @remarks
+   * The organization row is locked so concurrent first requests, such as public
+   * applications, create the pipeline once; the others return it. Stages created
+   * for an anonymous caller are attributed to the organization's creator.
+   */
+  private async createDefaultPipeline(orgId: string): Promise<PipelineStage[]> {
+    return await this.transaction(async (trx) => {
+      const organization = (await trx(TableNames.Organization)
+        .where('Uid', orgId)
+        .forUpdate()
+        .first()) as Organization | undefined;
+
+      const existing = (await trx(TableNames.PipelineStage).where({
+        OrgId: orgId,
+        IsDeleted: false,
+      })) as PipelineStage[];
+      if (existing.length) {
+        return existing;
+      }
+
+      const now = new Date();
+      const createdBy = this._callerService.isAnonymous
+        ? (organization?.CreatedBy ?? '')
+        : this.userId;
+      const uids = new Map(
+        DEFAULT_PIPELINE.map((s) => [s.Name, Utility.generateUUID()])
+      );
+
+      const stages = DEFAULT_PIPELINE.map((definition, index) => {
+        const stage = new PipelineStage();
+        stage.Uid = uids.get(definition.Name)!;
+        stage.OrgId = orgId;
+        stage.Name = definition.Name;
+        stage.SortOrder = index + 1;
+        stage.IsInitial = definition.IsInitial ?? false;
+        stage.IsTerminal = definition.IsTerminal ?? false;
+        stage.AllowedTransitions = JSON.stringify(
+          definition.Next.map((name) => uids.get(name))
+        );
+        stage.CreatedOn = now;
+        stage.CreatedBy = createdBy;
+        return stage;
+      });
+
+      return await this.unitOfWork
+        .getTransactionalRepository<PipelineStage>(TableNames.PipelineStage, trx)
+        .createMany(stages);
+    });
+  }
+}
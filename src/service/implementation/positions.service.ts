@@ -1,3 +1,4 @@
+import { createHash } from 'crypto';
 import { inject, injectable } from 'inversify';
 import { TYPES } from '@/core/container/types';
 import { Positions } from '@/data/entities/positions';
@@ -5,30 +6,611 @@ import { TableNames } from '@/database/tables';
 import { IUnitOfWork } from '@/repository/interfaces';
 import { CallerService } from '../caller/caller.service';
 import { BaseService } from '../base/base.service';
-import { Result } from '@/data/response/response';
+import { PagedResult, Result } from '@/data/response/response';
+import { FormTemplate } from '@/data/entities/form_template';
+import { FormTemplateType } from '@/data/enums/template_type';
+import { ValidationError } from '@/middleware/errors/validation.error';
+import { NotFoundError } from '@/middleware/errors/notFound.error';
+import { ApprovalEntityType } from '@/data/enums/approval_entity_type';
+import { EmploymentType } from '@/data/enums/employment_type';
+import { PositionStatus } from '@/data/enums/position_status';
+import { RemoteType } from '@/data/enums/remote_type';
+import { JobBoardFilter } from '@/data/filters/job_board_filter';
+import { PositionsResult } from '@/data/results/position.result';
+import {
+  JobBoardFacetResult,
+  JobBoardResult,
+  JobFeedResult,
+  PublicPositionResult,
+} from '@/data/results/job_board_result';
+import { config } from '@/core/config/environment';
+import {
+  JobFeedHelper,
+  JobFeedOrganization,
+  JobFeedPosting,
+} from '@/core/helper/job-feed.helper';
+import { ApprovalService } from './approval.service';
+import { Permission } from '@/data/enums/permission';
+import { PermissionTarget } from '../permission/permission_scope';
 
+/**
+ * Status changes allowed from each status
+ */
+const STATUS_TRANSITIONS: Record<PositionStatus, PositionStatus[]> = {
+  [PositionStatus.Draft]: [PositionStatus.Open, PositionStatus.Closed],
+  [PositionStatus.Open]: [PositionStatus.Paused, PositionStatus.Closed],
+  [PositionStatus.Paused]: [PositionStatus.Open, PositionStatus.Closed],
+  [PositionStatus.Closed]: [PositionStatus.Open],
+};
+
+/**
+ * Columns of a position shown on the public job board
+ */
+const PUBLIC_POSITION_COLUMNS = `
+  p.Uid, p.OrgId, p.Name, p.Description, p.DepartmentId, d.Name AS Department,
+  p.ApplicationTemplateId, p.Location, p.RemoteType, p.EmploymentType,
+  p.SalaryMin, p.SalaryMax, p.SalaryCurrency, p.PublishOn, p.CloseOn
+`;
+
+/**
+ * Positions (job postings)
+ * @remarks
+ * A position is created as a Draft (or Open) and moves through Open, Paused and
+ * Closed with the status endpoints - updates do not change the status. Open
+ * positions are listed publicly between PublishOn and CloseOn. When the organization
+ * has a Position approval chain, opening a draft or reopening a closed position
+ * waits for the approval request to complete. Organization roles can scope the
+ * position permissions to departments or positions; opening, pausing and closing
+ * needs the publish permission.
+ */
 @injectable()
 export class PositionsService extends BaseService<Positions> {
+  private readonly _approvalService: ApprovalService;
+
+  protected override readonly permissions = {
+    Read: Permission.PositionRead,
+    Write: Permission.PositionWrite,
+  };
+  protected override readonly positionColumn = 'Uid';
+
   constructor(
     @inject(TYPES.UnitOfWork) unitOfWork: IUnitOfWork,
-    @inject(TYPES.Caller) callerService: CallerService
+    @inject(TYPES.Caller) callerService: CallerService,
+    @inject(TYPES.ApprovalService) approvalService: ApprovalService
   ) {
     super(unitOfWork, callerService, TableNames.Position, Positions);
+    this._approvalService = approvalService;
+  }
+
+  override async validateAdd(entity: Positions): Promise<void> {
+    await this.validatePosting(entity);
+    if (
+      entity.Status != null &&
+      ![PositionStatus.Draft, PositionStatus.Open].includes(entity.Status)
+    ) {
+      throw new ValidationError('New positions must be Draft or Open');
+    }
+  }
+
+  override async validateUpdate(entity: Positions): Promise<void> {
+    await this.validatePosting(entity);
+  }
+
+  /**
+   * A position requested as Open stays a Draft while its opening awaits approval
+   */
+  override async preAddOperation(model: Positions, entity: Positions): Promise<void> {
+    await super.preAddOperation(model, entity);
+    if (model.Status === PositionStatus.Open) {
+      await this.assertPermission(Permission.PositionPublish, entity);
+    }
+    entity.Status =
+      model.Status === PositionStatus.Open &&
+      !(await this._approvalService.requiresApproval(ApprovalEntityType.Position))
+        ? PositionStatus.Open
+        : PositionStatus.Draft;
+    entity.SalaryCurrency = entity.SalaryCurrency?.toUpperCase() || null;
+    entity.Headcount = entity.Headcount ?? 1;
+  }
+
+  override async postAddOperation(model: Positions, entity: Positions): Promise<void> {
+    if (model.Status === PositionStatus.Open && entity.Status === PositionStatus.Draft) {
+      await this.requestOpening(entity);
+    }
+  }
+
+  override async preUpdateOperation(model: Positions, entity: Positions): Promise<void> {
+    await super.preUpdateOperation(model, entity);
+    entity.SalaryCurrency = entity.SalaryCurrency?.toUpperCase() || null;
+  }
+
+  /**
+   * The status is only changed through changeStatusAsync
+   */
+  protected override mergeModelToEntity(model: Positions, entity: Positions): void {
+    const status = entity.Status;
+    super.mergeModelToEntity(model, entity);
+    entity.Status = status;
+  }
+
+  /**
+   * Get a position with its department name
+   */
+  override async getByIdAsync(id: string): Promise<Result<PositionsResult>> {
+    const [position] = await this.unitOfWork.raw<PositionsResult[]>(
+      `
+      SELECT p.*, d.Name AS Department
+      FROM ${TableNames.Position} p
+      LEFT JOIN ${TableNames.Department} d ON d.Uid = p.DepartmentId
+      WHERE p.Uid = ? AND p.OrgId = ? AND p.IsDeleted = 0
+      `,
+      [id, this.tenantId]
+    );
+    if (position == null) {
+      throw new NotFoundError('Position not found');
+    }
+    await this.assertPermission(this.permissions.Read, position);
+
+    return Result.toEntityResult(position);
+  }
+
+  /**
+   * Get all positions of the organization with their department names
+   */
+  override async getAllAsync(): Promise<Result<PositionsResult>> {
+    const condition = await this.getReadCondition('p.Uid');
+    const rows = await this.unitOfWork.raw<PositionsResult[]>(
+      `
+      SELECT p.*, d.Name AS Department
+      FROM ${TableNames.Position} p
+      LEFT JOIN ${TableNames.Department} d ON d.Uid = p.DepartmentId
+      WHERE p.OrgId = ? AND p.IsDeleted = 0 AND ${condition.Sql}
+      `,
+      [this.tenantId, ...condition.Bindings]
+    );
+
+    return Result.toPagedResult(1, 1, 1, rows);
+  }
+
+  /**
+   * A pending approval of the position is cancelled
+   */
+  override async deleteAsync(id: string): Promise<boolean> {
+    const deleted = await super.deleteAsync(id);
+    await this._approvalService.cancelAsync(ApprovalEntityType.Position, id);
+    return deleted;
+  }
+
+  /**
+   * Opens, pauses, closes or reopens a position
+   * Opening a draft or reopening a closed position requests approval when the
+   * organization has a Position approval chain; the status changes once it is approved
+   * @throws ValidationError if the position cannot change to the status
+   */
+  async changeStatusAsync(id: string, status: PositionStatus): Promise<Result<Positions>> {
+    const position = await this.repository.findById(id, this.tenantId);
+    if (position == null) {
+      throw new NotFoundError('Position not found');
+    }
+    await this.assertPermission(Permission.PositionPublish, position);
+    if (position.Status === status) {
+      throw new ValidationError(`The position is already ${status}`);
+    }
+    if (!STATUS_TRANSITIONS[position.Status]?.includes(status)) {
+      throw new ValidationError(`A ${position.Status} position cannot be changed to ${status}`);
+    }
+
+    const isOpening =
+      status === PositionStatus.Open &&
+      [PositionStatus.Draft, PositionStatus.Closed].includes(position.Status);
+    if (
+      isOpening &&
+      (await this._approvalService.requiresApproval(ApprovalEntityType.Position))
+    ) {
+      await this.requestOpening(position);
+      return Result.toEntityResult(position);
+    }
+
+    const changes: Partial<Positions> = { Status: status, UpdatedBy: this.userId };
+    // A reopened position would otherwise stay hidden behind its old close date
+    if (isOpening && position.CloseOn && new Date(position.CloseOn) <= new Date()) {
+      changes.CloseOn = null;
+    }
+
+    return Result.toEntityResult(await this.repository.update(id, changes));
   }
 
   /**
    * Get all public positions for an organization
-   * Used by public application forms
+   * Used by public application forms - only open positions within their
+   * publish window are listed
    */
   async getAllPublicPositions(orgId: string) {
-    const data = await this.repository.findAll(orgId, [
-      'Uid',
-      'ApplicationTemplateId',
-      'Name',
-      'OrgId',
-      'DepartmentId',
-    ]);
+    const now = new Date();
+    const data = await this.repository
+      .queryActive()
+      .where({ OrgId: orgId, Status: PositionStatus.Open })
+      .andWhere((q) => q.whereNull('PublishOn').orWhere('PublishOn', '<=', now))
+      .andWhere((q) => q.whereNull('CloseOn').orWhere('CloseOn', '>', now))
+      .select(
+        'Uid',
+        'ApplicationTemplateId',
+        'Name',
+        'OrgId',
+        'DepartmentId',
+        'Location',
+        'RemoteType',
+        'EmploymentType',
+        'SalaryMin',
+        'SalaryMax',
+        'SalaryCurrency',
+        'PublishOn',
+        'CloseOn'
+      );
 
     return Result.toEntityResult(data);
   }
+
+  //#region Job Board
+  /**
+   * Searches the open positions of an organization for its careers page
+   * The query matches the title, description, location and department; results
+   * are newest first and come with facet counts for the department, location
+   * and employment type filters
+   */
+  async searchPublicAsync(
+    orgId: string,
+    filter: JobBoardFilter
+  ): Promise<Result<JobBoardResult>> {
+    const pageIndex = Math.max(1, Number(filter?.PageIndex) || 1);
+    const pageSize = Math.min(100, Math.max(1, Number(filter?.PageSize) || 20));
+    const from = `
+      FROM ${TableNames.Position} p
+      LEFT JOIN ${TableNames.Department} d ON d.Uid = p.DepartmentId`;
+
+    const all = this.getJobBoardConditions(orgId, filter ?? {});
+    const [count] = await this.unitOfWork.raw<{ total: number }[]>(
+      `SELECT COUNT(*) AS total ${from} WHERE ${all.where}`,
+      all.bindings
+    );
+    const records = await this.unitOfWork.raw<PublicPositionResult[]>(
+      `
+      SELECT ${PUBLIC_POSITION_COLUMNS}
+      ${from}
+      WHERE ${all.where}
+      ORDER BY COALESCE(p.PublishOn, p.CreatedOn) DESC, p.Name ASC
+      LIMIT ? OFFSET ?
+      `,
+      [...all.bindings, pageSize, (pageIndex - 1) * pageSize]
+    );
+
+    const facet = async (
+      exclude: keyof JobBoardFilter,
+      value: string,
+      label: string,
+      extra: string = ''
+    ): Promise<JobBoardFacetResult[]> => {
+      const { where, bindings } = this.getJobBoardConditions(orgId, filter ?? {}, exclude);
+      const rows = await this.unitOfWork.raw<JobBoardFacetResult[]>(
+        `
+        SELECT ${value} AS Value, ${label} AS Label, COUNT(*) AS Count
+        ${from}
+        WHERE ${where} ${extra}
+        GROUP BY ${value}, ${label}
+        ORDER BY Count DESC, Label ASC
+        `,
+        bindings
+      );
+      return rows.map((row) => ({ ...row, Count: Number(row.Count) }));
+    };
+
+    const result = new JobBoardResult();
+    result.Positions = new PagedResult(
+      pageIndex,
+      pageSize,
+      Number(count?.total ?? 0),
+      records
+    );
+    result.Facets = {
+      Departments: await facet('DepartmentId', 'p.DepartmentId', 'd.Name'),
+      Locations: await facet(
+        'Location',
+        'p.Location',
+        'p.Location',
+        "AND p.Location IS NOT NULL AND p.Location <> ''"
+      ),
+      EmploymentTypes: await facet('EmploymentType', 'p.EmploymentType', 'p.EmploymentType'),
+    };
+
+    return Result.toEntityResult(result);
+  }
+
+  /**
+   * Get an open position of the job board with its department name
+   * @throws NotFoundError if the position is not listed publicly
+   */
+  async getPublicPositionAsync(
+    orgId: string,
+    id: string
+  ): Promise<Result<PublicPositionResult>> {
+    const { where, bindings } = this.getJobBoardConditions(orgId, {});
+    const [position] = await this.unitOfWork.raw<PublicPositionResult[]>(
+      `
+      SELECT ${PUBLIC_POSITION_COLUMNS}
+      FROM ${TableNames.Position} p
+      LEFT JOIN ${TableNames.Department} d ON d.Uid = p.DepartmentId
+      WHERE ${where} AND p.Uid = ?
+      `,
+      [...bindings, id]
+    );
+    if (position == null) {
+      throw new NotFoundError('Position not found');
+    }
+
+    return Result.toEntityResult(position);
+  }
+
+  /**
+   * Get the aggregator XML feed of the open positions of an organization
+   * @throws NotFoundError if the organization does not exist
+   */
+  async getXmlFeedAsync(orgId: string): Promise<JobFeedResult> {
+    const { organization, postings, lastModified } = await this.getFeed(orgId);
+    return this.toFeedResult(
+      JobFeedHelper.toXml(organization, postings, lastModified),
+      'application/xml; charset=utf-8',
+      lastModified
+    );
+  }
+
+  /**
+   * Get the RSS 2.0 feed of the open positions of an organization
+   * @throws NotFoundError if the organization does not exist
+   */
+  async getRssFeedAsync(orgId: string): Promise<JobFeedResult> {
+    const { organization, postings, lastModified } = await this.getFeed(orgId);
+    return this.toFeedResult(
+      JobFeedHelper.toRss(organization, postings, lastModified),
+      'application/rss+xml; charset=utf-8',
+      lastModified
+    );
+  }
+
+  /**
+   * Get the schema.org JobPosting JSON-LD of an open position's posting page
+   * @throws NotFoundError if the position is not listed publicly
+   */
+  async getJobPostingAsync(orgId: string, id: string): Promise<JobFeedResult> {
+    const { organization, postings, lastModified } = await this.getFeed(orgId, id);
+    if (!postings.length) {
+      throw new NotFoundError('Position not found');
+    }
+
+    return this.toFeedResult(
+      JSON.stringify(JobFeedHelper.toJobPosting(organization, postings[0])),
+      'application/ld+json; charset=utf-8',
+      lastModified
+    );
+  }
+
+  /**
+   * Loads the organization and open positions of a feed
+   * @remarks
+   * The last modification covers every change that can alter a feed: position
+   * edits and deletions, publish and close dates that have passed, and
+   * department and organization edits.
+   */
+  private async getFeed(
+    orgId: string,
+    positionId?: string
+  ): Promise<{
+    organization: JobFeedOrganization;
+    postings: JobFeedPosting[];
+    lastModified: Date;
+  }> {
+    const [organization] = await this.unitOfWork.raw<JobFeedOrganization[]>(
+      `SELECT Uid, Name, OrgSite, LogoUrl FROM ${TableNames.Organization} WHERE Uid = ? AND IsDeleted = 0`,
+      [orgId]
+    );
+    if (organization == null) {
+      throw new NotFoundError('Organization not found');
+    }
+    organization.Url = `${config.APP_URL}/careers/${orgId}`;
+
+    const { where, bindings } = this.getJobBoardConditions(orgId, {});
+    const rows = await this.unitOfWork.raw<(PublicPositionResult & { CreatedOn: Date })[]>(
+      `
+      SELECT ${PUBLIC_POSITION_COLUMNS}, p.CreatedOn
+      FROM ${TableNames.Position} p
+      LEFT JOIN ${TableNames.Department} d ON d.Uid = p.DepartmentId
+      WHERE ${where} ${positionId ? 'AND p.Uid = ?' : ''}
+      ORDER BY COALESCE(p.PublishOn, p.CreatedOn) DESC, p.Name ASC
+      `,
+      positionId ? [...bindings, positionId] : bindings
+    );
+
+    const now = new Date();
+    const [changes] = await this.unitOfWork.raw<{ LastModified: Date | null }[]>(
+      `
+      SELECT MAX(Changed) AS LastModified FROM (
+        SELECT GREATEST(
+          COALESCE(p.UpdatedOn, p.CreatedOn),
+          COALESCE(p.DeletedOn, p.CreatedOn),
+          CASE WHEN p.PublishOn <= ? THEN p.PublishOn ELSE p.CreatedOn END,
+          CASE WHEN p.CloseOn <= ? THEN p.CloseOn ELSE p.CreatedOn END
+        ) AS Changed
+        FROM ${TableNames.Position} p WHERE p.OrgId = ?
+        UNION ALL
+        SELECT COALESCE(d.UpdatedOn, d.CreatedOn) FROM ${TableNames.Department} d WHERE d.OrgId = ?
+        UNION ALL
+        SELECT COALESCE(o.UpdatedOn, o.CreatedOn) FROM ${TableNames.Organization} o WHERE o.Uid = ?
+      ) changes
+      `,
+      [now, now, orgId, orgId, orgId]
+    );
+    // HTTP dates have a precision of seconds
+    const lastModified = new Date(
+      Math.floor(new Date(changes?.LastModified ?? now).getTime() / 1000) * 1000
+    );
+
+    const postings = rows.map<JobFeedPosting>((row) => ({
+      ...row,
+      PostedOn: new Date(row.PublishOn ?? row.CreatedOn),
+      CloseOn: row.CloseOn ? new Date(row.CloseOn) : null,
+      Url: `${organization.Url}/jobs/${row.Uid}`,
+    }));
+
+    return { organization, postings, lastModified };
+  }
+
+  private toFeedResult(content: string, contentType: string, lastModified: Date): JobFeedResult {
+    const result = new JobFeedResult();
+    result.Content = content;
+    result.ContentType = contentType;
+    result.ETag = `"${createHash('sha256').update(content).digest('base64url')}"`;
+    result.LastModified = lastModified;
+    return result;
+  }
+
+  /**
+   * Conditions of the open positions matching a job board filter
+   * @param exclude Filter left out, when counting the values of its facet
+   */
+  private getJobBoardConditions(
+    orgId: string,
+    filter: Partial<JobBoardFilter>,
+    exclude?: keyof JobBoardFilter
+  ): { where: string; bindings: unknown[] } {
+    const now = new Date();
+    const conditions = [
+      'p.OrgId = ?',
+      'p.IsDeleted = 0',
+      'p.Status = ?',
+      '(p.PublishOn IS NULL OR p.PublishOn <= ?)',
+      '(p.CloseOn IS NULL OR p.CloseOn > ?)',
+    ];
+    const bindings: unknown[] = [orgId, PositionStatus.Open, now, now];
+
+    const query = typeof filter.Query === 'string' ? filter.Query.trim() : '';
+    if (query.length) {
+      // LIKE wildcards in the query are matched literally
+      const pattern = `%${query.replace(/[\\%_]/g, '\\$&')}%`;
+      conditions.push(
+        '(p.Name LIKE ? OR p.Description LIKE ? OR p.Location LIKE ? OR d.Name LIKE ?)'
+      );
+      bindings.push(pattern, pattern, pattern, pattern);
+    }
+
+    const filters: [keyof JobBoardFilter, string][] = [
+      ['DepartmentId', 'p.DepartmentId'],
+      ['Location', 'p.Location'],
+      ['EmploymentType', 'p.EmploymentType'],
+    ];
+    for (const [key, column] of filters) {
+      const value = filter[key];
+      if (key !== exclude && typeof value === 'string' && value.length) {
+        conditions.push(`${column} = ?`);
+        bindings.push(value);
+      }
+    }
+
+    return { where: conditions.join(' AND '), bindings };
+  }
+
+  //#endregion
+
+  /**
+   * A position is in scope of its department and of itself
+   */
+  protected override getPermissionTarget(entity: Positions): PermissionTarget {
+    return { DepartmentId: entity.DepartmentId ?? null, PositionId: entity.Uid };
+  }
+
+  private async requestOpening(position: Positions): Promise<void> {
+    const isReopen = position.Status === PositionStatus.Closed;
+    await this._approvalService.requestAsync(
+      ApprovalEntityType.Position,
+      position.Uid,
+      isReopen ? 'Reopen' : 'Open',
+      `${isReopen ? 'Reopen' : 'Open'} position: ${position.Name}`
+    );
+  }
+
+  private async validatePosting(entity: Positions): Promise<void> {
+    if (entity == null) {
+      throw new ValidationError('Position is required');
+    }
+    await this.validateFeedbackTemplate(entity.FeedbackTemplateId);
+
+    if (entity.RemoteType != null && !Object.values(RemoteType).includes(entity.RemoteType)) {
+      throw new ValidationError(
+        `RemoteType must be one of ${Object.values(RemoteType).join(', ')}`
+      );
+    }
+    if (
+      entity.EmploymentType != null &&
+      !Object.values(EmploymentType).includes(entity.EmploymentType)
+    ) {
+      throw new ValidationError(
+        `EmploymentType must be one of ${Object.values(EmploymentType).join(', ')}`
+      );
+    }
+
+    const publishOn = entity.PublishOn != null ? new Date(entity.PublishOn) : null;
+    const closeOn = entity.CloseOn != null ? new Date(entity.CloseOn) : null;
+    if (publishOn && isNaN(publishOn.getTime())) {
+      throw new ValidationError('PublishOn is not a valid date');
+    }
+    if (closeOn && isNaN(closeOn.getTime())) {
+      throw new ValidationError('CloseOn is not a valid date');
+    }
+    if (publishOn && closeOn && closeOn <= publishOn) {
+      throw new ValidationError('CloseOn must be after PublishOn');
+    }
+
+    const { SalaryMin: min, SalaryMax: max } = entity;
+    for (const [name, value] of [['SalaryMin', min], ['SalaryMax', max]] as const) {
+      if (value != null && (!isFinite(Number(value)) || Number(value) < 0)) {
+        throw new ValidationError(`${name} must be a non-negative number`);
+      }
+    }
+    if (min != null && max != null && Number(min) > Number(max)) {
+      throw new ValidationError('SalaryMin cannot be greater than SalaryMax');
+    }
+    if ((min != null || max != null) && !/^[A-Za-z]{3}$/.test(entity.SalaryCurrency ?? '')) {
+      throw new ValidationError('SalaryCurrency must be a 3-letter ISO 4217 code');
+    }
+
+    if (
+      entity.Headcount != null &&
+      (!Number.isInteger(Number(entity.Headcount)) || Number(entity.Headcount) < 1)
+    ) {
+      throw new ValidationError('Headcount must be a positive whole number');
+    }
+
+    if (entity.HiringManagerId?.length) {
+      const [manager] = await this.unitOfWork.raw<{ Uid: string }[]>(
+        `SELECT Uid FROM ${TableNames.User} WHERE Uid = ? AND OrgId = ? AND IsDeleted = 0`,
+        [entity.HiringManagerId, this.tenantId]
+      );
+      if (manager == null) {
+        throw new ValidationError('Hiring manager not found');
+      }
+    }
+  }
+
+  /**
+   * The feedback scorecard must be a Feedback form template of the organization
+   */
+  private async validateFeedbackTemplate(templateId: string | null | undefined) {
+    if (!templateId?.length) return;
+
+    const template = await this.getOtherRepository<FormTemplate>(
+      TableNames.FormTemplate
+    ).findById(templateId, this.tenantId);
+
+    if (template == null || Number(template.TemplateType) !== FormTemplateType.Feedback) {
+      throw new ValidationError('FeedbackTemplateId must be a Feedback form template');
+    }
+  }
 }
@@ -0,0 +1,566 @@
+import { inject, injectable } from 'inversify';
+import { TYPES } from '@/core/container/types';
+import { SchedulingLink } from '@/data/entities/scheduling_link';
+import { SchedulingLinkSlot } from '@/data/entities/scheduling_link_slot';
+import { Application } from '@/data/entities/application';
+import { TableNames } from '@/database/tables';
+import { IUnitOfWork } from '@/repository';
+import { CallerService } from '../caller/caller.service';
+import { BaseService } from '../base/base.service';
+import { Result } from '@/data/response/response';
+import { config } from '@/core/config/environment';
+import { Utility } from '@/core/utils/common.utils';
+import { DateHelper } from '@/core/utils/date.utils';
+import { Security } from '@/core/utils/security.utils';
+import { logger } from '@/core/utils/logger.utils';
+import { ValidationError } from '@/middleware/errors/validation.error';
+import { NotFoundError } from '@/middleware/errors/notFound.error';
+import { Permission } from '@/data/enums/permission';
+import { UnAuthorizedError } from '@/middleware/errors/unauthorized.error.';
+import { ApplicationEventType } from '@/data/enums/application_event';
+import { BookSlotVm, SchedulingLinkVm } from '@/data/models/SchedulingLinkVm';
+import {
+  PublicSchedulingLinkResult,
+  SchedulingBookingResult,
+  SchedulingLinkResult,
+  SchedulingLinkStatus,
+  SchedulingSlotResult,
+} from '@/data/results/scheduling_link_result';
+import { TemplateHelper } from '@/core/helper/template.helper';
+import { EmailOptions } from '@/email';
+import { ApplicationEventService } from './application_event.service';
+import { InterviewService } from './interview.service';
+import { MailService } from './mail.service';
+
+/**
+ * Most times that can be offered on one link
+ */
+const MAX_SLOTS = 50;
+
+/**
+ * Links that let candidates pick an interview time without an account
+ * @remarks
+ * The token is only ever sent to the candidate; the link stores its SHA-256.
+ * A link can be used once. Booking locks the link row and the panel (see
+ * InterviewService.scheduleInTransaction), so concurrent requests cannot book
+ * the same link twice or double-book a panelist.
+ */
+@injectable()
+export class SchedulingLinkService extends BaseService<SchedulingLink, SchedulingLinkVm> {
+  private readonly _interviewService: InterviewService;
+  private readonly _applicationEventService: ApplicationEventService;
+  private readonly _mailService: MailService;
+
+  protected override readonly permissions = {
+    Read: Permission.ApplicationRead,
+    Write: Permission.ApplicationWrite,
+  };
+  protected override readonly applicationColumn = 'ApplicationId';
+
+  constructor(
+    @inject(TYPES.UnitOfWork) unitOfWork: IUnitOfWork,
+    @inject(TYPES.Caller) callerService: CallerService,
+    @inject(TYPES.InterviewService) interviewService: InterviewService,
+    @inject(TYPES.ApplicationEventService)
+    applicationEventService: ApplicationEventService,
+    @inject(TYPES.MailService) mailService: MailService
+  ) {
+    super(unitOfWork, callerService, TableNames.SchedulingLink, SchedulingLink);
+    this._interviewService = interviewService;
+    this._applicationEventService = applicationEventService;
+    this._mailService = mailService;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // VALIDATION
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  override async validateAdd(model: SchedulingLinkVm): Promise<void> {
+    if (!model?.ApplicationId?.length) {
+      throw new ValidationError('ApplicationId is required');
+    }
+    if (!model.Title?.trim()?.length) {
+      throw new ValidationError('Title is required');
+    }
+    if (!Array.isArray(model.PanelistIds) || !model.PanelistIds.length) {
+      throw new ValidationError('At least one panelist is required');
+    }
+    if (!Array.isArray(model.Slots) || !model.Slots.length) {
+      throw new ValidationError('At least one slot is required');
+    }
+    if (model.Slots.length > MAX_SLOTS) {
+      throw new ValidationError(`At most ${MAX_SLOTS} slots can be offered`);
+    }
+    if (model.Timezone) {
+      this.validateTimezone(model.Timezone);
+    }
+
+    const errors: Record<string, string[]> = {};
+    model.Slots.forEach((slot, index) => {
+      const start = new Date(slot?.StartTime);
+      const end = new Date(slot?.EndTime);
+
+      if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+        errors[`Slots[${index}]`] = ['StartTime and EndTime must be valid date-times'];
+      } else if (end <= start) {
+        errors[`Slots[${index}]`] = ['EndTime must be after StartTime'];
+      } else if (start < new Date()) {
+        errors[`Slots[${index}]`] = ['Slots cannot be in the past'];
+      }
+    });
+    if (Object.keys(errors).length) {
+      throw new ValidationError('Invalid slots', errors);
+    }
+
+    if (model.ExpiresOn != null) {
+      const expiresOn = new Date(model.ExpiresOn);
+      if (isNaN(expiresOn.getTime()) || expiresOn <= new Date()) {
+        throw new ValidationError('ExpiresOn must be in the future');
+      }
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // CREATE
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Creates a link with the offered times and emails it to the candidate
+   * The link never outlives its last slot
+   * @returns The link, including its URL - the only time the URL is returned
+   */
+  override async createAsync(
+    model: SchedulingLinkVm
+  ): Promise<Result<SchedulingLinkResult>> {
+    await this.validateAdd(model);
+
+    const application = await this.getApplication(
+      model.ApplicationId,
+      Permission.ApplicationWrite
+    );
+    const panelistIds = [...new Set(model.PanelistIds)];
+    await this.assertUsers(panelistIds);
+
+    const slots = model.Slots.map((slot) => ({
+      StartTime: new Date(slot.StartTime),
+      EndTime: new Date(slot.EndTime),
+    })).sort((a, b) => a.StartTime.getTime() - b.StartTime.getTime());
+
+    const lastStart = slots[slots.length - 1].StartTime;
+    const requestedExpiry = model.ExpiresOn
+      ? new Date(model.ExpiresOn)
+      : new Date(Date.now() + config.SCHEDULING_LINK_EXPIRES_IN * 1000);
+
+    const token = Security.generateToken();
+    const link = this.toEntity(model);
+    await this.preAddOperation(model, link);
+    link.TokenHash = Security.hashToken(token);
+    link.Title = model.Title.trim();
+    link.Timezone = model.Timezone || 'UTC';
+    link.Location = model.Location?.trim() || null;
+    link.MeetingLink = model.MeetingLink?.trim() || null;
+    link.Notes = model.Notes?.trim() || null;
+    link.PanelistIds = JSON.stringify(panelistIds);
+    link.ExpiresOn = requestedExpiry < lastStart ? requestedExpiry : lastStart;
+    link.UsedOn = null;
+    link.InterviewId = null;
+
+    const savedSlots = await this.transaction(async (trx) => {
+      await this.unitOfWork
+        .getTransactionalRepository<SchedulingLink>(TableNames.SchedulingLink, trx)
+        .create(link);
+
+      return await this.unitOfWork
+        .getTransactionalRepository<SchedulingLinkSlot>(TableNames.SchedulingLinkSlot, trx)
+        .createMany(
+          slots.map((slot) => {
+            const entity = new SchedulingLinkSlot();
+            entity.Uid = Utility.generateUUID();
+            entity.OrgId = link.OrgId;
+            entity.LinkId = link.Uid;
+            entity.StartTime = slot.StartTime;
+            entity.EndTime = slot.EndTime;
+            entity.CreatedOn = new Date();
+            entity.CreatedBy = this.userId;
+            return entity;
+          })
+        );
+    });
+
+    const url = `${config.APP_URL}/schedule/${token}`;
+    this.sendLink(application, link, slots.length, url);
+
+    const result = this.toResult(link, savedSlots);
+    result.Url = url;
+    return Result.toEntityResult(result);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // GUARDS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  override async updateAsync(): Promise<Result<SchedulingLink>> {
+    throw new ValidationError('Scheduling links cannot be changed - revoke it and send a new one');
+  }
+
+  /**
+   * Revokes a link that has not been used
+   */
+  override async deleteAsync(id: string): Promise<boolean> {
+    const link = await this.repository.findById(id, this.tenantId);
+    if (link == null) {
+      throw new NotFoundError('Scheduling link not found');
+    }
+    if (link.UsedOn) {
+      throw new ValidationError('The candidate has already booked this link');
+    }
+    await this.assertPermission(this.permissions.Write, link);
+    return await this.repository.softDelete(id);
+  }
+
+  override async hardDeleteAsync(id: string): Promise<boolean> {
+    return await this.deleteAsync(id);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // READ OPERATIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  override async getByIdAsync(id: string): Promise<Result<SchedulingLinkResult>> {
+    const link = await this.repository.findById(id, this.tenantId);
+    if (link == null) {
+      throw new NotFoundError('Scheduling link not found');
+    }
+    await this.assertPermission(this.permissions.Read, link);
+    return Result.toEntityResult(this.toResult(link, await this.getSlots(link)));
+  }
+
+  /**
+   * Get the links sent for an application, newest first
+   */
+  async getByApplicationAsync(
+    applicationId: string
+  ): Promise<Result<SchedulingLinkResult[]>> {
+    await this.getApplication(applicationId, Permission.ApplicationRead);
+
+    const links = (await this.repository
+      .queryActive()
+      .where({ ApplicationId: applicationId, OrgId: this.tenantId })
+      .orderBy('CreatedOn', 'desc')) as SchedulingLink[];
+
+    const results: SchedulingLinkResult[] = [];
+    for (const link of links) {
+      results.push(this.toResult(link, await this.getSlots(link)));
+    }
+
+    return Result.toEntityResult(results);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // PUBLIC (CANDIDATE) OPERATIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get a link for the candidate with the times the panel is still free
+   * @throws NotFoundError if the token does not match a link
+   * @throws UnAuthorizedError if the link has expired
+   * @throws ValidationError if the link has already been used
+   */
+  async getPublicAsync(token: string): Promise<Result<PublicSchedulingLinkResult>> {
+    const link = await this.getLinkByToken(token);
+    this.assertOpen(link);
+
+    const [details] = await this.unitOfWork.raw<
+      { CandidateName: string; PositionName: string | null; OrganizationName: string | null }[]
+    >(
+      `
+      SELECT a.FullName AS CandidateName, p.Name AS PositionName, o.Name AS OrganizationName
+      FROM ${TableNames.Application} a
+      LEFT JOIN ${TableNames.Position} p ON p.Uid = a.PositionId
+      LEFT JOIN ${TableNames.Organization} o ON o.Uid = a.OrgId
+      WHERE a.Uid = ? AND a.OrgId = ?
+      `,
+      [link.ApplicationId, link.OrgId]
+    );
+
+    const result = new PublicSchedulingLinkResult();
+    result.Title = link.Title;
+    result.CandidateName = details?.CandidateName ?? '';
+    result.PositionName = details?.PositionName ?? null;
+    result.OrganizationName = details?.OrganizationName ?? null;
+    result.Timezone = link.Timezone;
+    result.Location = link.Location;
+    result.ExpiresOn = link.ExpiresOn;
+    result.Slots = await this.getAvailableSlots(link);
+
+    return Result.toEntityResult(result);
+  }
+
+  /**
+   * Books one of the offered times and sends the invitations to the candidate and panel
+   * @throws ValidationError if the slot has passed, the link was used in the meantime
+   * or the panel is no longer free
+   */
+  async bookAsync(
+    token: string,
+    model: BookSlotVm
+  ): Promise<Result<SchedulingBookingResult>> {
+    if (!model?.SlotId?.length) {
+      throw new ValidationError('SlotId is required');
+    }
+
+    const link = await this.getLinkByToken(token);
+    this.assertOpen(link);
+
+    const interview = await this.transaction(async (trx) => {
+      // Lock the link so only one request can use it
+      const current = (await trx(TableNames.SchedulingLink)
+        .where({ Uid: link.Uid, IsDeleted: false })
+        .forUpdate()
+        .first()) as SchedulingLink | undefined;
+      if (current == null) {
+        throw new NotFoundError('Scheduling link not found');
+      }
+      this.assertOpen(current);
+
+      const slot = (await trx(TableNames.SchedulingLinkSlot)
+        .where({ Uid: model.SlotId, LinkId: link.Uid, IsDeleted: false })
+        .first()) as SchedulingLinkSlot | undefined;
+      if (slot == null) {
+        throw new NotFoundError('Slot not found');
+      }
+      if (new Date(slot.StartTime) <= new Date()) {
+        throw new ValidationError('This time has already passed');
+      }
+
+      const scheduled = await this._interviewService.scheduleInTransaction(
+        {
+          ApplicationId: link.ApplicationId,
+          Title: link.Title,
+          StartTime: new Date(slot.StartTime),
+          EndTime: new Date(slot.EndTime),
+          Timezone: link.Timezone,
+          Location: link.Location,
+          MeetingLink: link.MeetingLink,
+          Notes: link.Notes,
+          PanelistIds: this.getPanelistIds(link),
+        },
+        link.OrgId,
+        link.CreatedBy,
+        trx
+      );
+
+      await trx(TableNames.SchedulingLink)
+        .where({ Uid: link.Uid })
+        .update({ UsedOn: new Date(), InterviewId: scheduled.Uid, UpdatedOn: new Date() });
+
+      return scheduled;
+    });
+
+    await this._applicationEventService.record(
+      { Uid: interview.ApplicationId, OrgId: interview.OrgId },
+      ApplicationEventType.InterviewScheduled,
+      `Interview booked by candidate: ${interview.Title}`,
+      {
+        InterviewId: interview.Uid,
+        SchedulingLinkId: link.Uid,
+        StartTime: interview.StartTime,
+        EndTime: interview.EndTime,
+      }
+    );
+
+    this._interviewService.sendInvitation(interview);
+
+    const result = new SchedulingBookingResult();
+    result.Title = interview.Title;
+    result.StartTime = interview.StartTime;
+    result.EndTime = interview.EndTime;
+    result.Timezone = interview.Timezone;
+    result.Location = interview.Location;
+    result.MeetingLink = interview.MeetingLink;
+
+    return Result.toEntityResult(result);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // NOTIFICATIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Emails the link to the candidate without blocking the request
+   */
+  private sendLink(
+    application: Application,
+    link: SchedulingLink,
+    slotCount: number,
+    url: string
+  ): void {
+    const send = async () => {
+      const [position] = await this.unitOfWork.raw<{ Name: string }[]>(
+        `SELECT Name FROM ${TableNames.Position} WHERE Uid = ? AND OrgId = ?`,
+        [application.PositionId, application.OrgId]
+      );
+
+      const email: EmailOptions = {
+        To: [{ Email: application.Email, Name: application.FullName }],
+        Subject: `Choose your interview time - ${position?.Name ?? link.Title}`,
+        Html: TemplateHelper.getInterviewSchedulingTemplate({
+          candidateName: application.FullName,
+          positionTitle: position?.Name ?? link.Title,
+          interviewTitle: link.Title,
+          slotCount: String(slotCount),
+          location: link.Location ?? (link.MeetingLink ? 'Online' : 'To be confirmed'),
+          scheduleUrl: url,
+          expiryDate: DateHelper.format(link.ExpiresOn, 'full', 'en-US', link.Timezone),
+        }),
+      };
+
+      const result = await this._mailService.send(email);
+      await this._applicationEventService.recordEmail(application, email, result);
+    };
+
+    send().catch((error) => {
+      logger.error('Failed to send scheduling link', {
+        SchedulingLinkId: link.Uid,
+        Error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  private async getLinkByToken(token: string): Promise<SchedulingLink> {
+    const link = token
+      ? ((await this.repository
+          .queryActive()
+          .where({ TokenHash: Security.hashToken(token) })
+          .first()) as SchedulingLink | undefined)
+      : undefined;
+
+    if (link == null) {
+      throw new NotFoundError('Scheduling link not found');
+    }
+
+    return link;
+  }
+
+  private assertOpen(link: SchedulingLink): void {
+    const status = this.getStatus(link);
+    if (status === 'Booked') {
+      throw new ValidationError('This scheduling link has already been used');
+    }
+    if (status === 'Expired') {
+      throw new UnAuthorizedError('This scheduling link has expired');
+    }
+  }
+
+  private getStatus(link: SchedulingLink): SchedulingLinkStatus {
+    if (link.UsedOn) return 'Booked';
+    if (new Date(link.ExpiresOn) <= new Date()) return 'Expired';
+    return 'Open';
+  }
+
+  private getPanelistIds(link: SchedulingLink): string[] {
+    return JSON.parse(link.PanelistIds || '[]') as string[];
+  }
+
+  private async getSlots(link: SchedulingLink): Promise<SchedulingSlotResult[]> {
+    const slots = await this.getOtherRepository<SchedulingLinkSlot>(
+      TableNames.SchedulingLinkSlot
+    ).findWhere({ LinkId: link.Uid }, link.OrgId);
+
+    return slots
+      .map((slot) => ({ Uid: slot.Uid, StartTime: slot.StartTime, EndTime: slot.EndTime }))
+      .sort((a, b) => new Date(a.StartTime).getTime() - new Date(b.StartTime).getTime());
+  }
+
+  /**
+   * Offered times that have not started and do not clash with the panel's interviews
+   */
+  private async getAvailableSlots(link: SchedulingLink): Promise<SchedulingSlotResult[]> {
+    const now = new Date();
+    const slots = (await this.getSlots(link)).filter(
+      (slot) => new Date(slot.StartTime) > now
+    );
+    if (!slots.length) return [];
+
+    const busy = await this._interviewService.getBusyIntervals(
+      this.getPanelistIds(link),
+      new Date(slots[0].StartTime),
+      new Date(Math.max(...slots.map((slot) => new Date(slot.EndTime).getTime()))),
+      null,
+      link.OrgId
+    );
+
+    return slots.filter(
+      (slot) =>
+        !busy.some(
+          (interval) =>
+            interval.StartTime < new Date(slot.EndTime) &&
+            interval.EndTime > new Date(slot.StartTime)
+        )
+    );
+  }
+
+  private toResult(
+    link: SchedulingLink,
+    slots: SchedulingSlotResult[]
+  ): SchedulingLinkResult {
+    const result = Object.assign(new SchedulingLinkResult(), link);
+    delete (result as Partial<SchedulingLinkResult>).TokenHash;
+    result.Status = this.getStatus(link);
+    result.Slots = slots.map((slot) => ({
+      Uid: slot.Uid,
+      StartTime: slot.StartTime,
+      EndTime: slot.EndTime,
+    }));
+    return result;
+  }
+
+  /**
+   * Get an application the caller has a permission on
+   */
+  private async getApplication(
+    id: string,
+    permission: Permission
+  ): Promise<Application> {
+    const application = await this.getOtherRepository<Application>(
+      TableNames.Application
+    ).findById(id, this.tenantId);
+
+    if (application == null) {
+      throw new NotFoundError('Application not found');
+    }
+    await this.permissionService.assertPermission(permission, application);
+
+    return application;
+  }
+
+  /**
+   * @throws ValidationError listing the users that are not in the organization
+   */
+  private async assertUsers(userIds: string[]): Promise<void> {
+    const users = await this.unitOfWork.raw<{ Uid: string }[]>(
+      `
+      SELECT Uid FROM ${TableNames.User}
+      WHERE OrgId = ? AND IsDeleted = 0 AND Uid IN (${userIds.map(() => '?').join(', ')})
+      `,
+      [this.tenantId, ...userIds]
+    );
+
+    const missing = userIds.filter((id) => !users.some((u) => u.Uid === id));
+    if (missing.length) {
+      throw new ValidationError(`Panelists not found: ${missing.join(', ')}`);
+    }
+  }
+
+  private validateTimezone(timezone: string): void {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    } catch {
+      throw new ValidationError(`Unknown timezone '${timezone}'`);
+    }
+  }
+}
@@ -0,0 +1,564 @@
+import { inject, injectable } from 'inversify';
+import { TYPES } from '@/core/container/types';
+import { TestSession } from '@/data/entities/test_session';
+import { Application } from '@/data/entities/application';
+import { FormTemplate } from '@/data/entities/form_template';
+import { TableNames } from '@/database/tables';
+import { IUnitOfWork } from '@/repository';
+import { CallerService } from '../caller/caller.service';
+import { BaseService } from '../base/base.service';
+import { Result } from '@/data/response/response';
+import { config } from '@/core/config/environment';
+import { DateHelper } from '@/core/utils/date.utils';
+import { Security } from '@/core/utils/security.utils';
+import { logger } from '@/core/utils/logger.utils';
+import { ValidationError } from '@/middleware/errors/validation.error';
+import { NotFoundError } from '@/middleware/errors/notFound.error';
+import { Permission } from '@/data/enums/permission';
+import { UnAuthorizedError } from '@/middleware/errors/unauthorized.error.';
+import { ApplicationEventType } from '@/data/enums/application_event';
+import { FormTemplateType } from '@/data/enums/template_type';
+import { TestSessionStatus } from '@/data/enums/test_session_status';
+import { SubmitTestVm, TestSessionVm } from '@/data/models/TestSessionVm';
+import {
+  PublicTestSessionResult,
+  TestSessionResult,
+  TestSubmissionResult,
+} from '@/data/results/test_session_result';
+import { FormTemplateSnapshotResult } from '@/data/results/form_template_version_result';
+import { FormValidationHelper } from '@/core/helper/form-validation.helper';
+import { TestGradingHelper } from '@/core/helper/test-grading.helper';
+import { TemplateHelper } from '@/core/helper/template.helper';
+import { EmailOptions } from '@/email';
+import { ApplicationEventService } from './application_event.service';
+import { FormTemplateVersionService } from './form_template_version.service';
+import { MailService } from './mail.service';
+
+/**
+ * Longest time limit of a test, in minutes
+ */
+const MAX_TIME_LIMIT_MINUTES = 8 * 60;
+
+/**
+ * Submissions this long after the due time are still accepted, to allow for
+ * the time a submission takes to reach the server
+ */
+const SUBMISSION_GRACE_SECONDS = 30;
+
+/**
+ * Timed online tests built from Test form templates
+ * @remarks
+ * The candidate receives a tokenized link; the link stores the token's SHA-256.
+ * The timer starts when the candidate starts the test, and the answer key is
+ * never sent to them. Objective questions are graded on submit and the result is
+ * stored on the session of the application. Late submissions are rejected, but
+ * recorded with the time used.
+ */
+@injectable()
+export class TestSessionService extends BaseService<TestSession, TestSessionVm> {
+  private readonly _formTemplateVersionService: FormTemplateVersionService;
+  private readonly _applicationEventService: ApplicationEventService;
+  private readonly _mailService: MailService;
+
+  protected override readonly permissions = {
+    Read: Permission.ApplicationRead,
+    Write: Permission.ApplicationWrite,
+  };
+  protected override readonly applicationColumn = 'ApplicationId';
+
+  constructor(
+    @inject(TYPES.UnitOfWork) unitOfWork: IUnitOfWork,
+    @inject(TYPES.Caller) callerService: CallerService,
+    @inject(TYPES.FormTemplateVersionService)
+    formTemplateVersionService: FormTemplateVersionService,
+    @inject(TYPES.ApplicationEventService)
+    applicationEventService: ApplicationEventService,
+    @inject(TYPES.MailService) mailService: MailService
+  ) {
+    super(unitOfWork, callerService, TableNames.TestSession, TestSession);
+    this._formTemplateVersionService = formTemplateVersionService;
+    this._applicationEventService = applicationEventService;
+    this._mailService = mailService;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // VALIDATION
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  override async validateAdd(model: TestSessionVm): Promise<void> {
+    if (!model?.ApplicationId?.length) {
+      throw new ValidationError('ApplicationId is required');
+    }
+    if (!model.FormTemplateId?.length) {
+      throw new ValidationError('FormTemplateId is required');
+    }
+    if (model.TimeLimitMinutes != null) {
+      this.validateTimeLimit(model.TimeLimitMinutes);
+    }
+    if (model.ExpiresOn != null) {
+      const expiresOn = new Date(model.ExpiresOn);
+      if (isNaN(expiresOn.getTime()) || expiresOn <= new Date()) {
+        throw new ValidationError('ExpiresOn must be in the future');
+      }
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // CREATE
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Creates a test session for an application and emails the link to the candidate
+   * @returns The session, including its URL - the only time the URL is returned
+   * @throws ValidationError if the template is not a published Test template
+   */
+  override async createAsync(model: TestSessionVm): Promise<Result<TestSessionResult>> {
+    await this.validateAdd(model);
+
+    const application = await this.getApplication(
+      model.ApplicationId,
+      Permission.ApplicationWrite
+    );
+    const template = await this.getTestTemplate(model.FormTemplateId);
+    const form = await this._formTemplateVersionService.getPublishedForm(
+      template.Uid,
+      this.tenantId
+    );
+    if (!form?.FormTemplateVersionId) {
+      throw new ValidationError('Publish the test before sending it');
+    }
+    if (!FormValidationHelper.getFields(form).some((f) => Number(f.Points ?? 0) > 0)) {
+      throw new ValidationError('The test has no questions with points');
+    }
+
+    const timeLimit = Number(model.TimeLimitMinutes ?? template.TimeLimitMinutes ?? 0);
+    this.validateTimeLimit(timeLimit);
+
+    const token = Security.generateToken();
+    const session = this.toEntity(model);
+    await this.preAddOperation(model, session);
+    session.ApplicationId = application.Uid;
+    session.FormTemplateId = template.Uid;
+    session.FormTemplateVersionId = form.FormTemplateVersionId;
+    session.TokenHash = Security.hashToken(token);
+    session.TimeLimitMinutes = timeLimit;
+    session.ExpiresOn = model.ExpiresOn
+      ? new Date(model.ExpiresOn)
+      : new Date(Date.now() + config.TEST_LINK_EXPIRES_IN * 1000);
+    session.Status = TestSessionStatus.Pending;
+
+    await this.repository.create(session);
+
+    const url = `${config.APP_URL}/test/${token}`;
+    this.sendInvitation(application, session, template.Name, url);
+
+    const result = this.toResult(session, template.Name);
+    result.Url = url;
+    return Result.toEntityResult(result);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // GUARDS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  override async updateAsync(): Promise<Result<TestSession>> {
+    throw new ValidationError('Test sessions cannot be changed');
+  }
+
+  /**
+   * Revokes a test that has not been submitted
+   */
+  override async deleteAsync(id: string): Promise<boolean> {
+    const session = await this.repository.findById(id, this.tenantId);
+    if (session == null) {
+      throw new NotFoundError('Test session not found');
+    }
+    if (session.SubmittedOn) {
+      throw new ValidationError('Submitted tests cannot be deleted');
+    }
+    await this.assertPermission(this.permissions.Write, session);
+    return await this.repository.softDelete(id);
+  }
+
+  override async hardDeleteAsync(id: string): Promise<boolean> {
+    return await this.deleteAsync(id);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // READ OPERATIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  override async getByIdAsync(id: string): Promise<Result<TestSessionResult>> {
+    const [session] = await this.getSessions({ 's.Uid': id });
+    if (session == null) {
+      throw new NotFoundError('Test session not found');
+    }
+    await this.assertPermission(this.permissions.Read, session);
+    return Result.toEntityResult(session);
+  }
+
+  /**
+   * Get the tests sent for an application with their results, newest first
+   */
+  async getByApplicationAsync(
+    applicationId: string
+  ): Promise<Result<TestSessionResult[]>> {
+    await this.getApplication(applicationId, Permission.ApplicationRead);
+    return Result.toEntityResult(
+      await this.getSessions({ 's.ApplicationId': applicationId })
+    );
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // PUBLIC (CANDIDATE) OPERATIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get a test for the candidate
+   * The questions are only included once the test has started
+   * @throws NotFoundError if the token does not match a test
+   */
+  async getPublicAsync(token: string): Promise<Result<PublicTestSessionResult>> {
+    const session = await this.getSessionByToken(token);
+    const form =
+      session.Status === TestSessionStatus.InProgress
+        ? await this.getCandidateForm(session)
+        : null;
+
+    return Result.toEntityResult(await this.toPublicResult(session, form));
+  }
+
+  /**
+   * Starts the timer and returns the questions
+   * Starting a test that is already in progress returns it with the remaining time
+   * @throws UnAuthorizedError if the test was not started in time
+   * @throws ValidationError if the test has already been submitted
+   */
+  async startAsync(token: string): Promise<Result<PublicTestSessionResult>> {
+    const found = await this.getSessionByToken(token);
+
+    const session = await this.transaction(async (trx) => {
+      const current = (await trx(TableNames.TestSession)
+        .where({ Uid: found.Uid })
+        .forUpdate()
+        .first()) as TestSession;
+
+      if (current.Status === TestSessionStatus.InProgress) {
+        return current;
+      }
+      this.assertNotSubmitted(current);
+      if (new Date(current.ExpiresOn) <= new Date()) {
+        throw new UnAuthorizedError('This test link has expired');
+      }
+
+      const startedOn = new Date();
+      const changes: Partial<TestSession> = {
+        Status: TestSessionStatus.InProgress,
+        StartedOn: startedOn,
+        DueOn: new Date(startedOn.getTime() + current.TimeLimitMinutes * 60000),
+        UpdatedOn: startedOn,
+      };
+      await trx(TableNames.TestSession).where({ Uid: current.Uid }).update(changes);
+
+      return { ...current, ...changes } as TestSession;
+    });
+
+    return Result.toEntityResult(
+      await this.toPublicResult(session, await this.getCandidateForm(session))
+    );
+  }
+
+  /**
+   * Submits the answers, grading the objective questions
+   * @throws ValidationError if the answers are invalid, the test was already
+   * submitted or the time limit has passed - a late submission is recorded
+   * with the time used before it is rejected
+   */
+  async submitAsync(
+    token: string,
+    model: SubmitTestVm
+  ): Promise<Result<TestSubmissionResult>> {
+    const answers = model?.Answers;
+    if (answers == null || typeof answers !== 'object' || Array.isArray(answers)) {
+      throw new ValidationError('Answers must be a JSON object');
+    }
+
+    const found = await this.getSessionByToken(token);
+    if (found.Status === TestSessionStatus.Pending) {
+      throw new ValidationError('The test has not been started');
+    }
+    this.assertNotSubmitted(found);
+
+    const form = await this.getForm(found);
+    const submittedOn = new Date();
+    const isLate =
+      submittedOn.getTime() >
+      new Date(found.DueOn!).getTime() + SUBMISSION_GRACE_SECONDS * 1000;
+
+    if (!isLate) {
+      const errors = FormValidationHelper.validate(form, answers);
+      if (Object.keys(errors).length) {
+        throw new ValidationError('Test answers are invalid', errors);
+      }
+    }
+
+    const timeUsedSeconds = Math.round(
+      (submittedOn.getTime() - new Date(found.StartedOn!).getTime()) / 1000
+    );
+    const grade = isLate ? null : TestGradingHelper.grade(form, answers);
+
+    const changes: Partial<TestSession> = {
+      Status: isLate ? TestSessionStatus.Late : TestSessionStatus.Submitted,
+      SubmittedOn: submittedOn,
+      TimeUsedSeconds: timeUsedSeconds,
+      Answers: JSON.stringify(answers),
+      Score: grade?.Score ?? null,
+      MaxScore: grade?.MaxScore ?? null,
+      RequiresReview: grade?.RequiresReview ?? false,
+      Grading: grade ? JSON.stringify(grade.Questions) : null,
+      UpdatedOn: submittedOn,
+    };
+
+    // Only the first of concurrent submissions is stored
+    const updated = await this.repository
+      .query()
+      .where({ Uid: found.Uid, Status: TestSessionStatus.InProgress })
+      .update(changes);
+    if (!updated) {
+      throw new ValidationError('This test has already been submitted');
+    }
+
+    const timeUsed = DateHelper.formatDuration(timeUsedSeconds * 1000);
+    const application = { Uid: found.ApplicationId, OrgId: found.OrgId };
+
+    if (isLate) {
+      await this._applicationEventService.record(
+        application,
+        ApplicationEventType.TestSubmittedLate,
+        `Test submitted late after ${timeUsed} (limit ${found.TimeLimitMinutes} minutes)`,
+        {
+          TestSessionId: found.Uid,
+          TimeUsedSeconds: timeUsedSeconds,
+          TimeLimitMinutes: found.TimeLimitMinutes,
+        }
+      );
+
+      throw new ValidationError(
+        `The time limit of ${found.TimeLimitMinutes} minutes has passed - ` +
+          `the test was submitted after ${timeUsed} and was not accepted`
+      );
+    }
+
+    await this._applicationEventService.record(
+      application,
+      ApplicationEventType.TestSubmitted,
+      `Test submitted: ${grade!.Score}/${grade!.MaxScore}` +
+        (grade!.RequiresReview ? ' (needs review)' : ''),
+      {
+        TestSessionId: found.Uid,
+        Score: grade!.Score,
+        MaxScore: grade!.MaxScore,
+        RequiresReview: grade!.RequiresReview,
+        TimeUsedSeconds: timeUsedSeconds,
+      }
+    );
+
+    const result = new TestSubmissionResult();
+    result.Status = TestSessionStatus.Submitted;
+    result.SubmittedOn = submittedOn;
+    result.TimeUsedSeconds = timeUsedSeconds;
+    return Result.toEntityResult(result);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // NOTIFICATIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Emails the test link to the candidate without blocking the request
+   */
+  private sendInvitation(
+    application: Application,
+    session: TestSession,
+    testName: string,
+    url: string
+  ): void {
+    const send = async () => {
+      const [position] = await this.unitOfWork.raw<{ Name: string }[]>(
+        `SELECT Name FROM ${TableNames.Position} WHERE Uid = ? AND OrgId = ?`,
+        [application.PositionId, application.OrgId]
+      );
+
+      const email: EmailOptions = {
+        To: [{ Email: application.Email, Name: application.FullName }],
+        Subject: `Online assessment - ${position?.Name ?? testName}`,
+        Html: TemplateHelper.getAssessmentInvitationTemplate({
+          candidateName: application.FullName,
+          positionTitle: position?.Name ?? testName,
+          testName,
+          timeLimit: String(session.TimeLimitMinutes),
+          testUrl: url,
+          expiryDate: DateHelper.format(session.ExpiresOn, 'full'),
+        }),
+      };
+
+      const result = await this._mailService.send(email);
+      await this._applicationEventService.recordEmail(application, email, result);
+    };
+
+    send().catch((error) => {
+      logger.error('Failed to send test invitation', {
+        TestSessionId: session.Uid,
+        Error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  private async getSessions(
+    where: Record<string, string>
+  ): Promise<TestSessionResult[]> {
+    const conditions = Object.keys(where).map((column) => `${column} = ?`);
+    const rows = await this.unitOfWork.raw<TestSessionResult[]>(
+      `
+      SELECT s.*, t.Name AS TestName
+      FROM ${TableNames.TestSession} s
+      LEFT JOIN ${TableNames.FormTemplate} t ON t.Uid = s.FormTemplateId
+      WHERE ${conditions.join(' AND ')} AND s.OrgId = ? AND s.IsDeleted = 0
+      ORDER BY s.CreatedOn DESC
+      `,
+      [...Object.values(where), this.tenantId]
+    );
+
+    return rows.map((row) => this.toResult(row, row.TestName));
+  }
+
+  private async getSessionByToken(token: string): Promise<TestSession> {
+    const session = token
+      ? ((await this.repository
+          .queryActive()
+          .where({ TokenHash: Security.hashToken(token) })
+          .first()) as TestSession | undefined)
+      : undefined;
+
+    if (session == null) {
+      throw new NotFoundError('Test not found');
+    }
+
+    return session;
+  }
+
+  private assertNotSubmitted(session: TestSession): void {
+    if (
+      session.Status === TestSessionStatus.Submitted ||
+      session.Status === TestSessionStatus.Late
+    ) {
+      throw new ValidationError('This test has already been submitted');
+    }
+  }
+
+  private async getForm(session: TestSession): Promise<FormTemplateSnapshotResult> {
+    const form = await this._formTemplateVersionService.getSnapshotById(
+      session.FormTemplateVersionId,
+      session.OrgId
+    );
+    if (form == null) {
+      throw new NotFoundError('Test not found');
+    }
+    return form;
+  }
+
+  private async getCandidateForm(
+    session: TestSession
+  ): Promise<FormTemplateSnapshotResult> {
+    return TestGradingHelper.withoutAnswers(await this.getForm(session));
+  }
+
+  private async toPublicResult(
+    session: TestSession,
+    form: FormTemplateSnapshotResult | null
+  ): Promise<PublicTestSessionResult> {
+    const [application] = await this.unitOfWork.raw<{ FullName: string }[]>(
+      `SELECT FullName FROM ${TableNames.Application} WHERE Uid = ? AND OrgId = ?`,
+      [session.ApplicationId, session.OrgId]
+    );
+
+    const result = new PublicTestSessionResult();
+    result.TestName = form?.Name ?? (await this.getForm(session)).Name;
+    result.CandidateName = application?.FullName ?? '';
+    result.Status = this.getStatus(session);
+    result.TimeLimitMinutes = session.TimeLimitMinutes;
+    result.ExpiresOn = session.ExpiresOn;
+    result.StartedOn = session.StartedOn;
+    result.DueOn = session.DueOn;
+    result.RemainingSeconds =
+      session.Status === TestSessionStatus.InProgress && session.DueOn
+        ? Math.max(0, Math.round((new Date(session.DueOn).getTime() - Date.now()) / 1000))
+        : null;
+    result.Form = form;
+    return result;
+  }
+
+  /**
+   * Reports unstarted tests past their start deadline as Expired
+   */
+  private getStatus(session: TestSession): TestSessionStatus {
+    return session.Status === TestSessionStatus.Pending &&
+      new Date(session.ExpiresOn) <= new Date()
+      ? TestSessionStatus.Expired
+      : session.Status;
+  }
+
+  private toResult(session: TestSession, testName: string): TestSessionResult {
+    const result = Object.assign(new TestSessionResult(), session);
+    delete (result as Partial<TestSessionResult>).TokenHash;
+    result.TestName = testName;
+    result.Status = this.getStatus(session);
+    return result;
+  }
+
+  /**
+   * Get an application the caller has a permission on
+   */
+  private async getApplication(
+    id: string,
+    permission: Permission
+  ): Promise<Application> {
+    const application = await this.getOtherRepository<Application>(
+      TableNames.Application
+    ).findById(id, this.tenantId);
+
+    if (application == null) {
+      throw new NotFoundError('Application not found');
+    }
+    await this.permissionService.assertPermission(permission, application);
+
+    return application;
+  }
+
+  private async getTestTemplate(id: string): Promise<FormTemplate> {
+    const template = await this.getOtherRepository<FormTemplate>(
+      TableNames.FormTemplate
+    ).findById(id, this.tenantId);
+
+    if (template == null) {
+      throw new NotFoundError('Form template not found');
+    }
+    if (Number(template.TemplateType) !== FormTemplateType.Test) {
+      throw new ValidationError('The form template is not a Test template');
+    }
+
+    return template;
+  }
+
+  private validateTimeLimit(minutes: number): void {
+    if (!Number.isInteger(Number(minutes)) || minutes < 1 || minutes > MAX_TIME_LIMIT_MINUTES) {
+      throw new ValidationError(
+        `TimeLimitMinutes must be a whole number from 1 to ${MAX_TIME_LIMIT_MINUTES}`
+      );
+    }
+  }
+}
@@ -6,6 +6,20 @@ import { IUnitOfWork } from '@/repository/interfaces';
 import { CallerService } from '../caller/caller.service';
 import { BaseService } from '../base/base.service';
 import { ValidationError } from '@/middleware/errors/validation.error';
+import { ForbiddenError } from '@/middleware/errors/forbidden.error';
+import { Result } from '@/data/response/response';
+import { Role } from '@/data/enums/role';
+import { ListQueryOptions, PaginatedResult } from '@/database/types';
+
+/**
+ * Rank of each role - callers cannot give or change roles above their own
+ */
+const ROLE_RANKS: Record<Role, number> = {
+  [Role.MasterAdmin]: 3,
+  [Role.Admin]: 2,
+  [Role.Employee]: 1,
+  [Role.Unknwon]: 0,
+};
 
 @injectable()
 export class UserService extends BaseService<User> {
@@ -17,19 +31,76 @@ export class UserService extends BaseService<User> {
   }
 
   /**
-   * Validate before creating - check for duplicate email
+   * Validate before creating - check for duplicate email and the role
    */
   override async validateAdd(entity: User): Promise<void> {
+    if (entity.Role !== undefined) {
+      this.validateRole(entity.Role);
+    }
     await this.validateDuplicateUser(entity, null);
   }
 
   /**
-   * Validate before updating - check for duplicate email
+   * Validate before updating - check for duplicate email and the role
    */
   override async validateUpdate(entity: User): Promise<void> {
+    if (entity.Role !== undefined) {
+      this.validateRole(entity.Role);
+    }
     await this.validateDuplicateUser(entity, entity.Uid);
   }
 
+  /**
+   * Updates a user the caller outranks or equals
+   * @throws ForbiddenError if the user has a role above the caller's
+   */
+  override async updateAsync(model: User, id: string): Promise<Result<User>> {
+    await this.assertManageable(id, 'You cannot change a user with a role above yours');
+    return await super.updateAsync(model, id);
+  }
+
+  /**
+   * Deletes a user the caller outranks or equals
+   * @throws ForbiddenError if the user has a role above the caller's
+   */
+  override async deleteAsync(id: string): Promise<boolean> {
+    await this.assertManageable(id, 'You cannot delete a user with a role above yours');
+    return await super.deleteAsync(id);
+  }
+
+  override async hardDeleteAsync(id: string): Promise<boolean> {
+    await this.assertManageable(id, 'You cannot delete a user with a role above yours');
+    return await super.hardDeleteAsync(id);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // READ OPERATIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get all users of the organization, without their password hashes
+   */
+  override async getAllAsync(columns?: (keyof User)[]): Promise<Result<User>> {
+    const { Result: page } = await super.getAllAsync(columns);
+    return Result.toPagedResult(
+      1,
+      1,
+      1,
+      (page?.Records ?? []).map((user) => this.toResult(user))
+    );
+  }
+
+  override async getListAsync(
+    options?: ListQueryOptions
+  ): Promise<PaginatedResult<User>> {
+    const list = await super.getListAsync(options);
+    return { ...list, data: list.data.map((user) => this.toResult(user)) };
+  }
+
+  override async toEntityResult(entity: User): Promise<Result<User>> {
+    return Result.toEntityResult(this.toResult(entity));
+  }
+
   /**
    * Get user by email
    */
@@ -38,6 +109,41 @@ export class UserService extends BaseService<User> {
     return await this.repository.findOneWhere({ Email: email });
   }
 
+  /**
+   * Ensures the role exists and is not above the caller's
+   */
+  private validateRole(role: Role): void {
+    if (!Object.values(Role).includes(role)) {
+      throw new ValidationError(
+        `Role must be one of ${Object.values(Role).join(', ')}`
+      );
+    }
+    if (!this.canManageRole(role)) {
+      throw new ForbiddenError('You cannot give a role above yours');
+    }
+  }
+
+  private canManageRole(role: Role): boolean {
+    return (ROLE_RANKS[role] ?? 0) <= ROLE_RANKS[this._callerService.role];
+  }
+
+  private async assertManageable(id: string, message: string): Promise<void> {
+    // Deleted users are included so they cannot be hard deleted either
+    const user = (await this.repository
+      .query()
+      .where({ Uid: id, OrgId: this.tenantId })
+      .first()) as User | undefined;
+    if (user && !this.canManageRole(user.Role)) {
+      throw new ForbiddenError(message);
+    }
+  }
+
+  private toResult(user: User): User {
+    const result = { ...user };
+    delete (result as Partial<User>).Password;
+    return result;
+  }
+
   /**
    * Check for duplicate email
    */
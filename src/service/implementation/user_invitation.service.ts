@@ -0,0 +1,413 @@
+import { inject, injectable } from 'inversify';
+import { TYPES } from '@/core/container/types';
+import { UserInvitation } from '@/data/entities/user_invitation';
+import { User } from '@/data/entities/user';
+import { UserInfo } from '@/data/entities/user-info';
+import { TableNames } from '@/database/tables';
+import { IUnitOfWork } from '@/repository';
+import { CallerService } from '../caller/caller.service';
+import { BaseService } from '../base/base.service';
+import { Result } from '@/data/response/response';
+import { config } from '@/core/config/environment';
+import { Utility } from '@/core/utils/common.utils';
+import { DateHelper } from '@/core/utils/date.utils';
+import { Security } from '@/core/utils/security.utils';
+import { Validator } from '@/core/utils/validator.utils';
+import { logger } from '@/core/utils/logger.utils';
+import { ValidationError } from '@/middleware/errors/validation.error';
+import { NotFoundError } from '@/middleware/errors/notFound.error';
+import { UnAuthorizedError } from '@/middleware/errors/unauthorized.error.';
+import { Role } from '@/data/enums/role';
+import { AcceptInvitationVm, UserInvitationVm } from '@/data/models/UserInvitationVm';
+import {
+  PublicInvitationResult,
+  UserInvitationResult,
+  UserInvitationStatus,
+} from '@/data/results/user_invitation_result';
+import { TemplateHelper } from '@/core/helper/template.helper';
+import { isValidEmail } from '@/email';
+import { MailService } from './mail.service';
+
+/**
+ * Roles that can be given through an invitation
+ */
+const INVITABLE_ROLES: Record<string, string> = {
+  [Role.Admin]: 'Admin',
+  [Role.Employee]: 'Employee',
+};
+
+/**
+ * Invitations to join an organization
+ * @remarks
+ * Admins invite an email with a role; the invitee receives a single-use link
+ * and sets their password when accepting it. Accepting creates the User and
+ * its UserInfo in one transaction. Only the SHA-256 of the token is stored.
+ */
+@injectable()
+export class UserInvitationService extends BaseService<UserInvitation, UserInvitationVm> {
+  private readonly _mailService: MailService;
+
+  constructor(
+    @inject(TYPES.UnitOfWork) unitOfWork: IUnitOfWork,
+    @inject(TYPES.Caller) callerService: CallerService,
+    @inject(TYPES.MailService) mailService: MailService
+  ) {
+    super(unitOfWork, callerService, TableNames.UserInvitation, UserInvitation);
+    this._mailService = mailService;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // VALIDATION
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  override async validateAdd(model: UserInvitationVm): Promise<void> {
+    if (!model?.Email?.trim()?.length) {
+      throw new ValidationError('Email is required');
+    }
+    if (!isValidEmail(model.Email.trim())) {
+      throw new ValidationError('Email is not valid');
+    }
+    if (!INVITABLE_ROLES[model.Role]) {
+      throw new ValidationError(
+        `Role must be one of ${Object.keys(INVITABLE_ROLES).join(', ')}`
+      );
+    }
+
+    const email = model.Email.trim().toLowerCase();
+    if (await this.hasAccount(email)) {
+      throw new ValidationError('An account already exists for this email');
+    }
+
+    const pending = (await this.repository
+      .queryActive()
+      .where({ OrgId: this.tenantId, Email: email, AcceptedOn: null })
+      .andWhere('ExpiresOn', '>', new Date())
+      .first()) as UserInvitation | undefined;
+    if (pending) {
+      throw new ValidationError('This email already has a pending invitation - resend it instead');
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // CREATE
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Invites an email to the organization and sends the welcome email
+   * @returns The invitation, including its URL - the only time the URL is returned
+   */
+  override async createAsync(
+    model: UserInvitationVm
+  ): Promise<Result<UserInvitationResult>> {
+    await this.validateAdd(model);
+
+    const token = Security.generateToken();
+    const invitation = new UserInvitation();
+    await this.preAddOperation(model, invitation);
+    invitation.Email = model.Email.trim().toLowerCase();
+    invitation.Role = model.Role;
+    invitation.FirstName = model.FirstName?.trim() ?? '';
+    invitation.LastName = model.LastName?.trim() ?? '';
+    invitation.TokenHash = Security.hashToken(token);
+    invitation.ExpiresOn = new Date(Date.now() + config.INVITATION_EXPIRES_IN * 1000);
+    invitation.AcceptedOn = null;
+    invitation.UserId = null;
+
+    await this.repository.create(invitation);
+
+    const url = this.getUrl(token);
+    this.sendInvitation(invitation, url);
+
+    const result = this.toResult(invitation);
+    result.Url = url;
+    return Result.toEntityResult(result);
+  }
+
+  /**
+   * Sends an invitation again with a new link and expiry
+   * The earlier link stops working
+   * @throws ValidationError if the invitation has been accepted
+   */
+  async resendAsync(id: string): Promise<Result<UserInvitationResult>> {
+    const invitation = await this.repository.findById(id, this.tenantId);
+    if (invitation == null) {
+      throw new NotFoundError('Invitation not found');
+    }
+    if (invitation.AcceptedOn) {
+      throw new ValidationError('This invitation has already been accepted');
+    }
+
+    const token = Security.generateToken();
+    const updated = await this.repository.update(id, {
+      TokenHash: Security.hashToken(token),
+      ExpiresOn: new Date(Date.now() + config.INVITATION_EXPIRES_IN * 1000),
+      UpdatedBy: this.userId,
+    });
+
+    const url = this.getUrl(token);
+    this.sendInvitation(updated, url);
+
+    const result = this.toResult(updated);
+    result.Url = url;
+    return Result.toEntityResult(result);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // GUARDS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  override async updateAsync(): Promise<Result<UserInvitation>> {
+    throw new ValidationError('Invitations cannot be changed - revoke it and send a new one');
+  }
+
+  /**
+   * Revokes an invitation that has not been accepted
+   */
+  override async deleteAsync(id: string): Promise<boolean> {
+    const invitation = await this.repository.findById(id, this.tenantId);
+    if (invitation == null) {
+      throw new NotFoundError('Invitation not found');
+    }
+    if (invitation.AcceptedOn) {
+      throw new ValidationError('This invitation has already been accepted');
+    }
+    return await this.repository.softDelete(id);
+  }
+
+  override async hardDeleteAsync(id: string): Promise<boolean> {
+    return await this.deleteAsync(id);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // READ OPERATIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  override async getByIdAsync(id: string): Promise<Result<UserInvitationResult>> {
+    const invitation = await this.repository.findById(id, this.tenantId);
+    if (invitation == null) {
+      throw new NotFoundError('Invitation not found');
+    }
+    return Result.toEntityResult(this.toResult(invitation));
+  }
+
+  /**
+   * Get the invitations of the organization, newest first
+   */
+  override async getAllAsync(): Promise<Result<UserInvitationResult>> {
+    const invitations = (await this.repository
+      .queryActive()
+      .where({ OrgId: this.tenantId })
+      .orderBy('CreatedOn', 'desc')) as UserInvitation[];
+
+    const results = invitations.map((invitation) => this.toResult(invitation));
+    return Result.toPagedResult(1, results.length, results.length, results);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // PUBLIC (INVITEE) OPERATIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get an invitation for the accept page
+   * @throws NotFoundError if the token does not match an invitation
+   */
+  async getPublicAsync(token: string): Promise<Result<PublicInvitationResult>> {
+    return Result.toEntityResult(await this.toPublicResult(await this.getByToken(token)));
+  }
+
+  /**
+   * Accepts an invitation: creates the user with the chosen password and its profile
+   * @throws NotFoundError if the token does not match an invitation
+   * @throws UnAuthorizedError if the invitation has expired
+   * @throws ValidationError if it was accepted, the email already has an account
+   * or the password is weak
+   */
+  async acceptAsync(
+    token: string,
+    model: AcceptInvitationVm
+  ): Promise<Result<PublicInvitationResult>> {
+    if (!model?.Password?.length) {
+      throw new ValidationError('Password is required');
+    }
+    const strength = Validator.isValidPassword(model.Password);
+    if (!strength.valid) {
+      throw new ValidationError('Password is too weak', { Password: strength.errors });
+    }
+
+    const invitation = await this.getByToken(token);
+    this.assertOpen(invitation);
+
+    const firstName = model.FirstName?.trim() || invitation.FirstName;
+    if (!firstName?.length) {
+      throw new ValidationError('FirstName is required');
+    }
+
+    const password = await Security.hashPassword(model.Password);
+    const now = new Date();
+
+    const accepted = await this.transaction(async (trx) => {
+      // Lock the invitation so only one request can accept it
+      const current = (await trx(TableNames.UserInvitation)
+        .where({ Uid: invitation.Uid, IsDeleted: false })
+        .forUpdate()
+        .first()) as UserInvitation | undefined;
+      if (current == null) {
+        throw new NotFoundError('Invitation not found');
+      }
+      this.assertOpen(current);
+
+      const existing = await trx(TableNames.User)
+        .where({ Email: current.Email, IsDeleted: false })
+        .first();
+      if (existing) {
+        throw new ValidationError('An account already exists for this email');
+      }
+
+      const user = new User();
+      user.Uid = Utility.generateUUID();
+      user.OrgId = current.OrgId;
+      user.Email = current.Email;
+      user.Role = current.Role;
+      user.Password = password;
+      user.IsActive = true;
+      user.IsDeleted = false;
+      user.CreatedOn = now;
+      user.CreatedBy = current.CreatedBy;
+      await this.unitOfWork
+        .getTransactionalRepository<User>(TableNames.User, trx)
+        .create(user);
+
+      const userInfo = new UserInfo();
+      userInfo.Uid = Utility.generateUUID();
+      userInfo.OrgId = current.OrgId;
+      userInfo.UserId = user.Uid;
+      userInfo.Email = current.Email;
+      userInfo.FirstName = firstName;
+      userInfo.LastName = model.LastName?.trim() || current.LastName;
+      userInfo.Phone = model.Phone?.trim() ?? '';
+      userInfo.JoiningDate = now;
+      userInfo.IsActive = true;
+      userInfo.IsDeleted = false;
+      userInfo.CreatedOn = now;
+      userInfo.CreatedBy = user.Uid;
+      await this.unitOfWork
+        .getTransactionalRepository<UserInfo>(TableNames.UserInfo, trx)
+        .create(userInfo);
+
+      const changes = { AcceptedOn: now, UserId: user.Uid, UpdatedOn: now };
+      await trx(TableNames.UserInvitation).where({ Uid: current.Uid }).update(changes);
+
+      return { ...current, ...changes, FirstName: userInfo.FirstName, LastName: userInfo.LastName };
+    });
+
+    return Result.toEntityResult(await this.toPublicResult(accepted));
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // NOTIFICATIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Sends the welcome email with the accept link without blocking the request
+   */
+  private sendInvitation(invitation: UserInvitation, url: string): void {
+    const send = async () => {
+      const userName = invitation.FirstName || invitation.Email;
+      const result = await this._mailService.send({
+        To: [{ Email: invitation.Email, Name: invitation.FirstName || undefined }],
+        Subject: 'You have been invited to the Recruitment System',
+        Html: TemplateHelper.getWelcomeTemplate({
+          userName,
+          userEmail: invitation.Email,
+          userRole: INVITABLE_ROLES[invitation.Role] ?? invitation.Role,
+          joinDate: DateHelper.format(new Date(), 'long'),
+          loginUrl: url,
+        }),
+      });
+      if (!result.Success) {
+        logger.error('Failed to send user invitation', {
+          InvitationId: invitation.Uid,
+          Error: result.Error,
+        });
+      }
+    };
+
+    send().catch((error) => {
+      logger.error('Failed to send user invitation', {
+        InvitationId: invitation.Uid,
+        Error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  private async hasAccount(email: string): Promise<boolean> {
+    const [user] = await this.unitOfWork.raw<{ Uid: string }[]>(
+      `SELECT Uid FROM ${TableNames.User} WHERE Email = ? AND IsDeleted = 0 LIMIT 1`,
+      [email]
+    );
+    return user != null;
+  }
+
+  private async getByToken(token: string): Promise<UserInvitation> {
+    const invitation = token
+      ? ((await this.repository
+          .queryActive()
+          .where({ TokenHash: Security.hashToken(token) })
+          .first()) as UserInvitation | undefined)
+      : undefined;
+
+    if (invitation == null) {
+      throw new NotFoundError('Invitation not found');
+    }
+
+    return invitation;
+  }
+
+  private assertOpen(invitation: UserInvitation): void {
+    const status = this.getStatus(invitation);
+    if (status === 'Accepted') {
+      throw new ValidationError('This invitation has already been accepted');
+    }
+    if (status === 'Expired') {
+      throw new UnAuthorizedError('This invitation has expired');
+    }
+  }
+
+  private getStatus(invitation: UserInvitation): UserInvitationStatus {
+    if (invitation.AcceptedOn) return 'Accepted';
+    if (new Date(invitation.ExpiresOn) <= new Date()) return 'Expired';
+    return 'Pending';
+  }
+
+  private getUrl(token: string): string {
+    return `${config.APP_URL}/invite/${token}`;
+  }
+
+  private toResult(invitation: UserInvitation): UserInvitationResult {
+    const result = Object.assign(new UserInvitationResult(), invitation);
+    delete (result as Partial<UserInvitationResult>).TokenHash;
+    result.Status = this.getStatus(invitation);
+    return result;
+  }
+
+  private async toPublicResult(invitation: UserInvitation): Promise<PublicInvitationResult> {
+    const [organization] = await this.unitOfWork.raw<{ Name: string }[]>(
+      `SELECT Name FROM ${TableNames.Organization} WHERE Uid = ?`,
+      [invitation.OrgId]
+    );
+
+    const result = new PublicInvitationResult();
+    result.Email = invitation.Email;
+    result.Role = invitation.Role;
+    result.FirstName = invitation.FirstName;
+    result.LastName = invitation.LastName;
+    result.OrganizationName = organization?.Name ?? null;
+    result.Status = this.getStatus(invitation);
+    result.ExpiresOn = invitation.ExpiresOn;
+    return result;
+  }
+}
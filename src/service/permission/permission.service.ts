@@ -0,0 +1,275 @@
+import { inject, injectable } from "inversify";
+import { TYPES } from "@/core/container/types";
+import { IUnitOfWork } from "@/repository";
+import { TableNames } from "@/database/tables";
+import { Role } from "@/data/enums/role";
+import { Permission } from "@/data/enums/permission";
+import { ForbiddenError } from "@/middleware/errors/forbidden.error";
+import { CallerService } from "../caller/caller.service";
+import { Caller } from "../caller/caller";
+import {
+  PermissionCondition,
+  PermissionScope,
+  PermissionTarget,
+} from "./permission_scope";
+
+interface PermissionGrant {
+  Permissions: string;
+  DepartmentId: string | null;
+  PositionId: string | null;
+}
+
+/**
+ * Resolves the caller's permissions from the roles of their organization
+ * @remarks
+ * Admins, master admins and anonymous callers are not restricted - anonymous
+ * callers only reach public routes. Employees of an organization without
+ * roles keep full access; once it defines a role, employees only have the
+ * permissions of the roles given to them. Grants are loaded once per
+ * authenticated request.
+ */
+@injectable()
+export class PermissionService {
+  /**
+   * Grants per caller - a new Caller is set on every authenticated request;
+   * null when the caller is not restricted
+   */
+  private static readonly grants = new WeakMap<
+    Caller,
+    Promise<PermissionGrant[] | null>
+  >();
+
+  private readonly unitOfWork: IUnitOfWork;
+  private readonly _callerService: CallerService;
+
+  constructor(
+    @inject(TYPES.UnitOfWork) unitOfWork: IUnitOfWork,
+    @inject(TYPES.Caller) callerService: CallerService
+  ) {
+    this.unitOfWork = unitOfWork;
+    this._callerService = callerService;
+  }
+
+  /**
+   * Get where a permission applies for the caller
+   * @returns The scope, or null when the caller does not have the permission
+   */
+  async getScope(permission: Permission): Promise<PermissionScope | null> {
+    const grants = await this.getGrants();
+    if (grants == null) {
+      return PermissionScope.all();
+    }
+
+    let scope: PermissionScope | null = null;
+    for (const grant of grants) {
+      if (!this.parsePermissions(grant).includes(permission)) continue;
+
+      scope ??= new PermissionScope();
+      if (grant.PositionId) {
+        scope.PositionIds.push(grant.PositionId);
+      } else if (grant.DepartmentId) {
+        scope.DepartmentIds.push(grant.DepartmentId);
+      } else {
+        scope.All = true;
+      }
+    }
+    return scope;
+  }
+
+  /**
+   * Whether the caller has a permission anywhere in the organization
+   */
+  async hasPermission(permission: Permission): Promise<boolean> {
+    return (await this.getScope(permission)) != null;
+  }
+
+  /**
+   * Ensures the caller has a permission, on a record when given
+   * @param permission Required permission
+   * @param target Department and position of the record
+   * @throws ForbiddenError if the caller does not have the permission
+   */
+  async assertPermission(
+    permission: Permission,
+    target?: PermissionTarget
+  ): Promise<void> {
+    const scope = await this.getScope(permission);
+    if (scope == null) {
+      throw new ForbiddenError(`The ${permission} permission is required`);
+    }
+    if (target == null || scope.All) return;
+
+    if (
+      target.DepartmentId === undefined &&
+      target.PositionId &&
+      scope.DepartmentIds.length
+    ) {
+      target = {
+        ...target,
+        DepartmentId: await this.getDepartmentId(target.PositionId),
+      };
+    }
+    if (!scope.includes(target)) {
+      throw new ForbiddenError(
+        `The ${permission} permission does not cover this record`
+      );
+    }
+  }
+
+  /**
+   * Ensures the caller has a permission on an application, through its position
+   * @param permission Required permission
+   * @param applicationId Application the record belongs to - without it the
+   * caller only needs the permission somewhere in the organization
+   * @throws ForbiddenError if the permission does not cover the application
+   */
+  async assertApplicationPermission(
+    permission: Permission,
+    applicationId: string | null
+  ): Promise<void> {
+    const scope = await this.getScope(permission);
+    if (scope?.All) return;
+    if (applicationId == null) {
+      return await this.assertPermission(permission);
+    }
+
+    const [application] = await this.unitOfWork.raw<
+      { PositionId: string | null }[]
+    >(`SELECT PositionId FROM ${TableNames.Application} WHERE Uid = ? LIMIT 1`, [
+      applicationId,
+    ]);
+    await this.assertPermission(permission, {
+      PositionId: application?.PositionId ?? null,
+    });
+  }
+
+  /**
+   * Get the condition limiting a query to the records the caller has a permission on
+   * @param permission Required permission
+   * @param positionColumn Column holding the position of a record, e.g. `a.PositionId` -
+   * without it only callers with the permission on the whole organization see records
+   * @throws ForbiddenError if the caller does not have the permission
+   */
+  async getCondition(
+    permission: Permission,
+    positionColumn?: string
+  ): Promise<PermissionCondition> {
+    const scope = await this.getScope(permission);
+    if (scope == null) {
+      throw new ForbiddenError(`The ${permission} permission is required`);
+    }
+    if (scope.All) {
+      return { Sql: "1 = 1", Bindings: [] };
+    }
+
+    const conditions: string[] = [];
+    const bindings: string[] = [];
+    if (positionColumn && scope.PositionIds.length) {
+      conditions.push(
+        `${positionColumn} IN (${scope.PositionIds.map(() => "?").join(", ")})`
+      );
+      bindings.push(...scope.PositionIds);
+    }
+    if (positionColumn && scope.DepartmentIds.length) {
+      conditions.push(
+        `${positionColumn} IN (SELECT Uid FROM ${TableNames.Position} WHERE DepartmentId IN (${scope.DepartmentIds.map(() => "?").join(", ")}))`
+      );
+      bindings.push(...scope.DepartmentIds);
+    }
+
+    return conditions.length
+      ? { Sql: `(${conditions.join(" OR ")})`, Bindings: bindings }
+      : { Sql: "1 = 0", Bindings: [] };
+  }
+
+  /**
+   * Get the condition limiting a query to the records of the applications the
+   * caller has a permission on
+   * @param permission Required permission
+   * @param applicationColumn Column holding the application of a record, e.g. `n.ApplicationId`
+   * @throws ForbiddenError if the caller does not have the permission
+   */
+  async getApplicationCondition(
+    permission: Permission,
+    applicationColumn: string
+  ): Promise<PermissionCondition> {
+    const condition = await this.getCondition(permission, "PositionId");
+    if (condition.Sql === "1 = 1" || condition.Sql === "1 = 0") {
+      return condition;
+    }
+
+    return {
+      Sql: `${applicationColumn} IN (SELECT Uid FROM ${TableNames.Application} WHERE ${condition.Sql})`,
+      Bindings: condition.Bindings,
+    };
+  }
+
+  /**
+   * Get the caller's scope of every permission they have
+   */
+  async getPermissionsAsync(): Promise<[Permission, PermissionScope][]> {
+    const permissions: [Permission, PermissionScope][] = [];
+    for (const permission of Object.values(Permission)) {
+      const scope = await this.getScope(permission);
+      if (scope) {
+        permissions.push([permission, scope]);
+      }
+    }
+    return permissions;
+  }
+
+  //#region Grants
+
+  private getGrants(): Promise<PermissionGrant[] | null> {
+    const caller = this._callerService._caller;
+
+    let grants = PermissionService.grants.get(caller);
+    if (grants == null) {
+      grants = this.loadGrants(caller);
+      PermissionService.grants.set(caller, grants);
+    }
+    return grants;
+  }
+
+  private async loadGrants(caller: Caller): Promise<PermissionGrant[] | null> {
+    if (
+      this._callerService.isAnonymous ||
+      [Role.Admin, Role.MasterAdmin].includes(caller.Role)
+    ) {
+      return null;
+    }
+
+    const [role] = await this.unitOfWork.raw<{ Uid: string }[]>(
+      `SELECT Uid FROM ${TableNames.OrgRole} WHERE OrgId = ? AND IsDeleted = 0 LIMIT 1`,
+      [caller.TenantId]
+    );
+    if (role == null) {
+      return null;
+    }
+
+    return await this.unitOfWork.raw<PermissionGrant[]>(
+      `
+      SELECT r.Permissions, a.DepartmentId, a.PositionId
+      FROM ${TableNames.OrgRoleAssignment} a
+      INNER JOIN ${TableNames.OrgRole} r ON r.Uid = a.OrgRoleId AND r.IsDeleted = 0
+      WHERE a.UserId = ? AND a.OrgId = ? AND a.IsDeleted = 0
+      `,
+      [caller.UserId, caller.TenantId]
+    );
+  }
+
+  private parsePermissions(grant: PermissionGrant): Permission[] {
+    return JSON.parse(grant.Permissions || "[]") as Permission[];
+  }
+
+  private async getDepartmentId(positionId: string): Promise<string | null> {
+    const [position] = await this.unitOfWork.raw<
+      { DepartmentId: string | null }[]
+    >(`SELECT DepartmentId FROM ${TableNames.Position} WHERE Uid = ? LIMIT 1`, [
+      positionId,
+    ]);
+    return position?.DepartmentId ?? null;
+  }
+
+  //#endregion
+}
@@ -0,0 +1,51 @@
+import { Permission } from "@/data/enums/permission";
+
+/**
+ * Department and position a record belongs to
+ * An undefined DepartmentId is looked up from the position
+ */
+export interface PermissionTarget {
+  DepartmentId?: string | null;
+  PositionId?: string | null;
+}
+
+/**
+ * SQL condition limiting a query to the records in scope
+ */
+export interface PermissionCondition {
+  Sql: string;
+  Bindings: string[];
+}
+
+/**
+ * Permissions a service requires on its read and write paths
+ */
+export interface ServicePermissions {
+  Read?: Permission;
+  Write?: Permission;
+}
+
+/**
+ * Where a permission applies for the caller
+ */
+export class PermissionScope {
+  All: boolean = false;
+  DepartmentIds: string[] = [];
+  PositionIds: string[] = [];
+
+  static all(): PermissionScope {
+    return Object.assign(new PermissionScope(), { All: true });
+  }
+
+  /**
+   * Whether a record is in scope
+   * @param target Department and position of the record
+   */
+  includes(target: PermissionTarget): boolean {
+    return (
+      this.All ||
+      (!!target.PositionId && this.PositionIds.includes(target.PositionId)) ||
+      (!!target.DepartmentId && this.DepartmentIds.includes(target.DepartmentId))
+    );
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * File storage module main export
+ * @remarks
+ * Provides a storage abstraction with swappable backends selected by configuration.
+ * Ships with a local-disk implementation.
+ *
+ * @example
+ * ```typescript
+ * import { StorageProviderFactory } from '@/storage';
+ *
+ * const storage = StorageProviderFactory.createProvider("local", { LocalPath: "uploads" });
+ * await storage.save("org/2026/10/file.pdf", buffer, "application/pdf");
+ * ```
+ */
+export { StorageProviderFactory } from "./storage-provider.factory";
+export { LocalStorageProvider } from "./providers/local-storage.provider";
+export { IStorageProvider } from "./interfaces/storage-provider.interface";
+export { StorageProviderType } from "./types/enums";
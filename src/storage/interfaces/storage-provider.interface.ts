@@ -0,0 +1,41 @@
+import { StorageProviderType } from "../types/enums";
+
+/**
+ * Interface for file storage implementations
+ * @remarks
+ * Files are addressed by a storage key (a relative, "/"-separated path).
+ * Following the Strategy Pattern so the backend can be swapped through configuration
+ */
+export interface IStorageProvider {
+  /**
+   * Backend this provider stores files in
+   */
+  readonly Type: StorageProviderType;
+
+  /**
+   * Stores a file, replacing any file with the same key
+   * @param key - Storage key of the file
+   * @param content - File content
+   * @param contentType - MIME type of the file
+   */
+  save(key: string, content: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Reads a file
+   * @param key - Storage key of the file
+   * @throws {Error} When the file does not exist
+   */
+  read(key: string): Promise<Buffer>;
+
+  /**
+   * Deletes a file - does nothing when the file does not exist
+   * @param key - Storage key of the file
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Checks whether a file exists
+   * @param key - Storage key of the file
+   */
+  exists(key: string): Promise<boolean>;
+}
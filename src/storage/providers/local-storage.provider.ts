@@ -0,0 +1,53 @@
+import * as path from "path";
+import * as fs from "fs";
+import { FileHelper } from "@/core/utils/file.utils";
+import { IStorageProvider } from "../interfaces/storage-provider.interface";
+import { StorageProviderType } from "../types/enums";
+
+/**
+ * Stores files on the local disk below a root directory
+ */
+export class LocalStorageProvider implements IStorageProvider {
+  readonly Type = StorageProviderType.Local;
+
+  private readonly rootDir: string;
+
+  /**
+   * @param rootDir - Directory files are stored in, relative to the working directory or absolute
+   */
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(process.cwd(), rootDir);
+  }
+
+  async save(key: string, content: Buffer, contentType: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await FileHelper.ensureDir(path.dirname(filePath));
+    await fs.promises.writeFile(filePath, content);
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return await fs.promises.readFile(this.resolve(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    const filePath = this.resolve(key);
+    if (await FileHelper.exists(filePath)) {
+      await FileHelper.delete(filePath);
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return await FileHelper.exists(this.resolve(key));
+  }
+
+  /**
+   * Maps a storage key to a path, refusing keys that escape the root directory
+   */
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
@@ -0,0 +1,34 @@
+import { IStorageProvider } from "./interfaces/storage-provider.interface";
+import { LocalStorageProvider } from "./providers/local-storage.provider";
+import { StorageProviderType } from "./types/enums";
+
+/**
+ * Static factory class for creating storage provider instances
+ */
+export class StorageProviderFactory {
+  private constructor() {
+    // Prevent instantiation
+  }
+
+  /**
+   * Creates the storage provider for a backend type
+   * @param type - Backend type (see StorageProviderType)
+   * @param options - Backend settings (LocalPath for the local disk)
+   * @throws {Error} When the backend type is not supported
+   * @example
+   * ```typescript
+   * const storage = StorageProviderFactory.createProvider("local", { LocalPath: "uploads" });
+   * ```
+   */
+  static createProvider(
+    type: string,
+    options: { LocalPath: string },
+  ): IStorageProvider {
+    switch (type) {
+      case StorageProviderType.Local:
+        return new LocalStorageProvider(options.LocalPath);
+      default:
+        throw new Error(`Unsupported storage provider: ${type}`);
+    }
+  }
+}
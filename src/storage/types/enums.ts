@@ -0,0 +1,6 @@
+/**
+ * Supported file storage backends
+ */
+export enum StorageProviderType {
+  Local = "local",
+}
@@ -0,0 +1,102 @@
+import { CalendarEvent, CalendarHelper } from "@/core/helper/calendar.helper";
+
+const event = (overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+  Uid: "interview-1@recruitment",
+  Sequence: 2,
+  Start: new Date("2026-10-19T09:30:00Z"),
+  End: new Date("2026-10-19T10:15:00Z"),
+  Summary: "Technical interview",
+  Organizer: { Email: "recruiter@example.com", Name: "Recruiter" },
+  Attendees: [{ Email: "candidate@example.com" }],
+  ...overrides,
+});
+
+describe("CalendarHelper", () => {
+  describe("formatDate", () => {
+    it("writes a UTC date-time without separators or milliseconds", () => {
+      expect(CalendarHelper.formatDate(new Date("2026-10-19T09:30:05.123Z"))).toBe(
+        "20261019T093005Z",
+      );
+    });
+  });
+
+  describe("escapeText", () => {
+    it("escapes backslashes, semicolons and commas", () => {
+      expect(CalendarHelper.escapeText("a\\b;c,d")).toBe("a\\\\b\\;c\\,d");
+    });
+
+    it("escapes every kind of line break", () => {
+      expect(CalendarHelper.escapeText("a\r\nb\nc\rd")).toBe("a\\nb\\nc\\nd");
+    });
+  });
+
+  describe("createEvent", () => {
+    it("builds a CRLF-terminated invitation", () => {
+      const ics = CalendarHelper.createEvent(event(), "REQUEST");
+      const lines = ics.replace(/\r\n /g, "").split("\r\n");
+
+      expect(ics.endsWith("\r\n")).toBe(true);
+      expect(lines[0]).toBe("BEGIN:VCALENDAR");
+      expect(lines).toEqual(
+        expect.arrayContaining([
+          "METHOD:REQUEST",
+          "UID:interview-1@recruitment",
+          "SEQUENCE:2",
+          "DTSTART:20261019T093000Z",
+          "DTEND:20261019T101500Z",
+          "SUMMARY:Technical interview",
+          "STATUS:CONFIRMED",
+          'ORGANIZER;CN="Recruiter":mailto:recruiter@example.com',
+          "ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:candidate@example.com",
+          "END:VCALENDAR",
+        ]),
+      );
+    });
+
+    it("marks cancellations as cancelled", () => {
+      const lines = CalendarHelper.createEvent(event(), "CANCEL").split("\r\n");
+
+      expect(lines).toContain("METHOD:CANCEL");
+      expect(lines).toContain("STATUS:CANCELLED");
+    });
+
+    it("writes the optional properties only when they are set", () => {
+      const without = CalendarHelper.createEvent(event(), "REQUEST");
+      const withAll = CalendarHelper.createEvent(
+        event({
+          Description: "Bring, your; laptop",
+          Location: "Room 4",
+          Url: "https://meet.example.com/abc",
+        }),
+        "REQUEST",
+      ).split("\r\n");
+
+      expect(without).not.toMatch(/DESCRIPTION|LOCATION|URL:/);
+      expect(withAll).toContain("DESCRIPTION:Bring\\, your\\; laptop");
+      expect(withAll).toContain("LOCATION:Room 4");
+      expect(withAll).toContain("URL:https://meet.example.com/abc");
+    });
+
+    it("strips quotes and line breaks from common names", () => {
+      const ics = CalendarHelper.createEvent(
+        event({ Attendees: [{ Email: "c@example.com", Name: 'Jo "J"\r\nDoe' }] }),
+        "REQUEST",
+      );
+
+      expect(ics).toContain('ATTENDEE;CN="Jo JDoe";');
+    });
+
+    it("folds long lines at 75 octets without splitting characters", () => {
+      const ics = CalendarHelper.createEvent(
+        event({ Summary: "é".repeat(100) }),
+        "REQUEST",
+      );
+      const lines = ics.split("\r\n");
+
+      for (const line of lines) {
+        expect(Buffer.byteLength(line, "utf8")).toBeLessThanOrEqual(75);
+      }
+      expect(ics.replace(/\r\n /g, "")).toContain(`SUMMARY:${"é".repeat(100)}`);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { FormValidationHelper } from "@/core/helper/form-validation.helper";
+
+describe("FormValidationHelper.getPatternErrors", () => {
+  it.each([undefined, null, ""])("accepts an unset pattern (%p)", (pattern) => {
+    expect(FormValidationHelper.getPatternErrors(pattern)).toEqual([]);
+  });
+
+  it.each([
+    "^[A-Z]{2}\\d{6}$",
+    "^(\\+|00)?\\d+$",
+    "^(a|b)*$",
+    "^([a-z0-9]|-)+$",
+    "^(?<code>[A-Z]|\\d)+$",
+    "^(\\s|-)+$",
+  ])("accepts %s", (pattern) => {
+    expect(FormValidationHelper.getPatternErrors(pattern)).toEqual([]);
+  });
+
+  it("rejects patterns longer than 200 characters", () => {
+    expect(FormValidationHelper.getPatternErrors("a".repeat(201))).toEqual([
+      "Pattern must be at most 200 characters",
+    ]);
+  });
+
+  it("rejects invalid regular expressions", () => {
+    expect(FormValidationHelper.getPatternErrors("([a-z]")).toEqual([
+      "Pattern is not a valid regular expression",
+    ]);
+  });
+
+  it.each(["^(a)\\1$", "^(?<x>a)\\k<x>$"])("rejects the backreference in %s", (pattern) => {
+    expect(FormValidationHelper.getPatternErrors(pattern)).toEqual([
+      "Pattern cannot use backreferences",
+    ]);
+  });
+
+  it.each(["^(a+)+$", "^(\\d*)*$", "^([a-z]+\\.?){2,}$", "^(\\.[a-z]+)*$"])(
+    "rejects the nested quantifier in %s",
+    (pattern) => {
+      expect(FormValidationHelper.getPatternErrors(pattern)).toEqual([
+        "Pattern cannot repeat a group that itself repeats",
+      ]);
+    },
+  );
+
+  it.each([
+    "^(a|a)*$",
+    "(\\w|\\d)+$",
+    "^(?:ab|ac)+$",
+    "^((a|a)b)*$",
+    "^(a|)*$",
+    "^(a?b|b)*$",
+    "^(x|[a-z])+$",
+    "^(\\u0041|A)+$",
+    "^([^a]|b)+$",
+  ])("rejects the overlapping alternatives in %s", (pattern) => {
+    expect(FormValidationHelper.getPatternErrors(pattern)).toEqual([
+      "Pattern cannot repeat a group whose alternatives can match the same text",
+    ]);
+  });
+});
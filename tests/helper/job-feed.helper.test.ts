@@ -0,0 +1,167 @@
+import {
+  JobFeedHelper,
+  JobFeedOrganization,
+  JobFeedPosting,
+} from "@/core/helper/job-feed.helper";
+import { EmploymentType } from "@/data/enums/employment_type";
+import { RemoteType } from "@/data/enums/remote_type";
+
+const organization: JobFeedOrganization = {
+  Uid: "org-1",
+  Name: "Acme & Sons",
+  OrgSite: "https://acme.example.com",
+  LogoUrl: "https://acme.example.com/logo.png",
+  Url: "https://jobs.example.com/acme",
+};
+
+const posting = (overrides: Partial<JobFeedPosting> = {}): JobFeedPosting => ({
+  Uid: "position-1",
+  Name: "Backend <Engineer>",
+  Description: "Build APIs ]]> and more",
+  Department: "Engineering",
+  Location: "Berlin",
+  RemoteType: RemoteType.Hybrid,
+  EmploymentType: EmploymentType.FullTime,
+  SalaryMin: 60000,
+  SalaryMax: 80000,
+  SalaryCurrency: "EUR",
+  PostedOn: new Date("2026-10-01T08:00:00Z"),
+  CloseOn: new Date("2026-11-01T00:00:00Z"),
+  Url: "https://jobs.example.com/acme/position-1",
+  ...overrides,
+});
+
+const lastModified = new Date("2026-10-19T12:00:00Z");
+
+describe("JobFeedHelper", () => {
+  describe("toXml", () => {
+    it("writes each posting as a job with CDATA text", () => {
+      const xml = JobFeedHelper.toXml(organization, [posting()], lastModified);
+
+      expect(xml.startsWith('<?xml version="1.0" encoding="utf-8"?>\n<source>')).toBe(true);
+      expect(xml).toContain("<publisher>Acme &amp; Sons</publisher>");
+      expect(xml).toContain("<publisherurl>https://acme.example.com</publisherurl>");
+      expect(xml).toContain(`<lastBuildDate>${lastModified.toUTCString()}</lastBuildDate>`);
+      expect(xml).toContain("<title><![CDATA[Backend <Engineer>]]></title>");
+      expect(xml).toContain("<salary><![CDATA[EUR 60,000 - 80,000 per year]]></salary>");
+      expect(xml).toContain("<jobtype><![CDATA[fulltime]]></jobtype>");
+      expect(xml).toContain("<remotetype><![CDATA[Hybrid remote]]></remotetype>");
+    });
+
+    it("splits ]]> across two CDATA sections", () => {
+      const xml = JobFeedHelper.toXml(organization, [posting()], lastModified);
+
+      expect(xml).toContain(
+        "<description><![CDATA[Build APIs ]]]]><![CDATA[> and more]]></description>",
+      );
+    });
+
+    it("leaves out empty fields", () => {
+      const xml = JobFeedHelper.toXml(
+        { ...organization, OrgSite: null },
+        [
+          posting({
+            Location: null,
+            Department: null,
+            RemoteType: RemoteType.OnSite,
+            SalaryCurrency: null,
+            CloseOn: null,
+          }),
+        ],
+        lastModified,
+      );
+
+      expect(xml).toContain("<publisherurl>https://jobs.example.com/acme</publisherurl>");
+      expect(xml).not.toMatch(/<(city|category|remotetype|salary|expirationdate)>/);
+    });
+
+    it("writes a single salary when the range is open or equal", () => {
+      const open = JobFeedHelper.toXml(organization, [posting({ SalaryMax: null })], lastModified);
+      const equal = JobFeedHelper.toXml(
+        organization,
+        [posting({ SalaryMax: 60000 })],
+        lastModified,
+      );
+
+      expect(open).toContain("<![CDATA[EUR 60,000 per year]]>");
+      expect(equal).toContain("<![CDATA[EUR 60,000 per year]]>");
+    });
+  });
+
+  describe("toRss", () => {
+    it("writes each posting as an escaped item", () => {
+      const rss = JobFeedHelper.toRss(organization, [posting()], lastModified);
+
+      expect(rss).toContain('<rss version="2.0">');
+      expect(rss).toContain("<title>Acme &amp; Sons - Jobs</title>");
+      expect(rss).toContain("<title>Backend &lt;Engineer&gt;</title>");
+      expect(rss).toContain('<guid isPermaLink="false">position-1</guid>');
+      expect(rss).toContain("<category>Engineering</category>");
+      expect(rss).toContain("<description>Build APIs ]]&gt; and more</description>");
+    });
+
+    it("leaves out the category of postings without a department", () => {
+      const rss = JobFeedHelper.toRss(
+        organization,
+        [posting({ Department: null })],
+        lastModified,
+      );
+
+      expect(rss).not.toContain("<category>");
+    });
+  });
+
+  describe("toJobPosting", () => {
+    it("builds the schema.org JobPosting of a posting", () => {
+      expect(JobFeedHelper.toJobPosting(organization, posting())).toEqual({
+        "@context": "https://schema.org/",
+        "@type": "JobPosting",
+        title: "Backend <Engineer>",
+        description: "Build APIs ]]> and more",
+        identifier: { "@type": "PropertyValue", name: "Acme & Sons", value: "position-1" },
+        datePosted: "2026-10-01T08:00:00.000Z",
+        validThrough: "2026-11-01T00:00:00.000Z",
+        employmentType: "FULL_TIME",
+        hiringOrganization: {
+          "@type": "Organization",
+          name: "Acme & Sons",
+          sameAs: "https://acme.example.com",
+          logo: "https://acme.example.com/logo.png",
+        },
+        occupationalCategory: "Engineering",
+        jobLocation: {
+          "@type": "Place",
+          address: { "@type": "PostalAddress", addressLocality: "Berlin" },
+        },
+        baseSalary: {
+          "@type": "MonetaryAmount",
+          currency: "EUR",
+          value: {
+            "@type": "QuantitativeValue",
+            minValue: 60000,
+            maxValue: 80000,
+            unitText: "YEAR",
+          },
+        },
+        directApply: true,
+        url: "https://jobs.example.com/acme/position-1",
+      });
+    });
+
+    it("marks remote postings as telecommute", () => {
+      const jobPosting = JobFeedHelper.toJobPosting(
+        organization,
+        posting({ RemoteType: RemoteType.Remote, Location: null }),
+      );
+
+      expect(jobPosting.jobLocationType).toBe("TELECOMMUTE");
+      expect(jobPosting).not.toHaveProperty("jobLocation");
+    });
+
+    it("leaves out the salary when there is no currency", () => {
+      expect(
+        JobFeedHelper.toJobPosting(organization, posting({ SalaryCurrency: null })),
+      ).not.toHaveProperty("baseSalary");
+    });
+  });
+});
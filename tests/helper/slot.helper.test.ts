@@ -0,0 +1,120 @@
+import { SlotHelper, TimeInterval } from "@/core/helper/slot.helper";
+
+const at = (time: string) => new Date(`2026-10-19T${time}:00Z`);
+
+const interval = (start: string, end: string): TimeInterval => ({
+  Start: at(start),
+  End: at(end),
+});
+
+describe("SlotHelper", () => {
+  describe("merge", () => {
+    it("sorts intervals and merges the ones that overlap or touch", () => {
+      expect(
+        SlotHelper.merge([
+          interval("13:00", "14:00"),
+          interval("09:00", "10:00"),
+          interval("09:30", "11:00"),
+          interval("11:00", "12:00"),
+        ]),
+      ).toEqual([interval("09:00", "12:00"), interval("13:00", "14:00")]);
+    });
+
+    it("drops empty intervals", () => {
+      expect(SlotHelper.merge([interval("09:00", "09:00")])).toEqual([]);
+    });
+
+    it("does not change its input", () => {
+      const input = [interval("09:00", "10:00"), interval("09:30", "11:00")];
+      SlotHelper.merge(input);
+
+      expect(input).toEqual([interval("09:00", "10:00"), interval("09:30", "11:00")]);
+    });
+  });
+
+  describe("subtract", () => {
+    it("removes busy time from free time", () => {
+      expect(
+        SlotHelper.subtract(
+          [interval("09:00", "17:00")],
+          [interval("10:00", "11:00"), interval("12:00", "13:00")],
+        ),
+      ).toEqual([
+        interval("09:00", "10:00"),
+        interval("11:00", "12:00"),
+        interval("13:00", "17:00"),
+      ]);
+    });
+
+    it("handles busy time covering the edges of the free time", () => {
+      expect(
+        SlotHelper.subtract(
+          [interval("09:00", "12:00")],
+          [interval("08:00", "09:30"), interval("11:30", "13:00")],
+        ),
+      ).toEqual([interval("09:30", "11:30")]);
+    });
+
+    it("returns nothing when the free time is fully busy", () => {
+      expect(
+        SlotHelper.subtract([interval("09:00", "10:00")], [interval("08:00", "11:00")]),
+      ).toEqual([]);
+    });
+  });
+
+  describe("intersect", () => {
+    it("keeps only the time covered by both lists", () => {
+      expect(
+        SlotHelper.intersect(
+          [interval("09:00", "12:00"), interval("13:00", "17:00")],
+          [interval("11:00", "14:00"), interval("16:00", "18:00")],
+        ),
+      ).toEqual([
+        interval("11:00", "12:00"),
+        interval("13:00", "14:00"),
+        interval("16:00", "17:00"),
+      ]);
+    });
+
+    it("does not return back-to-back intervals as overlapping", () => {
+      expect(
+        SlotHelper.intersect([interval("09:00", "10:00")], [interval("10:00", "11:00")]),
+      ).toEqual([]);
+    });
+  });
+
+  describe("toSlots", () => {
+    it("cuts free time into slots starting on the step", () => {
+      expect(
+        SlotHelper.toSlots([interval("09:10", "11:00")], 45, 30, at("00:00"), 10),
+      ).toEqual([interval("09:30", "10:15"), interval("10:00", "10:45")]);
+    });
+
+    it("skips slots starting before notBefore", () => {
+      expect(
+        SlotHelper.toSlots([interval("09:00", "11:00")], 60, 60, at("09:01"), 10),
+      ).toEqual([interval("10:00", "11:00")]);
+    });
+
+    it("returns at most limit slots", () => {
+      expect(
+        SlotHelper.toSlots([interval("09:00", "17:00")], 30, 30, at("00:00"), 3),
+      ).toHaveLength(3);
+    });
+  });
+
+  describe("parseTimeOfDay", () => {
+    it.each([
+      ["00:00", 0],
+      ["09:30", 570],
+      ["23:59", 1439],
+      ["24:00", 1440],
+    ])("parses %s", (value, minutes) => {
+      expect(SlotHelper.parseTimeOfDay(value)).toBe(minutes);
+    });
+
+    it.each(["24:01", "9:30", "12:60", "noon", ""])("rejects %p", (value) => {
+      expect(SlotHelper.parseTimeOfDay(value)).toBeNull();
+    });
+  });
+});
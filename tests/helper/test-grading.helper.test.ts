@@ -0,0 +1,126 @@
+import { TestGradingHelper } from "@/core/helper/test-grading.helper";
+import { ConditionOperator } from "@/data/enums/condition";
+import { FieldType } from "@/data/enums/field_type";
+import { Options } from "@/data/entities/options";
+import {
+  FormFieldResult,
+  FormSectionResult,
+  FormTemplateResult,
+} from "@/data/results/form_template_result";
+
+const option = (value: string, isCorrect = false): Options =>
+  Object.assign(new Options(), { Name: value, Value: value, IsCorrect: isCorrect });
+
+const field = (overrides: Partial<FormFieldResult>): FormFieldResult =>
+  Object.assign(new FormFieldResult(), overrides);
+
+const template = (fields: FormFieldResult[]): FormTemplateResult =>
+  Object.assign(new FormTemplateResult(), {
+    Sections: [Object.assign(new FormSectionResult(), { Fields: fields })],
+  });
+
+const testTemplate = template([
+  field({
+    Name: "capital",
+    Type: FieldType.Radio,
+    Points: 2,
+    Options: [option("paris", true), option("lyon")],
+  }),
+  field({
+    Name: "primes",
+    Type: FieldType.Checkbox,
+    Points: 3,
+    Options: [option("2", true), option("3", true), option("4")],
+  }),
+  field({ Name: "answer", Type: FieldType.Number, Points: 1, CorrectAnswer: "42" }),
+  field({ Name: "language", Type: FieldType.Text, Points: 1, CorrectAnswer: "TypeScript" }),
+  field({ Name: "essay", Type: FieldType.TextArea, Points: 5 }),
+  field({ Name: "name", Type: FieldType.Text }),
+]);
+
+describe("TestGradingHelper", () => {
+  describe("grade", () => {
+    it("awards the points of correct answers", () => {
+      const grade = TestGradingHelper.grade(testTemplate, {
+        capital: "paris",
+        primes: ["3", "2"],
+        answer: "42.0",
+        language: "  typescript ",
+      });
+
+      expect(grade.Score).toBe(7);
+      expect(grade.MaxScore).toBe(7);
+      expect(grade.Questions.map((q) => [q.Name, q.Awarded, q.IsCorrect])).toEqual([
+        ["capital", 2, true],
+        ["primes", 3, true],
+        ["answer", 1, true],
+        ["language", 1, true],
+        ["essay", 0, null],
+      ]);
+    });
+
+    it("awards nothing for wrong or missing answers", () => {
+      const grade = TestGradingHelper.grade(testTemplate, {
+        capital: "lyon",
+        primes: ["2"],
+        answer: "forty-two",
+      });
+
+      expect(grade.Score).toBe(0);
+      expect(grade.Questions.filter((q) => q.IsCorrect === false)).toHaveLength(4);
+    });
+
+    it("requires every correct choice and no wrong ones", () => {
+      const grade = TestGradingHelper.grade(testTemplate, { primes: ["2", "3", "4"] });
+
+      expect(grade.Questions.find((q) => q.Name === "primes")?.IsCorrect).toBe(false);
+    });
+
+    it("leaves questions without an answer key for review", () => {
+      const grade = TestGradingHelper.grade(testTemplate, { essay: "..." });
+
+      expect(grade.RequiresReview).toBe(true);
+      expect(grade.MaxScore).toBe(7);
+    });
+
+    it("does not grade hidden questions", () => {
+      const conditional = template([
+        field({ Name: "experienced", Type: FieldType.Text }),
+        field({
+          Name: "years",
+          Type: FieldType.Number,
+          Points: 1,
+          CorrectAnswer: "5",
+          Conditions: JSON.stringify({
+            Rules: [{ Field: "experienced", Operator: ConditionOperator.Equals, Value: "yes" }],
+          }),
+        }),
+      ]);
+
+      expect(TestGradingHelper.grade(conditional, { experienced: "no" })).toEqual({
+        Score: 0,
+        MaxScore: 0,
+        RequiresReview: false,
+        Questions: [],
+      });
+    });
+  });
+
+  describe("withoutAnswers", () => {
+    it("removes the answer key", () => {
+      const copy = TestGradingHelper.withoutAnswers(testTemplate);
+      const fields = copy.Sections[0].Fields;
+
+      expect(fields.some((f) => "CorrectAnswer" in f)).toBe(false);
+      expect(fields.flatMap((f) => f.Options).some((o) => "IsCorrect" in o)).toBe(false);
+      expect(fields.map((f) => f.Name)).toEqual(testTemplate.Sections[0].Fields.map((f) => f.Name));
+    });
+
+    it("does not change the template", () => {
+      TestGradingHelper.withoutAnswers(testTemplate);
+
+      expect(testTemplate.Sections[0].Fields[2].CorrectAnswer).toBe("42");
+      expect(testTemplate.Sections[0].Fields[0].Options[0].IsCorrect).toBe(true);
+    });
+  });
+});